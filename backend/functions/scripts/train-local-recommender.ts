@@ -0,0 +1,202 @@
+/**
+ * Train the offline activity recommender (multinomial logistic regression) and export it to JSON
+ *
+ *   npm run train:recommender -- --csv path/to/automl-training.csv [--target Activity]
+ *   npm run train:recommender -- --synthetic [--rows 5000] [--seed 42]
+ *
+ * The CSV must have the ten model feature columns (Mood, SleepHours, ...) used by the AutoML
+ * dataset plus the target column. Without a dataset export, --synthetic generates rows labelled by
+ * hand-written rules so development and emulator demos have a model to run - a model trained on
+ * them only imitates those rules.
+ */
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { config } from '../src/config';
+import { WELLNESS_QUESTIONNAIRE } from '../src/questionnaire';
+import { LocalModelDefinition, ModelInstance } from '../src/types/recommendation.types';
+
+const OUTPUT_PATH = join(__dirname, '../src/services/recommendation/activity-recommender.model.json');
+const EPOCHS = 500;
+const LEARNING_RATE = 0.5;
+const L2 = 0.001;
+
+interface LabelledRow {
+  instance: ModelInstance;
+  label: string;
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      const next = argv[i + 1];
+      args[argv[i].slice(2)] = next && !next.startsWith('--') ? argv[++i] : 'true';
+    }
+  }
+  return args;
+}
+
+// Deterministic PRNG so the synthetic model is reproducible
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function readCsv(path: string, target: string): LabelledRow[] {
+  const [header, ...lines] = readFileSync(path, 'utf8').split(/\r?\n/).filter(line => line.trim());
+  const columns = header.split(',').map(column => column.trim());
+  const targetIndex = columns.indexOf(target);
+  if (targetIndex === -1) {
+    throw new Error(`Target column "${target}" not found in ${path}`);
+  }
+
+  return lines.map(line => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const instance: ModelInstance = {};
+    WELLNESS_QUESTIONNAIRE.questions.forEach(question => {
+      instance[question.modelFeature] = cells[columns.indexOf(question.modelFeature)] ?? '';
+    });
+    return { instance, label: cells[targetIndex] };
+  });
+}
+
+/**
+ * Synthetic rows labelled by hand-written rules - a weighted version of the mood-based fallback
+ * rules in AutoMLService, with noise. Not derived from any real data.
+ */
+function generateSyntheticRows(rows: number, random: () => number): LabelledRow[] {
+  const pick = (values: string[]) => values[Math.floor(random() * values.length)];
+  // Gumbel noise keeps the classes overlapping like real answers do
+  const noise = () => -Math.log(-Math.log(random() || 1e-12)) * 0.7;
+
+  return Array.from({ length: rows }, () => {
+    const instance: ModelInstance = {};
+    WELLNESS_QUESTIONNAIRE.questions.forEach(question => {
+      instance[question.modelFeature] = pick(question.allowedValues);
+    });
+    const sleep = Number(instance.SleepHours);
+    const is = (feature: string, ...values: string[]) => (values.includes(instance[feature]) ? 1 : 0);
+
+    const scores: Record<string, number> = {
+      'Professional Help': 2 * is('WillingForProfessionalHelp', 'Yes') + 1.5 * is('Mood', 'Sad') +
+        is('Loneliness', 'Often') + is('SocialSupport', 'Weak') + (sleep <= 4 ? 0.5 : 0) - 1.5,
+      'Journaling': 2 * is('OpennessToJournaling', 'Yes') + 0.5 * is('Mood', 'Anxious', 'Neutral') +
+        is('HobbiesInterest', 'Reading') + 0.3 * is('ConfidenceLevel', 'Medium') - 1,
+      'Goal Setting': 1.5 * is('AcademicPressure', 'High') + is('ConfidenceLevel', 'Low') +
+        0.5 * is('StressLevel', 'Medium') - 0.5,
+      'Hobbies Wanderlust': 1.5 * is('HobbiesInterest', 'Sports', 'Travel', 'Art', 'Music') + 0.5 * is('HobbiesInterest', 'Travel') +
+        0.5 * is('Mood', 'Happy', 'Neutral') + 0.5 * is('Loneliness', 'Sometimes') - 1,
+      'Meditation and Yoga': 1.5 * is('StressLevel', 'High') + is('Mood', 'Anxious', 'Stressed') + (sleep <= 5 ? 0.7 : 0) - 1,
+      'Personalized Goal Tracker': 0.8 * is('ConfidenceLevel', 'High', 'Medium') + 0.8 * is('AcademicPressure', 'Medium') +
+        0.8 * is('Mood', 'Happy') + 0.5 * is('SocialSupport', 'Strong') - 0.8
+    };
+
+    const label = Object.entries(scores)
+      .map(([activity, score]) => [activity, score + noise()] as [string, number])
+      .reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+    return { instance, label };
+  });
+}
+
+function softmax(logits: number[]): number[] {
+  const max = Math.max(...logits);
+  const exps = logits.map(logit => Math.exp(logit - max));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  return exps.map(value => value / sum);
+}
+
+function train(rows: LabelledRow[], source: string): LocalModelDefinition {
+  const classes = [...config.activities];
+  const features = WELLNESS_QUESTIONNAIRE.questions.map(question => ({ name: question.modelFeature, values: question.allowedValues }));
+  // Column index of every feature=value pair in the one-hot design
+  const columns = features.flatMap(feature => feature.values.map(value => `${feature.name}=${value}`));
+  const columnIndex = new Map(columns.map((column, index) => [column, index]));
+
+  const encoded = rows
+    .filter(row => classes.includes(row.label))
+    .map(row => ({
+      active: features
+        .map(feature => columnIndex.get(`${feature.name}=${row.instance[feature.name]}`))
+        .filter((index): index is number => index !== undefined),
+      target: classes.indexOf(row.label)
+    }));
+  if (encoded.length === 0) {
+    throw new Error('No rows with a known activity label');
+  }
+
+  const intercepts = classes.map(() => 0);
+  const weights = columns.map(() => classes.map(() => 0));
+  const logitsFor = (active: number[]) => classes.map((_, c) => intercepts[c] + active.reduce((sum, column) => sum + weights[column][c], 0));
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const interceptGradient = classes.map(() => 0);
+    const weightGradient = columns.map(() => classes.map(() => 0));
+
+    for (const { active, target } of encoded) {
+      const probabilities = softmax(logitsFor(active));
+      probabilities.forEach((probability, c) => {
+        const error = probability - (c === target ? 1 : 0);
+        interceptGradient[c] += error;
+        active.forEach(column => {
+          weightGradient[column][c] += error;
+        });
+      });
+    }
+
+    classes.forEach((_, c) => {
+      intercepts[c] -= LEARNING_RATE * interceptGradient[c] / encoded.length;
+      columns.forEach((__, column) => {
+        weights[column][c] -= LEARNING_RATE * (weightGradient[column][c] / encoded.length + L2 * weights[column][c]);
+      });
+    });
+  }
+
+  const correct = encoded.filter(({ active, target }) => {
+    const probabilities = softmax(logitsFor(active));
+    return probabilities.indexOf(Math.max(...probabilities)) === target;
+  }).length;
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return {
+    format: 'multinomial-logistic/v1',
+    version: `${WELLNESS_QUESTIONNAIRE.version}+${new Date().toISOString().slice(0, 10)}`,
+    trainedOn: {
+      source,
+      rows: encoded.length,
+      trainingAccuracy: round(correct / encoded.length),
+      trainedAt: new Date().toISOString()
+    },
+    classes,
+    features,
+    intercepts: intercepts.map(round),
+    weights: Object.fromEntries(features.map(feature => [
+      feature.name,
+      Object.fromEntries(feature.values.map(value => [value, weights[columnIndex.get(`${feature.name}=${value}`)!].map(round)]))
+    ]))
+  };
+}
+
+const args = parseArgs(process.argv.slice(2));
+let rows: LabelledRow[];
+let source: string;
+if (args.csv) {
+  rows = readCsv(args.csv, args.target || 'Activity');
+  source = `csv:${args.csv.split(/[\\/]/).pop()}`;
+} else if (args.synthetic) {
+  const seed = Number(args.seed || 42);
+  rows = generateSyntheticRows(Number(args.rows || 5000), mulberry32(seed));
+  source = `synthetic-rules:seed=${seed}`;
+} else {
+  console.error('Usage: train-local-recommender --csv <file> [--target <column>] | --synthetic [--rows <n>] [--seed <n>]');
+  process.exit(1);
+}
+
+const model = train(rows, source);
+writeFileSync(OUTPUT_PATH, JSON.stringify(model, null, 2) + '\n');
+console.log(`Wrote ${OUTPUT_PATH}`, { rows: model.trainedOn.rows, trainingAccuracy: model.trainedOn.trainingAccuracy });
@@ -15,7 +15,10 @@ export const config = {
     endpoint: process.env.AUTOML_ENDPOINT || 'YOUR_AUTOML_ENDPOINT_URL_HERE',
     modelId: process.env.AUTOML_MODEL_ID || 'YOUR_AUTOML_MODEL_ID_HERE',
     projectId: process.env.PROJECT_ID || 'YOUR_GOOGLE_CLOUD_PROJECT_ID_HERE',
-    region: process.env.REGION || 'YOUR_MODEL_REGION_HERE'
+    region: process.env.REGION || 'YOUR_MODEL_REGION_HERE',
+    // Recommendation model: 'vertex' (deployed AutoML endpoint, rules when it fails) or 'local'
+    // (experimental offline JSON model - it only imitates hand-written rules, see README; development only)
+    model: process.env.RECOMMENDATION_MODEL || 'vertex'
   },
   
   // Service Account Configuration - Uses environment variables for security
@@ -26,20 +29,8 @@ export const config = {
     privateKey: process.env.SERVICE_ACCOUNT_PRIVATE_KEY || 'YOUR_SERVICE_ACCOUNT_PRIVATE_KEY_HERE'
   },
   
-  // Wellness Data Schema (matching your AutoML model)
-  wellnessSchema: {
-    mood: ['Happy', 'Sad', 'Anxious', 'Stressed', 'Angry', 'Calm', 'Neutral'],
-    sleepHours: { min: 0, max: 24, default: 7 },
-    stressLevel: { min: 1, max: 10, default: 5 },
-    academicPressure: { min: 1, max: 10, default: 5 },
-    socialSupport: { min: 1, max: 10, default: 5 },
-    loneliness: { min: 1, max: 10, default: 5 },
-    confidenceLevel: { min: 1, max: 10, default: 5 },
-    hobbiesInterest: { min: 1, max: 10, default: 5 },
-    opennessToJournaling: { min: 1, max: 10, default: 5 },
-    willingForProfessionalHelp: { min: 1, max: 10, default: 5 }
-  },
-  
+  // Wellness parameters and their allowed values live in questionnaire/wellness-questionnaire.ts
+
   // Activity Recommendations (matching your target column)
   activities: [
     'Journaling',
@@ -55,6 +46,50 @@ export const config = {
     apiKey: process.env.GOOGLE_MAPS_API_KEY || 'YOUR_GOOGLE_MAPS_API_KEY_HERE',
     defaultRadius: 50000, // 50km in meters
     maxResults: 20
+  },
+
+  // CORS Configuration - comma separated list of browser origins allowed to call the functions
+  cors: {
+    allowedOrigins: (process.env.ALLOWED_ORIGINS || [
+      'http://localhost:3000',
+      `https://${process.env.FIREBASE_PROJECT_ID || 'YOUR_PROJECT_ID'}.web.app`,
+      `https://${process.env.FIREBASE_PROJECT_ID || 'YOUR_PROJECT_ID'}.firebaseapp.com`
+    ].join(','))
+      .split(',')
+      .map(origin => origin.trim())
+      .filter(origin => origin.length > 0),
+    maxAge: 86400 // 24 hours
+  },
+
+  // LLM provider selection - 'gemini' | 'scripted' (offline, deterministic) | 'openai-compatible'
+  llm: {
+    provider: process.env.LLM_PROVIDER || 'gemini',
+    timeoutMs: 60000,
+    openaiCompatible: {
+      baseUrl: process.env.LLM_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LLM_OPENAI_API_KEY || '',
+      model: process.env.LLM_OPENAI_MODEL || 'llama3.1'
+    }
+  },
+
+  // Structured answer extraction - answers below this confidence trigger a clarification turn
+  extraction: {
+    minConfidence: Number(process.env.EXTRACTION_MIN_CONFIDENCE || 0.7)
+  },
+
+  // Chatbot questionnaire session state
+  chatSession: {
+    store: process.env.CHAT_SESSION_STORE || 'firestore', // 'firestore' | 'memory'
+    collection: 'chat_session_state',
+    idleTimeoutMinutes: Number(process.env.CHAT_SESSION_IDLE_TIMEOUT_MINUTES || 30)
+  },
+
+  // Crisis / self-harm detection run before every chat reply
+  safety: {
+    // 'off' - lexicon only, 'ambiguous' - LLM checks messages the lexicon is unsure about, 'always' - LLM checks every message
+    llmCheck: process.env.SAFETY_LLM_CHECK || 'ambiguous',
+    eventStore: process.env.SAFETY_EVENT_STORE || 'firestore', // 'firestore' | 'memory'
+    eventsCollection: 'safety_events'
   }
 };
 
@@ -10,7 +10,7 @@ export class AutoMLController {
 
   async handleRequest(req: any, res: any): Promise<void> {
     try {
-      const { features, wellnessData } = req.body;
+      const { features, wellnessData, imputedParameters } = req.body;
       
       // Accept either 'features' or 'wellnessData' for backwards compatibility
       const inputData = features || wellnessData;
@@ -24,7 +24,8 @@ export class AutoMLController {
       }
 
       const result = await this.automlService.getRecommendation({
-        features: inputData
+        features: inputData,
+        imputedParameters: Array.isArray(imputedParameters) ? imputedParameters : undefined
       });
       
       logger.info('AutoML endpoint response:', { result, type: typeof result });
@@ -1,5 +1,6 @@
 import { GeminiService } from '../services/gemini.service';
 import { GeminiRequest } from '../types';
+import { AuthenticatedUser } from '../middleware/auth.middleware';
 import * as logger from 'firebase-functions/logger';
 
 export class GeminiController {
@@ -9,9 +10,14 @@ export class GeminiController {
     this.geminiService = new GeminiService();
   }
 
-  async handleRequest(req: any, res: any): Promise<void> {
+  async handleRequest(req: any, res: any, user: AuthenticatedUser): Promise<void> {
+    if (req.query?.action === 'endSession') {
+      await this.endSession(req, res, user);
+      return;
+    }
+
     try {
-      const { message, conversationHistory, wellnessData, language = 'en' } = req.body as GeminiRequest & { language?: string };
+      const { message, conversationHistory, wellnessData, sessionId, language = 'en' } = req.body as GeminiRequest & { language?: string };
 
       if (!message) {
         res.status(400).json({ 
@@ -21,14 +27,26 @@ export class GeminiController {
         return;
       }
 
+      if (req.query?.stream === 'true') {
+        await this.handleStreamRequest(res, user, {
+          message,
+          conversationHistory: conversationHistory || [],
+          wellnessData: wellnessData || {},
+          sessionId,
+          language
+        });
+        return;
+      }
+
       logger.info('Gemini endpoint - Config validation:');
       
       const result = await this.geminiService.generateResponse({
         message,
-        conversationHistory,
-        wellnessData,
+        conversationHistory: conversationHistory || [],
+        wellnessData: wellnessData || {},
+        sessionId,
         language
-      });
+      }, user.email);
       
       res.json({
         success: true,
@@ -36,8 +54,6 @@ export class GeminiController {
       });
 
     } catch (error) {
-      console.log('🚨 GEMINI CONTROLLER ERROR 🚨');
-      console.log('❌ Error details:', error);
       logger.error('Gemini API error:', error);
       res.status(500).json({ 
         success: false,
@@ -46,4 +62,78 @@ export class GeminiController {
       });
     }
   }
+
+  /**
+   * Stream the reply as Server-Sent Events:
+   *   event: token - { text } visible reply text as it is generated
+   *   event: reset - {} the text sent so far is discarded (the stream failed and a fallback follows)
+   *   event: done  - the final structured response (same shape as the JSON endpoint)
+   *   event: error - { error } when the reply could not be produced
+   */
+  private async handleStreamRequest(res: any, user: AuthenticatedUser, request: GeminiRequest & { language?: string }): Promise<void> {
+    res.status(200);
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const result = await this.geminiService.streamResponse(
+        request,
+        user.email,
+        (text) => sendEvent('token', { text }),
+        () => sendEvent('reset', {})
+      );
+      sendEvent('done', result);
+    } catch (error) {
+      logger.error('Gemini streaming error:', error);
+      sendEvent('error', { error: 'Failed to get Gemini response' });
+    } finally {
+      res.end();
+    }
+  }
+
+  /**
+   * Expire a chat session so its questionnaire progress can no longer be resumed
+   */
+  private async endSession(req: any, res: any, user: AuthenticatedUser): Promise<void> {
+    try {
+      const { sessionId } = req.body || {};
+
+      if (!sessionId) {
+        res.status(400).json({
+          success: false,
+          error: 'sessionId is required'
+        });
+        return;
+      }
+
+      const expired = await this.geminiService.endSession(user.email, sessionId);
+      if (!expired) {
+        res.status(404).json({
+          success: false,
+          error: 'Chat session not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { sessionId, status: 'expired' }
+      });
+    } catch (error) {
+      logger.error('Failed to end chat session:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to end chat session'
+      });
+    }
+  }
 }
@@ -1,14 +1,21 @@
 import { Request, Response } from 'express';
 import { JournalService } from '../services/journal.service';
 import { logger } from '../utils/logger';
+import { AuthenticatedUser } from '../middleware/auth.middleware';
 import { 
   CreateJournalRequest, 
   UpdateJournalRequest, 
   DeleteJournalRequest, 
   ListJournalsRequest, 
-  ReadJournalRequest 
+  ReadJournalRequest,
+  CreateJournalKeyRequest,
+  UpdateJournalKeyRequest,
+  KeyWrap
 } from '../types/journal.types';
 
+// PBKDF2 iterations the browser must use at least when wrapping a journal key
+const MIN_KEY_ITERATIONS = 100000;
+
 export class JournalController {
   private journalService: JournalService;
 
@@ -18,19 +25,12 @@ export class JournalController {
 
   /**
    * Handle journal API requests
+   * The journal owner is always the verified caller, never a client supplied id
    */
-  async handleRequest(req: Request, res: Response): Promise<void> {
+  async handleRequest(req: Request, res: Response, user: AuthenticatedUser): Promise<void> {
     try {
       const { action } = req.query;
-      const userId = req.body.userId || req.headers['x-user-id'] as string;
-
-      if (!userId) {
-        res.status(400).json({
-          success: false,
-          error: 'User ID is required'
-        });
-        return;
-      }
+      const userId = user.email;
 
       logger.info('Journal API request', { action, userId });
 
@@ -50,13 +50,22 @@ export class JournalController {
         case 'list':
           await this.listJournals(req, res, userId);
           break;
+        case 'getKey':
+          await this.getJournalKey(req, res, userId);
+          break;
+        case 'createKey':
+          await this.createJournalKey(req, res, userId);
+          break;
+        case 'updateKey':
+          await this.updateJournalKey(req, res, userId);
+          break;
         case 'health':
           await this.healthCheck(req, res);
           break;
         default:
           res.status(400).json({
             success: false,
-            error: 'Invalid action. Supported actions: create, read, update, delete, list, health'
+            error: 'Invalid action. Supported actions: create, read, update, delete, list, getKey, createKey, updateKey, health'
           });
       }
     } catch (error) {
@@ -73,10 +82,10 @@ export class JournalController {
    */
   private async createJournal(req: Request, res: Response, userId: string): Promise<void> {
     try {
-      const { title, content, encryptedData, iv, salt } = req.body;
+      const { title, content, encryptedData, iv, salt, keyVersion, encryptedMetadata, metadataIv } = req.body;
 
       // Check if this is encrypted data (new format) or plain text (old format)
-      if (encryptedData && iv && salt) {
+      if (encryptedData && iv && (salt || keyVersion)) {
         // New encrypted format - store encrypted data directly
         const request: CreateJournalRequest = {
           title: 'Encrypted Journal Entry', // Placeholder title
@@ -84,7 +93,10 @@ export class JournalController {
           userId,
           encryptedData,
           iv,
-          salt
+          salt,
+          keyVersion,
+          encryptedMetadata,
+          metadataIv
         };
 
         const result = await this.journalService.createJournal(request);
@@ -112,7 +124,7 @@ export class JournalController {
       } else {
         res.status(400).json({
           success: false,
-          error: 'Either encrypted data (encryptedData, iv, salt) or plain text (title, content) is required'
+          error: 'Either encrypted data (encryptedData, iv, salt or keyVersion) or plain text (title, content) is required'
         });
         return;
       }
@@ -157,6 +169,7 @@ export class JournalController {
             encryptedData: result.data?.encryptedData,
             iv: result.data?.iv,
             salt: result.data?.salt,
+            keyVersion: result.data?.keyVersion,
             createdAt: result.data?.createdAt,
             updatedAt: result.data?.updatedAt
           }
@@ -178,7 +191,7 @@ export class JournalController {
    */
   private async updateJournal(req: Request, res: Response, userId: string): Promise<void> {
     try {
-      const { journalId, title, content, encryptedData, iv, salt } = req.body;
+      const { journalId, title, content, encryptedData, iv, salt, keyVersion, encryptedMetadata, metadataIv, reencrypt } = req.body;
 
       if (!journalId) {
         res.status(400).json({
@@ -189,7 +202,7 @@ export class JournalController {
       }
 
       // Check if this is encrypted data (new format) or plain text (old format)
-      if (encryptedData && iv && salt) {
+      if (encryptedData && iv && (salt || keyVersion)) {
         // New encrypted format - store encrypted data directly
         const request: UpdateJournalRequest = {
           journalId,
@@ -198,7 +211,11 @@ export class JournalController {
           userId,
           encryptedData,
           iv,
-          salt
+          salt,
+          keyVersion,
+          encryptedMetadata,
+          metadataIv,
+          reencrypt: reencrypt === true
         };
 
         const result = await this.journalService.updateJournal(request);
@@ -227,7 +244,7 @@ export class JournalController {
       } else {
         res.status(400).json({
           success: false,
-          error: 'Either encrypted data (encryptedData, iv, salt) or plain text (title, content) is required'
+          error: 'Either encrypted data (encryptedData, iv, salt or keyVersion) or plain text (title, content) is required'
         });
         return;
       }
@@ -305,6 +322,125 @@ export class JournalController {
     }
   }
 
+  /**
+   * Read the user's wrapped journal key (null before the journal password is set up)
+   */
+  private async getJournalKey(req: Request, res: Response, userId: string): Promise<void> {
+    try {
+      const result = await this.journalService.getJournalKey(userId);
+
+      if (result.success) {
+        res.status(200).json(result);
+      } else {
+        res.status(500).json(result);
+      }
+    } catch (error) {
+      logger.error('Error in getJournalKey', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to read journal key'
+      });
+    }
+  }
+
+  /**
+   * Store the user's wrapped journal key on first journal password setup
+   */
+  private async createJournalKey(req: Request, res: Response, userId: string): Promise<void> {
+    try {
+      const { wrappedKey, iv, salt, iterations, keyVersion, recovery } = req.body;
+
+      if (!this.isValidWrappedKey(req.body)) {
+        res.status(400).json({
+          success: false,
+          error: `wrappedKey, iv, salt, keyVersion and iterations (at least ${MIN_KEY_ITERATIONS}) are required, and recovery must be a complete key wrap when sent`
+        });
+        return;
+      }
+
+      const request: CreateJournalKeyRequest = {
+        userId,
+        wrappedKey,
+        iv,
+        salt,
+        iterations,
+        keyVersion,
+        ...(recovery ? { recovery: this.toKeyWrap(recovery) } : {})
+      };
+
+      const result = await this.journalService.createJournalKey(request);
+
+      if (result.success) {
+        res.status(201).json(result);
+      } else {
+        res.status(result.conflict ? 409 : 500).json({ success: false, error: result.error });
+      }
+    } catch (error) {
+      logger.error('Error in createJournalKey', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create journal key'
+      });
+    }
+  }
+
+  /**
+   * Store the journal key wrapped for a new password or with a new recovery code
+   */
+  private async updateJournalKey(req: Request, res: Response, userId: string): Promise<void> {
+    try {
+      const { wrappedKey, iv, salt, iterations, keyVersion, recovery, previousWrappedKey } = req.body;
+
+      if (!this.isValidWrappedKey(req.body) || !previousWrappedKey) {
+        res.status(400).json({
+          success: false,
+          error: `previousWrappedKey, wrappedKey, iv, salt, keyVersion and iterations (at least ${MIN_KEY_ITERATIONS}) are required, and recovery must be a complete key wrap when sent`
+        });
+        return;
+      }
+
+      const request: UpdateJournalKeyRequest = {
+        userId,
+        previousWrappedKey,
+        wrappedKey,
+        iv,
+        salt,
+        iterations,
+        keyVersion,
+        ...(recovery ? { recovery: this.toKeyWrap(recovery) } : {})
+      };
+
+      const result = await this.journalService.updateJournalKey(request);
+
+      if (result.success) {
+        res.status(200).json(result);
+      } else {
+        res.status(result.conflict ? 409 : 500).json({ success: false, error: result.error });
+      }
+    } catch (error) {
+      logger.error('Error in updateJournalKey', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update journal key'
+      });
+    }
+  }
+
+  private isValidKeyWrap(wrap: any): boolean {
+    return Boolean(wrap && wrap.wrappedKey && wrap.iv && wrap.salt) &&
+      Number.isInteger(wrap.iterations) && wrap.iterations >= MIN_KEY_ITERATIONS;
+  }
+
+  private isValidWrappedKey(body: any): boolean {
+    return this.isValidKeyWrap(body) && Number.isInteger(body.keyVersion) &&
+      (body.recovery === undefined || this.isValidKeyWrap(body.recovery));
+  }
+
+  // Only the wrap fields of a client supplied recovery block are stored
+  private toKeyWrap(wrap: any): KeyWrap {
+    return { wrappedKey: wrap.wrappedKey, iv: wrap.iv, salt: wrap.salt, iterations: wrap.iterations };
+  }
+
   /**
    * Health check endpoint
    */
@@ -1,4 +1,6 @@
 import { onRequest } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
 import * as logger from "firebase-functions/logger";
 import { GeminiController } from './controllers/gemini.controller';
 import { AutoMLController } from './controllers/automl.controller';
@@ -6,8 +8,16 @@ import { ProfessionalHelpController } from './controllers/professional-help.cont
 import { JournalController } from './controllers/journal.controller';
 import { SpeechToTextController } from './controllers/speech-to-text.controller';
 import { validateConfig } from './config';
+import { handleCors, requireAuth } from './middleware/auth.middleware';
 import { getFirestore, FieldValue } from 'firebase-admin/firestore';
 import { EncryptionService } from './services/encryption.service';
+import { WriRecomputeService } from './services/wri-recompute.service';
+import { DailyWriService } from './services/daily-wri.service';
+import { JournalInsightsService } from './services/journal-insights.service';
+import { UserProfileService } from './services/user-profile.service';
+import { classifyFreshness, resolveCollectedAt, toModelInput, WELLNESS_QUESTIONNAIRE } from './questionnaire';
+import { ParameterTimestamps } from './types/questionnaire.types';
+import { CURRENT_SCORING_PROFILE, dayKey, isValidTimeZone, isScoringProfile, journalMetricsFromCounts } from '@manoday/wellness-scoring';
 import * as admin from 'firebase-admin';
 
 // Initialize Firebase Admin with production config
@@ -34,13 +44,7 @@ validateConfig();
 
 // Gemini endpoint
 export const gemini = onRequest(async (request, response) => {
-  // Enable CORS
-  response.set('Access-Control-Allow-Origin', '*');
-  response.set('Access-Control-Allow-Methods', 'GET, POST');
-  response.set('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (request.method === 'OPTIONS') {
-    response.status(204).send('');
+  if (handleCors(request, response)) {
     return;
   }
 
@@ -52,19 +56,18 @@ export const gemini = onRequest(async (request, response) => {
     return;
   }
 
+  const user = await requireAuth(request, response);
+  if (!user) {
+    return;
+  }
+
   logger.info('Gemini endpoint called');
-  await geminiController.handleRequest(request, response);
+  await geminiController.handleRequest(request, response, user);
 });
 
 // AutoML endpoint
 export const automl = onRequest(async (request, response) => {
-  // Enable CORS
-  response.set('Access-Control-Allow-Origin', '*');
-  response.set('Access-Control-Allow-Methods', 'GET, POST');
-  response.set('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (request.method === 'OPTIONS') {
-    response.status(204).send('');
+  if (handleCors(request, response)) {
     return;
   }
 
@@ -76,20 +79,18 @@ export const automl = onRequest(async (request, response) => {
     return;
   }
 
+  const user = await requireAuth(request, response);
+  if (!user) {
+    return;
+  }
+
   logger.info('AutoML endpoint called');
   await automlController.handleRequest(request, response);
 });
 
 // Professional Help endpoints
 export const professionalHelp = onRequest(async (request, response) => {
-  // Enable CORS
-  response.set('Access-Control-Allow-Origin', '*');
-  response.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  response.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  response.set('Access-Control-Max-Age', '86400');
-
-  if (request.method === 'OPTIONS') {
-    response.status(200).send('');
+  if (handleCors(request, response)) {
     return;
   }
 
@@ -124,35 +125,31 @@ export const professionalHelp = onRequest(async (request, response) => {
 
 // Journal endpoints
 export const journal = onRequest(async (request, response) => {
-  // Enable CORS
-  response.set('Access-Control-Allow-Origin', '*');
-  response.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  response.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-user-id');
-  response.set('Access-Control-Max-Age', '86400');
-
-  if (request.method === 'OPTIONS') {
-    response.status(200).send('');
+  if (handleCors(request, response)) {
+    return;
+  }
+
+  const user = await requireAuth(request, response);
+  if (!user) {
     return;
   }
 
   logger.info('Journal endpoint called');
-  await journalController.handleRequest(request, response);
+  await journalController.handleRequest(request, response, user);
 });
 
 // Speech-to-Text endpoints
 export const speechToText = onRequest(async (request, response) => {
-  // Enable CORS
-  response.set('Access-Control-Allow-Origin', '*');
-  response.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  response.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-user-id');
-  response.set('Access-Control-Max-Age', '86400');
-
-  if (request.method === 'OPTIONS') {
-    response.status(200).send('');
+  if (handleCors(request, response)) {
     return;
   }
 
-  logger.info('Speech-to-Text endpoint called');
+  const user = await requireAuth(request, response);
+  if (!user) {
+    return;
+  }
+
+  logger.info('Speech-to-Text endpoint called', { uid: user.uid });
   
   try {
     if (request.method === 'POST') {
@@ -178,6 +175,10 @@ export const speechToText = onRequest(async (request, response) => {
 
 // Health check endpoint
 export const health = onRequest((request, response) => {
+  if (handleCors(request, response)) {
+    return;
+  }
+
   logger.info('Health check endpoint called');
   response.json({ 
     status: 'healthy',
@@ -193,11 +194,137 @@ export const health = onRequest((request, response) => {
   });
 });
 
+// Questionnaire definition endpoint - parameters, allowed values and localized text for the chat UI
+export const questionnaire = onRequest((request, response) => {
+  if (handleCors(request, response, 'GET, OPTIONS')) {
+    return;
+  }
+
+  if (request.method !== 'GET') {
+    response.status(405).json({ 
+      success: false,
+      error: 'Method not allowed' 
+    });
+    return;
+  }
+
+  response.set('Cache-Control', 'public, max-age=3600');
+  response.json({
+    success: true,
+    data: WELLNESS_QUESTIONNAIRE
+  });
+});
+
+// Rescore the caller's stored WRI history with a scoring profile (defaults to the current one)
+export const recomputeWri = onRequest(async (request, response) => {
+  if (handleCors(request, response)) {
+    return;
+  }
+
+  if (request.method !== 'POST') {
+    response.status(405).json({ 
+      success: false,
+      error: 'Method not allowed' 
+    });
+    return;
+  }
+
+  const user = await requireAuth(request, response);
+  if (!user) {
+    return;
+  }
+
+  const profileVersion = request.body?.profileVersion || CURRENT_SCORING_PROFILE;
+  if (!isScoringProfile(profileVersion)) {
+    response.status(400).json({
+      success: false,
+      error: `Unknown scoring profile: ${profileVersion}`
+    });
+    return;
+  }
+
+  try {
+    const result = await new WriRecomputeService().recomputeUserHistory(user.email, profileVersion);
+    response.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    logger.error('WRI recompute failed:', error);
+    response.status(500).json({
+      success: false,
+      error: 'Failed to recompute WRI history'
+    });
+  }
+});
+
+// Store the caller's timezone - day keys (daily WRI, journal streaks) are computed in it from then on
+export const updateUserProfile = onRequest(async (request, response) => {
+  if (handleCors(request, response)) {
+    return;
+  }
+
+  if (request.method !== 'POST') {
+    response.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+    return;
+  }
+
+  const user = await requireAuth(request, response);
+  if (!user) {
+    return;
+  }
+
+  const timeZone = request.body?.timeZone;
+  if (!isValidTimeZone(timeZone)) {
+    response.status(400).json({
+      success: false,
+      error: `Unknown timezone: ${timeZone}`
+    });
+    return;
+  }
+
+  try {
+    const result = await new UserProfileService().setTimeZone(user.email, timeZone);
+    response.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    logger.error('User profile update failed:', error);
+    response.status(500).json({
+      success: false,
+      error: 'Failed to update user profile'
+    });
+  }
+});
+
+// Nightly WRI for every active user - scores yesterday in the user's timezone (over in every timezone by 00:30 UTC)
+// and marks days without a check-in
+export const scheduledDailyWri = onSchedule({ schedule: '30 0 * * *', timeZone: 'UTC', timeoutSeconds: 540 }, async () => {
+  await new DailyWriService().scoreActiveUsers();
+});
+
+// Keep the journal metrics (streak, weekly count, entries today) in Journal_insights up to date with every entry write
+export const onJournalEntryWritten = onDocumentWritten('journals/{userId}/entries/{entryId}', async (event) => {
+  const { userId, entryId } = event.params;
+  const before = event.data?.before.exists ? event.data.before.data() : undefined;
+  const after = event.data?.after.exists ? event.data.after.data() : undefined;
+  const timeZone = await new UserProfileService().getTimeZone(userId);
+  await new JournalInsightsService().applyEntryChange(userId, entryId, before, after, timeZone);
+});
+
 // Test endpoint for data transformation
 export const testTransform = onRequest((request, response) => {
+  if (handleCors(request, response)) {
+    return;
+  }
+
   try {
     const features = request.body?.features || {};
-    const transformed = prepareModelInput(features);
+    const transformed = toModelInput(features);
     
     response.json({
       success: true,
@@ -215,48 +342,21 @@ export const testTransform = onRequest((request, response) => {
   }
 });
 
-// Helper function for data transformation (moved from service for testing)
-function prepareModelInput(features: any): any {
-  const smartDefaults = {
-    mood: features.mood || 'Stressed',
-    sleepHours: String(features.sleepHours || '6'),
-    stressLevel: features.stressLevel || 'High',
-    academicPressure: features.academicPressure || 'Medium',
-    socialSupport: features.socialSupport || 'Weak',
-    loneliness: features.loneliness || 'Often',
-    confidenceLevel: features.confidenceLevel || 'Low',
-    hobbiesInterest: features.hobbiesInterest || 'None',
-    opennessToJournaling: features.opennessToJournaling || 'No',
-    willingForProfessionalHelp: features.willingForProfessionalHelp || 'No'
-  };
-
-  return {
-    Mood: smartDefaults.mood,
-    SleepHours: smartDefaults.sleepHours,
-    StressLevel: smartDefaults.stressLevel,
-    AcademicPressure: smartDefaults.academicPressure,
-    SocialSupport: smartDefaults.socialSupport,
-    Loneliness: smartDefaults.loneliness,
-    ConfidenceLevel: smartDefaults.confidenceLevel,
-    HobbiesInterest: smartDefaults.hobbiesInterest,
-    OpennessToJournaling: smartDefaults.opennessToJournaling,
-    WillingForProfessionalHelp: smartDefaults.willingForProfessionalHelp
-  };
-}
-
-// Store encrypted journal insights 
+// Store encrypted journal insights
+// Superseded by onJournalEntryWritten - kept for clients that still push their own metrics
 export const storeJournalInsights = onRequest(async (request, response) => {
-  response.set('Access-Control-Allow-Origin', '*');
-  response.set('Access-Control-Allow-Methods', 'GET, POST');
-  response.set('Access-Control-Allow-Headers', 'Content-Type');
+  if (handleCors(request, response)) {
+    return;
+  }
 
-  if (request.method === 'OPTIONS') {
-    response.status(200).send('');
+  const user = await requireAuth(request, response);
+  if (!user) {
     return;
   }
 
   try {
-    const { userEmail, journalData } = request.body;
+    const { journalData } = request.body;
+    const userEmail = user.email;
     
     console.log('🔐 STORING ENCRYPTED JOURNAL INSIGHTS:', {
       userEmail,
@@ -264,8 +364,8 @@ export const storeJournalInsights = onRequest(async (request, response) => {
       timestamp: new Date().toISOString()
     });
 
-    if (!userEmail || !journalData) {
-      console.log('❌ VALIDATION FAILED:', { userEmail: !!userEmail, journalData: !!journalData });
+    if (!journalData) {
+      console.log('❌ VALIDATION FAILED:', { journalData: !!journalData });
       response.status(400).json({ success: false, error: 'Missing required fields' });
       return;
     }
@@ -283,7 +383,8 @@ export const storeJournalInsights = onRequest(async (request, response) => {
 
     // Store to Journal_insights collection
     const db = getFirestore();
-    const today = new Date().toISOString().slice(0, 10);
+    // Days are the user's own - a 2 AM entry belongs to the night it was written
+    const today = dayKey(new Date(), await new UserProfileService().getTimeZone(userEmail));
     const journalInsightRef = db.collection('Journal_insights').doc(userEmail).collection('daily').doc(today);
     
     const storageData = {
@@ -294,6 +395,7 @@ export const storeJournalInsights = onRequest(async (request, response) => {
       createdAt: FieldValue.serverTimestamp(),
       updatedAt: FieldValue.serverTimestamp(),
       dataType: 'journal_metrics',
+      day_basis: 'local',
       // Store readable metrics for dashboard display
       metrics: {
         journal_streak: journalData.journal_streak || 0,
@@ -328,28 +430,34 @@ export const storeJournalInsights = onRequest(async (request, response) => {
 
 // Get encrypted journal insights
 export const getJournalInsights = onRequest(async (request, response) => {
-  response.set('Access-Control-Allow-Origin', '*');
-  response.set('Access-Control-Allow-Methods', 'GET, POST');
-  response.set('Access-Control-Allow-Headers', 'Content-Type');
+  if (handleCors(request, response)) {
+    return;
+  }
 
-  if (request.method === 'OPTIONS') {
-    response.status(200).send('');
+  const user = await requireAuth(request, response);
+  if (!user) {
     return;
   }
 
   try {
-    const { userEmail } = request.body;
-    
-    if (!userEmail) {
-      response.status(400).json({ success: false, error: 'Missing userEmail' });
-      return;
-    }
+    const userEmail = user.email;
 
     console.log('🔍 RETRIEVING ENCRYPTED JOURNAL INSIGHTS:', { userEmail });
 
-    // Get today's journal insights
     const db = getFirestore();
-    const today = new Date().toISOString().slice(0, 10);
+    const today = dayKey(new Date(), await new UserProfileService().getTimeZone(userEmail));
+
+    // Metrics kept up to date by onJournalEntryWritten
+    const summaryDoc = await db.collection('Journal_insights').doc(userEmail).get();
+    if (summaryDoc.exists && summaryDoc.data()?.entry_counts) {
+      response.status(200).json({
+        success: true,
+        journalData: journalMetricsFromCounts(summaryDoc.data()?.entry_counts, today)
+      });
+      return;
+    }
+
+    // Users without entries since the trigger was added - today's stored snapshot
     const journalInsightRef = db.collection('Journal_insights').doc(userEmail).collection('daily').doc(today);
     
     const doc = await journalInsightRef.get();
@@ -409,17 +517,18 @@ export const getJournalInsights = onRequest(async (request, response) => {
 
 // Store encrypted wellness insights with chat session tracking
 export const storeEncryptedInsights = onRequest(async (request, response) => {
-  response.set('Access-Control-Allow-Origin', '*');
-  response.set('Access-Control-Allow-Methods', 'GET, POST');
-  response.set('Access-Control-Allow-Headers', 'Content-Type');
+  if (handleCors(request, response)) {
+    return;
+  }
 
-  if (request.method === 'OPTIONS') {
-    response.status(200).send('');
+  const user = await requireAuth(request, response);
+  if (!user) {
     return;
   }
 
   try {
-    const { userEmail, wellnessData, sessionId } = request.body;
+    const { wellnessData, sessionId, collectedAt } = request.body;
+    const userEmail = user.email;
     
     console.log('🔐 STORING ENCRYPTED INSIGHTS:', {
       userEmail,
@@ -429,8 +538,8 @@ export const storeEncryptedInsights = onRequest(async (request, response) => {
       timestamp: new Date().toISOString()
     });
 
-    if (!userEmail || !wellnessData) {
-      console.log('❌ VALIDATION FAILED:', { userEmail: !!userEmail, wellnessData: !!wellnessData });
+    if (!wellnessData) {
+      console.log('❌ VALIDATION FAILED:', { wellnessData: !!wellnessData });
       response.status(400).json({ success: false, error: 'Missing required fields' });
       return;
     }
@@ -467,7 +576,9 @@ export const storeEncryptedInsights = onRequest(async (request, response) => {
       dataVersion: '1.0',
       sessionId: chatSessionId,
       parametersCollected: Object.keys(wellnessData),
-      parameterCount: Object.keys(wellnessData).length
+      parameterCount: Object.keys(wellnessData).length,
+      // Timestamps stay unencrypted so freshness can be checked without the data
+      collectedAt: resolveCollectedAt(wellnessData, collectedAt)
     };
 
     console.log('💾 STORING TO FIRESTORE:', {
@@ -549,28 +660,21 @@ export const storeEncryptedInsights = onRequest(async (request, response) => {
 
 // Get encrypted insights with chat history for analytics
 export const getEncryptedInsights = onRequest(async (request, response) => {
-  response.set('Access-Control-Allow-Origin', '*');
-  response.set('Access-Control-Allow-Methods', 'GET, POST');
-  response.set('Access-Control-Allow-Headers', 'Content-Type');
+  if (handleCors(request, response)) {
+    return;
+  }
 
-  if (request.method === 'OPTIONS') {
-    response.status(200).send('');
+  const user = await requireAuth(request, response);
+  if (!user) {
     return;
   }
 
   try {
-    const { userEmail, includeHistory = false } = request.body;
+    const { includeHistory = false } = request.body;
+    const userEmail = user.email;
     
     console.log('🔍 RETRIEVING ENCRYPTED INSIGHTS FOR:', userEmail);
 
-    if (!userEmail) {
-      response.status(400).json({ 
-        success: false, 
-        error: 'Missing userEmail' 
-      });
-      return;
-    }
-
     const db = getFirestore();
     const userRef = db.collection('encrypted_insights').doc(userEmail);
     
@@ -610,6 +714,7 @@ export const getEncryptedInsights = onRequest(async (request, response) => {
 
     // Get latest chat session data
     let latestWellnessData = {};
+    let latestCollectedAt: ParameterTimestamps = {};
     if (userData.latestSessionId) {
       const latestSessionRef = userRef.collection('chat_sessions').doc(userData.latestSessionId);
       const latestSessionDoc = await latestSessionRef.get();
@@ -628,6 +733,9 @@ export const getEncryptedInsights = onRequest(async (request, response) => {
               sessionData.iv,
               userEmail
             );
+            // Sessions stored before per-parameter timestamps date every answer to the last update
+            latestCollectedAt = sessionData.collectedAt ||
+              resolveCollectedAt(latestWellnessData, null, sessionData.lastUpdated?.toDate?.() || new Date(0));
             console.log('✅ Latest session data decrypted successfully');
           } else {
             console.log('⚠️ Data integrity check failed for latest session');
@@ -688,6 +796,8 @@ export const getEncryptedInsights = onRequest(async (request, response) => {
       success: true,
       data: {
         wellnessData: latestWellnessData,
+        collectedAt: latestCollectedAt,
+        freshness: classifyFreshness(latestCollectedAt),
         lastUpdated: userData.lastUpdated,
         totalSessions: userData.totalSessions || 1,
         chatHistory: includeHistory ? chatHistory : undefined
@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import { getAuth } from 'firebase-admin/auth';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface AuthenticatedUser {
+  uid: string;
+  email: string;
+}
+
+/**
+ * Apply CORS headers using the configured origin allowlist
+ * Returns true when the request was a preflight and has already been answered
+ */
+export function handleCors(request: Request, response: Response, methods: string = 'GET, POST, OPTIONS'): boolean {
+  const origin = request.headers.origin;
+
+  response.set('Vary', 'Origin');
+  if (origin && config.cors.allowedOrigins.includes(origin)) {
+    response.set('Access-Control-Allow-Origin', origin);
+  }
+  response.set('Access-Control-Allow-Methods', methods);
+  response.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  response.set('Access-Control-Max-Age', String(config.cors.maxAge));
+
+  if (request.method === 'OPTIONS') {
+    response.status(204).send('');
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Verify the Firebase ID token sent as "Authorization: Bearer <idToken>"
+ * Identity is always derived from the token - any userEmail / userId / x-user-id
+ * supplied by the client must match it or the request is rejected
+ * Returns null when a response has already been sent
+ */
+export async function requireAuth(request: Request, response: Response): Promise<AuthenticatedUser | null> {
+  const authHeader = request.headers.authorization || '';
+  const match = authHeader.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    response.status(401).json({
+      success: false,
+      error: 'Missing or malformed Authorization header'
+    });
+    return null;
+  }
+
+  let user: AuthenticatedUser;
+  try {
+    const decodedToken = await getAuth().verifyIdToken(match[1]);
+
+    if (!decodedToken.email) {
+      response.status(403).json({
+        success: false,
+        error: 'An account with an email address is required'
+      });
+      return null;
+    }
+
+    user = { uid: decodedToken.uid, email: decodedToken.email };
+  } catch (error) {
+    logger.warn('ID token verification failed', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    response.status(401).json({
+      success: false,
+      error: 'Invalid or expired ID token'
+    });
+    return null;
+  }
+
+  const claimedIdentities = [
+    request.body?.userEmail,
+    request.body?.userId,
+    request.headers['x-user-id']
+  ].filter((value): value is string => typeof value === 'string' && value.length > 0);
+
+  const mismatch = claimedIdentities.find(value => value !== user.email);
+  if (mismatch) {
+    logger.warn('Identity mismatch between request and ID token', { uid: user.uid });
+    response.status(403).json({
+      success: false,
+      error: 'Request identity does not match the authenticated user'
+    });
+    return null;
+  }
+
+  return user;
+}
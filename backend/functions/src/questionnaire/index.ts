@@ -0,0 +1,119 @@
+import { WellnessData, WellnessParameter } from '../types';
+import { ParameterFreshness, ParameterTimestamps, QuestionDefinition, QuestionnaireLanguage } from '../types/questionnaire.types';
+import { WELLNESS_QUESTIONNAIRE } from './wellness-questionnaire';
+
+export { WELLNESS_QUESTIONNAIRE };
+
+// Parameters in the order the chatbot collects them
+export const PARAMETER_ORDER: WellnessParameter[] = WELLNESS_QUESTIONNAIRE.questions.map(question => question.parameter);
+
+// The only values the AutoML model was trained on - anything else is rejected
+export const WELLNESS_ALLOWED_VALUES = Object.fromEntries(
+  WELLNESS_QUESTIONNAIRE.questions.map(question => [question.parameter, question.allowedValues])
+) as Record<WellnessParameter, string[]>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getQuestion(parameter: WellnessParameter): QuestionDefinition {
+  const question = WELLNESS_QUESTIONNAIRE.questions.find(candidate => candidate.parameter === parameter);
+  if (!question) {
+    throw new Error(`Unknown questionnaire parameter: ${parameter}`);
+  }
+  return question;
+}
+
+/**
+ * Canonical allowed value for an answer, or null when it cannot be mapped
+ * Accepts the value itself (case-insensitive) or an exact synonym in any language
+ */
+export function normalizeAnswer(parameter: WellnessParameter, value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const inputValue = String(value).trim().toLowerCase();
+  if (!inputValue) {
+    return null;
+  }
+
+  const question = getQuestion(parameter);
+  const canonical = question.allowedValues.find(allowed => allowed.toLowerCase() === inputValue);
+  if (canonical) {
+    return canonical;
+  }
+
+  for (const language of Object.keys(question.synonyms) as QuestionnaireLanguage[]) {
+    for (const [allowed, phrases] of Object.entries(question.synonyms[language])) {
+      if (phrases.some(phrase => phrase.toLowerCase() === inputValue)) {
+        return allowed;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Mapping guide for the extraction prompt, generated from the synonyms and notes
+ */
+export function buildMappingGuide(parameter: WellnessParameter): string {
+  const question = getQuestion(parameter);
+  const lines = [`Valid Values: ${JSON.stringify(question.allowedValues)}`, 'SCENARIOS:'];
+
+  for (const language of Object.keys(question.synonyms) as QuestionnaireLanguage[]) {
+    for (const [allowed, phrases] of Object.entries(question.synonyms[language])) {
+      if (phrases.length > 0) {
+        lines.push(`${phrases.map(phrase => `"${phrase}"`).join(' / ')} → ${allowed}`);
+      }
+    }
+  }
+  lines.push(...(question.notes || []));
+  lines.push(`"I don't know" / "maybe" / "not sure" → ${question.defaultValue} (default)`);
+
+  return lines.join('\n');
+}
+
+/**
+ * AutoML instance for the features, imputing modelFallbackValue for anything missing or invalid
+ */
+export function toModelInput(features: Partial<WellnessData>): Record<string, string> {
+  return Object.fromEntries(WELLNESS_QUESTIONNAIRE.questions.map(question => [
+    question.modelFeature,
+    normalizeAnswer(question.parameter, features[question.parameter]) || question.modelFallbackValue
+  ]));
+}
+
+/**
+ * Time each answered parameter was collected - the client's timestamp when it reused a stored
+ * answer, otherwise now. Client timestamps in the future are clamped to now.
+ */
+export function resolveCollectedAt(wellnessData: Partial<WellnessData>, clientCollectedAt: unknown, now: Date = new Date()): ParameterTimestamps {
+  const provided = (clientCollectedAt && typeof clientCollectedAt === 'object' ? clientCollectedAt : {}) as Record<string, unknown>;
+  const collectedAt: ParameterTimestamps = {};
+
+  for (const parameter of PARAMETER_ORDER) {
+    if (!wellnessData[parameter]) {
+      continue;
+    }
+    const value = provided[parameter];
+    const time = typeof value === 'string' ? Date.parse(value) : NaN;
+    collectedAt[parameter] = new Date(Number.isFinite(time) ? Math.min(time, now.getTime()) : now.getTime()).toISOString();
+  }
+  return collectedAt;
+}
+
+/**
+ * Split the stored parameters by their freshness windows
+ * A parameter without a readable timestamp is stale
+ */
+export function classifyFreshness(collectedAt: ParameterTimestamps, now: Date = new Date()): ParameterFreshness {
+  const freshness: ParameterFreshness = { fresh: [], stale: [] };
+
+  for (const question of WELLNESS_QUESTIONNAIRE.questions) {
+    const timestamp = collectedAt[question.parameter];
+    if (!timestamp) {
+      continue;
+    }
+    const age = now.getTime() - Date.parse(timestamp);
+    (age <= question.freshForDays * DAY_MS ? freshness.fresh : freshness.stale).push(question.parameter);
+  }
+  return freshness;
+}
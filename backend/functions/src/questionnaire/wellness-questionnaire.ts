@@ -0,0 +1,441 @@
+import { QuestionnaireDefinition } from '../types/questionnaire.types';
+
+/**
+ * The wellness check-in questionnaire - the single source for parameter order, allowed
+ * values, question text and answer mappings. Prompt generation, validation, AutoML input
+ * and the chat wellness panel are all derived from this file.
+ */
+export const WELLNESS_QUESTIONNAIRE: QuestionnaireDefinition = {
+  version: '1.0.0',
+  questions: [
+    {
+      parameter: 'mood',
+      type: 'categorical',
+      modelFeature: 'Mood',
+      allowedValues: ['Sad', 'Anxious', 'Happy', 'Neutral', 'Stressed'],
+      defaultValue: 'Neutral',
+      modelFallbackValue: 'Stressed', // If asking for help, likely stressed
+      freshForDays: 1, // Mood changes day to day
+      label: { en: 'Mood', hi: 'मूड' },
+      question: {
+        en: 'How have you been feeling today?',
+        hi: 'आज आप कैसा महसूस कर रहे हैं?'
+      },
+      reasons: {
+        en: {
+          Sad: "you're feeling sad",
+          Anxious: "you're feeling anxious",
+          Happy: "you're feeling happy",
+          Neutral: 'your mood is neutral',
+          Stressed: "you're feeling stressed"
+        },
+        hi: {
+          Sad: 'आप उदास महसूस कर रहे हैं',
+          Anxious: 'आप चिंतित महसूस कर रहे हैं',
+          Happy: 'आप खुश महसूस कर रहे हैं',
+          Neutral: 'आपका मूड सामान्य है',
+          Stressed: 'आप तनाव महसूस कर रहे हैं'
+        }
+      },
+      synonyms: {
+        en: {
+          Sad: ['not good', 'bad', 'low', 'down', 'depressed', 'blue', 'terrible', 'awful'],
+          Anxious: ['worried', 'nervous', 'anxious', 'panicking', 'scared', 'fearful'],
+          Happy: ['happy', 'good', 'great', 'wonderful', 'amazing', 'excited', 'joyful'],
+          Neutral: ['okay', 'fine', 'alright', 'meh', 'neutral', 'normal', 'average', 'could be better', 'not great'],
+          Stressed: ['stressed', 'overwhelmed', 'pressured', 'tense', 'frazzled']
+        },
+        hi: {
+          Sad: ['उदास', 'दुखी', 'अवसादग्रस्त', 'निराश', 'हताश'],
+          Anxious: ['चिंतित', 'परेशान', 'घबराया हुआ'],
+          Happy: ['खुश', 'खुशी', 'सुखी', 'प्रसन्न'],
+          Neutral: ['सामान्य', 'ठीक'],
+          Stressed: ['तनावग्रस्त', 'तनाव में']
+        }
+      },
+      notes: ['"mixed feelings" / "complicated" → Choose dominant emotion from context']
+    },
+    {
+      parameter: 'sleepHours',
+      type: 'integer',
+      modelFeature: 'SleepHours',
+      allowedValues: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'],
+      defaultValue: '7',
+      modelFallbackValue: '6', // Average sleep
+      freshForDays: 1, // Last night's sleep
+      label: { en: 'Sleep Hours', hi: 'नींद के घंटे' },
+      question: {
+        en: 'How many hours did you sleep last night?',
+        hi: 'कल रात आप कितने घंटे सोए?'
+      },
+      reasons: {
+        en: {
+          '1': 'your sleep is low (1 hour)',
+          '2': 'your sleep is low (2 hours)',
+          '3': 'your sleep is low (3 hours)',
+          '4': 'your sleep is low (4 hours)',
+          '5': 'your sleep is low (5 hours)',
+          '6': 'your sleep is a little short (6 hours)',
+          '7': 'your sleep is healthy (7 hours)',
+          '8': 'your sleep is healthy (8 hours)',
+          '9': 'you are sleeping more than usual (9 hours)',
+          '10': 'you are sleeping more than usual (10 hours)'
+        },
+        hi: {
+          '1': 'आपकी नींद कम है (1 घंटा)',
+          '2': 'आपकी नींद कम है (2 घंटे)',
+          '3': 'आपकी नींद कम है (3 घंटे)',
+          '4': 'आपकी नींद कम है (4 घंटे)',
+          '5': 'आपकी नींद कम है (5 घंटे)',
+          '6': 'आपकी नींद थोड़ी कम है (6 घंटे)',
+          '7': 'आपकी नींद अच्छी है (7 घंटे)',
+          '8': 'आपकी नींद अच्छी है (8 घंटे)',
+          '9': 'आप सामान्य से ज़्यादा सो रहे हैं (9 घंटे)',
+          '10': 'आप सामान्य से ज़्यादा सो रहे हैं (10 घंटे)'
+        }
+      },
+      synonyms: {
+        en: {
+          '1': ['barely slept', 'almost none', 'pulled all-nighter', 'insomnia'],
+          '2': ['very little', 'hardly any', 'almost nothing'],
+          '3': ['few hours', 'little sleep', 'not much'],
+          '5': ['insufficient', 'not enough', 'very less'],
+          '7': ['adequate', 'normal amount', 'decent', 'okay'],
+          '8': ['good sleep', 'slept well', 'restful'],
+          '9': ['overslept', 'too much', 'a lot'],
+          '10': ['all day', 'excessive']
+        },
+        hi: {
+          '1': ['एक'],
+          '2': ['दो'],
+          '3': ['तीन'],
+          '4': ['चार'],
+          '5': ['पांच'],
+          '6': ['छह'],
+          '7': ['सात'],
+          '8': ['आठ'],
+          '9': ['नौ'],
+          '10': ['दस']
+        }
+      },
+      notes: [
+        '"insufficient" / "not enough" / "very less" → "5" (CRITICAL: not 7)',
+        'Direct numbers: "5 hours" → "5", "around 6-7" → "6" (lower bound)'
+      ]
+    },
+    {
+      parameter: 'stressLevel',
+      type: 'ordinal',
+      modelFeature: 'StressLevel',
+      allowedValues: ['Low', 'Medium', 'High'],
+      defaultValue: 'Medium',
+      modelFallbackValue: 'High', // If asking for help, likely high stress
+      freshForDays: 1,
+      label: { en: 'Stress Level', hi: 'तनाव स्तर' },
+      question: {
+        en: 'How stressed have you been feeling lately - low, medium or high?',
+        hi: 'हाल ही में आप कितना तनाव महसूस कर रहे हैं - कम, मध्यम या अधिक?'
+      },
+      reasons: {
+        en: {
+          Low: 'your stress is low',
+          Medium: 'your stress is moderate',
+          High: 'your stress is high'
+        },
+        hi: {
+          Low: 'आपका तनाव कम है',
+          Medium: 'आपका तनाव मध्यम है',
+          High: 'आपका तनाव अधिक है'
+        }
+      },
+      synonyms: {
+        en: {
+          High: ['very stressed', 'extremely stressed', 'overwhelmed', 'drowning', 'super stressed', 'totally stressed', "can't handle it"],
+          Medium: ['somewhat stressed', 'moderately stressed', 'kind of stressed', 'a bit stressed', 'little stressed', 'manageable stress', 'normal stress', 'usual stress'],
+          Low: ['not stressed', 'low stress', 'relaxed', 'calm']
+        },
+        hi: {
+          Low: ['कम', 'कम तनाव', 'तनाव नहीं', 'थोड़ा तनाव'],
+          Medium: ['मध्यम', 'मध्यम तनाव'],
+          High: ['अधिक', 'अधिक तनाव', 'ज्यादा तनाव']
+        }
+      },
+      notes: ['Scale mentions: "1-3/10" → Low, "4-6/10" → Medium, "7-10/10" → High']
+    },
+    {
+      parameter: 'academicPressure',
+      type: 'ordinal',
+      modelFeature: 'AcademicPressure',
+      allowedValues: ['Low', 'Medium', 'High'],
+      defaultValue: 'Medium',
+      modelFallbackValue: 'Medium',
+      freshForDays: 7, // Follows the exam and assignment calendar
+      label: { en: 'Academic Pressure', hi: 'शैक्षणिक दबाव' },
+      question: {
+        en: 'How much academic pressure are you under right now?',
+        hi: 'अभी आप पर पढ़ाई का कितना दबाव है?'
+      },
+      reasons: {
+        en: {
+          Low: 'academic pressure is low',
+          Medium: 'academic pressure is moderate',
+          High: 'academic pressure is high'
+        },
+        hi: {
+          Low: 'पढ़ाई का दबाव कम है',
+          Medium: 'पढ़ाई का दबाव मध्यम है',
+          High: 'पढ़ाई का दबाव अधिक है'
+        }
+      },
+      synonyms: {
+        en: {
+          High: ['exams killing me', 'drowning in assignments', 'too much work', 'parents expect too much', 'need perfect grades', 'pressure to succeed', 'behind in studies', 'failing', 'struggling academically'],
+          Medium: ['some pressure', 'manageable workload', 'keeping up okay', 'average student', 'normal academic stress'],
+          Low: ["school's easy", 'no academic worries', 'on break', 'vacation', 'not in school', 'graduated']
+        },
+        hi: {
+          Low: ['कम', 'कम दबाव', 'कोई दबाव नहीं', 'थोड़ा दबाव'],
+          Medium: ['मध्यम', 'मध्यम दबाव'],
+          High: ['अधिक', 'अधिक दबाव', 'ज्यादा दबाव']
+        }
+      }
+    },
+    {
+      parameter: 'socialSupport',
+      type: 'ordinal',
+      modelFeature: 'SocialSupport',
+      allowedValues: ['Weak', 'Average', 'Strong'],
+      defaultValue: 'Average',
+      modelFallbackValue: 'Weak', // If struggling, likely weak support
+      freshForDays: 30,
+      label: { en: 'Social Support', hi: 'सामाजिक सहायता' },
+      question: {
+        en: 'How supported do you feel by friends and family?',
+        hi: 'दोस्तों और परिवार से आपको कितना सहारा महसूस होता है?'
+      },
+      reasons: {
+        en: {
+          Weak: 'your social support is weak',
+          Average: 'your social support is average',
+          Strong: 'you have strong social support'
+        },
+        hi: {
+          Weak: 'आपका सामाजिक सहारा कमज़ोर है',
+          Average: 'आपका सामाजिक सहारा औसत है',
+          Strong: 'आपके पास मज़बूत सामाजिक सहारा है'
+        }
+      },
+      synonyms: {
+        en: {
+          Weak: ['no one understands', 'all alone', 'no support', "parents don't care", "family doesn't understand", 'I feel disconnected with people', 'not very open to friends', "don't feel connected", "can't open up"],
+          Average: ['few friends', 'some people', 'limited support', 'friends are there sometimes', 'mixed support'],
+          Strong: ['amazing friends', 'great family', 'strong support system', 'can always count on someone', 'people are there for me']
+        },
+        hi: {
+          Weak: ['कमजोर', 'कमजोर सहायता', 'कोई सहायता नहीं'],
+          Average: ['मध्यम', 'मध्यम सहायता'],
+          Strong: ['मजबूत', 'मजबूत सहायता', 'अच्छी सहायता']
+        }
+      },
+      notes: ['"I feel disconnected with people" / "not very open to friends" → Weak (CRITICAL)']
+    },
+    {
+      parameter: 'loneliness',
+      type: 'ordinal',
+      modelFeature: 'Loneliness',
+      allowedValues: ['Sometimes', 'Often', 'Never'],
+      defaultValue: 'Sometimes',
+      modelFallbackValue: 'Often', // If struggling, likely often lonely
+      freshForDays: 7,
+      label: { en: 'Loneliness', hi: 'अकेलापन' },
+      question: {
+        en: 'How often do you feel lonely?',
+        hi: 'आप कितनी बार अकेलापन महसूस करते हैं?'
+      },
+      reasons: {
+        en: {
+          Sometimes: 'you feel lonely sometimes',
+          Often: 'you often feel lonely',
+          Never: 'you never feel lonely'
+        },
+        hi: {
+          Sometimes: 'आप कभी-कभी अकेलापन महसूस करते हैं',
+          Often: 'आप अक्सर अकेलापन महसूस करते हैं',
+          Never: 'आप अकेलापन महसूस नहीं करते'
+        }
+      },
+      synonyms: {
+        en: {
+          Often: ['always lonely', 'constantly lonely', 'feel alone all the time', 'never feel connected', 'always disconnected', 'I feel disconnected', 'feel disconnected from people', "don't feel connected to anyone", "can't connect"],
+          Sometimes: ['sometimes lonely', 'occasionally lonely', 'now and then', 'weekends are lonely', 'certain times', 'alone but not lonely', 'prefer solitude'],
+          Never: ['never lonely', 'always surrounded', 'always have company']
+        },
+        hi: {
+          Often: ['अक्सर', 'हमेशा'],
+          Sometimes: ['कभी-कभी', 'कभी-कभार'],
+          Never: ['कभी नहीं', 'शायद ही कभी']
+        }
+      },
+      notes: ['"I feel disconnected" / "feel disconnected from people" → Often (CRITICAL)']
+    },
+    {
+      parameter: 'confidenceLevel',
+      type: 'ordinal',
+      modelFeature: 'ConfidenceLevel',
+      allowedValues: ['Low', 'Medium', 'High'],
+      defaultValue: 'Medium',
+      modelFallbackValue: 'Low', // If asking for help, likely low confidence
+      freshForDays: 7,
+      label: { en: 'Confidence Level', hi: 'आत्मविश्वास स्तर' },
+      question: {
+        en: 'How confident have you been feeling in yourself?',
+        hi: 'आप खुद पर कितना भरोसा महसूस कर रहे हैं?'
+      },
+      reasons: {
+        en: {
+          Low: 'your confidence is low',
+          Medium: 'your confidence is moderate',
+          High: 'your confidence is high'
+        },
+        hi: {
+          Low: 'आपका आत्मविश्वास कम है',
+          Medium: 'आपका आत्मविश्वास मध्यम है',
+          High: 'आपका आत्मविश्वास अधिक है'
+        }
+      },
+      synonyms: {
+        en: {
+          Low: ['no confidence', 'hate myself', 'worthless', 'useless', 'not confident', 'not very confident', 'low confidence', 'used to be confident'],
+          Medium: ['imposter syndrome', 'fake it till I make it', 'depends on the day', 'varies', 'okay confidence', 'getting better', 'improving'],
+          High: ['very confident', 'I believe in myself', "I'm awesome"]
+        },
+        hi: {
+          Low: ['कम', 'कम आत्मविश्वास', 'कोई आत्मविश्वास नहीं'],
+          Medium: ['मध्यम', 'मध्यम आत्मविश्वास'],
+          High: ['अधिक', 'अधिक आत्मविश्वास', 'अच्छा आत्मविश्वास']
+        }
+      }
+    },
+    {
+      parameter: 'hobbiesInterest',
+      type: 'categorical',
+      modelFeature: 'HobbiesInterest',
+      allowedValues: ['Sports', 'Music', 'Reading', 'Art', 'Travel', 'None'],
+      defaultValue: 'None',
+      modelFallbackValue: 'None', // Common for people asking for help
+      freshForDays: 30, // Interests rarely change within a month
+      label: { en: 'Hobbies Interest', hi: 'शौक रुचि' },
+      question: {
+        en: 'What hobbies do you enjoy - sports, music, reading, art or travel?',
+        hi: 'आपको कौन से शौक पसंद हैं - खेल, संगीत, पढ़ना, कला या यात्रा?'
+      },
+      reasons: {
+        en: {
+          Sports: 'you enjoy sports',
+          Music: 'you enjoy music',
+          Reading: 'you enjoy reading',
+          Art: 'you enjoy art',
+          Travel: 'you enjoy travelling',
+          None: "you don't have a hobby right now"
+        },
+        hi: {
+          Sports: 'आपको खेल पसंद है',
+          Music: 'आपको संगीत पसंद है',
+          Reading: 'आपको पढ़ना पसंद है',
+          Art: 'आपको कला पसंद है',
+          Travel: 'आपको घूमना पसंद है',
+          None: 'अभी आपका कोई शौक नहीं है'
+        }
+      },
+      synonyms: {
+        en: {
+          Sports: ['sports', 'exercise', 'gym', 'workout', 'dancing'],
+          Music: ['music', 'singing', 'instruments', 'concerts', 'listening to music'],
+          Reading: ['reading', 'books', 'novels', 'writing', 'poetry'],
+          Art: ['art', 'drawing', 'painting', 'photography', 'creative'],
+          Travel: ['travel', 'exploring', 'adventures', 'outdoors', 'new places'],
+          None: ['nothing', 'no hobbies', 'too tired', 'netflix', 'youtube', 'gaming', 'social media']
+        },
+        hi: {
+          Sports: ['खेल', 'फुटबॉल', 'क्रिकेट', 'बास्केटबॉल', 'नृत्य'],
+          Music: ['संगीत', 'गाना'],
+          Reading: ['पढ़ना', 'किताबें', 'उपन्यास'],
+          Art: ['कला', 'चित्रकारी'],
+          Travel: ['यात्रा', 'घूमना', 'सैर'],
+          None: ['कोई नहीं']
+        }
+      },
+      notes: ['Passive screen time ("netflix" / "youtube" / "gaming" / "social media") counts as None']
+    },
+    {
+      parameter: 'opennessToJournaling',
+      type: 'boolean',
+      modelFeature: 'OpennessToJournaling',
+      allowedValues: ['Yes', 'No'],
+      defaultValue: 'Yes', // Encourage
+      modelFallbackValue: 'No',
+      freshForDays: 30,
+      label: { en: 'Openness To Journaling', hi: 'डायरी लेखन के लिए खुलापन' },
+      question: {
+        en: 'Would you be open to journaling about your day?',
+        hi: 'क्या आप अपने दिन के बारे में डायरी लिखना चाहेंगे?'
+      },
+      reasons: {
+        en: {
+          Yes: "you're open to journaling",
+          No: "you'd rather not journal"
+        },
+        hi: {
+          Yes: 'आप डायरी लिखने के लिए तैयार हैं',
+          No: 'आप डायरी नहीं लिखना चाहते'
+        }
+      },
+      synonyms: {
+        en: {
+          Yes: ['yes', 'open to it', 'try it', 'sure', 'sounds good', 'already journal', 'love writing', 'used to journal', 'maybe', 'perhaps', 'worth trying'],
+          No: ['not my thing', "can't write", "don't like writing", 'too personal', 'scary', 'not comfortable', 'no time', 'too busy']
+        },
+        hi: {
+          Yes: ['हाँ', 'हां', 'जी हाँ', 'कभी-कभी'],
+          No: ['नहीं', 'बिल्कुल नहीं']
+        }
+      },
+      notes: ['"maybe" / "perhaps" / "worth trying" → Yes (lean positive)']
+    },
+    {
+      parameter: 'willingForProfessionalHelp',
+      type: 'boolean',
+      modelFeature: 'WillingForProfessionalHelp',
+      allowedValues: ['Yes', 'No'],
+      defaultValue: 'Yes', // Encourage
+      modelFallbackValue: 'No',
+      freshForDays: 7,
+      label: { en: 'Willing For Professional Help', hi: 'व्यावसायिक सहायता के लिए इच्छा' },
+      question: {
+        en: 'Would you be willing to talk to a professional if it could help?',
+        hi: 'अगर मदद मिले तो क्या आप किसी विशेषज्ञ से बात करना चाहेंगे?'
+      },
+      reasons: {
+        en: {
+          Yes: "you're open to talking to a professional",
+          No: "you'd prefer not to see a professional yet"
+        },
+        hi: {
+          Yes: 'आप किसी विशेषज्ञ से बात करने के लिए तैयार हैं',
+          No: 'आप अभी किसी विशेषज्ञ से नहीं मिलना चाहते'
+        }
+      },
+      synonyms: {
+        en: {
+          Yes: ['yes', 'consider it', 'open to it', 'if needed', 'already seeing someone', 'tried before', 'thinking about it', 'maybe', 'possibly', 'worth trying'],
+          No: ['no', 'not really', 'not comfortable', 'never', "don't believe in therapy", "parents won't allow", 'too expensive', 'stigma', 'what will people think']
+        },
+        hi: {
+          Yes: ['हाँ', 'हां', 'जी हाँ', 'शायद'],
+          No: ['नहीं', 'बिल्कुल नहीं']
+        }
+      },
+      notes: ['"maybe" / "possibly" / "worth trying" → Yes (lean positive)']
+    }
+  ]
+};
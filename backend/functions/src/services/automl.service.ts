@@ -1,113 +1,154 @@
-import { AutoMLRequest, AutoMLResponse, WellnessData } from '../types';
+import { AutoMLRequest, AutoMLResponse, WellnessParameter } from '../types';
+import {
+  ActivityPrediction,
+  ExplanationMethod,
+  ModelInstance,
+  RecommendationExplanation,
+  RecommendationModelName
+} from '../types/recommendation.types';
+import { LocalRecommendationModel } from './recommendation/local-recommendation.model';
+import { buildExplanation } from './recommendation/recommendation-explainer';
 import { config } from '../config';
+import { normalizeAnswer, PARAMETER_ORDER, toModelInput } from '../questionnaire';
 import * as logger from 'firebase-functions/logger';
 
 export class AutoMLService {
+  private modelName: RecommendationModelName;
+  private localModel: LocalRecommendationModel;
+
+  constructor(modelName: string = config.automl.model, localModel: LocalRecommendationModel = new LocalRecommendationModel()) {
+    this.modelName = modelName === 'local' ? 'local' : 'vertex';
+    this.localModel = localModel;
+  }
+
   async getRecommendation(request: AutoMLRequest): Promise<AutoMLResponse> {
-    try {
-      const automlConfig = config.automl;
-      const modelInput = this.prepareModelInput(request.features);
-      
-      logger.info('AutoML input features:', { original: request.features, transformed: modelInput });
-      
-      const accessToken = await this.getAccessToken();
-      
-      const response = await fetch(automlConfig.endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`
-        },
-        body: JSON.stringify({
-          instances: [modelInput]
-        })
-      });
+    // Missing answers are imputed with the questionnaire's model fallback values
+    const modelInput = toModelInput(request.features);
+    const imputedParameters = PARAMETER_ORDER.filter(parameter =>
+      request.imputedParameters?.includes(parameter) || normalizeAnswer(parameter, request.features[parameter]) === null
+    );
+    logger.info('AutoML input features:', { original: request.features, transformed: modelInput, imputedParameters, model: this.modelName });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        logger.error('AutoML API response error:', { status: response.status, error: errorText });
-        throw new Error(`AutoML API error: ${response.status} - ${errorText}`);
-      }
+    if (this.modelName === 'local') {
+      return this.getLocalRecommendation(modelInput, imputedParameters);
+    }
 
-      const data = await response.json();
-      logger.info('AutoML API response:', data);
-      
-      if (data.predictions && data.predictions[0]) {
-        const predictionData = data.predictions[0];
-        
-        let maxScore = 0;
-        let bestClass = '';
-        
-        if (predictionData.scores && predictionData.classes) {
-          for (let i = 0; i < predictionData.scores.length; i++) {
-            if (predictionData.scores[i] > maxScore) {
-              maxScore = predictionData.scores[i];
-              bestClass = predictionData.classes[i];
-            }
-          }
-        }
-        
+    try {
+      const prediction = await this.getVertexPrediction(modelInput);
+      if (prediction) {
         logger.info('AutoML prediction successful:', { 
-          recommendation: bestClass, 
-          confidence: maxScore,
-          allPredictions: predictionData
+          recommendation: prediction.recommendation, 
+          confidence: prediction.confidence,
+          probabilities: prediction.probabilities
         });
-        
+        // No explanation - the endpoint returns no attributions, and the local model's would not be the endpoint's reasons
         return {
-          recommendation: bestClass || this.getFallbackRecommendation(request.features.mood),
-          confidence: maxScore || 0.8,
+          ...prediction,
+          model: 'vertex',
           timestamp: new Date().toISOString()
         };
       }
-      
-      const fallback = this.getFallbackRecommendation(request.features.mood);
-      logger.info('Using fallback recommendation:', { recommendation: fallback, confidence: 0.8 });
-      return {
-        recommendation: fallback,
-        confidence: 0.8,
-        timestamp: new Date().toISOString()
-      };
-
+      logger.warn('AutoML returned no prediction - using fallback rules');
     } catch (error) {
-      logger.error('AutoML model call failed:', error);
+      logger.error('AutoML model call failed - using fallback rules:', error);
+    }
+
+    // The experimental local model is only used when chosen - the rules stay the default fallback
+    return this.getFallbackResponse(modelInput.Mood);
+  }
+
+  // Experimental - see LocalRecommendationModel
+  private getLocalRecommendation(modelInput: ModelInstance, imputedParameters: WellnessParameter[]): AutoMLResponse {
+    try {
+      const prediction = this.localModel.predict(modelInput);
+      logger.info('Local model prediction:', { 
+        recommendation: prediction.recommendation, 
+        confidence: prediction.confidence,
+        modelVersion: this.localModel.version
+      });
       return {
-        recommendation: this.getFallbackRecommendation(request.features.mood),
-        confidence: 0.8,
+        ...prediction,
+        model: 'local',
+        modelVersion: this.localModel.version,
+        explanation: this.explain(modelInput, prediction.recommendation, imputedParameters, 'linear'),
         timestamp: new Date().toISOString()
       };
+    } catch (error) {
+      logger.error('Local model prediction failed:', error);
+      return this.getFallbackResponse(modelInput.Mood);
     }
   }
 
-  // Prepare model input for AutoML with smart defaults
-  private prepareModelInput(features: Partial<WellnessData>): any {
-    // Use intelligent smart defaults based on context and user behavior
-    const smartDefaults = {
-      mood: features.mood || 'Stressed', // If asking for help, likely stressed
-      sleepHours: String(features.sleepHours || '6'), // Average sleep
-      stressLevel: features.stressLevel || 'High', // If asking for help, likely high stress
-      academicPressure: features.academicPressure || 'Medium', 
-      socialSupport: features.socialSupport || 'Weak', // If struggling, likely weak support
-      loneliness: features.loneliness || 'Often', // If struggling, likely often lonely
-      confidenceLevel: features.confidenceLevel || 'Low', // If asking for help, likely low confidence
-      hobbiesInterest: features.hobbiesInterest || 'None', // Common for people asking for help
-      opennessToJournaling: features.opennessToJournaling || 'No',
-      willingForProfessionalHelp: features.willingForProfessionalHelp || 'No'
-    };
-
+  private getFallbackResponse(mood?: string): AutoMLResponse {
+    const fallback = this.getFallbackRecommendation(mood);
+    logger.info('Using fallback recommendation:', { recommendation: fallback, confidence: 0.8 });
     return {
-      Mood: smartDefaults.mood,
-      SleepHours: smartDefaults.sleepHours,
-      StressLevel: smartDefaults.stressLevel,
-      AcademicPressure: smartDefaults.academicPressure,
-      SocialSupport: smartDefaults.socialSupport,
-      Loneliness: smartDefaults.loneliness,
-      ConfidenceLevel: smartDefaults.confidenceLevel,
-      HobbiesInterest: smartDefaults.hobbiesInterest,
-      OpennessToJournaling: smartDefaults.opennessToJournaling,
-      WillingForProfessionalHelp: smartDefaults.willingForProfessionalHelp
+      recommendation: fallback,
+      confidence: 0.8,
+      model: 'fallback',
+      timestamp: new Date().toISOString()
     };
   }
 
+  // Explanations are best-effort - a recommendation is still returned without one
+  private explain(
+    modelInput: ModelInstance,
+    activity: string,
+    imputedParameters: WellnessParameter[],
+    method: ExplanationMethod
+  ): RecommendationExplanation | undefined {
+    try {
+      return buildExplanation(activity, this.localModel.explain(modelInput, activity), imputedParameters, method);
+    } catch (error) {
+      logger.warn('Could not explain recommendation:', { activity, error: error instanceof Error ? error.message : 'Unknown error' });
+      return undefined;
+    }
+  }
+
+  // Deployed Vertex AutoML endpoint - null when the response carries no prediction
+  private async getVertexPrediction(modelInput: ModelInstance): Promise<ActivityPrediction | null> {
+    const automlConfig = config.automl;
+    const accessToken = await this.getAccessToken();
+    
+    const response = await fetch(automlConfig.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({
+        instances: [modelInput]
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error('AutoML API response error:', { status: response.status, error: errorText });
+      throw new Error(`AutoML API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    logger.info('AutoML API response:', data);
+
+    const predictionData = data.predictions?.[0];
+    if (!predictionData?.scores || !predictionData?.classes) {
+      return null;
+    }
+
+    const probabilities: Record<string, number> = {};
+    let maxScore = 0;
+    let bestClass = '';
+    for (let i = 0; i < predictionData.scores.length; i++) {
+      probabilities[predictionData.classes[i]] = predictionData.scores[i];
+      if (predictionData.scores[i] > maxScore) {
+        maxScore = predictionData.scores[i];
+        bestClass = predictionData.classes[i];
+      }
+    }
+
+    return bestClass ? { recommendation: bestClass, confidence: maxScore, probabilities } : null;
+  }
+
   private async getAccessToken(): Promise<string> {
     try {
       const serviceAccountConfig = config.serviceAccount;
@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto';
+import { getFirestore } from 'firebase-admin/firestore';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { ChatSession, ChatSessionState, FieldProvenance, WellnessParameter, WellnessProvenance } from '../types';
+
+/**
+ * Persistence for chat session state, keyed by user and chat session id
+ */
+export interface ChatSessionStore {
+  get(userId: string, sessionId: string): Promise<ChatSession | null>;
+  save(session: ChatSession): Promise<void>;
+}
+
+/**
+ * What a save leaves stored when the session was saved by another request in the meantime
+ * Two messages of a chat can be handled at once, so progress is combined instead of overwritten:
+ * asked parameters and safety events only grow, the newer provenance of a parameter wins, and an
+ * expired session stays expired.
+ */
+function mergeSession(stored: ChatSession | null, session: ChatSession): ChatSession {
+  if (!stored) {
+    return session;
+  }
+  const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+  const provenance: WellnessProvenance = { ...stored.provenance };
+  (Object.entries(session.provenance || {}) as Array<[WellnessParameter, FieldProvenance]>).forEach(([parameter, field]) => {
+    const current = provenance[parameter];
+    if (!current || current.extractedAt <= field.extractedAt) {
+      provenance[parameter] = field;
+    }
+  });
+  const safetyEventIds = union(stored.safetyEventIds, session.safetyEventIds);
+  const expired = stored.status === 'expired' ? stored : session.status === 'expired' ? session : null;
+
+  // Firestore rejects undefined fields
+  return {
+    sessionId: session.sessionId,
+    userId: session.userId,
+    status: expired ? 'expired' : session.status,
+    askedParameters: union(stored.askedParameters, session.askedParameters),
+    ...(Object.keys(provenance).length > 0 ? { provenance } : {}),
+    ...(safetyEventIds.length > 0 ? { safetyEventIds } : {}),
+    createdAt: stored.createdAt,
+    lastActivityAt: session.lastActivityAt,
+    ...(expired?.expiredAt ? { expiredAt: expired.expiredAt } : {})
+  };
+}
+
+/**
+ * Firestore backed store - survives cold starts and is shared by all function instances
+ * Layout: chat_session_state/{userId}/sessions/{sessionId}
+ */
+export class FirestoreChatSessionStore implements ChatSessionStore {
+  private db = getFirestore();
+  private collectionName = config.chatSession.collection;
+
+  async get(userId: string, sessionId: string): Promise<ChatSession | null> {
+    const doc = await this.sessionRef(userId, sessionId).get();
+    return doc.exists ? (doc.data() as ChatSession) : null;
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    const ref = this.sessionRef(session.userId, session.sessionId);
+    await this.db.runTransaction(async (transaction) => {
+      const stored = await transaction.get(ref);
+      transaction.set(ref, mergeSession(stored.exists ? (stored.data() as ChatSession) : null, session));
+    });
+  }
+
+  private sessionRef(userId: string, sessionId: string) {
+    return this.db.collection(this.collectionName).doc(userId).collection('sessions').doc(sessionId);
+  }
+}
+
+/**
+ * In-memory store for tests and local development - state is lost on restart
+ */
+export class InMemoryChatSessionStore implements ChatSessionStore {
+  private sessions: Map<string, ChatSession> = new Map();
+
+  async get(userId: string, sessionId: string): Promise<ChatSession | null> {
+    const session = this.sessions.get(this.key(userId, sessionId));
+    return session ? { ...session, askedParameters: [...session.askedParameters] } : null;
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    const key = this.key(session.userId, session.sessionId);
+    const merged = mergeSession(this.sessions.get(key) || null, session);
+    this.sessions.set(key, { ...merged, askedParameters: [...merged.askedParameters] });
+  }
+
+  private key(userId: string, sessionId: string): string {
+    return `${userId}::${sessionId}`;
+  }
+}
+
+export function createChatSessionStore(): ChatSessionStore {
+  if (config.chatSession.store === 'memory') {
+    logger.warn('Using in-memory chat session store - session state will not survive restarts');
+    return new InMemoryChatSessionStore();
+  }
+  return new FirestoreChatSessionStore();
+}
+
+/**
+ * Explicit chat session lifecycle: start, resume, expire
+ */
+export class ChatSessionService {
+  private store: ChatSessionStore;
+  private idleTimeoutMs: number;
+
+  constructor(store: ChatSessionStore = createChatSessionStore(), idleTimeoutMinutes: number = config.chatSession.idleTimeoutMinutes) {
+    this.store = store;
+    this.idleTimeoutMs = idleTimeoutMinutes * 60 * 1000;
+  }
+
+  /**
+   * Start a fresh session with no questionnaire progress
+   */
+  async start(userId: string, sessionId?: string): Promise<ChatSession> {
+    const now = new Date().toISOString();
+    const session: ChatSession = {
+      sessionId: sessionId && this.isValidSessionId(sessionId) ? sessionId : randomUUID(),
+      userId,
+      status: 'active',
+      askedParameters: [],
+      createdAt: now,
+      lastActivityAt: now
+    };
+
+    await this.store.save(session);
+    logger.info('Chat session started', { userId, sessionId: session.sessionId });
+    return session;
+  }
+
+  /**
+   * Resume an active session - returns null when it does not exist or has expired
+   */
+  async resume(userId: string, sessionId: string): Promise<ChatSession | null> {
+    if (!this.isValidSessionId(sessionId)) {
+      return null;
+    }
+
+    const session = await this.store.get(userId, sessionId);
+    if (!session || session.status === 'expired') {
+      return null;
+    }
+
+    if (this.isIdle(session)) {
+      await this.expire(session);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Resume the requested session if possible, otherwise start a new one
+   * A client supplied id is only reused when no session has ever existed under it
+   */
+  async startOrResume(userId: string, sessionId?: string): Promise<{ session: ChatSession; state: ChatSessionState }> {
+    if (sessionId) {
+      const resumed = await this.resume(userId, sessionId);
+      if (resumed) {
+        return { session: resumed, state: 'resumed' };
+      }
+
+      const existing = await this.store.get(userId, sessionId);
+      if (!existing) {
+        return { session: await this.start(userId, sessionId), state: 'started' };
+      }
+    }
+
+    return { session: await this.start(userId), state: 'started' };
+  }
+
+  /**
+   * Record activity and persist questionnaire progress
+   */
+  async touch(session: ChatSession): Promise<void> {
+    session.lastActivityAt = new Date().toISOString();
+    await this.store.save(session);
+  }
+
+  /**
+   * Expire a session so it can no longer be resumed
+   */
+  async expire(session: ChatSession): Promise<void> {
+    session.status = 'expired';
+    session.expiredAt = new Date().toISOString();
+    await this.store.save(session);
+    logger.info('Chat session expired', { userId: session.userId, sessionId: session.sessionId });
+  }
+
+  /**
+   * Expire a session by id - returns false when there was no such session
+   */
+  async expireById(userId: string, sessionId: string): Promise<boolean> {
+    if (!this.isValidSessionId(sessionId)) {
+      return false;
+    }
+
+    const session = await this.store.get(userId, sessionId);
+    if (!session) {
+      return false;
+    }
+
+    if (session.status !== 'expired') {
+      await this.expire(session);
+    }
+    return true;
+  }
+
+  private isIdle(session: ChatSession): boolean {
+    return Date.now() - new Date(session.lastActivityAt).getTime() > this.idleTimeoutMs;
+  }
+
+  // Session ids become Firestore document ids
+  private isValidSessionId(sessionId: string): boolean {
+    return /^[A-Za-z0-9_-]{1,128}$/.test(sessionId);
+  }
+}
@@ -0,0 +1,214 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { LlmProvider, LlmResponseSchema } from '../types/llm.types';
+import {
+  SafetyAssessment,
+  SafetyCategory,
+  SafetyLexiconLanguage,
+  SafetyLexiconMatch,
+  SafetyRiskLevel
+} from '../types/safety.types';
+
+interface LexiconRule extends SafetyLexiconMatch {
+  pattern: RegExp;
+}
+
+type LlmCheckMode = 'off' | 'ambiguous' | 'always';
+
+interface RawSafetyClassification {
+  risk?: string;
+  category?: string | null;
+}
+
+const RISK_ORDER: SafetyRiskLevel[] = ['none', 'concern', 'crisis'];
+
+function rule(id: string, language: SafetyLexiconLanguage, level: 'concern' | 'crisis', category: SafetyCategory, pattern: RegExp): LexiconRule {
+  return { rule: `${language}.${id}`, language, level, category, pattern };
+}
+
+/**
+ * Keyword lexicon - deliberately errs on the side of flagging; a false positive shows helplines,
+ * a false negative keeps asking about sleep. Devanagari has no \b word boundaries in JS regexes,
+ * so Hindi rules match substrings.
+ */
+const LEXICON: LexiconRule[] = [
+  // English
+  rule('kill_myself', 'en', 'crisis', 'suicidal_ideation', /\bkill(ing)?\s+my\s*self\b/i),
+  rule('suicide', 'en', 'crisis', 'suicidal_ideation', /\bsuicid(e|al)\b/i),
+  rule('end_my_life', 'en', 'crisis', 'suicidal_ideation', /\bend(ing)?\s+(my\s+(own\s+)?life|it\s+all)\b/i),
+  rule('take_my_life', 'en', 'crisis', 'suicidal_ideation', /\btake\s+my\s+(own\s+)?life\b/i),
+  rule('want_to_die', 'en', 'crisis', 'suicidal_ideation', /\bwant(ed)?\s+to\s+die\b/i),
+  rule('dont_want_to_live', 'en', 'crisis', 'suicidal_ideation', /\b(don'?t|do\s+not)\s+want\s+to\s+(live|be\s+alive|exist)\b/i),
+  rule('better_off_dead', 'en', 'crisis', 'suicidal_ideation', /\bbetter\s+off\s+dead\b/i),
+  rule('no_reason_to_live', 'en', 'crisis', 'suicidal_ideation', /\bno\s+(reason|point)\s+(to|in)\s+liv(e|ing)\b/i),
+  rule('wish_i_was_dead', 'en', 'crisis', 'suicidal_ideation', /\bwish\s+i\s+(was|were)\s+dead\b/i),
+  rule('hurt_myself', 'en', 'crisis', 'self_harm', /\b(hurt(ing)?|harm(ing)?|cut(ting)?|burn(ing)?)\s+my\s*self\b/i),
+  rule('self_harm', 'en', 'crisis', 'self_harm', /\bself[-\s]?harm/i),
+  rule('overdose', 'en', 'crisis', 'self_harm', /\boverdos(e|ing)\b/i),
+  rule('hopeless', 'en', 'concern', 'suicidal_ideation', /\bhopeless\b/i),
+  rule('cant_go_on', 'en', 'concern', 'suicidal_ideation', /\b(can'?t|cannot)\s+go\s+on\b/i),
+  rule('nobody_would_miss_me', 'en', 'concern', 'suicidal_ideation', /\b(nobody|no\s+one)\s+would\s+(care|miss\s+me)\b/i),
+  rule('burden', 'en', 'concern', 'suicidal_ideation', /\b(a\s+)?burden\s+(to|on)\s+(everyone|everybody|my\s+family)\b/i),
+  rule('disappear', 'en', 'concern', 'suicidal_ideation', /\bdisappear\s+forever\b/i),
+
+  // Hindi (Devanagari)
+  rule('atmahatya', 'hi', 'crisis', 'suicidal_ideation', /आत्महत्या|ख़ुदकुशी|खुदकुशी/),
+  rule('marna_chahta', 'hi', 'crisis', 'suicidal_ideation', /(मरना|मर\s*जाना)\s*चाहत(ा|ी|े)/),
+  rule('jeena_nahi_chahta', 'hi', 'crisis', 'suicidal_ideation', /जीना\s*नहीं\s*चाहत(ा|ी|े)|जीने\s*का\s*(मन|कोई\s*मतलब)\s*नहीं/),
+  rule('jaan_dena', 'hi', 'crisis', 'suicidal_ideation', /अपनी\s*जान\s*(दे|ले)/),
+  rule('khud_ko_khatam', 'hi', 'crisis', 'suicidal_ideation', /(खुद|ख़ुद)\s*को\s*(खत्म|ख़त्म|मार)/),
+  rule('zindagi_khatam', 'hi', 'crisis', 'suicidal_ideation', /(ज़िंदगी|जिंदगी|ज़िन्दगी|जिन्दगी)\s*(खत्म|ख़त्म)\s*कर/),
+  rule('khud_ko_nuksan', 'hi', 'crisis', 'self_harm', /(खुद|ख़ुद)\s*को\s*(नुकसान|नुक़सान|चोट)/),
+  rule('nas_kaatna', 'hi', 'crisis', 'self_harm', /नस\s*काट/),
+  rule('koi_umeed_nahi', 'hi', 'concern', 'suicidal_ideation', /(कोई\s*)?(उम्मीद|आशा)\s*नहीं/),
+  rule('sab_khatam', 'hi', 'concern', 'suicidal_ideation', /सब\s*(कुछ\s*)?(खत्म|ख़त्म)/),
+  rule('bojh', 'hi', 'concern', 'suicidal_ideation', /बोझ\s*(हूँ|हूं|हु)/),
+
+  // Hinglish (romanized Hindi)
+  rule('khudkushi', 'hinglish', 'crisis', 'suicidal_ideation', /\bkhud\s*kushi\b/i),
+  rule('marna_chahta', 'hinglish', 'crisis', 'suicidal_ideation', /\b(marna|mar\s+ja+na)\s+chaht[aie]\b/i),
+  rule('mar_jaun', 'hinglish', 'crisis', 'suicidal_ideation', /\bmar\s+ja(u|un|oon)\b/i),
+  rule('jeena_nahi_chahta', 'hinglish', 'crisis', 'suicidal_ideation', /\bjee?na\s+nahi\s+chaht[aie]\b|\bjeene\s+ka\s+(mann?|koi\s+(matlab|fayda))\s+nahi\b/i),
+  rule('khud_ko_khatam', 'hinglish', 'crisis', 'suicidal_ideation', /\bkhud\s+ko\s+(khatam|khatm|maar)\b/i),
+  rule('jaan_dena', 'hinglish', 'crisis', 'suicidal_ideation', /\bapni\s+jaan\s+(de|le)\b/i),
+  rule('zindagi_khatam', 'hinglish', 'crisis', 'suicidal_ideation', /\bzinda?gi\s+(khatam|khatm)\s+kar/i),
+  rule('khud_ko_nuksan', 'hinglish', 'crisis', 'self_harm', /\bkhud\s+ko\s+(hurt|nuksa+n|chot)\b/i),
+  rule('nas_kaatna', 'hinglish', 'crisis', 'self_harm', /\bnass?\s+kaa?t/i),
+  rule('koi_umeed_nahi', 'hinglish', 'concern', 'suicidal_ideation', /\bkoi\s+(u+m+e+d|asha)\s+nahi\b/i),
+  rule('sab_khatam', 'hinglish', 'concern', 'suicidal_ideation', /\bsab\s+(kuch\s+)?(khatam|khatm)\b/i),
+  rule('bojh', 'hinglish', 'concern', 'suicidal_ideation', /\bbojh\s+(hu|hoon|hun)\b/i)
+];
+
+/**
+ * Safety classifier run on every chat message before any prompt is built
+ * Lexicon rules in English, Hindi and Hinglish, plus an optional LLM second opinion.
+ * The LLM can only raise the risk level, never lower what the lexicon found.
+ */
+export class CrisisDetectionService {
+  private llmProvider?: LlmProvider;
+  private llmCheck: LlmCheckMode;
+
+  constructor(llmProvider?: LlmProvider, llmCheck: string = config.safety.llmCheck) {
+    this.llmProvider = llmProvider;
+    this.llmCheck = (['off', 'ambiguous', 'always'].includes(llmCheck) ? llmCheck : 'ambiguous') as LlmCheckMode;
+  }
+
+  async assess(message: string, conversationHistory: string[] = []): Promise<SafetyAssessment> {
+    const matches = this.matchLexicon(message);
+    const lexiconLevel = this.highest(matches.map(match => match.level));
+    const assessment: SafetyAssessment = {
+      level: lexiconLevel,
+      category: this.categoryFor(matches, lexiconLevel),
+      matches,
+      llmChecked: false
+    };
+
+    const shouldAskLlm = this.llmProvider && lexiconLevel !== 'crisis' &&
+      (this.llmCheck === 'always' || (this.llmCheck === 'ambiguous' && lexiconLevel === 'concern'));
+
+    if (shouldAskLlm) {
+      const classification = await this.classifyWithLlm(message, conversationHistory);
+      if (classification) {
+        assessment.llmChecked = true;
+        assessment.llmLevel = classification.level;
+        if (RISK_ORDER.indexOf(classification.level) > RISK_ORDER.indexOf(assessment.level)) {
+          assessment.level = classification.level;
+          assessment.category = classification.category || assessment.category || 'suicidal_ideation';
+        }
+      }
+    }
+
+    if (assessment.level !== 'none') {
+      logger.warn('Safety classifier flagged message', {
+        level: assessment.level,
+        category: assessment.category,
+        rules: matches.map(match => match.rule),
+        llmChecked: assessment.llmChecked,
+        llmLevel: assessment.llmLevel
+      });
+    }
+
+    return assessment;
+  }
+
+  private matchLexicon(message: string): SafetyLexiconMatch[] {
+    // Curly apostrophes from mobile keyboards ("don’t")
+    const normalized = message.replace(/[‘’]/g, "'");
+    return LEXICON
+      .filter(entry => entry.pattern.test(normalized))
+      .map(({ rule: id, language, level, category }) => ({ rule: id, language, level, category }));
+  }
+
+  private highest(levels: SafetyRiskLevel[]): SafetyRiskLevel {
+    return levels.reduce<SafetyRiskLevel>(
+      (highest, level) => (RISK_ORDER.indexOf(level) > RISK_ORDER.indexOf(highest) ? level : highest),
+      'none'
+    );
+  }
+
+  private categoryFor(matches: SafetyLexiconMatch[], level: SafetyRiskLevel): SafetyCategory | undefined {
+    return matches.find(match => match.level === level)?.category;
+  }
+
+  private async classifyWithLlm(message: string, conversationHistory: string[]): Promise<{ level: SafetyRiskLevel; category?: SafetyCategory } | null> {
+    try {
+      const raw = await this.llmProvider!.generateStructured<RawSafetyClassification>(
+        this.createClassificationPrompt(message, conversationHistory),
+        {
+          temperature: 0,
+          maxOutputTokens: 128,
+          responseSchema: this.buildResponseSchema()
+        }
+      );
+
+      const level = RISK_ORDER.find(candidate => candidate === raw?.risk);
+      if (!level) {
+        return null;
+      }
+      const category = raw?.category === 'suicidal_ideation' || raw?.category === 'self_harm' ? raw.category : undefined;
+      return { level, category };
+    } catch (error) {
+      // The lexicon result stands when the classifier is unavailable
+      logger.error('Safety LLM check failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  private buildResponseSchema(): LlmResponseSchema {
+    return {
+      type: 'object',
+      properties: {
+        risk: {
+          type: 'string',
+          enum: RISK_ORDER,
+          description: 'crisis for any suicidal ideation, intent or self-harm; concern for hopelessness without it; none otherwise'
+        },
+        category: {
+          type: 'string',
+          enum: ['suicidal_ideation', 'self_harm'],
+          nullable: true,
+          description: 'Kind of risk, null when risk is none'
+        }
+      },
+      required: ['risk', 'category']
+    };
+  }
+
+  private createClassificationPrompt(message: string, conversationHistory: string[]): string {
+    const recentHistory = conversationHistory.slice(-4).join('\n');
+
+    return `SAFETY CLASSIFICATION for a student mental wellness chat.
+Decide whether the latest message shows risk of suicide or self-harm.
+The message may be in English, Hindi or Hinglish. Indirect statements count
+("I want to sleep and never wake up", "sab khatam kar dena chahta hoon").
+
+RECENT CONVERSATION:
+${recentHistory}
+
+LATEST MESSAGE: "${message}"
+
+When unsure between two levels, choose the higher one.`;
+  }
+}
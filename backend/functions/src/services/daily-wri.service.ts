@@ -0,0 +1,231 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import {
+  computeWRI,
+  CURRENT_SCORING_PROFILE,
+  dayBounds,
+  dayKey,
+  DailyWriRecord,
+  DailyWriSource,
+  JournalMetrics,
+  journalMetricsFromCounts,
+  NoCheckInRecord,
+  normalizeInputs,
+  shiftDay,
+  WriHistoryPoint
+} from '@manoday/wellness-scoring';
+import { EncryptionService } from './encryption.service';
+import { UserProfileService } from './user-profile.service';
+import { classifyFreshness, resolveCollectedAt } from '../questionnaire';
+import { WellnessParameter } from '../types';
+import { ParameterTimestamps } from '../types/questionnaire.types';
+import { DailyWriRunResult, DailyWriUserResult } from '../types/wri.types';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Users with a chat or a journal entry in this many days are scored every night
+const ACTIVE_DAYS = 30;
+// Missing days this far back are filled in as well, so a failed run does not leave a gap
+const BACKFILL_DAYS = 7;
+// History the weekly/monthly indexes of a scored day are computed from
+const HISTORY_DAYS = 60;
+
+const EMPTY_JOURNAL_METRICS: JournalMetrics = {
+  journal_streak: 0,
+  weekly_journal_count: 0,
+  last_journal_date: null,
+  journal_entries_today: 0
+};
+
+// Calendar days between two day keys
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+// What the job needs to know about an already stored day
+interface StoredDay {
+  date: string;
+  wri?: number;
+  source?: DailyWriSource;
+}
+
+interface StoredSession {
+  lastUpdated: number;
+  encryptedData?: string;
+  iv?: string;
+  collectedAt?: ParameterTimestamps;
+}
+
+/**
+ * Writes one daily WRI document per active user and day from the server
+ * A day with a chat or a journal entry is scored from the latest insights (stale answers left out,
+ * as on the dashboard) and that day's journal metrics. A day without either is stored as
+ * "no check-in" instead of repeating the last score. The job only fills in missing days: days it
+ * already wrote and scores the browser saved are left alone.
+ * Days are the user's own (their profile timezone), like the ones the browser writes.
+ */
+export class DailyWriService {
+  private db = getFirestore();
+
+  /**
+   * Score the day (a yyyy-mm-dd key, defaults to yesterday in each user's timezone) and fill missing days before it
+   */
+  async scoreActiveUsers(day?: string): Promise<DailyWriRunResult> {
+    const users = await this.findActiveUsers();
+    const profiles = new UserProfileService();
+
+    const result: DailyWriRunResult = { date: day || null, users: users.length, scored: 0, noCheckIn: 0, kept: 0, failed: 0 };
+    // One user at a time - a failure is logged and the run goes on
+    for (const userEmail of users) {
+      try {
+        const timeZone = await profiles.getTimeZone(userEmail);
+        const lastDay = day || shiftDay(dayKey(new Date(), timeZone), -1);
+        const days = Array.from({ length: BACKFILL_DAYS }, (_, index) => shiftDay(lastDay, index - (BACKFILL_DAYS - 1)));
+        const userResult = await this.scoreUser(userEmail, days, timeZone);
+        result.scored += userResult.scored;
+        result.noCheckIn += userResult.noCheckIn;
+        result.kept += userResult.kept;
+      } catch (error) {
+        result.failed++;
+        logger.error('Daily WRI failed for user', { userEmail, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    logger.info('Daily WRI run finished', result);
+    return result;
+  }
+
+  /**
+   * Score the given days (ascending yyyy-mm-dd keys in the user's timezone) for one user
+   */
+  async scoreUser(userEmail: string, days: string[], timeZone: string): Promise<DailyWriUserResult> {
+    const result: DailyWriUserResult = { userEmail, scored: 0, noCheckIn: 0, kept: 0 };
+    const dailyRef = this.db.collection('mood_scores').doc(userEmail).collection('daily');
+
+    const historyStart = shiftDay(days[0], -HISTORY_DAYS);
+    const stored = await dailyRef.where('date', '>=', historyStart).orderBy('date', 'asc').get();
+    const records = new Map<string, StoredDay>(stored.docs.map(doc => [doc.id, doc.data() as StoredDay]));
+
+    const sessionsSnapshot = await this.db.collection('encrypted_insights').doc(userEmail)
+      .collection('chat_sessions').orderBy('lastUpdated', 'asc').get();
+    const sessions: StoredSession[] = sessionsSnapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        lastUpdated: data.lastUpdated?.toDate?.().getTime() ?? 0,
+        encryptedData: data.encryptedData,
+        iv: data.iv,
+        collectedAt: data.collectedAt
+      };
+    });
+
+    // Per-day entry counts kept by the journal trigger
+    const journalSummary = await this.db.collection('Journal_insights').doc(userEmail).get();
+    const entryCounts: Record<string, number> | undefined = journalSummary.data()?.entry_counts;
+
+    for (const day of days) {
+      const existing = records.get(day);
+      if (existing?.source === 'scheduled') {
+        continue;
+      }
+      // A score the browser saved is kept - it was computed from the answers the student saw
+      if (typeof existing?.wri === 'number') {
+        result.kept++;
+        continue;
+      }
+
+      const { start, end } = dayBounds(day, timeZone);
+      const chattedToday = sessions.some(session => session.lastUpdated >= start && session.lastUpdated < end);
+      const journalMetrics = entryCounts
+        ? journalMetricsFromCounts(entryCounts, day)
+        : await this.readDailyJournalMetrics(userEmail, day);
+
+      if (!chattedToday && journalMetrics.journal_entries_today === 0) {
+        const record: NoCheckInRecord = { date: day, status: 'no_check_in', source: 'scheduled', profile_version: CURRENT_SCORING_PROFILE };
+        await dailyRef.doc(day).set({ ...record, computedAt: FieldValue.serverTimestamp() });
+        records.set(day, record);
+        result.noCheckIn++;
+        continue;
+      }
+
+      // Latest insights as of the end of the day, without the answers that were stale by then
+      const latest = [...sessions].reverse().find(session => session.lastUpdated < end && session.encryptedData && session.iv);
+      const wellnessData: Record<string, any> = latest
+        ? EncryptionService.decryptWellnessData(latest.encryptedData!, latest.iv!, userEmail)
+        : {};
+      const collectedAt = latest?.collectedAt || resolveCollectedAt(wellnessData, null, new Date(latest?.lastUpdated ?? 0));
+      const { stale } = classifyFreshness(collectedAt, new Date(end));
+      const freshWellness = Object.fromEntries(Object.entries(wellnessData).filter(([parameter]) => !stale.includes(parameter as WellnessParameter)));
+
+      const history: WriHistoryPoint[] = Array.from(records.values())
+        .filter(record => typeof record.wri === 'number' && record.date < day)
+        .map(record => ({ date: record.date, wri: record.wri as number }));
+      const inputs = normalizeInputs({ ...freshWellness, ...journalMetrics });
+      const output = computeWRI(inputs, history, true);
+
+      const record: DailyWriRecord = {
+        date: day,
+        wri: output.wri,
+        profile_version: output.profile_version,
+        risk_band: output.risk_band,
+        subscores: output.subscores,
+        flags: output.flags,
+        // Firestore rejects undefined fields
+        recommendations: output.recommendations.map(({ personalization, ...recommendation }) => ({
+          ...recommendation,
+          ...(personalization ? { personalization } : {})
+        })),
+        history_indexes: {
+          weekly_index: output.history_indexes?.weekly_index ?? null,
+          monthly_index: output.history_indexes?.monthly_index ?? null,
+          volatility: output.history_indexes?.volatility ?? null
+        },
+        uncertainty: output.uncertainty,
+        inputs,
+        journal_bonus_applied: true,
+        status: 'checked_in',
+        source: 'scheduled',
+        day_basis: 'local'
+      };
+      await dailyRef.doc(day).set({ ...record, computedAt: FieldValue.serverTimestamp() }, { merge: true });
+      records.set(day, record);
+      result.scored++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Emails of users who chatted or whose journal changed within ACTIVE_DAYS - journal-only users have
+   * no recent encrypted_insights update, so the journal trigger's summaries are read as well
+   */
+  private async findActiveUsers(): Promise<string[]> {
+    const activeSince = new Date(Date.now() - ACTIVE_DAYS * DAY_MS);
+    const [chatUsers, journalUsers] = await Promise.all([
+      this.db.collection('encrypted_insights').where('lastUpdated', '>=', activeSince).get(),
+      this.db.collection('Journal_insights').where('updatedAt', '>=', activeSince).get()
+    ]);
+    return Array.from(new Set([...chatUsers.docs, ...journalUsers.docs].map(doc => doc.id)));
+  }
+
+  /**
+   * Journal metrics of the day from the daily Journal_insights documents, for users who have not
+   * written an entry since the trigger was added - without a document for the day, the streak
+   * carries over from the day before and the weekly count from the past week
+   */
+  private async readDailyJournalMetrics(userEmail: string, day: string): Promise<JournalMetrics> {
+    const snapshot = await this.db.collection('Journal_insights').doc(userEmail).collection('daily')
+      .where('date', '<=', day).orderBy('date', 'desc').limit(1).get();
+    const latest = snapshot.docs[0]?.data();
+    if (!latest?.metrics) {
+      return EMPTY_JOURNAL_METRICS;
+    }
+    const metrics: JournalMetrics = { ...EMPTY_JOURNAL_METRICS, ...latest.metrics };
+    if (latest.date === day) {
+      return metrics;
+    }
+    const daysSince = daysBetween(latest.date, day);
+    return {
+      ...metrics,
+      journal_entries_today: 0,
+      journal_streak: daysSince <= 1 ? metrics.journal_streak : 0,
+      weekly_journal_count: daysSince < 7 ? metrics.weekly_journal_count : 0
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { CollectionReference, getFirestore } from 'firebase-admin/firestore';
+import { JournalInsightsService } from './journal-insights.service';
+import { DayKeyMigrationResult } from '../types/user-profile.types';
+import { logger } from '../utils/logger';
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+/**
+ * Marks a user's day-keyed data saved before their timezone was known, and counts their journal
+ * entries again in the timezone
+ * Until the first timezone is stored, the browser and the functions key days in UTC. Daily WRI
+ * documents and journal metric snapshots stay under those UTC days: their computedAt is rewritten on
+ * every save (and set by the nightly job after the day ended), so it does not tell which local day a
+ * score belonged to, and re-keying by it would move scores to wrong days and overwrite others. They
+ * get day_basis 'utc' instead so the trend, baseline and forecast can tell them apart; documents
+ * written later carry day_basis 'local'. Nothing is moved or deleted. The journal entry counts come
+ * from each entry's own creation time, so they are rebuilt in the timezone.
+ */
+export class DayKeyMigrationService {
+  private db = getFirestore();
+
+  async migrateUser(userEmail: string, timeZone: string): Promise<DayKeyMigrationResult> {
+    const result: DayKeyMigrationResult = { userEmail, timeZone, dailyDocuments: 0, journalSnapshots: 0, journalEntries: 0 };
+
+    // UTC days already are the user's own days
+    if (timeZone !== 'UTC') {
+      result.dailyDocuments = await this.markUtcDays(this.db.collection('mood_scores').doc(userEmail).collection('daily'));
+      result.journalSnapshots = await this.markUtcDays(this.db.collection('Journal_insights').doc(userEmail).collection('daily'));
+    }
+    result.journalEntries = await new JournalInsightsService().rebuild(userEmail, timeZone);
+
+    logger.info('Day keys migrated', result);
+    return result;
+  }
+
+  // Marks the documents without a day basis as UTC days - returns the number marked
+  private async markUtcDays(days: CollectionReference): Promise<number> {
+    const unmarked = (await days.get()).docs.filter(doc => !doc.get('day_basis'));
+    for (let start = 0; start < unmarked.length; start += BATCH_SIZE) {
+      const batch = this.db.batch();
+      unmarked.slice(start, start + BATCH_SIZE).forEach(doc => batch.set(doc.ref, { day_basis: 'utc' }, { merge: true }));
+      await batch.commit();
+    }
+    return unmarked.length;
+  }
+}
@@ -1,278 +1,396 @@
-import { GeminiRequest, GeminiResponse, WellnessData } from '../types';
-import { config } from '../config';
+import { ChatSession, FieldExtraction, GeminiRequest, GeminiResponse, WellnessData, WellnessParameter, WellnessProvenance } from '../types';
+import { LlmProvider, LlmProviderError } from '../types/llm.types';
+import { ChatSessionService } from './chat-session.service';
+import { createLlmProvider } from './llm';
+import { WellnessExtractionService } from './wellness-extraction.service';
+import { CrisisDetectionService } from './crisis-detection.service';
+import { SafetyEventService } from './safety-event.service';
+import { ProfessionalHelpService } from './professional-help.service';
+import { SafetyAssessment } from '../types/safety.types';
+import { HelplineCenter } from '../types/professional-help.types';
+import { getQuestion, PARAMETER_ORDER, WELLNESS_ALLOWED_VALUES, WELLNESS_QUESTIONNAIRE } from '../questionnaire';
+import { CodeBlockStreamFilter } from '../utils/code-block-filter';
 import * as logger from 'firebase-functions/logger';
 
+interface TurnData {
+  extractions: FieldExtraction[];
+  extractedData: Partial<WellnessData>;
+  updatedWellnessData: Partial<WellnessData>;
+  clarification?: FieldExtraction;
+  provenance: WellnessProvenance;
+}
+
 export class GeminiService {
-  // Track which parameters have been asked to prevent repetition
-  private askedParameters: Set<string> = new Set();
-  
-  // Track current chat session ID to distinguish new chats
-  private currentSessionId: string = '';
-  
-  // Track if this is a new chat session
-  private isNewChatSession: boolean = false;
-
-  // Reset asked parameters for new conversation
-  private resetAskedParameters(): void {
-    this.askedParameters.clear();
-    logger.info('Reset asked parameters for new conversation');
+  // Questionnaire progress lives in the session store, never on this shared instance
+  private chatSessionService: ChatSessionService;
+  private llmProvider: LlmProvider;
+  private extractionService: WellnessExtractionService;
+  private crisisDetectionService: CrisisDetectionService;
+  private safetyEventService: SafetyEventService;
+  private professionalHelpService: ProfessionalHelpService;
+
+  constructor(
+    chatSessionService: ChatSessionService = new ChatSessionService(),
+    llmProvider: LlmProvider = createLlmProvider(),
+    safetyEventService: SafetyEventService = new SafetyEventService()
+  ) {
+    this.chatSessionService = chatSessionService;
+    this.llmProvider = llmProvider;
+    this.extractionService = new WellnessExtractionService(llmProvider);
+    this.crisisDetectionService = new CrisisDetectionService(llmProvider);
+    this.safetyEventService = safetyEventService;
+    this.professionalHelpService = new ProfessionalHelpService();
+  }
+
+  async generateResponse(request: GeminiRequest & { language?: string }, userId: string): Promise<GeminiResponse> {
+    return this.withSession(request, userId, (session, isNewChatSession) =>
+      this.generateSessionResponse(request, session, isNewChatSession));
   }
 
-  // Start new chat session
-  private startNewChatSession(): void {
-    this.currentSessionId = Date.now().toString();
-    this.isNewChatSession = true;
-    this.resetAskedParameters();
-    logger.info('🆕 New chat session started:', { sessionId: this.currentSessionId });
+  /**
+   * Streaming variant of generateResponse
+   * onToken receives the visible reply text as it arrives ({code} extraction block removed);
+   * onReset is called when the stream fails after some of it was sent, before the fallback reply
+   * replaces it. The resolved value is the same final structured response generateResponse returns
+   */
+  async streamResponse(
+    request: GeminiRequest & { language?: string },
+    userId: string,
+    onToken: (text: string) => void,
+    onReset: () => void
+  ): Promise<GeminiResponse> {
+    return this.withSession(request, userId, (session, isNewChatSession) =>
+      this.streamSessionResponse(request, session, isNewChatSession, onToken, onReset));
   }
 
-  // Check if this is a new chat session
-  private checkNewChatSession(conversationHistory: string[]): boolean {
-    // If no conversation history, it's a new chat
-    if (conversationHistory.length === 0) {
-      return true;
+  /**
+   * Expire a chat session explicitly (e.g. when the user starts a new chat)
+   */
+  async endSession(userId: string, sessionId: string): Promise<boolean> {
+    return this.chatSessionService.expireById(userId, sessionId);
+  }
+
+  private async withSession(
+    request: GeminiRequest,
+    userId: string,
+    respond: (session: ChatSession, isNewChatSession: boolean) => Promise<GeminiResponse>
+  ): Promise<GeminiResponse> {
+    const { session, state } = await this.chatSessionService.startOrResume(userId, request.sessionId);
+    if (state === 'started') {
+      logger.info('🆕 New chat session started - fresh stored answers are reused, stale ones are asked again', { sessionId: session.sessionId });
     }
-    
-    // If conversation history is very short (1-2 messages), likely new chat
-    if (conversationHistory.length <= 2) {
-      return true;
+
+    const result = await respond(session, state === 'started');
+    // The reply (a crisis reply too) is already written - losing the progress must not lose it
+    try {
+      await this.chatSessionService.touch(session);
+    } catch (error) {
+      logger.error('Failed to save chat session progress', { sessionId: session.sessionId, error: error instanceof Error ? error.message : String(error) });
     }
-    
-    return false;
+
+    return {
+      ...result,
+      sessionId: session.sessionId,
+      sessionState: state
+    };
   }
 
-  async generateResponse(request: GeminiRequest & { language?: string }): Promise<GeminiResponse> {
-    try {
-      // Check if this is a new chat session
-      const isNewChat = this.checkNewChatSession(request.conversationHistory);
-      if (isNewChat) {
-        this.startNewChatSession();
-        logger.info('🆕 New chat session detected - old insights will be displayed but not used for AI decisions');
-      }
+  private async generateSessionResponse(request: GeminiRequest & { language?: string }, session: ChatSession, isNewChatSession: boolean): Promise<GeminiResponse> {
+    const crisisResponse = await this.checkSafety(request, session);
+    if (crisisResponse) {
+      return crisisResponse;
+    }
 
-      // Reset asked parameters if this is a new conversation (first message)
-      if (request.conversationHistory.length === 0) {
-        this.resetAskedParameters();
-      }
+    const turn = await this.extractTurnData(request, session);
 
-      const GEMINI_API_KEY = config.gemini.apiKey;
-      const GEMINI_ENDPOINT = config.gemini.endpoint;
-      
-      // Debug configuration
-      logger.info('🔍 Gemini Configuration Debug:', {
-        apiKey: GEMINI_API_KEY ? '✅ Set' : '❌ Missing',
-        endpoint: GEMINI_ENDPOINT,
-        apiKeyLength: GEMINI_API_KEY?.length || 0
-      });
-      
-      const prompt = this.createEmpatheticPrompt(request.message, request.conversationHistory, request.wellnessData, request.language);
+    try {
+      logger.info('🔍 LLM provider:', { provider: this.llmProvider.name });
       
-      logger.info('Sending prompt to Gemini:', { prompt: prompt.substring(0, 500) + '...' });
+      const prompt = this.createEmpatheticPrompt(request.message, request.conversationHistory, turn.updatedWellnessData, session.askedParameters, isNewChatSession, request.language, turn.clarification, !!session.safetyEventIds?.length);
       
-      const requestBody = {
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }],
-        generationConfig: {
+      logger.info('Sending prompt to LLM:', { prompt: prompt.substring(0, 500) + '...' });
+
+      let generatedText: string;
+      try {
+        generatedText = await this.llmProvider.generate(prompt, {
           temperature: 0.7,
           topK: 40,
           topP: 0.95,
-          maxOutputTokens: 1024,
-        },
-        safetySettings: [
-          {
-            category: "HARM_CATEGORY_HARASSMENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_HATE_SPEECH",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          }
-        ]
-      };
+          maxOutputTokens: 1024
+        });
+      } catch (error) {
+        if (error instanceof LlmProviderError && error.isRateLimited) {
+          logger.warn('LLM quota exceeded - using fallback response');
+          const fallbackResponse = await this.getIntelligentFallback(request.message, request.conversationHistory, turn.updatedWellnessData);
+          logger.info('Fallback response used', { reason: 'quota', length: fallbackResponse.length });
+          return this.buildResponse(turn, fallbackResponse);
+        }
+        throw error;
+      }
 
-      logger.info('🌐 Making Gemini API request:', {
-        url: `${GEMINI_ENDPOINT}?key=${GEMINI_API_KEY.substring(0, 10)}...`,
-        method: 'POST',
-        bodySize: JSON.stringify(requestBody).length
-      });
+      const geminiResponse = generatedText || 
+                           await this.getIntelligentFallback(request.message, request.conversationHistory, turn.updatedWellnessData);
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 60000);
-      
-      const response = await fetch(`${GEMINI_ENDPOINT}?key=${GEMINI_API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        logger.error('Gemini API error:', { status: response.status, error: errorText });
-        
-        if (response.status === 429) {
-          console.log('🚨 QUOTA EXCEEDED - USING FALLBACK RESPONSE 🚨');
-          logger.warn('🚨 QUOTA EXCEEDED - USING FALLBACK RESPONSE 🚨');
-          const fallbackResponse = await this.getIntelligentFallback(request.message, request.conversationHistory, request.wellnessData);
-          console.log('📝 FALLBACK RESPONSE:', fallbackResponse);
-          logger.info('📝 FALLBACK RESPONSE:', { fallbackResponse });
-          return {
-            response: fallbackResponse,
-            extractedData: {},
-            updatedWellnessData: request.wellnessData,
-            timestamp: new Date().toISOString()
-          };
+      return this.buildResponse(turn, geminiResponse);
+
+    } catch (error) {
+      logger.error('LLM error - using fallback response', error);
+      const fallbackResponse = await this.getIntelligentFallback(request.message, request.conversationHistory, turn.updatedWellnessData);
+      logger.info('Fallback response used', { reason: 'error', length: fallbackResponse.length });
+      return this.buildResponse(turn, fallbackResponse);
+    }
+  }
+
+  private async streamSessionResponse(
+    request: GeminiRequest & { language?: string },
+    session: ChatSession,
+    isNewChatSession: boolean,
+    onToken: (text: string) => void,
+    onReset: () => void
+  ): Promise<GeminiResponse> {
+    const crisisResponse = await this.checkSafety(request, session);
+    if (crisisResponse) {
+      onToken(crisisResponse.response);
+      return crisisResponse;
+    }
+
+    const turn = await this.extractTurnData(request, session);
+    const filter = new CodeBlockStreamFilter();
+    let streamedText = '';
+    let sentVisibleText = false;
+
+    try {
+      logger.info('🔍 LLM provider (streaming):', { provider: this.llmProvider.name });
+
+      const prompt = this.createEmpatheticPrompt(request.message, request.conversationHistory, turn.updatedWellnessData, session.askedParameters, isNewChatSession, request.language, turn.clarification, !!session.safetyEventIds?.length);
+
+      for await (const chunk of this.llmProvider.stream(prompt, {
+        temperature: 0.7,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 1024
+      })) {
+        streamedText += chunk;
+        const visible = filter.push(chunk);
+        if (visible) {
+          onToken(visible);
+          sentVisibleText = true;
         }
-        
-        throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
       }
 
-      const data = await response.json();
-      clearTimeout(timeoutId);
-      const geminiResponse = data.candidates?.[0]?.content?.parts?.[0]?.text || 
-                           await this.getIntelligentFallback(request.message, request.conversationHistory, request.wellnessData);
-      
-      // Calculate next parameter for strict sequential extraction
-      const parameterOrder = ['mood', 'sleepHours', 'stressLevel', 'academicPressure', 'socialSupport', 'loneliness', 'confidenceLevel', 'hobbiesInterest', 'opennessToJournaling', 'willingForProfessionalHelp'];
-      let nextParameter: string | null = null;
-      for (const param of parameterOrder) {
-        if (!(request.wellnessData as any)[param]) {
-          nextParameter = param;
-          break;
-        }
+      const tail = filter.flush();
+      if (tail) {
+        onToken(tail);
       }
-      
-      // Try to extract data from Gemini response first (using AI intelligence)
-      let extractedData = this.parseGeminiResponse(geminiResponse, nextParameter || undefined);
-      logger.info('🔍 PARSED GEMINI RESPONSE:', { extractedData, responseLength: geminiResponse.length });
-      
-      // If Gemini failed to extract data, use intelligent fallback as backup
-      if (Object.keys(extractedData).length === 0) {
-        logger.info('⚠️ Gemini extraction failed, using intelligent fallback...');
-        
-        // Use intelligent fallback that maintains conversation flow
-        const fallbackResponse = await this.getIntelligentFallback(request.message, request.conversationHistory, request.wellnessData);
-        return {
-          response: fallbackResponse,
-          extractedData: {},
-          updatedWellnessData: request.wellnessData,
-          timestamp: new Date().toISOString()
-        };
-      } else {
-        logger.info('✅ Gemini successfully extracted data using AI intelligence:', { extractedData });
+    } catch (error) {
+      logger.error('🚨 LLM STREAM ERROR - USING FALLBACK RESPONSE 🚨', error);
+      streamedText = '';
+      // The partial reply already shown must not run into the fallback
+      if (sentVisibleText) {
+        onReset();
       }
-      
-      // Clean Gemini response to remove any JSON or technical content
-      let cleanResponse = geminiResponse
-        .replace(/\{code\}\s*\{[\s\S]*?\}\s*\{\/code\}/g, '') // Remove {code} blocks
-        .replace(/\{[\s\S]*?"extractedData"[\s\S]*?\}/g, '') // Remove any JSON with extractedData
-        .replace(/```json\s*\{[\s\S]*?\}\s*```/g, '') // Remove ```json blocks
-        .replace(/```\s*\{[\s\S]*?\}\s*```/g, '') // Remove any ``` blocks with JSON
-        .replace(/```json\s*\n\}/g, '') // Remove ```json\n} artifacts
-        .replace(/```\s*\n\}/g, '') // Remove ```\n} artifacts
-        .replace(/\n\s*\n/g, '\n') // Clean up extra newlines
-        .trim();
-      
-      // STRICT RULE: Only allow extraction of current parameter, prevent forward guessing
-      const sanitizedData = this.sanitizeExtractedData(extractedData, request.wellnessData);
-      
-      // NOW mark the parameter as asked since we successfully extracted data
-      if (nextParameter && Object.keys(sanitizedData).length > 0) {
-        this.askedParameters.add(nextParameter);
-        logger.info(`✅ Parameter ${nextParameter} marked as asked after successful extraction`);
+    }
+
+    if (!streamedText) {
+      // Nothing usable was streamed - send the fallback as a single chunk
+      const fallbackResponse = await this.getIntelligentFallback(request.message, request.conversationHistory, turn.updatedWellnessData);
+      onToken(fallbackResponse);
+      return this.buildResponse(turn, fallbackResponse);
+    }
+
+    return this.buildResponse(turn, streamedText);
+  }
+
+  /**
+   * Safety classifier step, run before any extraction or prompt generation
+   * On crisis the questionnaire is short-circuited: a fixed crisis response with the national
+   * helplines is returned and a safety event is recorded for the session
+   */
+  private async checkSafety(request: GeminiRequest & { language?: string }, session: ChatSession): Promise<GeminiResponse | null> {
+    const assessment = await this.crisisDetectionService.assess(request.message, request.conversationHistory);
+    if (assessment.level !== 'crisis') {
+      return null;
+    }
+
+    const language = request.language || 'en';
+    const helplines = this.getCrisisHelplines();
+    const event = await this.safetyEventService.record(session, assessment, request.message, language, helplines);
+
+    // Later turns in this session stay supportive instead of resuming the questionnaire
+    session.safetyEventIds = [...(session.safetyEventIds || []), event.eventId];
+
+    return {
+      response: this.createCrisisResponse(assessment, helplines, language),
+      extractedData: {},
+      updatedWellnessData: request.wellnessData,
+      safety: {
+        level: assessment.level,
+        eventId: event.eventId,
+        helplines,
+        ...(assessment.category ? { category: assessment.category } : {})
+      },
+      questionnaireVersion: WELLNESS_QUESTIONNAIRE.version,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  // National helplines that handle suicide prevention or crisis calls
+  private getCrisisHelplines(): HelplineCenter[] {
+    return this.professionalHelpService.getNationalHelplinesData()
+      .filter(helpline => (helpline.specialties || []).some(specialty => /suicide|crisis/i.test(specialty)));
+  }
+
+  // Fixed text, never generated - the reply must not depend on the model behaving
+  private createCrisisResponse(assessment: SafetyAssessment, helplines: HelplineCenter[], language: string): string {
+    const helplineLines = helplines
+      .map(helpline => `• ${helpline.name}: ${helpline.phoneNumber}${helpline.is24Hours ? ' (24/7)' : ''}`)
+      .join('\n');
+
+    if (language === 'hi') {
+      return `आपने जो साझा किया, उसके लिए धन्यवाद। मुझे आपकी बहुत चिंता है, और आपको यह सब अकेले नहीं सहना है।
+${assessment.category === 'self_harm' ? 'अगर आप खुद को चोट पहुँचाने के बारे में सोच रहे हैं' : 'अगर आप अपनी जान लेने के बारे में सोच रहे हैं'}, तो कृपया अभी किसी से बात करें। ये हेल्पलाइन मुफ़्त और गोपनीय हैं:
+${helplineLines}
+
+अगर आप तुरंत खतरे में हैं, तो 112 पर कॉल करें या नज़दीकी अस्पताल जाएँ।
+क्या आप अभी किसी भरोसेमंद व्यक्ति - दोस्त, परिवार के सदस्य या शिक्षक - के पास जा सकते हैं? मैं यहीं हूँ, आप मुझसे बात करते रह सकते हैं।`;
+    }
+
+    return `Thank you for telling me. I'm really concerned about you, and you don't have to carry this alone.
+${assessment.category === 'self_harm' ? 'If you are thinking about hurting yourself' : 'If you are thinking about ending your life'}, please talk to someone right now. These helplines are free and confidential:
+${helplineLines}
+
+If you are in immediate danger, call 112 or go to the nearest hospital.
+Is there someone you trust - a friend, family member or teacher - you can be with right now? I'm still here, and you can keep talking to me.`;
+  }
+
+  /**
+   * Structured extraction of every parameter still missing, run before the reply
+   * so the reply can acknowledge the answers and only ask for what is left
+   */
+  private async extractTurnData(request: GeminiRequest, session: ChatSession): Promise<TurnData> {
+    const missingParameters = PARAMETER_ORDER.filter(param => !request.wellnessData[param]);
+
+    if (missingParameters.length === 0) {
+      logger.info('✅ All parameters already collected - no extraction needed');
+      return { extractions: [], extractedData: {}, updatedWellnessData: request.wellnessData, provenance: session.provenance || {} };
+    }
+
+    // The first missing parameter is the one the bot asked about last turn
+    const focusParameter = missingParameters[0];
+    const extractions = await this.extractionService.extract(missingParameters, request.message, request.conversationHistory, focusParameter);
+    const extractedData: Partial<WellnessData> = {};
+    const provenance: WellnessProvenance = { ...session.provenance };
+    const messageIndex = Math.max(request.conversationHistory.length - 1, 0);
+    const extractedAt = new Date().toISOString();
+
+    for (const extraction of extractions) {
+      if (extraction.status !== 'accepted' || !extraction.value) {
+        continue;
       }
-      
-      logger.info('Gemini API call successful:', { 
-        messageLength: request.message.length, 
-        responseLength: geminiResponse.length,
-        extractedData: sanitizedData
-      });
-
-      return {
-        response: cleanResponse,
-        extractedData: sanitizedData,
-        updatedWellnessData: { ...request.wellnessData, ...sanitizedData },
-        timestamp: new Date().toISOString()
-      };
 
-    } catch (error) {
-      console.log('🚨 GEMINI API ERROR - USING FALLBACK RESPONSE 🚨');
-      console.log('❌ Error details:', error);
-      logger.error('🚨 GEMINI API ERROR - USING FALLBACK RESPONSE 🚨', error);
-      const fallbackResponse = await this.getIntelligentFallback(request.message, request.conversationHistory, request.wellnessData);
-      console.log('📝 FALLBACK RESPONSE:', fallbackResponse);
-      logger.info('📝 FALLBACK RESPONSE:', { fallbackResponse });
-      return {
-        response: fallbackResponse,
-        extractedData: {},
-        updatedWellnessData: request.wellnessData,
-        timestamp: new Date().toISOString()
+      extractedData[extraction.parameter] = extraction.value;
+      provenance[extraction.parameter] = {
+        sessionId: session.sessionId,
+        messageIndex,
+        confidence: extraction.confidence,
+        extractedAt,
+        // Firestore rejects undefined fields
+        ...(extraction.evidence ? { evidence: extraction.evidence } : {})
       };
+
+      // NOW mark the parameter as asked since we successfully extracted data
+      if (!session.askedParameters.includes(extraction.parameter)) {
+        session.askedParameters.push(extraction.parameter);
+        logger.info(`✅ Parameter ${extraction.parameter} marked as asked after successful extraction`);
+      }
     }
+    session.provenance = provenance;
+
+    // One clarification per turn - the asked question first, then questionnaire order
+    const pendingClarifications = extractions.filter(extraction => extraction.status === 'needs_clarification');
+    const clarification = pendingClarifications.find(extraction => extraction.parameter === focusParameter) || pendingClarifications[0];
+
+    logger.info('Extracted from message:', { parameters: Object.keys(extractedData), pendingClarifications: pendingClarifications.length });
+
+    return {
+      extractions,
+      extractedData,
+      updatedWellnessData: { ...request.wellnessData, ...extractedData },
+      clarification,
+      provenance
+    };
+  }
+
+  /**
+   * Combine the extraction result with the visible reply text
+   */
+  private buildResponse(turn: TurnData, replyText: string): GeminiResponse {
+    // Clean the reply in case the model still added JSON or technical content
+    const cleanResponse = replyText
+      .replace(/\{code\}[\s\S]*?(\{\/code\}|$)/g, '') // Remove {code} blocks
+      .replace(/```json\s*\{[\s\S]*?\}\s*```/g, '') // Remove ```json blocks
+      .replace(/```\s*\{[\s\S]*?\}\s*```/g, '') // Remove any ``` blocks with JSON
+      .replace(/\n\s*\n/g, '\n') // Clean up extra newlines
+      .trim();
+
+    logger.info('Chat turn completed:', { 
+      responseLength: cleanResponse.length,
+      extractedData: turn.extractedData,
+      clarificationRequested: !!turn.clarification
+    });
+
+    return {
+      response: cleanResponse,
+      extractedData: turn.extractedData,
+      updatedWellnessData: turn.updatedWellnessData,
+      extractions: turn.extractions,
+      clarification: turn.clarification,
+      provenance: turn.provenance,
+      questionnaireVersion: WELLNESS_QUESTIONNAIRE.version,
+      timestamp: new Date().toISOString()
+    };
   }
 
   // Create empathetic prompt for Gemini based on real interview examples
-  private createEmpatheticPrompt(message: string, conversationHistory: string[], wellnessData: any, language: string = 'en'): string {
+  // wellnessData already includes anything extracted from this message
+  private createEmpatheticPrompt(message: string, conversationHistory: string[], wellnessData: any, askedParameters: string[], isNewChatSession: boolean, language: string = 'en', clarification?: FieldExtraction, questionnairePaused: boolean = false): string {
     const history = conversationHistory.join('\n');
     const effectiveWellnessData = wellnessData || {};
+
+    // The answer was ambiguous - ask again about the same parameter instead of moving on
+    if (clarification) {
+      return this.createClarificationPrompt(message, history, clarification, language);
+    }
     
-    // Determine which parameter to collect next - STRICT ORDER ENFORCEMENT
-    const parameterOrder = ['mood', 'sleepHours', 'stressLevel', 'academicPressure', 'socialSupport', 'loneliness', 'confidenceLevel', 'hobbiesInterest', 'opennessToJournaling', 'willingForProfessionalHelp'];
-    
-    let nextParameter = null;
+    // Next parameter is the first one still missing - answers given out of order are kept
+    let nextParameter: WellnessParameter | null = null;
     let collectedCount = 0;
     
-    // STRICT SEQUENTIAL CHECK - Never skip parameters
-    for (const param of parameterOrder) {
+    for (const param of PARAMETER_ORDER) {
       if (effectiveWellnessData[param]) {
         collectedCount++;
         logger.info(`✅ Parameter ${param} already collected: ${effectiveWellnessData[param]}`);
       } else if (!nextParameter) {
         nextParameter = param;
-        logger.info(`🎯 NEXT PARAMETER TO COLLECT: ${param} (step ${parameterOrder.indexOf(param) + 1} of 10)`);
-        break; // Stop at first missing parameter - don't skip ahead
-      }
-    }
-    
-    // WORKFLOW VALIDATION - Ensure we're not jumping around
-    if (nextParameter) {
-      const expectedIndex = collectedCount;
-      const actualIndex = parameterOrder.indexOf(nextParameter);
-      if (expectedIndex !== actualIndex) {
-        logger.warn(`🚨 WORKFLOW BREACH DETECTED: Expected step ${expectedIndex + 1}, but trying to collect step ${actualIndex + 1}`);
-        // Force correct parameter
-        nextParameter = parameterOrder[expectedIndex];
-        logger.info(`🔧 WORKFLOW CORRECTED: Now collecting ${nextParameter} (step ${expectedIndex + 1})`);
+        logger.info(`🎯 NEXT PARAMETER TO COLLECT: ${param}`);
       }
     }
+    const remainingParameters = PARAMETER_ORDER.filter(param => !effectiveWellnessData[param]);
     
     const conversationLength = conversationHistory.length;
     
     // CRITICAL FIX: Prevent mood from being asked repeatedly
     // Only skip if the parameter was already asked AND we have data for it
-    if (nextParameter && this.askedParameters.has(nextParameter) && effectiveWellnessData[nextParameter]) {
+    if (nextParameter && askedParameters.includes(nextParameter) && effectiveWellnessData[nextParameter]) {
       logger.info(`Parameter ${nextParameter} already asked and has data - moving to next parameter`);
       
       // Find the next parameter after this one
       let nextNextParameter = null;
-      const currentIndex = parameterOrder.indexOf(nextParameter);
-      if (currentIndex < parameterOrder.length - 1) {
-        nextNextParameter = parameterOrder[currentIndex + 1];
+      const currentIndex = PARAMETER_ORDER.indexOf(nextParameter);
+      if (currentIndex < PARAMETER_ORDER.length - 1) {
+        nextNextParameter = PARAMETER_ORDER[currentIndex + 1];
         nextParameter = nextNextParameter;
-        logger.info(`Moving from ${parameterOrder[currentIndex]} to ${nextParameter}`);
+        logger.info(`Moving from ${PARAMETER_ORDER[currentIndex]} to ${nextParameter}`);
       } else {
         // If this was the last parameter, we're done
         nextParameter = null;
@@ -294,12 +412,16 @@ export class GeminiService {
       nextParameter = null; // User wants recommendation now
     }
 
+    if (questionnairePaused) {
+      nextParameter = null; // A crisis was flagged in this session - keep supporting, stop asking questions
+    }
+
     logger.info('Smart prompt logic:', { 
       collectedCount, 
       conversationLength, 
       nextParameter, 
       willContinueQuestioning: !!nextParameter,
-      isNewChatSession: this.isNewChatSession,
+      isNewChatSession,
       storedDataAvailable: Object.keys(wellnessData).length > 0
     });
 
@@ -344,306 +466,87 @@ Remember: Compassionate, empathetic, supportive - like a close friend who truly
       return basePrompt;
     }
 
-    // DON'T mark as asked yet - wait until we successfully extract data
-    // this.askedParameters.add(nextParameter); // MOVED TO AFTER SUCCESSFUL EXTRACTION
-
+    const nextQuestion = getQuestion(nextParameter);
     const basePrompt = `You are a warm, empathetic AI friend helping track mental wellness. 
 
-🚨 CRITICAL WORKFLOW RULE - NEVER BREAK THIS ORDER:
-1. mood → 2. sleepHours → 3. stressLevel → 4. academicPressure → 5. socialSupport → 6. loneliness → 7. confidenceLevel → 8. hobbiesInterest → 9. opennessToJournaling → 10. willingForProfessionalHelp
-
-CURRENT TASK: Collect parameter: ${nextParameter}
+CURRENT TASK: Ask about parameter: ${nextParameter}
+SUGGESTED QUESTION: ${nextQuestion.question.en}
 
 USER MESSAGE: "${message}"
 CONVERSATION: ${history}
 COLLECTED SO FAR: ${JSON.stringify(effectiveWellnessData)}
+STILL MISSING: ${remainingParameters.join(', ')}
 
 INSTRUCTIONS:
-1. Extract the ${nextParameter} value from the user's response
-2. Provide a warm, empathetic response (4-6 lines)
-3. Ask about the next parameter naturally but definitely ask for next parameter never get stuck in conversation
-4. Return JSON at the end: {code}{"extractedData": {"${nextParameter}": "EXTRACTED_VALUE"}}{/code}
-
-MAPPING GUIDELINES:
-${this.getComprehensiveMappingForParameter(nextParameter)}
+1. Provide a warm, empathetic response to what the user said (4-6 lines)
+2. Then ask about ${nextParameter} naturally but definitely ask, never get stuck in conversation
+3. Reply with conversational text only - no JSON, no code blocks
 
 🚨 WORKFLOW ENFORCEMENT:
-- You are currently on parameter ${nextParameter}
-- After extracting this parameter, you MUST ask about the next one in sequence
-- NEVER skip parameters or jump around
-- NEVER ask about a parameter that comes later in the sequence`;
+- Ask ONLY about ${nextParameter} in this reply
+- NEVER ask again about anything in COLLECTED SO FAR - briefly acknowledge what the user already shared instead`;
 
     if (language === 'hi') {
       return `आप एक गर्म, सहानुभूतिपूर्ण AI मित्र हैं जो मानसिक स्वास्थ्य को ट्रैक करने में मदद कर रहे हैं।
 
-🚨 महत्वपूर्ण वर्कफ्लो नियम - इस क्रम को कभी न तोड़ें:
-1. मूड → 2. नींद के घंटे → 3. तनाव स्तर → 4. शैक्षणिक दबाव → 5. सामाजिक सहायता → 6. अकेलापन → 7. आत्मविश्वास स्तर → 8. शौक रुचि → 9. डायरी लेखन के लिए खुलापन → 10. व्यावसायिक सहायता के लिए इच्छा
-
-वर्तमान कार्य: पैरामीटर एकत्र करें: ${nextParameter}
+वर्तमान कार्य: इस पैरामीटर के बारे में पूछें: ${nextParameter}
+सुझाया गया प्रश्न: ${nextQuestion.question.hi}
 
 उपयोगकर्ता संदेश: "${message}"
 बातचीत: ${history}
 अब तक एकत्रित: ${JSON.stringify(effectiveWellnessData)}
+अभी बाकी: ${remainingParameters.join(', ')}
 
 निर्देश:
-1. उपयोगकर्ता के जवाब से ${nextParameter} मान निकालें
-2. एक गर्म, सहानुभूतिपूर्ण जवाब दें (4-6 पंक्तियां)
-3. अगले पैरामीटर के बारे में स्वाभाविक रूप से पूछें लेकिन निश्चित रूप से अगले पैरामीटर के बारे में पूछें, बातचीत में फंसें नहीं
-4. अंत में JSON लौटाएं: {code}{"extractedData": {"${nextParameter}": "EXTRACTED_VALUE"}}{/code}
-
-मैपिंग दिशानिर्देश:
-${this.getComprehensiveMappingForParameter(nextParameter)}
+1. उपयोगकर्ता ने जो कहा उसका गर्म, सहानुभूतिपूर्ण जवाब दें (4-6 पंक्तियां)
+2. फिर ${nextParameter} के बारे में स्वाभाविक रूप से लेकिन निश्चित रूप से पूछें, बातचीत में फंसें नहीं
+3. केवल बातचीत वाला पाठ लिखें - कोई JSON या कोड ब्लॉक नहीं
 
 🚨 वर्कफ्लो प्रवर्तन:
-- आप वर्तमान में ${nextParameter} पैरामीटर पर हैं
-- इस पैरामीटर को निकालने के बाद, आपको क्रम में अगले के बारे में पूछना होगा
-- कभी भी पैरामीटर न छोड़ें या इधर-उधर न कूदें
-- कभी भी ऐसे पैरामीटर के बारे में न पूछें जो क्रम में बाद में आता है`;
+- इस जवाब में केवल ${nextParameter} के बारे में पूछें
+- "अब तक एकत्रित" में दी गई किसी भी चीज़ के बारे में दोबारा कभी न पूछें - उपयोगकर्ता ने जो बताया उसे संक्षेप में स्वीकार करें`;
     }
     
     return basePrompt;
   }
-  private parseGeminiResponse(geminiResponse: string, requestedParameter?: string): Partial<WellnessData> {
-    try {
-      logger.info(`🎯 PARSING GEMINI RESPONSE for parameter: ${requestedParameter}`);
-      logger.info(`📝 Full response: ${geminiResponse}`);
-      
-      // PRIORITY 1: Look for JSON response (Gemini should return JSON)
-      const jsonMatch = geminiResponse.match(/\{code\}\s*(\{[\s\S]*?\})\s*\{\/code\}/);
-      if (jsonMatch) {
-        try {
-        const jsonData = JSON.parse(jsonMatch[1]);
-          logger.info(`✅ JSON parsed successfully:`, jsonData);
-          
-          if (jsonData.extractedData && requestedParameter && jsonData.extractedData[requestedParameter]) {
-            const value = jsonData.extractedData[requestedParameter];
-            logger.info(`✅ Parameter ${requestedParameter} extracted from JSON: ${value}`);
-            return { [requestedParameter]: value };
-          }
-        } catch (jsonError) {
-          logger.warn(`⚠️ JSON parsing failed:`, jsonError);
-        }
-      }
-      
-      // PRIORITY 2: Look for inline JSON
-      const inlineJsonMatch = geminiResponse.match(/\{[\s\S]*?"extractedData"[\s\S]*?\}/);
-      if (inlineJsonMatch) {
-        try {
-          const jsonData = JSON.parse(inlineJsonMatch[0]);
-          logger.info(`✅ Inline JSON parsed successfully:`, jsonData);
-          
-          if (jsonData.extractedData && requestedParameter && jsonData.extractedData[requestedParameter]) {
-            const value = jsonData.extractedData[requestedParameter];
-            logger.info(`✅ Parameter ${requestedParameter} extracted from inline JSON: ${value}`);
-            return { [requestedParameter]: value };
-          }
-        } catch (jsonError) {
-          logger.warn(`⚠️ Inline JSON parsing failed:`, jsonError);
-        }
-      }
-      
-      // PRIORITY 3: Pattern matching for direct responses
-      const extractedData: any = {};
-      const lowerResponse = geminiResponse.toLowerCase();
-      
-      if (!requestedParameter) {
-        logger.warn('🚫 No requested parameter specified - skipping extraction');
-        return {};
-      }
-      
-      logger.info(`🎯 PATTERN MATCHING for ${requestedParameter}`);
-      
-      // Handle direct number responses (e.g., "3" for sleep hours)
-      if (requestedParameter === 'sleepHours') {
-        const numberMatch = geminiResponse.match(/(\d+)/);
-        if (numberMatch) {
-          const hours = parseInt(numberMatch[1]);
-          if (hours >= 1 && hours <= 10) {
-            extractedData.sleepHours = hours.toString();
-            logger.info(`✅ Sleep hours extracted via number: ${hours}`);
-            return extractedData;
-          }
-        }
-      }
-      
-      // Handle direct word responses (e.g., "low" for stress level)
-      if (requestedParameter === 'stressLevel') {
-        if (lowerResponse.includes('low')) {
-          extractedData.stressLevel = 'Low';
-          logger.info(`✅ Stress level extracted: Low`);
-          return extractedData;
-        } else if (lowerResponse.includes('medium')) {
-          extractedData.stressLevel = 'Medium';
-          logger.info(`✅ Stress level extracted: Medium`);
-          return extractedData;
-        } else if (lowerResponse.includes('high')) {
-          extractedData.stressLevel = 'High';
-          logger.info(`✅ Stress level extracted: High`);
-          return extractedData;
-        }
-      }
-      
-      // Handle direct word responses for other parameters
-      if (requestedParameter === 'mood') {
-        if (lowerResponse.includes('sad') || lowerResponse.includes('bad') || lowerResponse.includes('low')) {
-          extractedData.mood = 'Sad';
-          logger.info(`✅ Mood extracted: Sad`);
-          return extractedData;
-        } else if (lowerResponse.includes('happy') || lowerResponse.includes('good')) {
-          extractedData.mood = 'Happy';
-          logger.info(`✅ Mood extracted: Happy`);
-          return extractedData;
-        } else if (lowerResponse.includes('anxious') || lowerResponse.includes('worried')) {
-          extractedData.mood = 'Anxious';
-          logger.info(`✅ Mood extracted: Anxious`);
-          return extractedData;
-        } else if (lowerResponse.includes('neutral') || lowerResponse.includes('okay')) {
-          extractedData.mood = 'Neutral';
-          logger.info(`✅ Mood extracted: Neutral`);
-          return extractedData;
-        } else if (lowerResponse.includes('stressed')) {
-          extractedData.mood = 'Stressed';
-          logger.info(`✅ Mood extracted: Stressed`);
-          return extractedData;
-        }
-      }
-      
-      // Handle loneliness with direct responses
-      if (requestedParameter === 'loneliness') {
-        if (lowerResponse.includes('often') || lowerResponse.includes('always')) {
-          extractedData.loneliness = 'Often';
-          logger.info(`✅ Loneliness extracted: Often`);
-          return extractedData;
-        } else if (lowerResponse.includes('sometimes')) {
-          extractedData.loneliness = 'Sometimes';
-          logger.info(`✅ Loneliness extracted: Sometimes`);
-          return extractedData;
-        } else if (lowerResponse.includes('never') || lowerResponse.includes('rarely')) {
-          extractedData.loneliness = 'Never';
-          logger.info(`✅ Loneliness extracted: Never`);
-          return extractedData;
-        }
-      }
-      
-      // Handle academic pressure
-      if (requestedParameter === 'academicPressure') {
-        if (lowerResponse.includes('high') || lowerResponse.includes('overwhelming')) {
-          extractedData.academicPressure = 'High';
-          logger.info(`✅ Academic pressure extracted: High`);
-          return extractedData;
-        } else if (lowerResponse.includes('medium') || lowerResponse.includes('manageable')) {
-          extractedData.academicPressure = 'Medium';
-          logger.info(`✅ Academic pressure extracted: Medium`);
-          return extractedData;
-        } else if (lowerResponse.includes('low') || lowerResponse.includes('easy')) {
-          extractedData.academicPressure = 'Low';
-          logger.info(`✅ Academic pressure extracted: Low`);
-          return extractedData;
-        }
-      }
-      
-      // Handle social support
-      if (requestedParameter === 'socialSupport') {
-        if (lowerResponse.includes('weak') || lowerResponse.includes('no one') || lowerResponse.includes('alone')) {
-          extractedData.socialSupport = 'Weak';
-          logger.info(`✅ Social support extracted: Weak`);
-          return extractedData;
-        } else if (lowerResponse.includes('average') || lowerResponse.includes('some')) {
-          extractedData.socialSupport = 'Average';
-          logger.info(`✅ Social support extracted: Average`);
-          return extractedData;
-        } else if (lowerResponse.includes('strong') || lowerResponse.includes('great')) {
-          extractedData.socialSupport = 'Strong';
-          logger.info(`✅ Social support extracted: Strong`);
-          return extractedData;
-        }
-      }
-      
-      // Handle confidence level
-      if (requestedParameter === 'confidenceLevel') {
-        if (lowerResponse.includes('low') || lowerResponse.includes('not confident')) {
-          extractedData.confidenceLevel = 'Low';
-          logger.info(`✅ Confidence level extracted: Low`);
-          return extractedData;
-        } else if (lowerResponse.includes('medium') || lowerResponse.includes('somewhat')) {
-          extractedData.confidenceLevel = 'Medium';
-          logger.info(`✅ Confidence level extracted: Medium`);
-          return extractedData;
-        } else if (lowerResponse.includes('high') || lowerResponse.includes('very confident')) {
-          extractedData.confidenceLevel = 'High';
-          logger.info(`✅ Confidence level extracted: High`);
-          return extractedData;
-        }
-      }
-      
-      // Handle hobbies
-      if (requestedParameter === 'hobbiesInterest') {
-        if (lowerResponse.includes('sports') || lowerResponse.includes('exercise')) {
-          extractedData.hobbiesInterest = 'Sports';
-          logger.info(`✅ Hobbies extracted: Sports`);
-          return extractedData;
-        } else if (lowerResponse.includes('music')) {
-          extractedData.hobbiesInterest = 'Music';
-          logger.info(`✅ Hobbies extracted: Music`);
-          return extractedData;
-        } else if (lowerResponse.includes('reading')) {
-          extractedData.hobbiesInterest = 'Reading';
-          logger.info(`✅ Hobbies extracted: Reading`);
-          return extractedData;
-        } else if (lowerResponse.includes('art')) {
-          extractedData.hobbiesInterest = 'Art';
-          logger.info(`✅ Hobbies extracted: Art`);
-          return extractedData;
-        } else if (lowerResponse.includes('none') || lowerResponse.includes('no hobbies')) {
-          extractedData.hobbiesInterest = 'None';
-          logger.info(`✅ Hobbies extracted: None`);
-          return extractedData;
-        }
-      }
-      
-      // Handle journaling
-      if (requestedParameter === 'opennessToJournaling') {
-        if (lowerResponse.includes('yes') || lowerResponse.includes('open')) {
-          extractedData.opennessToJournaling = 'Yes';
-          logger.info(`✅ Journaling extracted: Yes`);
-          return extractedData;
-        } else if (lowerResponse.includes('no') || lowerResponse.includes('not')) {
-          extractedData.opennessToJournaling = 'No';
-          logger.info(`✅ Journaling extracted: No`);
-          return extractedData;
-        }
-      }
-      
-      // Handle professional help
-      if (requestedParameter === 'willingForProfessionalHelp') {
-        if (lowerResponse.includes('yes') || lowerResponse.includes('open')) {
-          extractedData.willingForProfessionalHelp = 'Yes';
-          logger.info(`✅ Professional help extracted: Yes`);
-          return extractedData;
-        } else if (lowerResponse.includes('no') || lowerResponse.includes('not')) {
-          extractedData.willingForProfessionalHelp = 'No';
-          logger.info(`✅ Professional help extracted: No`);
-          return extractedData;
-        }
-      }
-      
-      logger.warn(`⚠️ No pattern match found for ${requestedParameter} in response`);
-      return extractedData;
-      
-      // All other parameter extractions are now handled by the intelligent pattern matching above
-      // This prevents hardcoded overrides and ensures only the requested parameter is extracted
-      
-      logger.info('🔍 INTELLIGENT GEMINI RESPONSE PARSING:', { 
-        extractedData, 
-        responseLength: geminiResponse.length,
-        hasData: Object.keys(extractedData).length > 0
-      });
-      
-      return extractedData;
-    } catch (error) {
-      logger.error('Error parsing Gemini response:', error);
-      return {};
+
+  // Clarification turn - the answer could not be mapped to a single dataset value
+  private createClarificationPrompt(message: string, history: string, clarification: FieldExtraction, language: string = 'en'): string {
+    const options = clarification.candidates.length > 0
+      ? clarification.candidates
+      : WELLNESS_ALLOWED_VALUES[clarification.parameter];
+
+    logger.info(`❓ Asking for clarification on ${clarification.parameter}`, { candidates: options });
+
+    if (language === 'hi') {
+      return `आप एक गर्म, सहानुभूतिपूर्ण AI मित्र हैं जो मानसिक स्वास्थ्य को ट्रैक करने में मदद कर रहे हैं।
+
+उपयोगकर्ता ने ${clarification.parameter} के बारे में जवाब दिया, लेकिन जवाब स्पष्ट नहीं था।
+
+उपयोगकर्ता संदेश: "${message}"
+बातचीत: ${history}
+संभावित विकल्प: ${JSON.stringify(options)}
+
+निर्देश:
+1. उनके जवाब को गर्मजोशी से स्वीकार करें (1-2 पंक्तियां)
+2. एक छोटा स्पष्ट प्रश्न पूछें ताकि वे इन विकल्पों में से चुन सकें
+3. किसी दूसरे पैरामीटर के बारे में न पूछें
+4. केवल बातचीत वाला पाठ लिखें - कोई JSON या कोड ब्लॉक नहीं`;
     }
+
+    return `You are a warm, empathetic AI friend helping track mental wellness.
+
+The user replied about ${clarification.parameter}, but the answer was not clear enough to record.
+
+USER MESSAGE: "${message}"
+CONVERSATION: ${history}
+POSSIBLE ANSWERS: ${JSON.stringify(options)}
+
+INSTRUCTIONS:
+1. Warmly acknowledge what they said (1-2 lines)
+2. Ask one short clarifying question that lets them pick between the possible answers
+3. Do NOT move on to any other parameter
+4. Reply with conversational text only - no JSON, no code blocks`;
   }
 
   // Intelligent fallback that follows conversation flow and NEVER asks old questions
@@ -652,25 +555,11 @@ ${this.getComprehensiveMappingForParameter(nextParameter)}
     // SECURITY: Don't log user messages to prevent data leakage
     console.log('📊 Current wellness data keys:', Object.keys(wellnessData || {}));
     
-    // Define the exact order of parameters to collect
-    const parameterOrder = [
-      'mood',
-      'sleepHours', 
-      'stressLevel',
-      'academicPressure',
-      'socialSupport',
-      'loneliness',
-      'confidenceLevel',
-      'hobbiesInterest',
-      'opennessToJournaling',
-      'willingForProfessionalHelp'
-    ];
-
     // Find the next parameter to ask about
     let nextParameter = null;
     logger.info('Intelligent fallback - checking wellness data:', { wellnessData });
     
-    for (const param of parameterOrder) {
+    for (const param of PARAMETER_ORDER) {
       if (!wellnessData[param]) {
         nextParameter = param;
         logger.info('Intelligent fallback - next parameter:', { nextParameter });
@@ -685,7 +574,7 @@ ${this.getComprehensiveMappingForParameter(nextParameter)}
 
       // ENHANCED: Use Gemini for fallback instead of hardcoded logic
       // This ensures Gemini always controls the conversation flow
-      logger.info('🔄 Gemini fallback needed - calling Gemini API directly');
+      logger.info('🔄 Gemini fallback needed - calling LLM provider directly');
       
       try {
         // Call Gemini directly for fallback response
@@ -695,34 +584,19 @@ Based on the conversation history and current wellness data: ${JSON.stringify(we
 
 Please provide a natural, empathetic response that:
 1. Acknowledges what they said
-2. Extracts the wellness parameter if possible
+2. Asks about ${nextParameter} next
 3. Continues the conversation naturally
-4. Returns response in this format: {code}{"extractedData": {"PARAMETER_NAME": "EXTRACTED_VALUE"}}{/code}
+4. Contains conversational text only - no JSON, no code blocks
 
 Be warm, understanding, and continue the conversation flow naturally.`;
         
-        const GEMINI_API_KEY = config.gemini.apiKey;
-        const GEMINI_ENDPOINT = config.gemini.endpoint;
+        const fallbackText = await this.llmProvider.generate(fallbackPrompt, { temperature: 0.7, maxOutputTokens: 1024 }) || 
+          "I understand what you're saying. Let me ask about the next important aspect of your wellness.";
         
-        const fallbackResponse = await fetch(`${GEMINI_ENDPOINT}?key=${GEMINI_API_KEY}`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: fallbackPrompt }] }],
-            generationConfig: { temperature: 0.7, maxOutputTokens: 1024 }
-          })
-        });
+        // Try to extract data from fallback response
+        // const extractedData = this.parseGeminiResponse(fallbackText, nextParameter || undefined);
         
-        if (fallbackResponse.ok) {
-          const fallbackData = await fallbackResponse.json();
-          const fallbackText = fallbackData.candidates?.[0]?.content?.parts?.[0]?.text || 
-            "I understand what you're saying. Let me ask about the next important aspect of your wellness.";
-          
-          // Try to extract data from fallback response
-          // const extractedData = this.parseGeminiResponse(fallbackText, nextParameter || undefined);
-          
-          return fallbackText.replace(/\{code\}[\s\S]*?\{\/code\}/g, '').trim();
-        }
+        return fallbackText.replace(/\{code\}[\s\S]*?\{\/code\}/g, '').trim();
       } catch (fallbackError) {
         logger.error('Fallback Gemini call failed:', fallbackError);
       }
@@ -734,201 +608,4 @@ Be warm, understanding, and continue the conversation flow naturally.`;
   // REMOVED: makeIntelligentGuess function - letting Gemini handle everything naturally
 
   // REMOVED: getNextParameter and getParameterQuestion functions - letting Gemini handle everything naturally
-
-  // Sanitize extracted data to ensure STRICT SEQUENTIAL parameter extraction
-  private sanitizeExtractedData(extractedData: any, currentWellnessData: any): Partial<WellnessData> {
-    const sanitizedData: Partial<WellnessData> = {};
-    
-          // STRICT RULE: Only extract the NEXT parameter in sequence, prevent forward guessing
-      const parameterOrder = ['mood', 'sleepHours', 'stressLevel', 'academicPressure', 'socialSupport', 'loneliness', 'confidenceLevel', 'hobbiesInterest', 'opennessToJournaling', 'willingForProfessionalHelp'];
-      
-      // Find the next parameter to collect
-    let nextParameter: string | null = null;
-    for (const param of parameterOrder) {
-      if (!currentWellnessData[param]) {
-        nextParameter = param;
-        break;
-      }
-    }
-    
-      if (!nextParameter) {
-        logger.info('✅ All parameters already collected - no extraction needed');
-        return {};
-      }
-      
-      logger.info(`🎯 STRICT SEQUENTIAL EXTRACTION: Only allowing ${nextParameter}`);
-      
-      // CRITICAL: Only extract the NEXT parameter, ignore all others
-      for (const [param, value] of Object.entries(extractedData)) {
-        if (param === nextParameter) {
-          // This is the parameter we're supposed to collect
-          const sanitizedValue = this.validateDatasetValue(param, value);
-          if (sanitizedValue) {
-            (sanitizedData as any)[param] = sanitizedValue;
-            logger.info(`✅ Parameter ${param} sanitized: ${value} → ${sanitizedValue}`);
-          }
-        } else {
-          // This is a forward parameter - IGNORE IT to prevent workflow breaking
-          logger.warn(`🚫 BLOCKED forward parameter extraction: ${param} = ${value} (should only extract ${nextParameter})`);
-        }
-      }
-      
-
-      
-      return sanitizedData;
-  }
-
-
-
-  // Validate and map values to exact dataset values using pure AI intelligence
-  private validateDatasetValue(parameter: string, value: any): string | null {
-    const datasetValues: { [key: string]: string[] } = {
-      mood: ['Sad', 'Anxious', 'Happy', 'Neutral', 'Stressed'],
-      sleepHours: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'],
-      stressLevel: ['Low', 'Medium', 'High'],
-      academicPressure: ['Low', 'Medium', 'High'],
-      socialSupport: ['Weak', 'Average', 'Strong'],
-      loneliness: ['Sometimes', 'Often', 'Never'],
-      confidenceLevel: ['Low', 'Medium', 'High'],
-      hobbiesInterest: ['Sports', 'Music', 'Reading', 'Art', 'Travel', 'None'],
-      opennessToJournaling: ['Yes', 'No'],
-      willingForProfessionalHelp: ['Yes', 'No']
-    };
-
-    const validValues = datasetValues[parameter] || [];
-    const inputValue = String(value).trim();
-    
-    // Exact match first - if Gemini already provided correct dataset value
-    if (validValues.includes(inputValue)) {
-      return inputValue;
-    }
-    
-    // If not exact match, let Gemini's intelligence handle it
-    // Don't force default values - let the AI mapping work naturally
-    logger.info(`Value "${inputValue}" for ${parameter} not in exact dataset. Letting Gemini's intelligence handle the mapping.`);
-    
-    // Return the original value and let Gemini's natural intelligence map it
-    return inputValue;
-  }
-
-  // REMOVED: extractDataFromUserMessage function - letting Gemini handle everything naturally
-
-  // Get comprehensive mapping for parameter with all scenarios
-  private getComprehensiveMappingForParameter(parameter: string): string {
-    const comprehensiveMappings = {
-      mood: `Valid Values: ["Sad", "Anxious", "Happy", "Neutral", "Stressed"]
-HARDCODED SCENARIOS:
-"not good" / "bad" / "low" / "down" / "depressed" / "blue" / "terrible" / "awful" → Sad
-"worried" / "nervous" / "anxious" / "panicking" / "scared" / "fearful" → Anxious
-"happy" / "good" / "great" / "wonderful" / "amazing" / "excited" / "joyful" → Happy
-"okay" / "fine" / "alright" / "meh" / "neutral" / "normal" / "average" → Neutral
-"stressed" / "overwhelmed" / "pressured" / "tense" / "frazzled" → Stressed
-"could be better" / "not great" → Neutral
-"mixed feelings" / "complicated" → Choose dominant emotion from context
-"I don't know" / "maybe" / "not sure" → Neutral (default)`,
-      
-      sleepHours: `Valid Values: ["1","2","3","4","5","6","7","8","9","10"]
-HARDCODED SCENARIOS:
-"barely slept" / "almost none" / "pulled all-nighter" / "insomnia" → "1"
-"very little" / "hardly any" / "almost nothing" → "2"
-"few hours" / "little sleep" / "not much" → "3"
-"insufficient" / "not enough" / "very less" → "5" (CRITICAL: not 7)
-"adequate" / "normal amount" / "decent" / "okay" → "7"
-"good sleep" / "slept well" / "restful" → "8"
-"overslept" / "too much" / "a lot" → "9"
-"all day" / "excessive" → "10"
-Direct numbers: "5 hours" → "5", "around 6-7" → "6" (lower bound)
-"I don't know" / "maybe" / "not sure" → "7" (default)`,
-      
-      stressLevel: `Valid Values: ["Low","Medium","High"]
-HARDCODED SCENARIOS:
-"very stressed" / "extremely stressed" / "overwhelmed" / "drowning" → High
-"super stressed" / "totally stressed" / "can't handle it" → High
-"somewhat stressed" / "moderately stressed" / "kind of stressed" → Medium
-"a bit stressed" / "little stressed" / "manageable stress" → Medium
-"not stressed" / "low stress" / "relaxed" / "calm" → Low
-"normal stress" / "usual stress" → Medium
-Scale mentions: "1-3/10" → Low, "4-6/10" → Medium, "7-10/10" → High
-"I don't know" / "maybe" / "not sure" → Medium (default)`,
-      
-      academicPressure: `Valid Values: ["Low","Medium","High"]
-HARDCODED SCENARIOS:
-"exams killing me" / "drowning in assignments" / "too much work" → High
-"parents expect too much" / "need perfect grades" / "pressure to succeed" → High
-"behind in studies" / "failing" / "struggling academically" → High
-"some pressure" / "manageable workload" / "keeping up okay" → Medium
-"average student" / "normal academic stress" → Medium
-"school's easy" / "no academic worries" / "on break" / "vacation" → Low
-"not in school" / "graduated" → Low
-"I don't know" / "maybe" / "not sure" → Medium (default)`,
-      
-      socialSupport: `Valid Values: ["Weak","Average","Strong"]
-HARDCODED SCENARIOS:
-"no one understands" / "all alone" / "no support" → Weak
-"parents don't care" / "family doesn't understand" → Weak
-"I feel disconnected with people" / "not very open to friends" → Weak (CRITICAL)
-"don't feel connected" / "can't open up" → Weak
-"few friends" / "some people" / "limited support" → Average
-"friends are there sometimes" / "mixed support" → Average
-"amazing friends" / "great family" / "strong support system" → Strong
-"can always count on someone" / "people are there for me" → Strong
-"I don't know" / "maybe" / "not sure" → Average (default)`,
-      
-      loneliness: `Valid Values: ["Sometimes","Often","Never"]
-HARDCODED SCENARIOS:
-"always lonely" / "constantly lonely" / "feel alone all the time" → Often
-"never feel connected" / "always disconnected" → Often
-"I feel disconnected" / "feel disconnected from people" → Often (CRITICAL)
-"don't feel connected to anyone" / "can't connect" → Often
-"sometimes lonely" / "occasionally lonely" / "now and then" → Sometimes
-"weekends are lonely" / "certain times" → Sometimes
-"never lonely" / "always surrounded" / "always have company" → Never
-"alone but not lonely" / "prefer solitude" → Sometimes
-"I don't know" / "maybe" / "not sure" → Sometimes (default)`,
-      
-      confidenceLevel: `Valid Values: ["Low","Medium","High"]
-HARDCODED SCENARIOS:
-"no confidence" / "hate myself" / "worthless" / "useless" → Low
-"not confident" / "not very confident" / "low confidence" → Low
-"imposter syndrome" / "fake it till I make it" → Medium
-"depends on the day" / "varies" / "okay confidence" → Medium
-"very confident" / "I believe in myself" / "I'm awesome" → High
-"getting better" / "improving" → Medium
-"used to be confident" → Low
-"I don't know" / "maybe" / "not sure" → Medium (default)`,
-      
-      hobbiesInterest: `Valid Values: ["Sports","Music","Reading","Art","Travel","None"]
-HARDCODED SCENARIOS:
-"sports" / "exercise" / "gym" / "workout" / "dancing" → Sports
-"music" / "singing" / "instruments" / "concerts" / "listening to music" → Music
-"reading" / "books" / "novels" / "writing" / "poetry" → Reading
-"art" / "drawing" / "painting" / "photography" / "creative" → Art
-"travel" / "exploring" / "adventures" / "outdoors" / "new places" → Travel
-"nothing" / "no hobbies" / "don't know" / "too tired" → None
-"netflix" / "youtube" / "gaming" / "social media" → None (passive)
-"I don't know" / "maybe" / "not sure" → None (default)`,
-      
-      opennessToJournaling: `Valid Values: ["Yes","No"]
-HARDCODED SCENARIOS:
-"yes" / "open to it" / "try it" / "sure" / "sounds good" → Yes
-"already journal" / "love writing" / "used to journal" → Yes
-"maybe" / "perhaps" / "worth trying" → Yes (lean positive)
-"not my thing" / "can't write" / "don't like writing" → No
-"too personal" / "scary" / "not comfortable" → No
-"no time" / "too busy" → No
-"I don't know" / "not sure" → Yes (default, encourage)`,
-      
-      willingForProfessionalHelp: `Valid Values: ["Yes","No"]
-HARDCODED SCENARIOS:
-"yes" / "consider it" / "open to it" / "if needed" → Yes
-"already seeing someone" / "tried before" / "thinking about it" → Yes
-"maybe" / "possibly" / "worth trying" → Yes (lean positive)
-"no" / "not really" / "not comfortable" → No
-"never" / "don't believe in therapy" / "parents won't allow" → No
-"too expensive" / "stigma" / "what will people think" → No
-"I don't know" / "not sure" → Yes (default, encourage)`
-    };
-    
-    return comprehensiveMappings[parameter as keyof typeof comprehensiveMappings] || "Please extract the appropriate value based on context.";
-  }
-} 
\ No newline at end of file
+}
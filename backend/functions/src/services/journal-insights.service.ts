@@ -0,0 +1,131 @@
+import { DocumentData, FieldValue, getFirestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { dayKey, JournalInsightsSummary, journalMetricsFromCounts } from '@manoday/wellness-scoring';
+import { logger } from '../utils/logger';
+
+// Day an entry counts for - entries are dated by their creation time, in the user's timezone
+function entryDay(entry: DocumentData | undefined, timeZone: string): string | null {
+  const createdAt = entry?.createdAt;
+  if (createdAt instanceof Timestamp) {
+    return dayKey(createdAt.toDate(), timeZone);
+  }
+  const time = createdAt ? Date.parse(String(createdAt)) : NaN;
+  return Number.isFinite(time) ? dayKey(time, timeZone) : null;
+}
+
+/**
+ * Keeps Journal_insights/{userId} in step with journals/{userId}/entries
+ * The summary records the day each entry counts for (entry_days) next to the per-day counts, and a
+ * write only moves the counts when it changes its entry's recorded day - so a trigger delivered twice
+ * finds the entry already on its day and changes nothing. The metrics are derived from the counts, so
+ * nothing has to list the user's entries. A user without a summary (or one written before entry_days,
+ * or kept in another timezone) is counted once from their entries, which already include the write
+ * being handled.
+ */
+export class JournalInsightsService {
+  private db = getFirestore();
+
+  async applyEntryChange(
+    userId: string,
+    entryId: string,
+    before: DocumentData | undefined,
+    after: DocumentData | undefined,
+    timeZone: string
+  ): Promise<JournalInsightsSummary> {
+    const summaryRef = this.db.collection('Journal_insights').doc(userId);
+    // Edits keep the creation date - only creates and deletes change an entry's day
+    const afterDay = entryDay(after, timeZone);
+
+    return this.db.runTransaction(async (transaction) => {
+      const summaryDoc = await transaction.get(summaryRef);
+      const stored = summaryDoc.data();
+      let entryCounts: Record<string, number> = {};
+      let entryDays: Record<string, string> = {};
+      let beforeDay: string | null = null;
+
+      // Counts kept in another timezone are counted again rather than adjusted on the wrong days
+      if (stored?.entry_days && stored.timeZone === timeZone) {
+        Object.assign(entryCounts, stored.entry_counts || {});
+        Object.assign(entryDays, stored.entry_days);
+        beforeDay = entryDays[entryId] || null;
+        if (beforeDay !== afterDay) {
+          if (beforeDay) {
+            entryCounts[beforeDay] = (entryCounts[beforeDay] || 0) - 1;
+            delete entryDays[entryId];
+          }
+          if (afterDay) {
+            entryCounts[afterDay] = (entryCounts[afterDay] || 0) + 1;
+            entryDays[entryId] = afterDay;
+          }
+        }
+      } else {
+        ({ entryCounts, entryDays } = await this.countEntries(transaction, userId, timeZone));
+        beforeDay = entryDay(before, timeZone);
+      }
+
+      const summary = this.writeSummary(transaction, userId, entryCounts, entryDays, entryId, timeZone);
+      logger.info('Journal insights updated', { userId, entryId, beforeDay, afterDay, metrics: summary.metrics });
+      return summary;
+    });
+  }
+
+  /**
+   * Count all of the user's entries again - after their timezone changed the days they fall on
+   * Returns the number of entries counted
+   */
+  async rebuild(userId: string, timeZone: string): Promise<number> {
+    return this.db.runTransaction(async (transaction) => {
+      const { entryCounts, entryDays, entries } = await this.countEntries(transaction, userId, timeZone);
+      const lastEntryId = (await transaction.get(this.db.collection('Journal_insights').doc(userId))).data()?.last_entry_id || '';
+      this.writeSummary(transaction, userId, entryCounts, entryDays, lastEntryId, timeZone);
+      return entries;
+    });
+  }
+
+  private async countEntries(
+    transaction: Transaction,
+    userId: string,
+    timeZone: string
+  ): Promise<{ entryCounts: Record<string, number>; entryDays: Record<string, string>; entries: number }> {
+    const entries = await transaction.get(this.db.collection('journals').doc(userId).collection('entries'));
+    const entryCounts: Record<string, number> = {};
+    const entryDays: Record<string, string> = {};
+    entries.docs.forEach(doc => {
+      const day = entryDay(doc.data(), timeZone);
+      if (day) {
+        entryCounts[day] = (entryCounts[day] || 0) + 1;
+        entryDays[doc.id] = day;
+      }
+    });
+    return { entryCounts, entryDays, entries: entries.size };
+  }
+
+  private writeSummary(
+    transaction: Transaction,
+    userId: string,
+    entryCounts: Record<string, number>,
+    entryDays: Record<string, string>,
+    entryId: string,
+    timeZone: string
+  ): JournalInsightsSummary {
+    Object.keys(entryCounts).forEach(day => {
+      if (entryCounts[day] <= 0) {
+        delete entryCounts[day];
+      }
+    });
+
+    const summary: JournalInsightsSummary = {
+      entry_counts: entryCounts,
+      metrics: journalMetricsFromCounts(entryCounts, dayKey(new Date(), timeZone)),
+      last_entry_id: entryId
+    };
+    // Replaced rather than merged so days that dropped to zero disappear from the map
+    transaction.set(this.db.collection('Journal_insights').doc(userId), {
+      ...summary,
+      entry_days: entryDays,
+      userEmail: userId,
+      timeZone,
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    return summary;
+  }
+}
@@ -1,4 +1,5 @@
 import * as admin from 'firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
 import { logger } from '../utils/logger';
 import { EncryptionService } from './encryption.service';
 import { 
@@ -7,12 +8,26 @@ import {
   UpdateJournalRequest, 
   DeleteJournalRequest, 
   ListJournalsRequest, 
-  ReadJournalRequest 
+  ReadJournalRequest,
+  JournalKeyDocument,
+  CreateJournalKeyRequest,
+  UpdateJournalKeyRequest
 } from '../types/journal.types';
 
+// Client-side encrypted data carries either its own PBKDF2 salt or the version of the user's journal key
+const isClientEncrypted = (data: { encryptedData?: string; iv?: string; salt?: string; keyVersion?: number }) =>
+  Boolean(data.encryptedData && data.iv && (data.salt || data.keyVersion));
+
+// The list metadata block only exists next to journal key encrypted data
+const metadataOf = (request: { keyVersion?: number; encryptedMetadata?: string; metadataIv?: string }) =>
+  request.keyVersion && request.encryptedMetadata && request.metadataIv
+    ? { encryptedMetadata: request.encryptedMetadata, metadataIv: request.metadataIv }
+    : null;
+
 export class JournalService {
   private db = admin.firestore();
   private collectionName = 'journals';
+  private keyCollectionName = 'journal_keys';
 
   /**
    * Create a new journal entry
@@ -26,7 +41,7 @@ export class JournalService {
       const now = new Date();
 
       // Check if this is client-side encrypted data (new format) or server-side encrypted (old format)
-      if (request.encryptedData && request.iv && request.salt) {
+      if (isClientEncrypted(request)) {
         // New format: Client-side encrypted with password + Gmail
         // Store encrypted data directly - server never sees decrypted content
         const journalEntry: JournalEntry = {
@@ -40,7 +55,8 @@ export class JournalService {
           // Store client-side encrypted data
           encryptedData: request.encryptedData,
           iv: request.iv,
-          salt: request.salt
+          ...(request.salt ? { salt: request.salt } : { keyVersion: request.keyVersion }),
+          ...(metadataOf(request) || {})
         };
 
         // Store in user's subcollection
@@ -197,20 +213,24 @@ export class JournalService {
 
       // For client-side encrypted journals, we can't decrypt on server
       // The frontend should handle decryption and send the updated encrypted data
-      if (existingData.isEncrypted && existingData.salt) {
+      if (existingData.isEncrypted && isClientEncrypted(existingData)) {
         // This is a client-side encrypted journal - store the new encrypted data directly
         logger.info('Updating client-side encrypted journal entry', { journalId: request.journalId });
         
         // For client-side encrypted journals, we store the new encrypted data directly
         // The frontend sends us the re-encrypted data
+        // Re-encrypting with the journal key drops the per-entry salt and vice versa
         const updateData: any = {
-          title: request.title,
-          content: request.content,
-          updatedAt: new Date(),
+          title: 'Encrypted Journal Entry', // Placeholder
+          content: 'Encrypted content', // Placeholder
+          ...(request.reencrypt ? {} : { updatedAt: new Date() }),
           isEncrypted: true,
           encryptedData: request.encryptedData,
           iv: request.iv,
-          salt: request.salt
+          salt: request.salt || FieldValue.delete(),
+          keyVersion: request.salt ? FieldValue.delete() : request.keyVersion,
+          // Metadata of the previous content must not outlive it
+          ...(metadataOf(request) || { encryptedMetadata: FieldValue.delete(), metadataIv: FieldValue.delete() })
         };
 
         await journalRef.update(updateData);
@@ -220,9 +240,8 @@ export class JournalService {
           success: true,
           data: {
             id: request.journalId,
-            title: request.title,
-            content: request.content,
-            updatedAt: updateData.updatedAt
+            journalId: request.journalId,
+            message: 'Journal entry updated and encrypted successfully!'
           }
         };
       }
@@ -231,7 +250,7 @@ export class JournalService {
       let currentTitle = existingData.title;
       let currentContent = existingData.content;
 
-      if (existingData.isEncrypted && existingData.encryptedData && existingData.iv && !existingData.salt) {
+      if (existingData.isEncrypted && existingData.encryptedData && existingData.iv && !isClientEncrypted(existingData)) {
         try {
           const decryptedData = EncryptionService.decryptWellnessData(
             existingData.encryptedData,
@@ -250,18 +269,19 @@ export class JournalService {
       }
 
       // Check if this is client-side encrypted data (new format) or server-side encrypted (old format)
-      if (request.encryptedData && request.iv && request.salt) {
+      if (isClientEncrypted(request)) {
         // New format: Client-side encrypted with password + Gmail
         // Store encrypted data directly - server never sees decrypted content
         const updateData: Partial<JournalEntry> = {
-          updatedAt: new Date(),
+          ...(request.reencrypt ? {} : { updatedAt: new Date() }),
           title: 'Encrypted Journal Entry', // Placeholder
           content: 'Encrypted content', // Placeholder
           isEncrypted: true,
           // Store client-side encrypted data
           encryptedData: request.encryptedData,
           iv: request.iv,
-          salt: request.salt
+          ...(request.salt ? { salt: request.salt } : { keyVersion: request.keyVersion }),
+          ...(metadataOf(request) || {})
         };
 
         await journalRef.update(updateData);
@@ -426,6 +446,131 @@ export class JournalService {
     }
   }
 
+  /**
+   * Read the user's wrapped journal key
+   * Returns null data when the user has not set up a journal password yet
+   */
+  async getJournalKey(userId: string): Promise<{ success: boolean; data?: JournalKeyDocument | null; error?: string }> {
+    try {
+      const keyDoc = await this.db.collection(this.keyCollectionName).doc(userId).get();
+      return {
+        success: true,
+        data: keyDoc.exists ? keyDoc.data() as JournalKeyDocument : null
+      };
+    } catch (error) {
+      logger.error('Error reading journal key', error);
+      return {
+        success: false,
+        error: 'Failed to read journal key'
+      };
+    }
+  }
+
+  /**
+   * Store the user's wrapped journal key - once, so a second device setting up at the same
+   * time cannot replace the key the first one already encrypted entries with
+   */
+  async createJournalKey(request: CreateJournalKeyRequest): Promise<{ success: boolean; data?: any; error?: string; conflict?: boolean }> {
+    try {
+      logger.info('Creating journal key', { userId: request.userId });
+
+      const now = new Date();
+      const keyDocument: JournalKeyDocument = {
+        wrappedKey: request.wrappedKey,
+        iv: request.iv,
+        salt: request.salt,
+        iterations: request.iterations,
+        keyVersion: request.keyVersion,
+        ...(request.recovery ? { recovery: request.recovery } : {}),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const keyRef = this.db.collection(this.keyCollectionName).doc(request.userId);
+      const created = await this.db.runTransaction(async (transaction) => {
+        if ((await transaction.get(keyRef)).exists) {
+          return false;
+        }
+        transaction.set(keyRef, keyDocument);
+        return true;
+      });
+
+      if (!created) {
+        return {
+          success: false,
+          conflict: true,
+          error: 'Journal key already exists'
+        };
+      }
+
+      logger.info('Journal key created successfully', { userId: request.userId });
+      return {
+        success: true,
+        data: {
+          message: 'Journal key created successfully'
+        }
+      };
+    } catch (error) {
+      logger.error('Error creating journal key', error);
+      return {
+        success: false,
+        error: 'Failed to create journal key'
+      };
+    }
+  }
+
+  /**
+   * Replace the wrapped journal key after a password change, a recovery or a new recovery code
+   * The key itself stays the same, so no entry has to be re-encrypted. Refused when the stored
+   * key changed since the browser read it (a change made elsewhere in the meantime).
+   */
+  async updateJournalKey(request: UpdateJournalKeyRequest): Promise<{ success: boolean; data?: any; error?: string; conflict?: boolean }> {
+    try {
+      logger.info('Updating journal key', { userId: request.userId });
+
+      const keyRef = this.db.collection(this.keyCollectionName).doc(request.userId);
+      const updated = await this.db.runTransaction(async (transaction) => {
+        const keyDoc = await transaction.get(keyRef);
+        if (!keyDoc.exists || keyDoc.data()?.wrappedKey !== request.previousWrappedKey) {
+          return false;
+        }
+        const update: Partial<JournalKeyDocument> = {
+          wrappedKey: request.wrappedKey,
+          iv: request.iv,
+          salt: request.salt,
+          iterations: request.iterations,
+          keyVersion: request.keyVersion,
+          ...(request.recovery ? { recovery: request.recovery } : {}),
+          updatedAt: new Date()
+        };
+        transaction.update(keyRef, update);
+        return true;
+      });
+
+      if (!updated) {
+        return {
+          success: false,
+          conflict: true,
+          error: 'Journal key changed - unlock the journal again'
+        };
+      }
+
+      logger.info('Journal key updated successfully', { userId: request.userId });
+      return {
+        success: true,
+        data: {
+          message: 'Journal key updated successfully'
+        }
+      };
+    } catch (error) {
+      logger.error('Error updating journal key', error);
+      return {
+        success: false,
+        error: 'Failed to update journal key'
+      };
+    }
+  }
+
   /**
    * Health check for journal service
    */
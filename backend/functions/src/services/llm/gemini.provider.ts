@@ -0,0 +1,107 @@
+import { config } from '../../config';
+import {
+  LlmGenerateOptions,
+  LlmProvider,
+  LlmStructuredOptions
+} from '../../types/llm.types';
+import { parseJsonOutput, postJson, readSseData } from './http';
+import { toGeminiSchema } from './schema';
+
+const SAFETY_SETTINGS = [
+  {
+    category: "HARM_CATEGORY_HARASSMENT",
+    threshold: "BLOCK_MEDIUM_AND_ABOVE"
+  },
+  {
+    category: "HARM_CATEGORY_HATE_SPEECH",
+    threshold: "BLOCK_MEDIUM_AND_ABOVE"
+  },
+  {
+    category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+    threshold: "BLOCK_MEDIUM_AND_ABOVE"
+  },
+  {
+    category: "HARM_CATEGORY_DANGEROUS_CONTENT",
+    threshold: "BLOCK_MEDIUM_AND_ABOVE"
+  }
+];
+
+/**
+ * Gemini REST API (generativelanguage.googleapis.com)
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini' as const;
+
+  private apiKey: string;
+  private endpoint: string;
+
+  constructor(apiKey: string = config.gemini.apiKey, endpoint: string = config.gemini.endpoint) {
+    this.apiKey = apiKey;
+    this.endpoint = endpoint;
+  }
+
+  async generate(prompt: string, options: LlmGenerateOptions = {}): Promise<string> {
+    const response = await postJson(
+      this.name,
+      `${this.endpoint}?key=${this.apiKey}`,
+      this.buildRequestBody(prompt, options),
+      options.timeoutMs || config.llm.timeoutMs
+    );
+    const data = await response.json();
+    return this.extractText(data);
+  }
+
+  async generateStructured<T>(prompt: string, options: LlmStructuredOptions): Promise<T> {
+    const response = await postJson(
+      this.name,
+      `${this.endpoint}?key=${this.apiKey}`,
+      this.buildRequestBody(prompt, options, {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(options.responseSchema)
+      }),
+      options.timeoutMs || config.llm.timeoutMs
+    );
+    const data = await response.json();
+    return parseJsonOutput<T>(this.name, this.extractText(data));
+  }
+
+  async *stream(prompt: string, options: LlmGenerateOptions = {}): AsyncGenerator<string> {
+    const streamEndpoint = this.endpoint.replace(/:generateContent$/, ':streamGenerateContent');
+    const response = await postJson(
+      this.name,
+      `${streamEndpoint}?alt=sse&key=${this.apiKey}`,
+      this.buildRequestBody(prompt, options),
+      options.timeoutMs || config.llm.timeoutMs
+    );
+
+    for await (const data of readSseData(response)) {
+      const text = this.extractText(JSON.parse(data));
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  private buildRequestBody(prompt: string, options: LlmGenerateOptions, extraGenerationConfig: Record<string, unknown> = {}) {
+    return {
+      contents: [{
+        parts: [{
+          text: prompt
+        }]
+      }],
+      generationConfig: {
+        temperature: options.temperature ?? config.gemini.temperature,
+        topK: options.topK ?? 40,
+        topP: options.topP ?? 0.95,
+        maxOutputTokens: options.maxOutputTokens ?? config.gemini.maxTokens,
+        ...extraGenerationConfig
+      },
+      safetySettings: SAFETY_SETTINGS
+    };
+  }
+
+  private extractText(data: any): string {
+    const parts = data?.candidates?.[0]?.content?.parts || [];
+    return parts.map((part: any) => part?.text || '').join('');
+  }
+}
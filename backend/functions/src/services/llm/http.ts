@@ -0,0 +1,109 @@
+import { LlmProviderError, LlmProviderName } from '../../types/llm.types';
+
+/**
+ * POST JSON with a timeout, turning non-2xx responses into LlmProviderError
+ */
+export async function postJson(
+  provider: LlmProviderName,
+  url: string,
+  body: unknown,
+  timeoutMs: number,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LlmProviderError(`${provider} API error: ${response.status} - ${errorText}`, provider, response.status);
+    }
+
+    return response;
+  } catch (error) {
+    if (error instanceof LlmProviderError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new LlmProviderError(`${provider} request timed out after ${timeoutMs}ms`, provider);
+    }
+    throw new LlmProviderError(`${provider} request failed: ${error instanceof Error ? error.message : String(error)}`, provider);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Yield the data payload of each server-sent event in a streaming response
+ */
+export async function* readSseData(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+      const data = rawEvent
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) {
+        yield data;
+      }
+
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  const trailing = buffer
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+  if (trailing) {
+    yield trailing;
+  }
+}
+
+/**
+ * Parse model output that should be JSON, tolerating ```json fences
+ */
+export function parseJsonOutput<T>(provider: LlmProviderName, text: string): T {
+  const cleaned = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(cleaned) as T;
+  } catch (error) {
+    throw new LlmProviderError(`${provider} returned invalid JSON for structured output`, provider);
+  }
+}
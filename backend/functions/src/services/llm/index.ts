@@ -0,0 +1,28 @@
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { LlmProvider, LlmProviderName } from '../../types/llm.types';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+import { ScriptedProvider } from './scripted.provider';
+
+export { GeminiProvider } from './gemini.provider';
+export { OpenAiCompatibleProvider } from './openai-compatible.provider';
+export { ScriptedProvider, ScriptedRule, DEMO_SCRIPT } from './scripted.provider';
+
+/**
+ * Create the LLM provider selected by config (LLM_PROVIDER)
+ */
+export function createLlmProvider(name: string = config.llm.provider): LlmProvider {
+  switch (name as LlmProviderName) {
+    case 'gemini':
+      return new GeminiProvider();
+    case 'scripted':
+      logger.warn('Using scripted LLM provider - replies are canned and offline');
+      return new ScriptedProvider();
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider();
+    default:
+      logger.warn(`Unknown LLM provider "${name}" - falling back to gemini`);
+      return new GeminiProvider();
+  }
+}
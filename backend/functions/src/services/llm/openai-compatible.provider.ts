@@ -0,0 +1,88 @@
+import { config } from '../../config';
+import {
+  LlmGenerateOptions,
+  LlmProvider,
+  LlmStructuredOptions
+} from '../../types/llm.types';
+import { parseJsonOutput, postJson, readSseData } from './http';
+import { toJsonSchema } from './schema';
+
+/**
+ * Adapter for any server exposing the OpenAI /chat/completions API
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai-compatible' as const;
+
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+
+  constructor(
+    baseUrl: string = config.llm.openaiCompatible.baseUrl,
+    apiKey: string = config.llm.openaiCompatible.apiKey,
+    model: string = config.llm.openaiCompatible.model
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async generate(prompt: string, options: LlmGenerateOptions = {}): Promise<string> {
+    const response = await this.post(this.buildRequestBody(prompt, options), options);
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || '';
+  }
+
+  async generateStructured<T>(prompt: string, options: LlmStructuredOptions): Promise<T> {
+    const response = await this.post({
+      ...this.buildRequestBody(prompt, options),
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: 'structured_response',
+          schema: toJsonSchema(options.responseSchema)
+        }
+      }
+    }, options);
+    const data = await response.json();
+    return parseJsonOutput<T>(this.name, data?.choices?.[0]?.message?.content || '');
+  }
+
+  async *stream(prompt: string, options: LlmGenerateOptions = {}): AsyncGenerator<string> {
+    const response = await this.post({
+      ...this.buildRequestBody(prompt, options),
+      stream: true
+    }, options);
+
+    for await (const data of readSseData(response)) {
+      if (data === '[DONE]') {
+        return;
+      }
+      const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  private post(body: unknown, options: LlmGenerateOptions): Promise<Response> {
+    return postJson(
+      this.name,
+      `${this.baseUrl}/chat/completions`,
+      body,
+      options.timeoutMs || config.llm.timeoutMs,
+      this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}
+    );
+  }
+
+  private buildRequestBody(prompt: string, options: LlmGenerateOptions) {
+    return {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: options.temperature ?? config.gemini.temperature,
+      top_p: options.topP ?? 0.95,
+      max_tokens: options.maxOutputTokens ?? config.gemini.maxTokens
+    };
+  }
+}
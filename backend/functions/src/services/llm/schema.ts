@@ -0,0 +1,53 @@
+import { LlmResponseSchema } from '../../types/llm.types';
+
+// Response schemas are written once in lowercase JSON-schema style with the OpenAPI
+// "nullable" flag; each provider converts them to the dialect its API expects
+
+function mapSchema(schema: unknown, convert: (node: Record<string, any>) => Record<string, any>): any {
+  if (Array.isArray(schema)) {
+    return schema.map(item => mapSchema(item, convert));
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const node: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'properties' && value && typeof value === 'object') {
+      node.properties = Object.fromEntries(
+        Object.entries(value).map(([name, child]) => [name, mapSchema(child, convert)])
+      );
+    } else if (key === 'items') {
+      node.items = mapSchema(value, convert);
+    } else {
+      node[key] = value;
+    }
+  }
+  return convert(node);
+}
+
+/**
+ * Gemini responseSchema: upper-case type names, nullable kept as is
+ */
+export function toGeminiSchema(schema: LlmResponseSchema): LlmResponseSchema {
+  return mapSchema(schema, node => (
+    typeof node.type === 'string' ? { ...node, type: node.type.toUpperCase() } : node
+  ));
+}
+
+/**
+ * Plain JSON schema: nullable becomes a ["type", "null"] union
+ */
+export function toJsonSchema(schema: LlmResponseSchema): LlmResponseSchema {
+  return mapSchema(schema, node => {
+    if (!node.nullable) {
+      return node;
+    }
+    const { nullable, ...rest } = node;
+    return {
+      ...rest,
+      type: [rest.type, 'null'],
+      ...(Array.isArray(rest.enum) ? { enum: [...rest.enum, null] } : {})
+    };
+  });
+}
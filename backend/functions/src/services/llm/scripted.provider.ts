@@ -0,0 +1,141 @@
+import {
+  LlmGenerateOptions,
+  LlmProvider,
+  LlmProviderError,
+  LlmStructuredOptions
+} from '../../types/llm.types';
+import { WellnessParameter } from '../../types';
+import { getQuestion, PARAMETER_ORDER, WELLNESS_ALLOWED_VALUES } from '../../questionnaire';
+import { parseJsonOutput } from './http';
+
+export interface ScriptedRule {
+  // First rule whose pattern matches the prompt produces the reply
+  match: RegExp;
+  reply: string | ((prompt: string, match: RegExpMatchArray) => string);
+}
+
+// Words that tie a value to a parameter when it was not the question just asked
+const DEMO_KEYWORDS: Record<WellnessParameter, string[]> = {
+  mood: ['feel'],
+  sleepHours: ['sleep', 'slept'],
+  stressLevel: ['stress'],
+  academicPressure: ['exam', 'study', 'academic', 'pressure'],
+  socialSupport: ['support', 'friends', 'family'],
+  loneliness: ['lonely', 'alone'],
+  confidenceLevel: ['confiden'],
+  hobbiesInterest: ['hobby', 'hobbies', 'enjoy', 'like'],
+  opennessToJournaling: ['journal'],
+  willingForProfessionalHelp: ['professional', 'counsel', 'therap']
+};
+
+function isParameter(name: string): name is WellnessParameter {
+  return (PARAMETER_ORDER as string[]).includes(name);
+}
+
+function extractUserMessage(prompt: string): string {
+  const match = prompt.match(/(?:USER MESSAGE|उपयोगकर्ता संदेश): "([\s\S]*?)"\n/);
+  return match ? match[1] : '';
+}
+
+function findDemoValue(parameter: string, userMessage: string, isFocus: boolean = true): string | null {
+  const lowerMessage = userMessage.toLowerCase();
+  if (!isParameter(parameter) || (!isFocus && !DEMO_KEYWORDS[parameter].some(keyword => lowerMessage.includes(keyword)))) {
+    return null;
+  }
+  const values = WELLNESS_ALLOWED_VALUES[parameter];
+  return values.find(value => new RegExp(`\\b${value.toLowerCase()}\\b`).test(lowerMessage)) || null;
+}
+
+/**
+ * Default script - walks the wellness questionnaire without any network access
+ */
+export const DEMO_SCRIPT: ScriptedRule[] = [
+  {
+    // Safety classifier - the lexicon already caught anything the demo needs to flag
+    match: /^SAFETY CLASSIFICATION/,
+    reply: JSON.stringify({ risk: 'none', category: null })
+  },
+  {
+    // Structured extraction request - answers every listed parameter the message mentions
+    match: /PARAMETERS TO LOOK FOR:/,
+    reply: (prompt) => {
+      const userMessage = extractUserMessage(prompt);
+      const focusParameter = prompt.match(/LAST QUESTION ASKED: (\w+)/)?.[1];
+      const parameters = Array.from(prompt.matchAll(/PARAMETER: (\w+)\nALLOWED VALUES/g), match => match[1]);
+      return JSON.stringify(Object.fromEntries(parameters.map(parameter => {
+        const value = findDemoValue(parameter, userMessage, parameter === focusParameter);
+        const evidence = value !== null ? userMessage.match(new RegExp(`\\b${value}\\b`, 'i'))?.[0] || '' : '';
+        return [parameter, {
+          answered: value !== null,
+          value,
+          confidence: value !== null ? 0.9 : 0,
+          ambiguous: false,
+          candidates: [],
+          evidence
+        }];
+      })));
+    }
+  },
+  {
+    match: /(?:POSSIBLE ANSWERS|संभावित विकल्प): (\[.*\])/,
+    reply: (_prompt, match) => `I want to make sure I understood you correctly. Which of these fits best: ${(JSON.parse(match[1]) as string[]).join(', ')}?`
+  },
+  {
+    match: /(?:Ask about parameter|इस पैरामीटर के बारे में पूछें): (\w+)/,
+    reply: (_prompt, match) => 'Thank you for telling me, I really appreciate you opening up.\n' +
+      (isParameter(match[1]) ? getQuestion(match[1]).question.en : 'Tell me a little more about how you are doing.')
+  },
+  {
+    match: /supportive friend responding to someone asking for help|सहायक मित्र हैं जो किसी की मदद/,
+    reply: 'I hear you, and I am really glad you reached out. What you are feeling is valid, and you do not have to go through it alone. ' +
+      'Let me suggest an activity that could help you feel a little better.'
+  },
+  {
+    match: /supportive friend continuing a conversation/,
+    reply: 'I understand what you are saying. Let me ask about the next important aspect of your wellness.'
+  }
+];
+
+/**
+ * Deterministic provider for tests and local demos - replies come from a script, never the network
+ */
+export class ScriptedProvider implements LlmProvider {
+  readonly name = 'scripted' as const;
+
+  private rules: ScriptedRule[];
+  private defaultReply: string;
+
+  constructor(rules: ScriptedRule[] = DEMO_SCRIPT, defaultReply: string = 'I am here for you. Tell me more about how you are feeling.') {
+    this.rules = rules;
+    this.defaultReply = defaultReply;
+  }
+
+  async generate(prompt: string, _options: LlmGenerateOptions = {}): Promise<string> {
+    return this.reply(prompt);
+  }
+
+  async generateStructured<T>(prompt: string, _options: LlmStructuredOptions): Promise<T> {
+    const reply = this.reply(prompt);
+    if (!reply) {
+      throw new LlmProviderError('scripted provider has no structured reply for this prompt', this.name);
+    }
+    return parseJsonOutput<T>(this.name, reply);
+  }
+
+  async *stream(prompt: string, _options: LlmGenerateOptions = {}): AsyncGenerator<string> {
+    // Word sized chunks so consumers exercise the same incremental path as a real stream
+    for (const chunk of this.reply(prompt).match(/\S+\s*|\s+/g) || []) {
+      yield chunk;
+    }
+  }
+
+  private reply(prompt: string): string {
+    for (const rule of this.rules) {
+      const match = prompt.match(rule.match);
+      if (match) {
+        return typeof rule.reply === 'function' ? rule.reply(prompt, match) : rule.reply;
+      }
+    }
+    return this.defaultReply;
+  }
+}
@@ -243,7 +243,7 @@ export class ProfessionalHelpService {
   /**
    * Get national helplines data
    */
-  private getNationalHelplinesData(): HelplineCenter[] {
+  getNationalHelplinesData(): HelplineCenter[] {
     return [
       {
         id: 'national-1',
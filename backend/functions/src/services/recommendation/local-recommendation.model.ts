@@ -0,0 +1,65 @@
+import { ActivityPrediction, FeatureAttribution, LocalModelDefinition, ModelInstance } from '../../types/recommendation.types';
+import modelDefinition from './activity-recommender.model.json';
+
+/**
+ * Experimental offline stand-in for the Vertex AutoML endpoint
+ * Evaluates the multinomial logistic model exported by scripts/train-local-recommender.ts, so
+ * development, tests and emulator demos get recommendations without credentials. The bundled model
+ * was trained on rows labelled by hand-written rules (see trainedOn in the JSON), not on the AutoML
+ * dataset, so it only imitates those rules - it is used only when RECOMMENDATION_MODEL=local, never
+ * as a fallback.
+ */
+export class LocalRecommendationModel {
+  private model: LocalModelDefinition;
+
+  constructor(model: LocalModelDefinition = modelDefinition as LocalModelDefinition) {
+    if (model.format !== 'multinomial-logistic/v1') {
+      throw new Error(`Unsupported local model format: ${model.format}`);
+    }
+    this.model = model;
+  }
+
+  get version(): string {
+    return this.model.version;
+  }
+
+  predict(instance: ModelInstance): ActivityPrediction {
+    const logits = this.model.classes.map((_, classIndex) => this.model.features.reduce(
+      (logit, feature) => logit + (this.model.weights[feature.name]?.[instance[feature.name]]?.[classIndex] || 0),
+      this.model.intercepts[classIndex]
+    ));
+
+    // Softmax, shifted by the max logit for numerical stability
+    const maxLogit = Math.max(...logits);
+    const exps = logits.map(logit => Math.exp(logit - maxLogit));
+    const total = exps.reduce((sum, value) => sum + value, 0);
+    const probabilities = Object.fromEntries(this.model.classes.map((activity, classIndex) => [activity, exps[classIndex] / total]));
+
+    const [recommendation, confidence] = Object.entries(probabilities)
+      .reduce((best, current) => (current[1] > best[1] ? current : best));
+
+    return { recommendation, confidence, probabilities };
+  }
+
+  /**
+   * Per-feature contributions to the activity's logit - exact SHAP values for a linear model
+   * with a uniform background: the answer's weight minus the mean weight over the feature's values
+   */
+  explain(instance: ModelInstance, activity: string): FeatureAttribution[] {
+    const classIndex = this.model.classes.indexOf(activity);
+    if (classIndex === -1) {
+      throw new Error(`Unknown activity for local model: ${activity}`);
+    }
+
+    return this.model.features.map(feature => {
+      const weights = this.model.weights[feature.name] || {};
+      const baseline = feature.values.reduce((sum, value) => sum + (weights[value]?.[classIndex] || 0), 0) / feature.values.length;
+      const value = instance[feature.name];
+      return {
+        feature: feature.name,
+        value,
+        contribution: (weights[value]?.[classIndex] || 0) - baseline
+      };
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { WellnessParameter } from '../../types';
+import { LocalizedText, QuestionnaireLanguage } from '../../types/questionnaire.types';
+import {
+  ExplanationMethod,
+  FeatureAttribution,
+  FeatureContribution,
+  RecommendationExplanation
+} from '../../types/recommendation.types';
+import { WELLNESS_QUESTIONNAIRE } from '../../questionnaire';
+
+// Logit contributions below this are noise, not a reason worth telling the student
+const MIN_REASON_CONTRIBUTION = 0.1;
+const MAX_REASONS = 3;
+
+const BECAUSE: LocalizedText = { en: 'because', hi: 'क्योंकि' };
+const AND: LocalizedText = { en: 'and', hi: 'और' };
+
+/**
+ * Turn model feature attributions into contributions keyed by questionnaire parameter,
+ * with a "because ..." summary built from the strongest answered (not imputed) features
+ */
+export function buildExplanation(
+  activity: string,
+  attributions: FeatureAttribution[],
+  imputedParameters: WellnessParameter[],
+  method: ExplanationMethod
+): RecommendationExplanation {
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+
+  const contributions = attributions
+    .map((attribution): FeatureContribution | null => {
+      const question = WELLNESS_QUESTIONNAIRE.questions.find(candidate => candidate.modelFeature === attribution.feature);
+      if (!question) {
+        return null;
+      }
+      return {
+        ...attribution,
+        contribution: round(attribution.contribution),
+        parameter: question.parameter,
+        imputed: imputedParameters.includes(question.parameter),
+        reason: {
+          en: question.reasons.en[attribution.value] || `${question.label.en.toLowerCase()} is ${attribution.value}`,
+          hi: question.reasons.hi[attribution.value] || `${question.label.hi}: ${attribution.value}`
+        }
+      };
+    })
+    .filter((contribution): contribution is FeatureContribution => contribution !== null)
+    .sort((a, b) => b.contribution - a.contribution);
+
+  const reasons = contributions
+    .filter(contribution => !contribution.imputed && contribution.contribution >= MIN_REASON_CONTRIBUTION)
+    .slice(0, MAX_REASONS);
+
+  return {
+    method,
+    activity,
+    contributions,
+    summary: reasons.length > 0 ? { en: summarize(reasons, 'en'), hi: summarize(reasons, 'hi') } : undefined
+  };
+}
+
+// "because a, b and c"
+function summarize(reasons: FeatureContribution[], language: QuestionnaireLanguage): string {
+  const clauses = reasons.map(reason => reason.reason[language]);
+  const last = clauses.pop()!;
+  const joined = clauses.length > 0 ? `${clauses.join(', ')} ${AND[language]} ${last}` : last;
+  return `${BECAUSE[language]} ${joined}`;
+}
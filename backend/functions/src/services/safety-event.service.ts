@@ -0,0 +1,113 @@
+import { createHash, randomUUID } from 'crypto';
+import { getFirestore } from 'firebase-admin/firestore';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { ChatSession } from '../types';
+import { HelplineCenter } from '../types/professional-help.types';
+import { SafetyAssessment, SafetyEvent } from '../types/safety.types';
+
+export interface SafetyEventStore {
+  save(event: SafetyEvent): Promise<void>;
+  list(userId: string, sessionId: string): Promise<SafetyEvent[]>;
+}
+
+/**
+ * Firestore backed audit log - written by functions only
+ * Layout: safety_events/{userId}/events/{eventId}
+ */
+export class FirestoreSafetyEventStore implements SafetyEventStore {
+  private db = getFirestore();
+  private collectionName = config.safety.eventsCollection;
+
+  async save(event: SafetyEvent): Promise<void> {
+    await this.eventsRef(event.userId).doc(event.eventId).set(event);
+  }
+
+  async list(userId: string, sessionId: string): Promise<SafetyEvent[]> {
+    const snapshot = await this.eventsRef(userId).where('sessionId', '==', sessionId).get();
+    return snapshot.docs
+      .map(doc => doc.data() as SafetyEvent)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private eventsRef(userId: string) {
+    return this.db.collection(this.collectionName).doc(userId).collection('events');
+  }
+}
+
+/**
+ * In-memory store for tests and local development - events are lost on restart
+ */
+export class InMemorySafetyEventStore implements SafetyEventStore {
+  private events: SafetyEvent[] = [];
+
+  async save(event: SafetyEvent): Promise<void> {
+    this.events.push({ ...event });
+  }
+
+  async list(userId: string, sessionId: string): Promise<SafetyEvent[]> {
+    return this.events
+      .filter(event => event.userId === userId && event.sessionId === sessionId)
+      .map(event => ({ ...event }));
+  }
+}
+
+export function createSafetyEventStore(): SafetyEventStore {
+  if (config.safety.eventStore === 'memory') {
+    logger.warn('Using in-memory safety event store - events will not survive restarts');
+    return new InMemorySafetyEventStore();
+  }
+  return new FirestoreSafetyEventStore();
+}
+
+/**
+ * Auditable record of every crisis response - which rules fired, what the classifier said
+ * and which helplines were shown. The message itself is only stored as a hash.
+ */
+export class SafetyEventService {
+  private store: SafetyEventStore;
+
+  constructor(store: SafetyEventStore = createSafetyEventStore()) {
+    this.store = store;
+  }
+
+  async record(session: ChatSession, assessment: SafetyAssessment, message: string, language: string, helplines: HelplineCenter[]): Promise<SafetyEvent> {
+    const event: SafetyEvent = {
+      eventId: randomUUID(),
+      userId: session.userId,
+      sessionId: session.sessionId,
+      level: assessment.level,
+      rules: assessment.matches.map(match => match.rule),
+      llmChecked: assessment.llmChecked,
+      messageHash: createHash('sha256').update(message).digest('hex'),
+      language,
+      helplineIds: helplines.map(helpline => helpline.id),
+      createdAt: new Date().toISOString(),
+      // Firestore rejects undefined fields
+      ...(assessment.category ? { category: assessment.category } : {}),
+      ...(assessment.llmLevel ? { llmLevel: assessment.llmLevel } : {})
+    };
+
+    try {
+      await this.store.save(event);
+      logger.warn('Safety event recorded', {
+        eventId: event.eventId,
+        sessionId: event.sessionId,
+        level: event.level,
+        category: event.category,
+        rules: event.rules
+      });
+    } catch (error) {
+      // The crisis response must still reach the user
+      logger.error('Failed to record safety event', {
+        eventId: event.eventId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+    return event;
+  }
+
+  async listForSession(userId: string, sessionId: string): Promise<SafetyEvent[]> {
+    return this.store.list(userId, sessionId);
+  }
+}
@@ -0,0 +1,53 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@manoday/wellness-scoring';
+import { DayKeyMigrationService } from './day-key-migration.service';
+import { JournalInsightsService } from './journal-insights.service';
+import { DayKeyMigrationResult, UserProfile } from '../types/user-profile.types';
+import { logger } from '../utils/logger';
+
+/**
+ * Per-user settings in user_profiles/{userEmail} - for now the timezone all day keys are computed in
+ */
+export class UserProfileService {
+  private db = getFirestore();
+  private collectionName = 'user_profiles';
+
+  /**
+   * The user's timezone, or UTC (what everything was keyed by before) when none is stored
+   */
+  async getTimeZone(userEmail: string): Promise<string> {
+    const doc = await this.db.collection(this.collectionName).doc(userEmail).get();
+    const timeZone = doc.data()?.timeZone;
+    return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  }
+
+  /**
+   * Store the user's timezone
+   * The first one stored also runs the day-key migration. Later changes (e.g. travelling) leave past
+   * scores under the dates the user saw them under, but count the journal entries again so streaks
+   * and the trigger's per-day counts agree with the new timezone.
+   */
+  async setTimeZone(userEmail: string, timeZone: string): Promise<{ profile: UserProfile; migration: DayKeyMigrationResult | null }> {
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown timezone: ${timeZone}`);
+    }
+    const profileRef = this.db.collection(this.collectionName).doc(userEmail);
+    const existing = (await profileRef.get()).data() as Partial<UserProfile> | undefined;
+
+    let migration: DayKeyMigrationResult | null = null;
+    let dayKeysMigratedAt = existing?.dayKeysMigratedAt;
+    if (!dayKeysMigratedAt) {
+      migration = await new DayKeyMigrationService().migrateUser(userEmail, timeZone);
+      dayKeysMigratedAt = new Date().toISOString();
+    } else if (existing?.timeZone !== timeZone) {
+      await new JournalInsightsService().rebuild(userEmail, timeZone);
+    }
+
+    const profile: UserProfile = { timeZone, dayKeysMigratedAt };
+    await profileRef.set({ ...profile, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+    if (existing?.timeZone !== timeZone) {
+      logger.info('User timezone updated', { userEmail, from: existing?.timeZone || null, to: timeZone });
+    }
+    return { profile, migration };
+  }
+}
@@ -0,0 +1,201 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { LlmProvider, LlmResponseSchema } from '../types/llm.types';
+import { ExtractionStatus, FieldExtraction, WellnessParameter } from '../types';
+import { buildMappingGuide, WELLNESS_ALLOWED_VALUES } from '../questionnaire';
+
+interface RawExtraction {
+  answered?: boolean;
+  value?: string | null;
+  confidence?: number;
+  ambiguous?: boolean;
+  candidates?: string[];
+  evidence?: string;
+}
+
+const MAX_EVIDENCE_LENGTH = 120;
+
+/**
+ * Structured extraction of questionnaire answers from the user's message
+ * Every still-missing parameter is extracted in one call, so a message that answers
+ * several questions at once fills all of them. Uses the provider's JSON mode with a
+ * schema built from the allowed values, then validates the result strictly - invalid
+ * or uncertain values are never stored
+ */
+export class WellnessExtractionService {
+  private llmProvider: LlmProvider;
+  private minConfidence: number;
+
+  constructor(llmProvider: LlmProvider, minConfidence: number = config.extraction.minConfidence) {
+    this.llmProvider = llmProvider;
+    this.minConfidence = minConfidence;
+  }
+
+  /**
+   * Extract any of the given parameters from the message
+   * focusParameter is the question the bot last asked - short replies ("yes", "7") answer it
+   */
+  async extract(parameters: WellnessParameter[], message: string, conversationHistory: string[], focusParameter?: WellnessParameter): Promise<FieldExtraction[]> {
+    if (parameters.length === 0) {
+      return [];
+    }
+
+    try {
+      const raw = await this.llmProvider.generateStructured<Partial<Record<WellnessParameter, RawExtraction>>>(
+        this.createExtractionPrompt(parameters, message, conversationHistory, focusParameter),
+        {
+          temperature: 0,
+          maxOutputTokens: 1024,
+          responseSchema: this.buildResponseSchema(parameters)
+        }
+      );
+
+      const extractions = parameters.map(parameter => this.validate(parameter, raw?.[parameter], message));
+      logger.info('Structured extraction result', {
+        results: extractions
+          .filter(extraction => extraction.status !== 'not_answered')
+          .map(({ parameter, status, confidence }) => ({ parameter, status, confidence }))
+      });
+      return extractions;
+    } catch (error) {
+      logger.error('Structured extraction failed', {
+        parameters,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return parameters.map(parameter => ({ parameter, value: null, confidence: 0, status: 'not_answered', candidates: [] }));
+    }
+  }
+
+  /**
+   * Canonical dataset value for the input (case-insensitive), or null when it is not allowed
+   */
+  normalizeValue(parameter: WellnessParameter, value: unknown): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    const inputValue = String(value).trim().toLowerCase();
+    return WELLNESS_ALLOWED_VALUES[parameter].find(allowed => allowed.toLowerCase() === inputValue) || null;
+  }
+
+  private validate(parameter: WellnessParameter, raw: RawExtraction | undefined, message: string): FieldExtraction {
+    const value = this.normalizeValue(parameter, raw?.value);
+    const confidence = typeof raw?.confidence === 'number' && isFinite(raw.confidence)
+      ? Math.min(1, Math.max(0, raw.confidence))
+      : 0;
+    const candidates = Array.from(new Set(
+      (Array.isArray(raw?.candidates) ? raw!.candidates : [])
+        .map(candidate => this.normalizeValue(parameter, candidate))
+        .filter((candidate): candidate is string => candidate !== null)
+    ));
+
+    let status: ExtractionStatus;
+    if (raw?.answered === false && !value) {
+      status = 'not_answered';
+    } else if (value && !raw?.ambiguous && confidence >= this.minConfidence) {
+      status = 'accepted';
+    } else if (value || candidates.length > 0 || raw?.answered) {
+      // The user did reply, but not clearly enough to store anything
+      status = 'needs_clarification';
+    } else {
+      status = 'not_answered';
+    }
+
+    if (raw?.value && !value) {
+      logger.warn(`🚫 Rejected value outside the dataset for ${parameter}`, { value: raw.value });
+    }
+
+    return {
+      parameter,
+      value: status === 'accepted' ? value : null,
+      confidence,
+      status,
+      candidates: status === 'needs_clarification' && value && !candidates.includes(value) ? [value, ...candidates] : candidates,
+      evidence: status === 'not_answered' ? undefined : this.validateEvidence(raw?.evidence, message)
+    };
+  }
+
+  // Evidence must be a real quote from the message, otherwise it is dropped
+  private validateEvidence(evidence: unknown, message: string): string | undefined {
+    if (typeof evidence !== 'string' || !evidence.trim()) {
+      return undefined;
+    }
+    const quote = evidence.trim();
+    if (!message.toLowerCase().includes(quote.toLowerCase())) {
+      return undefined;
+    }
+    return quote.length > MAX_EVIDENCE_LENGTH ? `${quote.slice(0, MAX_EVIDENCE_LENGTH - 1)}…` : quote;
+  }
+
+  private buildResponseSchema(parameters: WellnessParameter[]): LlmResponseSchema {
+    const properties: Record<string, LlmResponseSchema> = {};
+    for (const parameter of parameters) {
+      const allowedValues = WELLNESS_ALLOWED_VALUES[parameter];
+      properties[parameter] = {
+        type: 'object',
+        properties: {
+          answered: {
+            type: 'boolean',
+            description: `Whether the user's message says anything about ${parameter}`
+          },
+          value: {
+            type: 'string',
+            enum: allowedValues,
+            nullable: true,
+            description: 'The single best matching value, or null when the message does not answer it'
+          },
+          confidence: {
+            type: 'number',
+            description: 'Confidence between 0 and 1 that value is what the user meant'
+          },
+          ambiguous: {
+            type: 'boolean',
+            description: 'True when the answer could reasonably map to more than one value'
+          },
+          candidates: {
+            type: 'array',
+            items: { type: 'string', enum: allowedValues },
+            description: 'Plausible values when the answer is ambiguous'
+          },
+          evidence: {
+            type: 'string',
+            description: 'The exact words from the user message the value is based on, empty when not answered'
+          }
+        },
+        required: ['answered', 'value', 'confidence', 'ambiguous', 'candidates', 'evidence']
+      };
+    }
+
+    return {
+      type: 'object',
+      properties,
+      required: parameters
+    };
+  }
+
+  private createExtractionPrompt(parameters: WellnessParameter[], message: string, conversationHistory: string[], focusParameter?: WellnessParameter): string {
+    const recentHistory = conversationHistory.slice(-6).join('\n');
+    const parameterGuides = parameters
+      .map(parameter => `PARAMETER: ${parameter}\nALLOWED VALUES: ${JSON.stringify(WELLNESS_ALLOWED_VALUES[parameter])}\n${buildMappingGuide(parameter)}`)
+      .join('\n\n');
+
+    return `You classify a student's answers in a mental wellness check-in.
+A single message can answer several questions at once - extract every parameter it answers.
+
+${focusParameter ? `LAST QUESTION ASKED: ${focusParameter} (short replies like "yes" or "7" answer this one)\n\n` : ''}RECENT CONVERSATION:
+${recentHistory}
+
+USER MESSAGE: "${message}"
+
+PARAMETERS TO LOOK FOR:
+${parameterGuides}
+
+RULES:
+1. The message may be in English, Hindi or Hinglish - map the meaning, not the words
+2. Only use a value from each parameter's ALLOWED VALUES; never invent one
+3. If the message does not talk about a parameter at all, set answered=false and value=null for it
+4. If an answer fits more than one value, set ambiguous=true and list them in candidates
+5. Ignore the "default" hints above when the user has not actually answered
+6. confidence reflects how sure you are, from 0 to 1
+7. evidence is copied word for word from USER MESSAGE`;
+  }
+}
@@ -0,0 +1,93 @@
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import {
+  computeWRI,
+  CURRENT_SCORING_PROFILE,
+  DailyWriRecord,
+  getScoringProfile,
+  LEGACY_SCORING_PROFILE,
+  WriHistoryPoint
+} from '@manoday/wellness-scoring';
+import { logger } from '../utils/logger';
+import { WriRecomputeResult } from '../types/wri.types';
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+/**
+ * Rescores a user's stored daily WRI history with another scoring profile
+ * Run after a formula change so trend charts compare like with like. Days are processed
+ * oldest first and each rescored day feeds the history indexes of the days after it.
+ */
+export class WriRecomputeService {
+  private db = getFirestore();
+
+  async recomputeUserHistory(userEmail: string, profileVersion: string = CURRENT_SCORING_PROFILE): Promise<WriRecomputeResult> {
+    // Throws for an unknown version before anything is read
+    const profile = getScoringProfile(profileVersion);
+    const dailyRef = this.db.collection('mood_scores').doc(userEmail).collection('daily');
+    const snapshot = await dailyRef.orderBy('date', 'asc').get();
+
+    const result: WriRecomputeResult = {
+      userEmail,
+      profileVersion: profile.version,
+      scanned: snapshot.size,
+      updated: 0,
+      unchanged: 0,
+      skipped: 0
+    };
+    const history: WriHistoryPoint[] = [];
+    let batch = this.db.batch();
+    let pendingWrites = 0;
+
+    for (const doc of snapshot.docs) {
+      const record = doc.data() as DailyWriRecord;
+      const currentVersion = record.profile_version || LEGACY_SCORING_PROFILE;
+
+      if (currentVersion === profile.version || !record.inputs) {
+        // Kept as stored, but still part of the history later days are indexed against
+        result[currentVersion === profile.version ? 'unchanged' : 'skipped']++;
+        if (typeof record.wri === 'number') {
+          history.push({ date: record.date, wri: record.wri });
+        }
+        continue;
+      }
+
+      const output = computeWRI(record.inputs, history.slice(), record.journal_bonus_applied !== false, profile);
+      batch.update(doc.ref, {
+        wri: output.wri,
+        profile_version: output.profile_version,
+        risk_band: output.risk_band,
+        subscores: output.subscores,
+        flags: output.flags,
+        // Firestore rejects undefined fields
+        recommendations: output.recommendations.map(({ personalization, ...recommendation }) => ({
+          ...recommendation,
+          ...(personalization ? { personalization } : {})
+        })),
+        history_indexes: {
+          weekly_index: output.history_indexes?.weekly_index ?? null,
+          monthly_index: output.history_indexes?.monthly_index ?? null,
+          volatility: output.history_indexes?.volatility ?? null
+        },
+        uncertainty: output.uncertainty,
+        previous_profile_version: currentVersion,
+        recomputedAt: FieldValue.serverTimestamp()
+      });
+      history.push({ date: record.date, wri: output.wri });
+      result.updated++;
+
+      if (++pendingWrites === BATCH_SIZE) {
+        await batch.commit();
+        batch = this.db.batch();
+        pendingWrites = 0;
+      }
+    }
+
+    if (pendingWrites > 0) {
+      await batch.commit();
+    }
+
+    logger.info('WRI history recomputed', result);
+    return result;
+  }
+}
@@ -1,22 +1,44 @@
 // Core types for the wellness chatbot application
 
-export interface WellnessData {
-  mood: string;
-  sleepHours: string;
-  stressLevel: string;
-  academicPressure: string;
-  socialSupport: string;
-  loneliness: string;
-  confidenceLevel: string;
-  hobbiesInterest: string;
-  opennessToJournaling: string;
-  willingForProfessionalHelp: string;
+import { WellnessData, WellnessParameter } from '@manoday/wellness-scoring';
+import { SafetyResponseInfo } from './safety.types';
+import { RecommendationExplanation, RecommendationModelName } from './recommendation.types';
+
+// Questionnaire answers are shared with the frontend through the wellness-scoring package
+export { WellnessData, WellnessParameter } from '@manoday/wellness-scoring';
+
+// accepted: value is valid and confident enough to store
+// needs_clarification: the user answered but the value is ambiguous - ask again instead of storing
+// not_answered: the message did not address the parameter
+export type ExtractionStatus = 'accepted' | 'needs_clarification' | 'not_answered';
+
+export interface FieldExtraction {
+  parameter: WellnessParameter;
+  value: string | null;
+  confidence: number;
+  status: ExtractionStatus;
+  candidates: string[];
+  // Words from the message the value is based on
+  evidence?: string;
+}
+
+// Where a collected value came from
+export interface FieldProvenance {
+  sessionId: string;
+  // Index of the source message in the conversation history
+  messageIndex: number;
+  evidence?: string;
+  confidence: number;
+  extractedAt: string;
 }
 
+export type WellnessProvenance = Partial<Record<WellnessParameter, FieldProvenance>>;
+
 export interface GeminiRequest {
   message: string;
   conversationHistory: string[];
   wellnessData: Partial<WellnessData>;
+  sessionId?: string;
 }
 
 export interface GeminiResponse {
@@ -24,15 +46,52 @@ export interface GeminiResponse {
   extractedData: Partial<WellnessData>;
   updatedWellnessData: Partial<WellnessData>;
   timestamp: string;
+  extractions?: FieldExtraction[];
+  clarification?: FieldExtraction;
+  provenance?: WellnessProvenance;
+  // Version of the questionnaire definition the answers were validated against
+  questionnaireVersion?: string;
+  // Present when the message was classified as a crisis
+  safety?: SafetyResponseInfo;
+  sessionId?: string;
+  sessionState?: ChatSessionState;
+}
+
+export type ChatSessionStatus = 'active' | 'expired';
+
+// How a request was attached to its chat session
+export type ChatSessionState = 'started' | 'resumed';
+
+// Questionnaire progress for one chat, persisted between requests
+export interface ChatSession {
+  sessionId: string;
+  userId: string;
+  status: ChatSessionStatus;
+  askedParameters: string[];
+  provenance?: WellnessProvenance;
+  // Safety events recorded in this session - the questionnaire pauses once there is one
+  safetyEventIds?: string[];
+  createdAt: string;
+  lastActivityAt: string;
+  expiredAt?: string;
 }
 
 export interface AutoMLRequest {
   features: Partial<WellnessData>;
+  // Parameters the client filled with defaults rather than from the user's answers
+  imputedParameters?: WellnessParameter[];
 }
 
 export interface AutoMLResponse {
   recommendation: string;
   confidence: number;
+  // Probability per activity, when the model provides them
+  probabilities?: Record<string, number>;
+  // Which model produced the recommendation
+  model?: RecommendationModelName | 'fallback';
+  modelVersion?: string;
+  // Which answers pushed the model towards the recommendation
+  explanation?: RecommendationExplanation;
   timestamp: string;
 }
 
@@ -8,11 +8,37 @@ export interface JournalEntry {
   isEncrypted: boolean;
   encryptedData?: string;
   iv?: string;
+  // Set on entries encrypted with a per-entry password-derived key
   salt?: string;
+  // Set instead of salt on entries encrypted with the user's journal key
+  keyVersion?: number;
+  // Title, preview, mood tag and word count for the list, encrypted with the journal key
+  encryptedMetadata?: string;
+  metadataIv?: string;
+}
+
+// A key wrapped by a key derived from the email and a secret (password or recovery code)
+export interface KeyWrap {
+  wrappedKey: string;
+  iv: string;
+  salt: string;
+  iterations: number;
+}
+
+/**
+ * journal_keys/{userId} - the user's random journal key, wrapped (AES-GCM) by a key the browser
+ * derives from their email and journal password with PBKDF2, and once more by one derived from
+ * their recovery code. The server only ever stores it.
+ */
+export interface JournalKeyDocument extends KeyWrap {
+  keyVersion: number;
+  recovery?: KeyWrap;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface JournalRequest {
-  action: 'create' | 'read' | 'update' | 'delete' | 'list' | 'health';
+  action: 'create' | 'read' | 'update' | 'delete' | 'list' | 'getKey' | 'createKey' | 'updateKey' | 'health';
   userId: string;
   journalId?: string;
   title?: string;
@@ -33,6 +59,9 @@ export interface CreateJournalRequest {
   encryptedData?: string;
   iv?: string;
   salt?: string;
+  keyVersion?: number;
+  encryptedMetadata?: string;
+  metadataIv?: string;
 }
 
 export interface UpdateJournalRequest {
@@ -43,6 +72,24 @@ export interface UpdateJournalRequest {
   encryptedData?: string;
   iv?: string;
   salt?: string;
+  keyVersion?: number;
+  encryptedMetadata?: string;
+  metadataIv?: string;
+  // Same content under a different key - the entry keeps its updatedAt
+  reencrypt?: boolean;
+}
+
+export interface CreateJournalKeyRequest extends KeyWrap {
+  userId: string;
+  keyVersion: number;
+  recovery?: KeyWrap;
+}
+
+// The same journal key wrapped for a new password or recovery code - replaces the stored one only
+// if that is still the wrapped key the browser unwrapped (previousWrappedKey). A stored recovery
+// wrap is kept unless a new one is sent.
+export interface UpdateJournalKeyRequest extends CreateJournalKeyRequest {
+  previousWrappedKey: string;
 }
 
 export interface DeleteJournalRequest {
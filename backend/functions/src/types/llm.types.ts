@@ -0,0 +1,62 @@
+// Types for the pluggable LLM provider layer
+
+export type LlmProviderName = 'gemini' | 'scripted' | 'openai-compatible';
+
+export interface LlmGenerateOptions {
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  timeoutMs?: number;
+}
+
+// JSON schema (OpenAPI subset understood by Gemini) describing the structured output
+export interface LlmResponseSchema {
+  // Array form only after toJsonSchema turned nullable into a null union
+  type?: string | string[];
+  properties?: Record<string, LlmResponseSchema>;
+  items?: LlmResponseSchema;
+  enum?: readonly (string | null)[];
+  nullable?: boolean;
+  description?: string;
+  required?: string[];
+}
+
+export interface LlmStructuredOptions extends LlmGenerateOptions {
+  responseSchema: LlmResponseSchema;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+
+  /**
+   * Generate a plain text completion for the prompt
+   * Resolves to an empty string when the model returned no text
+   */
+  generate(prompt: string, options?: LlmGenerateOptions): Promise<string>;
+
+  /**
+   * Generate output constrained to the response schema and return it parsed
+   */
+  generateStructured<T>(prompt: string, options: LlmStructuredOptions): Promise<T>;
+
+  /**
+   * Stream a text completion as it is produced, chunk by chunk
+   */
+  stream(prompt: string, options?: LlmGenerateOptions): AsyncGenerator<string>;
+}
+
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: LlmProviderName,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+}
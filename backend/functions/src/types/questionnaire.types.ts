@@ -0,0 +1,50 @@
+// Types for the data-driven wellness questionnaire definition
+
+import { WellnessParameter } from './index';
+
+export type QuestionnaireLanguage = 'en' | 'hi';
+
+export type LocalizedText = Record<QuestionnaireLanguage, string>;
+
+// categorical: unordered labels, ordinal: ordered labels (low → high), integer: whole numbers kept as strings, boolean: Yes/No
+export type QuestionType = 'categorical' | 'ordinal' | 'integer' | 'boolean';
+
+export interface QuestionDefinition {
+  parameter: WellnessParameter;
+  type: QuestionType;
+  // Column name the AutoML model was trained with
+  modelFeature: string;
+  // The only values the model knows - anything else is rejected
+  allowedValues: string[];
+  // What an unsure answer ("I don't know", "maybe") maps to
+  defaultValue: string;
+  // Imputed for the model when the parameter was never answered
+  modelFallbackValue: string;
+  // Days a stored answer stays valid before the chatbot asks for it again
+  freshForDays: number;
+  label: LocalizedText;
+  question: LocalizedText;
+  // Phrases per language that map to an allowed value
+  synonyms: Record<QuestionnaireLanguage, Record<string, string[]>>;
+  // Clause per language completing "because ..." for each allowed value, used to explain recommendations
+  reasons: Record<QuestionnaireLanguage, Record<string, string>>;
+  // Extra mapping rules for the extraction prompt that are not plain synonyms
+  notes?: string[];
+}
+
+export interface QuestionnaireDefinition {
+  // Bump whenever a parameter, value or mapping changes
+  version: string;
+  // Parameters in the order the chatbot asks for them
+  questions: QuestionDefinition[];
+}
+
+// ISO time each stored parameter was last answered
+export type ParameterTimestamps = Partial<Record<WellnessParameter, string>>;
+
+export interface ParameterFreshness {
+  // Answered within the parameter's freshness window - reused by the chatbot
+  fresh: WellnessParameter[];
+  // Answered before the window - kept for display but asked again
+  stale: WellnessParameter[];
+}
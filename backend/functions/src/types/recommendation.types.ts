@@ -0,0 +1,69 @@
+// Types for activity recommendation models (Vertex AutoML endpoint or the offline local model)
+
+import { WellnessParameter } from './index';
+import { LocalizedText } from './questionnaire.types';
+
+// vertex - deployed AutoML endpoint, local - JSON model evaluated in-process
+export type RecommendationModelName = 'vertex' | 'local';
+
+// One AutoML instance - model feature name (e.g. "SleepHours") to its string value
+export type ModelInstance = Record<string, string>;
+
+export interface ActivityPrediction {
+  recommendation: string;
+  confidence: number;
+  // Probability for each activity class, summing to 1
+  probabilities: Record<string, number>;
+}
+
+export interface LocalModelFeature {
+  name: string;
+  // One-hot encoded values - anything else contributes nothing
+  values: string[];
+}
+
+/**
+ * Multinomial logistic regression exported to JSON by scripts/train-local-recommender.ts
+ * logit(class) = intercepts[class] + Σ weights[feature][value][class]
+ */
+export interface LocalModelDefinition {
+  format: 'multinomial-logistic/v1';
+  version: string;
+  trainedOn: {
+    source: string;
+    rows: number;
+    trainingAccuracy: number;
+    trainedAt: string;
+  };
+  classes: string[];
+  features: LocalModelFeature[];
+  intercepts: number[];
+  weights: Record<string, Record<string, number[]>>;
+}
+
+// How much one feature value pushed the logit of an activity, relative to an average answer
+export interface FeatureAttribution {
+  feature: string;
+  value: string;
+  contribution: number;
+}
+
+// linear - attributions from the local model that made the prediction
+export type ExplanationMethod = 'linear';
+
+export interface FeatureContribution extends FeatureAttribution {
+  parameter: WellnessParameter;
+  // The value was imputed for the model, not answered - never used as a reason
+  imputed: boolean;
+  // "your sleep is low (4 hours)"
+  reason: LocalizedText;
+}
+
+export interface RecommendationExplanation {
+  method: ExplanationMethod;
+  activity: string;
+  // Every model feature, strongest push towards the activity first
+  contributions: FeatureContribution[];
+  // Top answered reasons, e.g. "because your sleep is low (4 hours) and your stress is high"
+  summary?: LocalizedText;
+}
@@ -0,0 +1,52 @@
+// Types for crisis / self-harm detection in the chat pipeline
+
+import { HelplineCenter } from './professional-help.types';
+
+// none - nothing found, concern - distress that may hide risk, crisis - suicidal ideation or self-harm
+export type SafetyRiskLevel = 'none' | 'concern' | 'crisis';
+
+export type SafetyCategory = 'suicidal_ideation' | 'self_harm';
+
+export type SafetyLexiconLanguage = 'en' | 'hi' | 'hinglish';
+
+export interface SafetyLexiconMatch {
+  // Rule id, e.g. "en.suicide.kill_myself" - never the user's words
+  rule: string;
+  language: SafetyLexiconLanguage;
+  level: Exclude<SafetyRiskLevel, 'none'>;
+  category: SafetyCategory;
+}
+
+export interface SafetyAssessment {
+  level: SafetyRiskLevel;
+  category?: SafetyCategory;
+  matches: SafetyLexiconMatch[];
+  // Whether the LLM classifier ran and what it said
+  llmChecked: boolean;
+  llmLevel?: SafetyRiskLevel;
+}
+
+// Audit record written whenever a crisis response is sent - contains no message text
+export interface SafetyEvent {
+  eventId: string;
+  userId: string;
+  sessionId: string;
+  level: SafetyRiskLevel;
+  category?: SafetyCategory;
+  rules: string[];
+  llmChecked: boolean;
+  llmLevel?: SafetyRiskLevel;
+  // SHA-256 of the message so a reviewer can match it against the client transcript
+  messageHash: string;
+  language: string;
+  helplineIds: string[];
+  createdAt: string;
+}
+
+// Returned to the client with a crisis response
+export interface SafetyResponseInfo {
+  level: SafetyRiskLevel;
+  category?: SafetyCategory;
+  eventId: string;
+  helplines: HelplineCenter[];
+}
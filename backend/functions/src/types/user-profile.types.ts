@@ -0,0 +1,18 @@
+// Types for the per-user profile (user_profiles/{userEmail})
+
+export interface UserProfile {
+  // IANA timezone (e.g. "Asia/Kolkata") every day key of the user is computed in
+  timeZone: string;
+  // Set once the data keyed by UTC day before the profile existed has been moved to the timezone
+  dayKeysMigratedAt?: string;
+}
+
+export interface DayKeyMigrationResult {
+  userEmail: string;
+  timeZone: string;
+  // Daily WRI documents and journal metric snapshots marked as saved under a UTC day
+  dailyDocuments: number;
+  journalSnapshots: number;
+  // Journal entries counted again into the per-day entry counts
+  journalEntries: number;
+}
@@ -0,0 +1,35 @@
+// Types for server-side WRI scoring jobs
+
+export interface WriRecomputeResult {
+  userEmail: string;
+  profileVersion: string;
+  // Daily documents read
+  scanned: number;
+  // Rescored under the requested profile
+  updated: number;
+  // Already produced by the requested profile
+  unchanged: number;
+  // Saved without inputs (before scores were versioned) - cannot be rescored
+  skipped: number;
+}
+
+export interface DailyWriUserResult {
+  userEmail: string;
+  // Days scored from a chat or journal entry
+  scored: number;
+  // Days stored as "no check-in"
+  noCheckIn: number;
+  // Days that already had a score from the browser
+  kept: number;
+}
+
+export interface DailyWriRunResult {
+  // Day the run was for (null - yesterday in each user's timezone); missing days before it are filled in too
+  date: string | null;
+  users: number;
+  scored: number;
+  noCheckIn: number;
+  kept: number;
+  // Users whose scoring threw
+  failed: number;
+}
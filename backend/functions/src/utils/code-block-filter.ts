@@ -0,0 +1,54 @@
+const CODE_BLOCK_START = '{code}';
+
+/**
+ * Streaming filter that hides the trailing {code}...{/code} extraction block
+ * Text is released as soon as it can no longer be the start of the block marker,
+ * so a marker split across chunks ("...{co" + "de}{...") is still caught
+ */
+export class CodeBlockStreamFilter {
+  private pending = '';
+  private insideBlock = false;
+
+  /**
+   * Add a chunk and return the text that is safe to show the user
+   */
+  push(chunk: string): string {
+    if (this.insideBlock) {
+      return '';
+    }
+
+    this.pending += chunk;
+
+    const blockStart = this.pending.indexOf(CODE_BLOCK_START);
+    if (blockStart !== -1) {
+      this.insideBlock = true;
+      const visible = this.pending.slice(0, blockStart);
+      this.pending = '';
+      return visible;
+    }
+
+    // Hold back a suffix that could still grow into the marker
+    const holdBack = this.partialMarkerLength(this.pending);
+    const visible = this.pending.slice(0, this.pending.length - holdBack);
+    this.pending = this.pending.slice(this.pending.length - holdBack);
+    return visible;
+  }
+
+  /**
+   * Release whatever was held back once the stream has ended
+   */
+  flush(): string {
+    const visible = this.insideBlock ? '' : this.pending;
+    this.pending = '';
+    return visible;
+  }
+
+  private partialMarkerLength(text: string): number {
+    for (let length = Math.min(CODE_BLOCK_START.length - 1, text.length); length > 0; length--) {
+      if (CODE_BLOCK_START.startsWith(text.slice(text.length - length))) {
+        return length;
+      }
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ChatSessionService,
+  ChatSessionStore,
+  FirestoreChatSessionStore,
+  InMemoryChatSessionStore
+} from '../src/services/chat-session.service';
+import { installFirestoreFake } from './firestore-fake';
+
+const USER = 'student@example.com';
+const IDLE_MINUTES = 30;
+
+function createService() {
+  const store = new InMemoryChatSessionStore();
+  return { store, service: new ChatSessionService(store, IDLE_MINUTES) };
+}
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+describe('ChatSessionService', () => {
+  describe('start', () => {
+    it('stores an active session without questionnaire progress', async () => {
+      const { store, service } = createService();
+      const session = await service.start(USER);
+
+      assert.equal(session.status, 'active');
+      assert.deepEqual(session.askedParameters, []);
+      assert.deepEqual(await store.get(USER, session.sessionId), session);
+    });
+
+    it('keeps a valid client id and replaces one that cannot be a document id', async () => {
+      const { service } = createService();
+      assert.equal((await service.start(USER, 'chat_123-abc')).sessionId, 'chat_123-abc');
+      assert.notEqual((await service.start(USER, 'bad/id')).sessionId, 'bad/id');
+    });
+  });
+
+  describe('resume', () => {
+    it('returns the stored session with its progress', async () => {
+      const { service } = createService();
+      const session = await service.start(USER);
+      session.askedParameters.push('mood', 'sleepHours');
+      await service.touch(session);
+
+      const resumed = await service.resume(USER, session.sessionId);
+      assert.deepEqual(resumed?.askedParameters, ['mood', 'sleepHours']);
+    });
+
+    it('returns null for unknown, invalid or other users\' sessions', async () => {
+      const { service } = createService();
+      const session = await service.start(USER);
+
+      assert.equal(await service.resume(USER, 'unknown'), null);
+      assert.equal(await service.resume(USER, '../escape'), null);
+      assert.equal(await service.resume('other@example.com', session.sessionId), null);
+    });
+
+    it('expires a session idle for longer than the timeout', async () => {
+      const { store, service } = createService();
+      const session = await service.start(USER);
+      await store.save({ ...session, lastActivityAt: minutesAgo(IDLE_MINUTES + 1) });
+
+      assert.equal(await service.resume(USER, session.sessionId), null);
+      const stored = await store.get(USER, session.sessionId);
+      assert.equal(stored?.status, 'expired');
+      assert.ok(stored?.expiredAt);
+    });
+
+    it('keeps a session active within the timeout', async () => {
+      const { store, service } = createService();
+      const session = await service.start(USER);
+      await store.save({ ...session, lastActivityAt: minutesAgo(IDLE_MINUTES - 1) });
+
+      assert.equal((await service.resume(USER, session.sessionId))?.status, 'active');
+    });
+  });
+
+  describe('startOrResume', () => {
+    it('resumes an active session', async () => {
+      const { service } = createService();
+      const session = await service.start(USER);
+
+      const result = await service.startOrResume(USER, session.sessionId);
+      assert.equal(result.state, 'resumed');
+      assert.equal(result.session.sessionId, session.sessionId);
+    });
+
+    it('starts a session under a client id that was never used', async () => {
+      const { service } = createService();
+      const result = await service.startOrResume(USER, 'fresh-id');
+      assert.equal(result.state, 'started');
+      assert.equal(result.session.sessionId, 'fresh-id');
+    });
+
+    it('starts a session under a new id when the requested one expired', async () => {
+      const { service } = createService();
+      const session = await service.start(USER);
+      session.askedParameters.push('mood');
+      await service.expire(session);
+
+      const result = await service.startOrResume(USER, session.sessionId);
+      assert.equal(result.state, 'started');
+      assert.notEqual(result.session.sessionId, session.sessionId);
+      assert.deepEqual(result.session.askedParameters, []);
+    });
+  });
+
+  describe('expireById', () => {
+    it('expires a session once and reports unknown ids', async () => {
+      const { store, service } = createService();
+      const session = await service.start(USER);
+
+      assert.equal(await service.expireById(USER, session.sessionId), true);
+      const expiredAt = (await store.get(USER, session.sessionId))?.expiredAt;
+      assert.ok(expiredAt);
+      assert.equal(await service.expireById(USER, session.sessionId), true);
+      assert.equal((await store.get(USER, session.sessionId))?.expiredAt, expiredAt);
+
+      assert.equal(await service.expireById(USER, 'unknown'), false);
+    });
+  });
+
+  it('does not let callers change stored progress without saving', async () => {
+    const { store, service } = createService();
+    const session = await service.start(USER);
+    session.askedParameters.push('mood');
+
+    assert.deepEqual((await store.get(USER, session.sessionId))?.askedParameters, []);
+  });
+
+  // Two messages of the same chat handled at once, each from its own copy of the session
+  const stores: Array<[string, () => ChatSessionStore]> = [
+    ['in memory', () => new InMemoryChatSessionStore()],
+    ['in Firestore', () => {
+      installFirestoreFake();
+      return new FirestoreChatSessionStore();
+    }]
+  ];
+  stores.forEach(([name, createStore]) => {
+    describe(`concurrent saves ${name}`, () => {
+      it('keeps the progress of both', async () => {
+        const service = new ChatSessionService(createStore(), IDLE_MINUTES);
+        const session = await service.start(USER);
+        const first = (await service.resume(USER, session.sessionId))!;
+        const second = (await service.resume(USER, session.sessionId))!;
+
+        first.askedParameters.push('mood');
+        second.askedParameters.push('sleepHours');
+        second.safetyEventIds = ['event-1'];
+        await Promise.all([service.touch(first), service.touch(second)]);
+
+        const stored = await service.resume(USER, session.sessionId);
+        assert.deepEqual(stored?.askedParameters.slice().sort(), ['mood', 'sleepHours']);
+        assert.deepEqual(stored?.safetyEventIds, ['event-1']);
+      });
+
+      it('keeps an expired session expired when an older copy is saved', async () => {
+        const service = new ChatSessionService(createStore(), IDLE_MINUTES);
+        const session = await service.start(USER);
+        const stale = (await service.resume(USER, session.sessionId))!;
+        await service.expireById(USER, session.sessionId);
+
+        stale.askedParameters.push('mood');
+        await service.touch(stale);
+
+        assert.equal(await service.resume(USER, session.sessionId), null);
+      });
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CrisisDetectionService } from '../src/services/crisis-detection.service';
+import { ChatSessionService, InMemoryChatSessionStore } from '../src/services/chat-session.service';
+import { GeminiService } from '../src/services/gemini.service';
+import { InMemorySafetyEventStore, SafetyEventService } from '../src/services/safety-event.service';
+import { DEMO_SCRIPT, ScriptedProvider, ScriptedRule } from '../src/services/llm/scripted.provider';
+import { ChatSession } from '../src/types';
+
+// Provider whose safety classifier answers with the given JSON
+const classifier = (reply: string, prompts: string[] = []) => new ScriptedProvider([{
+  match: /^SAFETY CLASSIFICATION/,
+  reply: (prompt) => {
+    prompts.push(prompt);
+    return reply;
+  }
+}]);
+
+describe('CrisisDetectionService', () => {
+  it('flags crisis messages in English, Hindi and Hinglish from the lexicon alone', async () => {
+    const service = new CrisisDetectionService(undefined, 'off');
+    for (const message of ['I want to die', 'मैं आत्महत्या के बारे में सोच रहा हूँ', 'ab jeena nahi chahta', 'I have been cutting myself']) {
+      const assessment = await service.assess(message);
+      assert.equal(assessment.level, 'crisis', message);
+      assert.equal(assessment.llmChecked, false);
+    }
+  });
+
+  it('matches curly apostrophes from mobile keyboards', async () => {
+    const assessment = await new CrisisDetectionService(undefined, 'off').assess('I don’t want to live anymore');
+    assert.equal(assessment.level, 'crisis');
+    assert.deepEqual(assessment.matches.map(match => match.rule), ['en.dont_want_to_live']);
+  });
+
+  it('leaves ordinary messages alone', async () => {
+    const assessment = await new CrisisDetectionService(undefined, 'off').assess('Exams are stressful but I slept 7 hours');
+    assert.equal(assessment.level, 'none');
+    assert.deepEqual(assessment.matches, []);
+  });
+
+  it('escalates a concern to a crisis when the LLM second opinion says so', async () => {
+    const service = new CrisisDetectionService(classifier(JSON.stringify({ risk: 'crisis', category: 'self_harm' })), 'ambiguous');
+    const assessment = await service.assess('I feel hopeless');
+
+    assert.equal(assessment.level, 'crisis');
+    assert.equal(assessment.category, 'self_harm');
+    assert.equal(assessment.llmChecked, true);
+    assert.equal(assessment.llmLevel, 'crisis');
+  });
+
+  it('never lets the LLM lower what the lexicon found', async () => {
+    const prompts: string[] = [];
+    const service = new CrisisDetectionService(classifier(JSON.stringify({ risk: 'none', category: null }), prompts), 'always');
+
+    assert.equal((await service.assess('I feel hopeless')).level, 'concern');
+    // A lexicon crisis is final - the LLM is not asked at all
+    const crisis = await service.assess('I want to end my life');
+    assert.equal(crisis.level, 'crisis');
+    assert.equal(crisis.llmChecked, false);
+    assert.equal(prompts.length, 1);
+  });
+
+  it('only asks the LLM about ambiguous messages unless configured to always ask', async () => {
+    const prompts: string[] = [];
+    const reply = JSON.stringify({ risk: 'none', category: null });
+
+    await new CrisisDetectionService(classifier(reply, prompts), 'ambiguous').assess('Had a fine day');
+    await new CrisisDetectionService(classifier(reply, prompts), 'off').assess('I feel hopeless');
+    assert.equal(prompts.length, 0);
+
+    await new CrisisDetectionService(classifier(reply, prompts), 'always').assess('Had a fine day');
+    assert.equal(prompts.length, 1);
+  });
+
+  it('keeps the lexicon result when the classifier fails', async () => {
+    const assessment = await new CrisisDetectionService(classifier('not json'), 'ambiguous').assess('I feel hopeless');
+    assert.equal(assessment.level, 'concern');
+    assert.equal(assessment.llmChecked, false);
+  });
+});
+
+describe('GeminiService crisis escalation', () => {
+  const USER = 'student@example.com';
+
+  // Saves after the first one (starting the session) fail, like a Firestore outage mid-request
+  class FailingProgressStore extends InMemoryChatSessionStore {
+    saves = 0;
+
+    async save(session: ChatSession): Promise<void> {
+      if (++this.saves > 1) {
+        throw new Error('Firestore unavailable');
+      }
+      return super.save(session);
+    }
+  }
+
+  function createService(store: InMemoryChatSessionStore = new InMemoryChatSessionStore()) {
+    const prompts: string[] = [];
+    // Records every reply prompt so the test can tell whether the model was asked to answer
+    const rules: ScriptedRule[] = DEMO_SCRIPT.map(rule => ({
+      match: rule.match,
+      reply: (prompt, match) => {
+        prompts.push(prompt);
+        return typeof rule.reply === 'function' ? rule.reply(prompt, match) : rule.reply;
+      }
+    }));
+    const eventStore = new InMemorySafetyEventStore();
+    const service = new GeminiService(
+      new ChatSessionService(store),
+      new ScriptedProvider(rules),
+      new SafetyEventService(eventStore)
+    );
+    return { service, eventStore, prompts };
+  }
+
+  it('answers a crisis with the fixed helpline response and records a safety event', async () => {
+    const { service, eventStore, prompts } = createService();
+    const message = 'I want to kill myself';
+    const response = await service.generateResponse({ message, conversationHistory: [], wellnessData: {} }, USER);
+
+    assert.equal(response.safety?.level, 'crisis');
+    assert.ok(response.safety.helplines.length > 0);
+    response.safety.helplines.forEach(helpline => assert.ok(response.response.includes(helpline.phoneNumber)));
+    assert.deepEqual(response.extractedData, {});
+    // Neither extraction nor a generated reply ran
+    assert.deepEqual(prompts, []);
+
+    const events = await eventStore.list(USER, response.sessionId!);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].eventId, response.safety.eventId);
+    assert.deepEqual(events[0].rules, ['en.kill_myself']);
+    assert.notEqual(events[0].messageHash, message);
+  });
+
+  it('answers in Hindi when the chat is in Hindi', async () => {
+    const { service } = createService();
+    const response = await service.generateResponse(
+      { message: 'मैं मरना चाहता हूँ', conversationHistory: [], wellnessData: {}, language: 'hi' },
+      USER
+    );
+    assert.equal(response.safety?.level, 'crisis');
+    assert.ok(response.response.includes('हेल्पलाइन'));
+  });
+
+  it('keeps the session in supportive mode after a crisis', async () => {
+    const { service, prompts } = createService();
+    const crisis = await service.generateResponse({ message: 'I want to die', conversationHistory: [], wellnessData: {} }, USER);
+    const next = await service.generateResponse(
+      { message: 'ok', conversationHistory: ['I want to die', crisis.response], wellnessData: {}, sessionId: crisis.sessionId },
+      USER
+    );
+
+    assert.equal(next.sessionState, 'resumed');
+    assert.equal(next.safety, undefined);
+    // The reply prompt is the supportive one, not the next questionnaire question
+    assert.ok(prompts.some(prompt => /supportive friend/.test(prompt)));
+    assert.ok(!prompts.some(prompt => /Ask about parameter/.test(prompt)));
+  });
+
+  it('still answers, a crisis too, when the session progress cannot be saved', async () => {
+    const { service } = createService(new FailingProgressStore());
+    const response = await service.generateResponse({ message: 'I want to kill myself', conversationHistory: [], wellnessData: {} }, USER);
+    assert.equal(response.safety?.level, 'crisis');
+    assert.ok(response.response.length > 0);
+  });
+
+  it('finishes a streamed reply when the session progress cannot be saved', async () => {
+    const { service } = createService(new FailingProgressStore());
+    const tokens: string[] = [];
+    const response = await service.streamResponse(
+      { message: 'hi', conversationHistory: [], wellnessData: {} },
+      USER,
+      token => tokens.push(token),
+      () => tokens.splice(0)
+    );
+    assert.ok(tokens.length > 0);
+    assert.equal(response.sessionState, 'started');
+  });
+});
@@ -0,0 +1,103 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { FakeFirestore, installFirestoreFake } from './firestore-fake';
+import { DailyWriService } from '../src/services/daily-wri.service';
+import { EncryptionService } from '../src/services/encryption.service';
+
+const USER = 'student@example.com';
+const DAY = '2026-10-15';
+
+describe('DailyWriService', () => {
+  let db: FakeFirestore;
+  let service: DailyWriService;
+
+  beforeEach(() => {
+    db = installFirestoreFake();
+    service = new DailyWriService();
+  });
+
+  const daily = async (day: string) => (await db.doc(`mood_scores/${USER}/daily/${day}`).get()).data();
+
+  // A chat session saved at the given time, with when each answer was collected
+  async function chat(at: string, wellnessData: Record<string, string>, collectedAt: Record<string, string>) {
+    const { encryptedData, iv } = EncryptionService.encryptWellnessData(wellnessData, USER);
+    await db.collection(`encrypted_insights/${USER}/chat_sessions`).add({
+      encryptedData,
+      iv,
+      collectedAt,
+      lastUpdated: Timestamp.fromDate(new Date(at))
+    });
+  }
+
+  it('marks a day without a chat or journal entry as no check-in', async () => {
+    const result = await service.scoreUser(USER, [DAY], 'UTC');
+
+    assert.deepEqual(result, { userEmail: USER, scored: 0, noCheckIn: 1, kept: 0 });
+    const stored = await daily(DAY);
+    assert.equal(stored?.status, 'no_check_in');
+    assert.equal(stored?.source, 'scheduled');
+    assert.equal(stored?.wri, undefined);
+  });
+
+  it('keeps the scores the browser saved, with or without activity that day', async () => {
+    const previous = '2026-10-14';
+    await db.doc(`mood_scores/${USER}/daily/${previous}`).set({ date: previous, wri: 35, source: 'client' });
+    await db.doc(`mood_scores/${USER}/daily/${DAY}`).set({ date: DAY, wri: 42, source: 'client' });
+    await chat(`${DAY}T10:00:00Z`, { mood: 'Sad', stressLevel: 'High' }, { mood: `${DAY}T09:00:00Z`, stressLevel: `${DAY}T09:00:00Z` });
+
+    const result = await service.scoreUser(USER, [previous, DAY], 'UTC');
+
+    assert.deepEqual(result, { userEmail: USER, scored: 0, noCheckIn: 0, kept: 2 });
+    assert.deepEqual(await daily(previous), { date: previous, wri: 35, source: 'client' });
+    assert.deepEqual(await daily(DAY), { date: DAY, wri: 42, source: 'client' });
+  });
+
+  it('skips the days it already wrote', async () => {
+    await db.doc(`mood_scores/${USER}/daily/${DAY}`).set({ date: DAY, wri: 55, source: 'scheduled' });
+    await chat(`${DAY}T10:00:00Z`, { mood: 'Happy' }, { mood: `${DAY}T09:00:00Z` });
+
+    const result = await service.scoreUser(USER, [DAY], 'UTC');
+
+    assert.deepEqual(result, { userEmail: USER, scored: 0, noCheckIn: 0, kept: 0 });
+    assert.equal((await daily(DAY))?.wri, 55);
+  });
+
+  it('scores a day with a chat from the answers that were still fresh', async () => {
+    // Mood is only fresh for a day - the answer from three days earlier is left out
+    await chat(`${DAY}T10:00:00Z`, { mood: 'Sad', stressLevel: 'High' }, { mood: '2026-10-12T09:00:00Z', stressLevel: `${DAY}T09:00:00Z` });
+
+    const result = await service.scoreUser(USER, [DAY], 'UTC');
+
+    assert.equal(result.scored, 1);
+    const stored = await daily(DAY);
+    assert.equal(stored?.status, 'checked_in');
+    assert.equal(stored?.source, 'scheduled');
+    assert.equal(stored?.day_basis, 'local');
+    assert.equal(typeof stored?.wri, 'number');
+    assert.equal(stored?.inputs.stress_level, 'high');
+    assert.equal(stored?.inputs.mood, 'neutral');
+    assert.ok(stored?.inputs.imputed.includes('mood'));
+  });
+
+  it('does not score a day from a chat on the next day', async () => {
+    await chat('2026-10-16T10:00:00Z', { mood: 'Sad' }, { mood: '2026-10-16T09:00:00Z' });
+
+    const result = await service.scoreUser(USER, [DAY], 'UTC');
+
+    assert.equal(result.noCheckIn, 1);
+    assert.equal((await daily(DAY))?.status, 'no_check_in');
+  });
+
+  it('scores journal-only users found through their journal summary', async () => {
+    await db.doc(`Journal_insights/${USER}`).set({ entry_counts: { [DAY]: 1 }, updatedAt: Timestamp.now() });
+
+    const result = await service.scoreActiveUsers(DAY);
+
+    assert.equal(result.users, 1);
+    assert.equal(result.scored, 1);
+    const stored = await daily(DAY);
+    assert.equal(stored?.status, 'checked_in');
+    assert.equal(stored?.inputs.journal_entries_today, 1);
+  });
+});
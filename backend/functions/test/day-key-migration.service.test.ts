@@ -0,0 +1,37 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Timestamp } from 'firebase-admin/firestore';
+import { FakeFirestore, installFirestoreFake } from './firestore-fake';
+import { DayKeyMigrationService } from '../src/services/day-key-migration.service';
+
+const USER = 'student@example.com';
+
+describe('DayKeyMigrationService', () => {
+  let db: FakeFirestore;
+
+  beforeEach(async () => {
+    db = installFirestoreFake();
+    await db.doc(`mood_scores/${USER}/daily/2026-10-14`).set({ date: '2026-10-14', wri: 40 });
+    await db.doc(`mood_scores/${USER}/daily/2026-10-15`).set({ date: '2026-10-15', wri: 45, day_basis: 'local' });
+    await db.doc(`Journal_insights/${USER}/daily/2026-10-14`).set({ date: '2026-10-14', metrics: { journal_streak: 1 } });
+    await db.doc(`journals/${USER}/entries/e1`).set({ createdAt: Timestamp.fromDate(new Date('2026-10-14T20:00:00Z')) });
+  });
+
+  it('marks the unmarked days as UTC days without moving them, and counts the entries in the timezone', async () => {
+    const result = await new DayKeyMigrationService().migrateUser(USER, 'Asia/Kolkata');
+
+    assert.deepEqual(result, { userEmail: USER, timeZone: 'Asia/Kolkata', dailyDocuments: 1, journalSnapshots: 1, journalEntries: 1 });
+    assert.deepEqual((await db.doc(`mood_scores/${USER}/daily/2026-10-14`).get()).data(), { date: '2026-10-14', wri: 40, day_basis: 'utc' });
+    assert.equal((await db.doc(`mood_scores/${USER}/daily/2026-10-15`).get()).data()?.day_basis, 'local');
+    assert.equal((await db.doc(`Journal_insights/${USER}/daily/2026-10-14`).get()).data()?.day_basis, 'utc');
+    assert.deepEqual((await db.doc(`Journal_insights/${USER}`).get()).data()?.entry_counts, { '2026-10-15': 1 });
+  });
+
+  it('marks nothing for a user in UTC', async () => {
+    const result = await new DayKeyMigrationService().migrateUser(USER, 'UTC');
+
+    assert.equal(result.dailyDocuments, 0);
+    assert.equal(result.journalSnapshots, 0);
+    assert.equal((await db.doc(`mood_scores/${USER}/daily/2026-10-14`).get()).data()?.day_basis, undefined);
+  });
+});
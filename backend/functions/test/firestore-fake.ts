@@ -0,0 +1,376 @@
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { DocumentData, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import firestoreModule = require('firebase-admin/firestore');
+
+/**
+ * In-memory stand-in for the parts of Firestore the services use, so they can be tested without
+ * the emulator or credentials
+ * installFirestoreFake() swaps it in for getFirestore() (and admin.firestore()); services call those
+ * when constructed, so create them after installing. Transactions retry when a document they read
+ * was written before they committed, like Firestore's optimistic transactions on the server.
+ */
+
+type Comparable = string | number | boolean | null;
+type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'array-contains';
+
+interface Filter {
+  field: string;
+  op: WhereOp;
+  value: unknown;
+}
+
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+// Stored copy of a written value - dates become timestamps and server timestamps are resolved
+function toStored(value: unknown): unknown {
+  if (value instanceof FieldValue && value.isEqual(FieldValue.serverTimestamp())) {
+    return Timestamp.now();
+  }
+  if (value instanceof Date) {
+    return Timestamp.fromDate(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toStored);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, toStored(nested)]));
+  }
+  return value;
+}
+
+const isDelete = (value: unknown) => value instanceof FieldValue && value.isEqual(FieldValue.delete());
+
+// Copy out of the store so callers cannot change stored data by mutating what they read
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(clone) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, clone(nested)])) as T;
+  }
+  return value;
+}
+
+// set(..., { merge: true }) merges nested maps field by field
+function merge(target: Record<string, unknown>, data: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...target };
+  Object.entries(data).forEach(([key, value]) => {
+    if (isDelete(value)) {
+      delete result[key];
+    } else if (isPlainObject(value) && isPlainObject(result[key])) {
+      result[key] = merge(result[key] as Record<string, unknown>, value);
+    } else {
+      result[key] = isPlainObject(value) ? merge({}, value) : toStored(value);
+    }
+  });
+  return result;
+}
+
+function fieldValue(data: DocumentData | undefined, field: string): unknown {
+  return field.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+}
+
+function comparable(value: unknown): Comparable {
+  if (value instanceof Timestamp) {
+    return value.toMillis();
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  return value as Comparable;
+}
+
+function matches(data: DocumentData, { field, op, value }: Filter): boolean {
+  const actual = fieldValue(data, field);
+  if (actual === undefined) {
+    return false;
+  }
+  const left = comparable(actual);
+  switch (op) {
+    case '==': return left === comparable(value);
+    case '!=': return left !== comparable(value);
+    case '<': return left! < comparable(value)!;
+    case '<=': return left! <= comparable(value)!;
+    case '>': return left! > comparable(value)!;
+    case '>=': return left! >= comparable(value)!;
+    case 'in': return (value as unknown[]).map(comparable).includes(left);
+    case 'array-contains': return Array.isArray(actual) && actual.map(comparable).includes(comparable(value));
+  }
+}
+
+export class FakeDocumentSnapshot {
+  constructor(readonly ref: FakeDocumentReference, private stored: DocumentData | undefined) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): DocumentData | undefined {
+    return clone(this.stored);
+  }
+
+  get(field: string): unknown {
+    return clone(fieldValue(this.stored, field));
+  }
+}
+
+export class FakeQuerySnapshot {
+  constructor(readonly docs: FakeDocumentSnapshot[]) {}
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  forEach(callback: (doc: FakeDocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+export class FakeDocumentReference {
+  constructor(private db: FakeFirestore, readonly path: string) {}
+
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  collection(name: string): FakeCollectionReference {
+    return new FakeCollectionReference(this.db, `${this.path}/${name}`);
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    return new FakeDocumentSnapshot(this, this.db.read(this.path));
+  }
+
+  async set(data: DocumentData, options?: { merge?: boolean }): Promise<void> {
+    this.db.write(this.path, 'set', data, options?.merge);
+  }
+
+  async update(data: DocumentData): Promise<void> {
+    this.db.write(this.path, 'update', data);
+  }
+
+  async delete(): Promise<void> {
+    this.db.write(this.path, 'delete');
+  }
+}
+
+export class FakeQuery {
+  constructor(
+    protected db: FakeFirestore,
+    readonly path: string,
+    private filters: Filter[] = [],
+    private orders: Array<{ field: string; direction: 'asc' | 'desc' }> = [],
+    private limitCount: number | null = null,
+    private offsetCount: number = 0
+  ) {}
+
+  where(field: string, op: WhereOp, value: unknown): FakeQuery {
+    return new FakeQuery(this.db, this.path, [...this.filters, { field, op, value }], this.orders, this.limitCount, this.offsetCount);
+  }
+
+  orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): FakeQuery {
+    return new FakeQuery(this.db, this.path, this.filters, [...this.orders, { field, direction }], this.limitCount, this.offsetCount);
+  }
+
+  limit(count: number): FakeQuery {
+    return new FakeQuery(this.db, this.path, this.filters, this.orders, count, this.offsetCount);
+  }
+
+  offset(count: number): FakeQuery {
+    return new FakeQuery(this.db, this.path, this.filters, this.orders, this.limitCount, count);
+  }
+
+  count(): { get: () => Promise<{ data: () => { count: number } }> } {
+    return { get: async () => ({ data: () => ({ count: this.run().length }) }) };
+  }
+
+  async get(): Promise<FakeQuerySnapshot> {
+    return new FakeQuerySnapshot(this.run());
+  }
+
+  private run(): FakeDocumentSnapshot[] {
+    // Like Firestore, ordering by a field leaves out the documents without it
+    const docs = this.db.list(this.path)
+      .filter(({ data }) => this.filters.every(filter => matches(data, filter)))
+      .filter(({ data }) => this.orders.every(({ field }) => fieldValue(data, field) !== undefined))
+      .sort((a, b) => {
+        for (const { field, direction } of this.orders) {
+          const left = comparable(fieldValue(a.data, field))!;
+          const right = comparable(fieldValue(b.data, field))!;
+          if (left !== right) {
+            return (left < right ? -1 : 1) * (direction === 'desc' ? -1 : 1);
+          }
+        }
+        return a.id.localeCompare(b.id);
+      })
+      .slice(this.offsetCount, this.limitCount === null ? undefined : this.offsetCount + this.limitCount);
+    return docs.map(({ id, data }) => new FakeDocumentSnapshot(new FakeDocumentReference(this.db, `${this.path}/${id}`), data));
+  }
+}
+
+export class FakeCollectionReference extends FakeQuery {
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  doc(id: string = `auto${this.db.nextId()}`): FakeDocumentReference {
+    return new FakeDocumentReference(this.db, `${this.path}/${id}`);
+  }
+
+  async add(data: DocumentData): Promise<FakeDocumentReference> {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+}
+
+type PendingWrite = () => void;
+
+export class FakeWriteBatch {
+  protected writes: PendingWrite[] = [];
+
+  constructor(protected db: FakeFirestore) {}
+
+  set(ref: FakeDocumentReference, data: DocumentData, options?: { merge?: boolean }): this {
+    this.writes.push(() => this.db.write(ref.path, 'set', data, options?.merge));
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: DocumentData): this {
+    this.writes.push(() => this.db.write(ref.path, 'update', data));
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): this {
+    this.writes.push(() => this.db.write(ref.path, 'delete'));
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    this.writes.forEach(write => write());
+    this.writes = [];
+  }
+}
+
+export class FakeTransaction extends FakeWriteBatch {
+  // Version of every document read, checked again at commit
+  readonly reads = new Map<string, number>();
+
+  get(target: FakeDocumentReference): Promise<FakeDocumentSnapshot>;
+  get(target: FakeQuery): Promise<FakeQuerySnapshot>;
+  async get(target: FakeDocumentReference | FakeQuery): Promise<FakeDocumentSnapshot | FakeQuerySnapshot> {
+    if (target instanceof FakeDocumentReference) {
+      this.reads.set(target.path, this.db.version(target.path));
+      return target.get();
+    }
+    const snapshot = await target.get();
+    snapshot.docs.forEach(doc => this.reads.set(doc.ref.path, this.db.version(doc.ref.path)));
+    return snapshot;
+  }
+}
+
+export class FakeFirestore {
+  private documents = new Map<string, DocumentData>();
+  private versions = new Map<string, number>();
+  private ids = 0;
+
+  collection(path: string): FakeCollectionReference {
+    return new FakeCollectionReference(this, path);
+  }
+
+  doc(path: string): FakeDocumentReference {
+    return new FakeDocumentReference(this, path);
+  }
+
+  batch(): FakeWriteBatch {
+    return new FakeWriteBatch(this);
+  }
+
+  async runTransaction<T>(update: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const transaction = new FakeTransaction(this);
+      const result = await update(transaction);
+      const conflict = [...transaction.reads].some(([path, version]) => this.version(path) !== version);
+      if (!conflict) {
+        await transaction.commit();
+        return result;
+      }
+      if (attempt === MAX_TRANSACTION_ATTEMPTS) {
+        throw new Error('Transaction contention - too many attempts');
+      }
+    }
+  }
+
+  read(path: string): DocumentData | undefined {
+    return clone(this.documents.get(path));
+  }
+
+  version(path: string): number {
+    return this.versions.get(path) || 0;
+  }
+
+  nextId(): number {
+    return ++this.ids;
+  }
+
+  // Documents directly in a collection - not in its documents' subcollections
+  list(collectionPath: string): Array<{ id: string; data: DocumentData }> {
+    const depth = collectionPath.split('/').length + 1;
+    return [...this.documents]
+      .filter(([path]) => path.startsWith(`${collectionPath}/`) && path.split('/').length === depth)
+      .map(([path, data]) => ({ id: path.split('/').pop()!, data: clone(data) }));
+  }
+
+  write(path: string, kind: 'set' | 'update' | 'delete', data: DocumentData = {}, mergeFields: boolean = false): void {
+    const existing = this.documents.get(path);
+    if (kind === 'delete') {
+      this.documents.delete(path);
+    } else if (kind === 'update') {
+      if (!existing) {
+        throw new Error(`No document to update: ${path}`);
+      }
+      // Each field is replaced as a whole - dotted keys reach into maps
+      const updated = clone(existing);
+      Object.entries(data).forEach(([key, value]) => {
+        const keys = key.split('.');
+        let target: Record<string, unknown> = updated;
+        keys.slice(0, -1).forEach(part => {
+          target = (target[part] = isPlainObject(target[part]) ? target[part] : {}) as Record<string, unknown>;
+        });
+        const last = keys[keys.length - 1];
+        if (isDelete(value)) {
+          delete target[last];
+        } else {
+          target[last] = toStored(value);
+        }
+      });
+      this.documents.set(path, updated);
+    } else {
+      this.documents.set(path, merge(mergeFields && existing ? existing : {}, data));
+    }
+    this.versions.set(path, this.version(path) + 1);
+  }
+}
+
+/**
+ * Route getFirestore() and admin.firestore() to a new, empty fake
+ */
+export function installFirestoreFake(): FakeFirestore {
+  if (getApps().length === 0) {
+    initializeApp({ projectId: 'demo-test' });
+  }
+  const db = new FakeFirestore();
+  Object.assign(firestoreModule, { getFirestore: () => db });
+  return db;
+}
@@ -0,0 +1,98 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DocumentData, Timestamp } from 'firebase-admin/firestore';
+import { FakeFirestore, installFirestoreFake } from './firestore-fake';
+import { JournalInsightsService } from '../src/services/journal-insights.service';
+
+const USER = 'student@example.com';
+
+const entryAt = (iso: string): DocumentData => ({ encryptedData: 'x', iv: 'y', keyVersion: 1, createdAt: Timestamp.fromDate(new Date(iso)) });
+
+describe('JournalInsightsService', () => {
+  let db: FakeFirestore;
+  let service: JournalInsightsService;
+
+  beforeEach(() => {
+    db = installFirestoreFake();
+    service = new JournalInsightsService();
+  });
+
+  // Stores the entry the way the client does, then delivers the trigger event for it
+  async function write(entryId: string, after: DocumentData | undefined, timeZone: string = 'UTC') {
+    const ref = db.doc(`journals/${USER}/entries/${entryId}`);
+    const before = (await ref.get()).data();
+    if (after) {
+      await ref.set(after);
+    } else {
+      await ref.delete();
+    }
+    return { before, after, deliver: () => service.applyEntryChange(USER, entryId, before, after, timeZone) };
+  }
+
+  const summary = async () => (await db.doc(`Journal_insights/${USER}`).get()).data();
+
+  it('counts a new entry on the day it was written', async () => {
+    await (await write('e1', entryAt('2026-10-18T10:00:00Z'))).deliver();
+    const stored = await summary();
+    assert.deepEqual(stored?.entry_counts, { '2026-10-18': 1 });
+    assert.deepEqual(stored?.entry_days, { e1: '2026-10-18' });
+    assert.equal(stored?.last_entry_id, 'e1');
+  });
+
+  it('leaves the counts alone when an entry is edited', async () => {
+    await (await write('e1', entryAt('2026-10-18T10:00:00Z'))).deliver();
+    await (await write('e1', { ...entryAt('2026-10-18T10:00:00Z'), encryptedData: 'edited' })).deliver();
+    assert.deepEqual((await summary())?.entry_counts, { '2026-10-18': 1 });
+  });
+
+  it('removes a deleted entry and drops days left without entries', async () => {
+    await (await write('e1', entryAt('2026-10-17T10:00:00Z'))).deliver();
+    await (await write('e2', entryAt('2026-10-18T10:00:00Z'))).deliver();
+    await (await write('e1', undefined)).deliver();
+    const stored = await summary();
+    assert.deepEqual(stored?.entry_counts, { '2026-10-18': 1 });
+    assert.deepEqual(stored?.entry_days, { e2: '2026-10-18' });
+  });
+
+  it('changes nothing when an event is delivered again', async () => {
+    const created = await write('e1', entryAt('2026-10-18T10:00:00Z'));
+    await created.deliver();
+    await created.deliver();
+    assert.deepEqual((await summary())?.entry_counts, { '2026-10-18': 1 });
+
+    const deleted = await write('e1', undefined);
+    await deleted.deliver();
+    await deleted.deliver();
+    assert.deepEqual((await summary())?.entry_counts, {});
+  });
+
+  it('counts every entry once when there is no summary yet', async () => {
+    await db.doc(`journals/${USER}/entries/old1`).set(entryAt('2026-10-16T10:00:00Z'));
+    await db.doc(`journals/${USER}/entries/old2`).set(entryAt('2026-10-16T12:00:00Z'));
+    // The write being handled is already stored when the trigger runs
+    await (await write('e1', entryAt('2026-10-18T10:00:00Z'))).deliver();
+
+    const stored = await summary();
+    assert.deepEqual(stored?.entry_counts, { '2026-10-16': 2, '2026-10-18': 1 });
+    assert.deepEqual(stored?.entry_days, { old1: '2026-10-16', old2: '2026-10-16', e1: '2026-10-18' });
+  });
+
+  it('keys days in the user\'s timezone and counts again when the summary was kept in another one', async () => {
+    // 20:00 UTC is already 01:30 the next day in India
+    await (await write('e1', entryAt('2026-10-18T20:00:00Z'), 'UTC')).deliver();
+    assert.deepEqual((await summary())?.entry_counts, { '2026-10-18': 1 });
+
+    await (await write('e2', entryAt('2026-10-19T05:00:00Z'), 'Asia/Kolkata')).deliver();
+    const stored = await summary();
+    assert.equal(stored?.timeZone, 'Asia/Kolkata');
+    assert.deepEqual(stored?.entry_counts, { '2026-10-19': 2 });
+  });
+
+  it('rebuilds the counts in a new timezone', async () => {
+    await (await write('e1', entryAt('2026-10-18T20:00:00Z'))).deliver();
+    assert.equal(await service.rebuild(USER, 'Asia/Kolkata'), 1);
+    const stored = await summary();
+    assert.deepEqual(stored?.entry_counts, { '2026-10-19': 1 });
+    assert.equal(stored?.last_entry_id, 'e1');
+  });
+});
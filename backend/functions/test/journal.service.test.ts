@@ -0,0 +1,64 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeFirestore, installFirestoreFake } from './firestore-fake';
+import { JournalService } from '../src/services/journal.service';
+import { CreateJournalKeyRequest, KeyWrap } from '../src/types/journal.types';
+
+const USER = 'student@example.com';
+
+const wrap = (wrappedKey: string): KeyWrap => ({ wrappedKey, iv: `${wrappedKey}-iv`, salt: `${wrappedKey}-salt`, iterations: 100000 });
+
+describe('JournalService journal key', () => {
+  let db: FakeFirestore;
+  let service: JournalService;
+
+  beforeEach(async () => {
+    db = installFirestoreFake();
+    service = new JournalService();
+    const created: CreateJournalKeyRequest = { ...wrap('first'), userId: USER, keyVersion: 1, recovery: wrap('recovery') };
+    assert.equal((await service.createJournalKey(created)).success, true);
+  });
+
+  const storedKey = async () => (await db.doc(`journal_keys/${USER}`).get()).data();
+
+  it('refuses to set the key up a second time', async () => {
+    const result = await service.createJournalKey({ ...wrap('second'), userId: USER, keyVersion: 1 });
+
+    assert.equal(result.conflict, true);
+    assert.equal((await storedKey())?.wrappedKey, 'first');
+  });
+
+  it('replaces the key wrapped from the stored one and keeps the recovery wrap', async () => {
+    const result = await service.updateJournalKey({ ...wrap('second'), userId: USER, keyVersion: 1, previousWrappedKey: 'first' });
+
+    assert.equal(result.success, true);
+    const stored = await storedKey();
+    assert.equal(stored?.wrappedKey, 'second');
+    assert.equal(stored?.salt, 'second-salt');
+    assert.deepEqual(stored?.recovery, wrap('recovery'));
+  });
+
+  it('refuses a key wrapped from one that was replaced since', async () => {
+    await service.updateJournalKey({ ...wrap('second'), userId: USER, keyVersion: 1, previousWrappedKey: 'first' });
+
+    const result = await service.updateJournalKey({ ...wrap('third'), userId: USER, keyVersion: 1, previousWrappedKey: 'first' });
+
+    assert.deepEqual(result, { success: false, conflict: true, error: 'Journal key changed - unlock the journal again' });
+    assert.equal((await storedKey())?.wrappedKey, 'second');
+  });
+
+  it('lets only one of two devices replace the same key', async () => {
+    const results = await Promise.all(['second', 'third'].map(wrappedKey =>
+      service.updateJournalKey({ ...wrap(wrappedKey), userId: USER, keyVersion: 1, previousWrappedKey: 'first' })));
+
+    assert.deepEqual(results.map(result => result.success), [true, false]);
+    assert.equal((await storedKey())?.wrappedKey, 'second');
+  });
+
+  it('refuses to replace a key that was never set up', async () => {
+    const result = await service.updateJournalKey({ ...wrap('second'), userId: 'other@example.com', keyVersion: 1, previousWrappedKey: 'first' });
+
+    assert.equal(result.conflict, true);
+    assert.equal((await db.doc('journal_keys/other@example.com').get()).exists, false);
+  });
+});
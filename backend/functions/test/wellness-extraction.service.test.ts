@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WellnessExtractionService } from '../src/services/wellness-extraction.service';
+import { ScriptedProvider } from '../src/services/llm/scripted.provider';
+import { toGeminiSchema, toJsonSchema } from '../src/services/llm/schema';
+import { LlmResponseSchema, LlmStructuredOptions } from '../src/types/llm.types';
+
+// Provider whose extraction reply is the given object
+function extractor(raw: unknown, options: LlmStructuredOptions[] = []) {
+  const provider = new ScriptedProvider([{ match: /PARAMETERS TO LOOK FOR:/, reply: JSON.stringify(raw) }]);
+  const generateStructured = provider.generateStructured.bind(provider);
+  provider.generateStructured = <T>(prompt: string, structuredOptions: LlmStructuredOptions) => {
+    options.push(structuredOptions);
+    return generateStructured<T>(prompt, structuredOptions);
+  };
+  return new WellnessExtractionService(provider, 0.7);
+}
+
+const answer = (value: string | null, extra: Record<string, unknown> = {}) => ({
+  answered: value !== null,
+  value,
+  confidence: 0.9,
+  ambiguous: false,
+  candidates: [],
+  evidence: '',
+  ...extra
+});
+
+describe('WellnessExtractionService', () => {
+  it('accepts every confident answer in the message', async () => {
+    const service = extractor({ mood: answer('sad', { evidence: 'feeling sad' }), sleepHours: answer('5', { evidence: '5 hours' }) });
+    const [mood, sleep] = await service.extract(['mood', 'sleepHours'], 'I am feeling sad and slept 5 hours', []);
+
+    assert.deepEqual(mood, { parameter: 'mood', value: 'Sad', confidence: 0.9, status: 'accepted', candidates: [], evidence: 'feeling sad' });
+    assert.equal(sleep.value, '5');
+    assert.equal(sleep.status, 'accepted');
+  });
+
+  it('rejects values outside the allowed set', async () => {
+    const [mood] = await extractor({ mood: answer('Furious') }).extract(['mood'], 'I am furious', []);
+    assert.equal(mood.value, null);
+    assert.equal(mood.status, 'needs_clarification');
+  });
+
+  it('asks for clarification instead of storing uncertain or ambiguous answers', async () => {
+    const [lowConfidence] = await extractor({ stressLevel: answer('High', { confidence: 0.4 }) })
+      .extract(['stressLevel'], 'kind of stressed', []);
+    assert.equal(lowConfidence.status, 'needs_clarification');
+    assert.equal(lowConfidence.value, null);
+    assert.deepEqual(lowConfidence.candidates, ['High']);
+
+    const [ambiguous] = await extractor({ loneliness: answer('Often', { ambiguous: true, candidates: ['sometimes', 'Bogus'] }) })
+      .extract(['loneliness'], 'lonely now and then', []);
+    assert.equal(ambiguous.status, 'needs_clarification');
+    assert.deepEqual(ambiguous.candidates, ['Often', 'Sometimes']);
+  });
+
+  it('clamps the confidence and drops evidence that is not a quote from the message', async () => {
+    const [mood] = await extractor({ mood: answer('Happy', { confidence: 7, evidence: 'overjoyed' }) }).extract(['mood'], 'pretty happy today', []);
+    assert.equal(mood.confidence, 1);
+    assert.equal(mood.evidence, undefined);
+  });
+
+  it('treats parameters missing from the reply as not answered', async () => {
+    const [mood, sleep] = await extractor({ mood: answer('Neutral') }).extract(['mood', 'sleepHours'], 'meh', []);
+    assert.equal(mood.status, 'accepted');
+    assert.deepEqual(sleep, { parameter: 'sleepHours', value: null, confidence: 0, status: 'not_answered', candidates: [], evidence: undefined });
+  });
+
+  it('answers nothing when the provider reply is not valid JSON', async () => {
+    const service = new WellnessExtractionService(new ScriptedProvider([{ match: /PARAMETERS TO LOOK FOR:/, reply: 'Sure! mood: Sad' }]), 0.7);
+    const extractions = await service.extract(['mood'], 'I am sad', []);
+    assert.deepEqual(extractions, [{ parameter: 'mood', value: null, confidence: 0, status: 'not_answered', candidates: [] }]);
+  });
+
+  it('constrains the model to the allowed values of the requested parameters', async () => {
+    const options: LlmStructuredOptions[] = [];
+    await extractor({}, options).extract(['mood', 'opennessToJournaling'], 'hi', []);
+
+    const schema = options[0].responseSchema;
+    assert.deepEqual(schema.required, ['mood', 'opennessToJournaling']);
+    assert.deepEqual(schema.properties?.mood.properties?.value.enum, ['Sad', 'Anxious', 'Happy', 'Neutral', 'Stressed']);
+    assert.deepEqual(schema.properties?.opennessToJournaling.properties?.candidates.items?.enum, ['Yes', 'No']);
+  });
+});
+
+describe('response schema conversion', () => {
+  const schema: LlmResponseSchema = {
+    type: 'object',
+    properties: {
+      value: { type: 'string', enum: ['Low', 'High'], nullable: true },
+      candidates: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['value']
+  };
+
+  it('upper-cases type names for Gemini and keeps nullable', () => {
+    assert.deepEqual(toGeminiSchema(schema), {
+      type: 'OBJECT',
+      properties: {
+        value: { type: 'STRING', enum: ['Low', 'High'], nullable: true },
+        candidates: { type: 'ARRAY', items: { type: 'STRING' } }
+      },
+      required: ['value']
+    });
+  });
+
+  it('turns nullable into a null union for plain JSON schema', () => {
+    assert.deepEqual(toJsonSchema(schema), {
+      type: 'object',
+      properties: {
+        value: { type: ['string', 'null'], enum: ['Low', 'High', null] },
+        candidates: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['value']
+    });
+  });
+});
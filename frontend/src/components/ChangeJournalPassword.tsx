@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { MigrationProgress } from '../types/JournalTypes';
+
+interface ChangeJournalPasswordProps {
+  onSubmit: (oldPassword: string, newPassword: string) => void;
+  onCancel: () => void;
+  // Set while the change runs
+  isChanging: boolean;
+  // Older entries moved to the journal key so far
+  progress: MigrationProgress | null;
+  error: string | null;
+}
+
+export const ChangeJournalPassword: React.FC<ChangeJournalPasswordProps> = ({
+  onSubmit,
+  onCancel,
+  isChanging,
+  progress,
+  error
+}) => {
+  const [oldPassword, setOldPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [validationError, setValidationError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setValidationError('');
+
+    if (oldPassword.length === 0) {
+      setValidationError('Current password is required');
+      return;
+    }
+    if (newPassword.length < 8) {
+      setValidationError('Password must be at least 8 characters long');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setValidationError('Passwords do not match');
+      return;
+    }
+    if (newPassword === oldPassword) {
+      setValidationError('New password must be different from the current one');
+      return;
+    }
+
+    onSubmit(oldPassword, newPassword);
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-96 max-w-md mx-4">
+        <h2 className="text-xl font-bold mb-4 text-gray-800">
+          Change Journal Password
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Current Password
+            </label>
+            <div className="relative">
+              <input
+                type={showPassword ? 'text' : 'password'}
+                value={oldPassword}
+                onChange={(e) => setOldPassword(e.target.value)}
+                className={inputClassName}
+                placeholder="Enter your current password"
+                disabled={isChanging}
+                required
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-2 text-gray-500 hover:text-gray-700"
+              >
+                {showPassword ? '👁️' : '👁️‍🗨️'}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              New Password
+            </label>
+            <input
+              type={showPassword ? 'text' : 'password'}
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className={inputClassName}
+              placeholder="Enter a new password"
+              disabled={isChanging}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Confirm New Password
+            </label>
+            <input
+              type={showPassword ? 'text' : 'password'}
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className={inputClassName}
+              placeholder="Confirm the new password"
+              disabled={isChanging}
+              required
+            />
+          </div>
+
+          {isChanging && progress && progress.total > 0 && (
+            <div className="text-sm text-gray-600">
+              Re-encrypting older entries: {progress.done}/{progress.total}
+            </div>
+          )}
+
+          {(validationError || error) && (
+            <div className="text-red-600 text-sm">
+              {validationError || error}
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isChanging}
+              className="flex-1 px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 disabled:opacity-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isChanging}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+            >
+              {isChanging ? 'Changing...' : 'Change'}
+            </button>
+          </div>
+        </form>
+
+        <div className="mt-4 text-xs text-gray-500">
+          <p>🔒 Neither password is sent to the server</p>
+          <p>🔁 If this is interrupted, run it again - no entry is lost in between</p>
+        </div>
+      </div>
+    </div>
+  );
+};
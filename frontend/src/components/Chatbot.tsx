@@ -4,7 +4,12 @@ import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { FrontendEncryptionService } from '../services/encryption.service';
-import { HindiEnglishMappingService, getHindiChatGPTPrompt } from '../services/HindiEnglishMappingService';
+import { QuestionnaireService } from '../services/QuestionnaireService';
+import { WellnessData } from '@manoday/wellness-scoring';
+import { LocalizedText, ParameterFreshness, ParameterTimestamps, QuestionnaireDefinition } from '../types/QuestionnaireTypes';
+import { HelplineCenter } from '../types/ProfessionalHelpTypes';
+import { authorizedFetch } from '../services/AuthorizedFetch';
+import { streamChatReply } from '../services/ChatStreamService';
 import { 
   PaperAirplaneIcon, 
   LightBulbIcon, 
@@ -15,7 +20,9 @@ import {
   ShieldCheckIcon,
   ArrowRightIcon,
   XMarkIcon,
-  BookOpenIcon
+  BookOpenIcon,
+  ExclamationTriangleIcon,
+  PhoneIcon
 } from '@heroicons/react/24/outline';
 import ThemeToggle from './ThemeToggle';
 import LanguageSelector from './LanguageSelector';
@@ -26,36 +33,60 @@ interface Message {
   text: string;
   sender: 'user' | 'bot';
   timestamp: Date;
-  type: 'message' | 'recommendation';
+  type: 'message' | 'recommendation' | 'crisis';
   metadata?: {
     recommendation?: string;
     confidence?: number;
+    explanation?: RecommendationExplanation;
+    helplines?: HelplineCenter[];
   };
 }
 
-// Define wellness data structure
-interface WellnessData {
-  mood: string; // 'Happy', 'Sad', 'Anxious', 'Stressed', 'Angry', 'Calm', 'Lonely', 'Neutral'
-  sleepHours: string; // Categorical: '0', '3', '6', '7', '8', '10' (as strings)
-  stressLevel: string; // 'Low', 'Medium', 'High'
-  academicPressure: string; // 'Low', 'Medium', 'High'
-  socialSupport: string; // 'Weak', 'Average', 'Strong'
-  loneliness: string; // 'Never', 'Sometimes', 'Often'
-  confidenceLevel: string; // 'Low', 'Medium', 'High'
-  hobbiesInterest: string; // 'Music', 'Sports', 'Reading', 'Travel', 'None'
-  opennessToJournaling: string; // 'Yes', 'No'
-  willingForProfessionalHelp: string; // 'Yes', 'No'
+// Sent by the backend when a message was classified as a crisis
+interface SafetyInfo {
+  level: 'none' | 'concern' | 'crisis';
+  category?: 'suicidal_ideation' | 'self_harm';
+  eventId: string;
+  helplines: HelplineCenter[];
+}
+
+// Where the backend found a value - the message it came from and the user's own words
+interface FieldProvenance {
+  sessionId: string;
+  messageIndex: number;
+  evidence?: string;
+  confidence: number;
+  extractedAt: string;
+}
+
+// Which answers pushed the model towards the recommended activity
+interface RecommendationExplanation {
+  method: 'linear';
+  activity: string;
+  contributions: Array<{
+    parameter: string;
+    feature: string;
+    value: string;
+    contribution: number;
+    imputed: boolean;
+    reason: LocalizedText;
+  }>;
+  // "because your sleep is low (4 hours) and your stress is high"
+  summary?: LocalizedText;
 }
 
 const Chatbot: React.FC = () => {
   const navigate = useNavigate();
   const { currentUser, logout } = useAuth();
   const { isDark } = useTheme();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [wellnessData, setWellnessData] = useState<Partial<WellnessData>>({});
+  // Questionnaire definition from the backend - parameter order, allowed values, labels and synonyms
+  const [questionnaire, setQuestionnaire] = useState<QuestionnaireDefinition | null>(null);
+  const [wellnessProvenance, setWellnessProvenance] = useState<Partial<Record<keyof WellnessData, FieldProvenance>>>({});
   const [conversationHistory, setConversationHistory] = useState<string[]>([]);
   const [showWellnessPanel, setShowWellnessPanel] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -63,6 +94,8 @@ const Chatbot: React.FC = () => {
   // Session management for new chats
   const [currentSessionId, setCurrentSessionId] = useState<string>('');
   const [isNewChatSession, setIsNewChatSession] = useState<boolean>(false);
+  // A crisis was flagged in this chat - no automatic activity recommendations until a new chat starts
+  const [crisisDetected, setCrisisDetected] = useState<boolean>(false);
 
   // Initialize session ID only once per component mount (not on every render)
   useEffect(() => {
@@ -73,6 +106,9 @@ const Chatbot: React.FC = () => {
     }
   }, []);
   const [storedWellnessData, setStoredWellnessData] = useState<Partial<WellnessData>>({});
+  // When each stored answer was collected and which ones are still inside their freshness window
+  const [storedCollectedAt, setStoredCollectedAt] = useState<ParameterTimestamps>({});
+  const [storedFreshness, setStoredFreshness] = useState<ParameterFreshness>({ fresh: [], stale: [] });
 
   // Auto-scroll to bottom
   const scrollToBottom = () => {
@@ -83,27 +119,53 @@ const Chatbot: React.FC = () => {
     scrollToBottom();
   }, [messages]);
 
+  // Expire the backend questionnaire session so it cannot be resumed
+  const endBackendSession = (sessionId: string) => {
+    if (!sessionId) {
+      return;
+    }
+    authorizedFetch(`https://gemini-tipjtjdkwq-uc.a.run.app?action=endSession`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sessionId })
+    }).catch((error) => console.warn('⚠️ Could not end chat session:', error));
+  };
+
   // Start new chat session
   const startNewChatSession = () => {
+    endBackendSession(currentSessionId);
     const sessionId = crypto.randomUUID();
     setCurrentSessionId(sessionId);
     setIsNewChatSession(true);
     
-    // Keep stored data for display but start fresh for AI interactions
+    // Start from the fresh stored answers again - stale and missing parameters get asked
     setWellnessData({});
+    setWellnessProvenance({});
+    setCrisisDetected(false);
     setConversationHistory([]);
     setMessages([]);
+    loadEncryptedInsights();
     
     console.log('🆕 New chat session started:', { sessionId, storedDataAvailable: Object.keys(storedWellnessData).length > 0 });
   };
 
   // Helper function to start new session after completion
   const startNewSession = () => {
+    endBackendSession(currentSessionId);
     const sessionId = crypto.randomUUID();
     setCurrentSessionId(sessionId);
     console.log('🔄 New session prepared for next chat:', { sessionId });
   };
 
+  // Load the questionnaire definition once
+  useEffect(() => {
+    QuestionnaireService.load()
+      .then(setQuestionnaire)
+      .catch(error => console.error('Error loading questionnaire definition:', error));
+  }, []);
+
   // Load encrypted insights when user logs in
   useEffect(() => {
     if (currentUser && currentUser.email) {
@@ -116,7 +178,7 @@ const Chatbot: React.FC = () => {
     if (!currentUser?.email) return;
     
     try {
-      const response = await fetch(`https://getencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
+      const response = await authorizedFetch(`https://getencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -130,10 +192,14 @@ const Chatbot: React.FC = () => {
       if (response.ok) {
         const result = await response.json();
         if (result.success && result.data?.wellnessData) {
-          // Store the loaded data separately for display purposes
+          const freshness: ParameterFreshness = result.data.freshness || { fresh: [], stale: [] };
           setStoredWellnessData(result.data.wellnessData);
-          // Don't set current wellnessData - let new chat start fresh
-          console.log('Loaded stored insights for display:', result.data.wellnessData);
+          setStoredCollectedAt(result.data.collectedAt || {});
+          setStoredFreshness(freshness);
+          // Fresh answers are reused so the chat only asks for stale and missing ones
+          // Anything already answered in this chat wins over the stored value
+          setWellnessData(prev => ({ ...getFreshStoredAnswers(result.data.wellnessData, freshness), ...prev }));
+          console.log('Loaded stored insights:', { wellnessData: result.data.wellnessData, freshness });
         }
       }
     } catch (error) {
@@ -141,6 +207,30 @@ const Chatbot: React.FC = () => {
     }
   };
 
+  // Stored answers still inside their freshness window
+  const getFreshStoredAnswers = (storedData: Partial<WellnessData>, freshness: ParameterFreshness): Partial<WellnessData> => {
+    const answers: Partial<WellnessData> = {};
+    freshness.fresh.forEach((parameter) => {
+      const key = parameter as keyof WellnessData;
+      if (storedData[key]) {
+        answers[key] = storedData[key];
+      }
+    });
+    return answers;
+  };
+
+  // Reused answers keep their original collection time - the backend stamps everything else as new
+  const getReusedCollectedAt = (data: Partial<WellnessData>): ParameterTimestamps => {
+    const collectedAt: ParameterTimestamps = {};
+    storedFreshness.fresh.forEach((parameter) => {
+      const key = parameter as keyof WellnessData;
+      if (storedCollectedAt[parameter] && data[key] && data[key] === storedWellnessData[key]) {
+        collectedAt[parameter] = storedCollectedAt[parameter];
+      }
+    });
+    return collectedAt;
+  };
+
   // Store encrypted wellness insights to backend
   const storeEncryptedInsights = async (wellnessData: Partial<WellnessData>): Promise<boolean> => {
     if (!currentUser?.email || !FrontendEncryptionService.isSupported()) {
@@ -157,7 +247,7 @@ const Chatbot: React.FC = () => {
       console.log('✅ Data encrypted successfully, sending to backend...');
 
       // Send encrypted data to backend with session ID
-      const response = await fetch(`https://storeencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
+      const response = await authorizedFetch(`https://storeencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -165,6 +255,7 @@ const Chatbot: React.FC = () => {
         body: JSON.stringify({
           userEmail: currentUser.email,
           wellnessData: wellnessData,
+          collectedAt: getReusedCollectedAt(wellnessData),
           sessionId: currentSessionId
         })
       });
@@ -209,67 +300,62 @@ const Chatbot: React.FC = () => {
   }, [currentUser]);
 
   // Call Vertex AI Gemini for empathetic response
-  const getGeminiResponse = async (userMessage: string, history: string[], wellnessData: Partial<WellnessData>): Promise<{ response: string; extractedData: any; updatedWellnessData: any }> => {
+  // With onToken the reply is streamed (SSE) and onToken receives the text generated so far
+  const getGeminiResponse = async (userMessage: string, history: string[], wellnessData: Partial<WellnessData>, onToken?: (textSoFar: string) => void): Promise<{ response: string; extractedData: any; updatedWellnessData: any; provenance?: Partial<Record<keyof WellnessData, FieldProvenance>>; safety?: SafetyInfo }> => {
     try {
-      // Get current language and apply Hindi-English mapping if needed
+      // Get current language
       const currentLanguage = localStorage.getItem('selectedLanguage') || 'en';
       
-      // Map Hindi input to English for data processing
+      // Map answers (including Hindi synonyms) to the allowed English values for data processing
       let processedMessage = userMessage;
-      let processedWellnessData = wellnessData;
+      const processedWellnessData: Partial<WellnessData> = { ...wellnessData };
       
-      if (currentLanguage === 'hi') {
-        // Apply Hindi to English mapping for any wellness data values
-        if (wellnessData.mood) {
-          processedWellnessData.mood = HindiEnglishMappingService.mapToEnglish('mood', wellnessData.mood);
-        }
-        if (wellnessData.stressLevel) {
-          processedWellnessData.stressLevel = HindiEnglishMappingService.mapToEnglish('stress', wellnessData.stressLevel);
-        }
-        if (wellnessData.academicPressure) {
-          processedWellnessData.academicPressure = HindiEnglishMappingService.mapToEnglish('academic', wellnessData.academicPressure);
-        }
-        if (wellnessData.socialSupport) {
-          processedWellnessData.socialSupport = HindiEnglishMappingService.mapToEnglish('social', wellnessData.socialSupport);
-        }
-        if (wellnessData.loneliness) {
-          processedWellnessData.loneliness = HindiEnglishMappingService.mapToEnglish('loneliness', wellnessData.loneliness);
-        }
-        if (wellnessData.confidenceLevel) {
-          processedWellnessData.confidenceLevel = HindiEnglishMappingService.mapToEnglish('confidence', wellnessData.confidenceLevel);
-        }
-        if (wellnessData.hobbiesInterest) {
-          processedWellnessData.hobbiesInterest = HindiEnglishMappingService.mapToEnglish('hobbies', wellnessData.hobbiesInterest);
-        }
-        if (wellnessData.opennessToJournaling) {
-          processedWellnessData.opennessToJournaling = HindiEnglishMappingService.mapToEnglish('journaling', wellnessData.opennessToJournaling);
-        }
-        if (wellnessData.willingForProfessionalHelp) {
-          processedWellnessData.willingForProfessionalHelp = HindiEnglishMappingService.mapToEnglish('professional', wellnessData.willingForProfessionalHelp);
-        }
+      if (questionnaire) {
+        (Object.keys(wellnessData) as (keyof WellnessData)[]).forEach((key) => {
+          const value = wellnessData[key];
+          if (value) {
+            processedWellnessData[key] = QuestionnaireService.normalizeAnswer(questionnaire, key, value);
+          }
+        });
       }
       
-      const response = await fetch(`https://gemini-tipjtjdkwq-uc.a.run.app`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: processedMessage,
-          conversationHistory: history,
-          wellnessData: processedWellnessData,
-          language: currentLanguage // Pass language to backend
-        })
-      });
+      const requestBody = {
+        message: processedMessage,
+        conversationHistory: history,
+        wellnessData: processedWellnessData,
+        sessionId: currentSessionId,
+        language: currentLanguage // Pass language to backend
+      };
       
-      if (!response.ok) {
-        throw new Error('Gemini API call failed');
+      let result: any;
+      if (onToken) {
+        // Final SSE event carries the same structured data as the JSON endpoint
+        const finalData = await streamChatReply(`https://gemini-tipjtjdkwq-uc.a.run.app`, requestBody, onToken);
+        result = { success: true, data: finalData };
+      } else {
+        const response = await authorizedFetch(`https://gemini-tipjtjdkwq-uc.a.run.app`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody)
+        });
+        
+        if (!response.ok) {
+          throw new Error('Gemini API call failed');
+        }
+        
+        result = await response.json();
       }
       
-      const result = await response.json();
-      
       // Handle new MVC response format: { success: true, data: {...} }
       if (result.success && result.data) {
+        // Backend starts a new session when ours expired - adopt its id so progress keeps saving
+        if (result.data.sessionId && result.data.sessionId !== currentSessionId) {
+          setCurrentSessionId(result.data.sessionId);
+          console.log('🔄 Chat session replaced by backend:', { sessionId: result.data.sessionId, sessionState: result.data.sessionState });
+        }
+
         // Additional safety: clean any remaining JSON from the response
         let cleanResponse = result.data.response;
         if (typeof cleanResponse === 'string') {
@@ -284,7 +370,9 @@ const Chatbot: React.FC = () => {
         return {
           response: cleanResponse,
           extractedData: result.data.extractedData || {},
-          updatedWellnessData: result.data.updatedWellnessData || wellnessData
+          updatedWellnessData: result.data.updatedWellnessData || wellnessData,
+          provenance: result.data.provenance,
+          safety: result.data.safety
         };
       }
       
@@ -322,15 +410,20 @@ const Chatbot: React.FC = () => {
   };
 
   // Call AutoML model for activity recommendation
-  const getAutoMLRecommendation = async (wellnessData: Partial<WellnessData>): Promise<{ recommendation: string; confidence: number }> => {
+  const getAutoMLRecommendation = async (
+    wellnessData: Partial<WellnessData>,
+    imputedParameters: string[] = []
+  ): Promise<{ recommendation: string; confidence: number; explanation?: RecommendationExplanation }> => {
     try {
-      const response = await fetch(`https://automl-tipjtjdkwq-uc.a.run.app`, {
+      const response = await authorizedFetch(`https://automl-tipjtjdkwq-uc.a.run.app`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          features: wellnessData
+          features: wellnessData,
+          // Filled-in defaults are never offered as a reason for the recommendation
+          imputedParameters
         })
       });
       
@@ -344,7 +437,8 @@ const Chatbot: React.FC = () => {
       if (result.success && result.data) {
         return { 
           recommendation: result.data.recommendation || 'Meditation and Yoga', 
-          confidence: result.data.confidence || 0.8 
+          confidence: result.data.confidence || 0.8,
+          explanation: result.data.explanation
         };
       }
       
@@ -360,6 +454,11 @@ const Chatbot: React.FC = () => {
     }
   };
 
+  // "because your stress is high" → "Because your stress is high."
+  const formatExplanation = (summary: string): string => {
+    return `${summary.charAt(0).toUpperCase()}${summary.slice(1)}${language === 'hi' ? '।' : '.'}`;
+  };
+
   // Fallback recommendation when AutoML is not available
   const getFallbackRecommendation = (mood?: string): string => {
     switch (mood?.toLowerCase()) {
@@ -400,7 +499,24 @@ const Chatbot: React.FC = () => {
     try {
       // Get empathetic response from Gemini (pass current wellness data)
       // Use Hindi prompt if language is Hindi
-      const geminiResult = await getGeminiResponse(inputMessage, newHistory, wellnessData);
+      // The reply is streamed into a placeholder bot message as it is generated
+      const botMessageId = Date.now() + 1;
+      let streamStarted = false;
+      const geminiResult = await getGeminiResponse(inputMessage, newHistory, wellnessData, (textSoFar) => {
+        if (!streamStarted) {
+          streamStarted = true;
+          setIsTyping(false);
+          setMessages(prev => [...prev, {
+            id: botMessageId,
+            text: textSoFar,
+            sender: 'bot',
+            timestamp: new Date(),
+            type: 'message'
+          }]);
+          return;
+        }
+        setMessages(prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: textSoFar } : msg));
+      });
       
       // CRITICAL FIX: Let Gemini control the entire conversation flow
       let finalWellnessData = wellnessData;
@@ -411,6 +527,9 @@ const Chatbot: React.FC = () => {
         
         // Update frontend state with the new data
         setWellnessData(finalWellnessData);
+        if (geminiResult.provenance) {
+          setWellnessProvenance(geminiResult.provenance);
+        }
         
         console.log('✅ Gemini data extracted and state updated:', {
           extractedData: geminiResult.extractedData,
@@ -433,20 +552,36 @@ const Chatbot: React.FC = () => {
         console.log('🔄 Letting Gemini continue the conversation naturally without fallback interruption');
       }
       
+      const isCrisis = geminiResult.safety?.level === 'crisis';
       const botMessage: Message = {
-        id: Date.now() + 1,
+        id: botMessageId,
         text: geminiResult.response,
         sender: 'bot',
         timestamp: new Date(),
-        type: 'message'
+        type: isCrisis ? 'crisis' : 'message',
+        metadata: isCrisis ? { helplines: geminiResult.safety?.helplines } : undefined
       };
 
-      setMessages(prev => [...prev, botMessage]);
+      // Replace the streamed text with the final cleaned reply
+      if (streamStarted) {
+        setMessages(prev => prev.map(msg => msg.id === botMessageId ? botMessage : msg));
+      } else {
+        setMessages(prev => [...prev, botMessage]);
+      }
+
+      // Crisis response replaces the questionnaire - never follow it with an activity recommendation
+      if (isCrisis || crisisDetected) {
+        if (isCrisis) {
+          setCrisisDetected(true);
+          console.log('🛟 Crisis response shown:', { eventId: geminiResult.safety?.eventId });
+        }
+        return;
+      }
 
-      // Check if we have ALL 10 parameters for AutoML recommendation
-      const requiredParams = ['mood', 'sleepHours', 'stressLevel', 'academicPressure', 'socialSupport', 'loneliness', 'confidenceLevel', 'hobbiesInterest', 'opennessToJournaling', 'willingForProfessionalHelp'];
+      // Check if we have ALL questionnaire parameters for AutoML recommendation
+      const requiredParams = questionnaire ? questionnaire.questions.map(question => question.parameter) : [];
       const collectedParams = requiredParams.filter(param => finalWellnessData[param as keyof typeof finalWellnessData]);
-      const hasAllParams = collectedParams.length === 10; // Require ALL 10 parameters
+      const hasAllParams = requiredParams.length > 0 && collectedParams.length === requiredParams.length; // Require ALL parameters
       
       const userAsksForRecommendation = inputMessage.toLowerCase().includes('recommend me') || 
                                         inputMessage.toLowerCase().includes('suggest me') || 
@@ -469,7 +604,7 @@ const Chatbot: React.FC = () => {
         currentData: finalWellnessData
       });
       
-      // STRICT RULE: Only trigger AutoML when ALL 10 parameters are collected OR user explicitly asks
+      // STRICT RULE: Only trigger AutoML when ALL parameters are collected OR user explicitly asks
       const shouldTriggerRecommendation = userAsksForRecommendation || hasAllParams;
       
       if (shouldTriggerRecommendation) {
@@ -479,12 +614,14 @@ const Chatbot: React.FC = () => {
             try {
               // If user asks manually but we don't have all parameters, use fallback values
               let dataForAutoML = finalWellnessData;
+              let imputedParameters: string[] = [];
               if (userAsksForRecommendation && !hasAllParams) {
                 dataForAutoML = getFallbackWellnessData(finalWellnessData);
+                imputedParameters = Object.keys(dataForAutoML).filter(key => !finalWellnessData[key as keyof WellnessData]);
                 console.log('🔄 User asked for recommendation - using fallback values for AutoML:', dataForAutoML);
               }
               
-              const recommendation = await getAutoMLRecommendation(dataForAutoML);
+              const recommendation = await getAutoMLRecommendation(dataForAutoML, imputedParameters);
               
               console.log('🎯 Generated recommendation:', recommendation);
               console.log('🎯 Recommendation text:', recommendation.recommendation);
@@ -498,7 +635,11 @@ const Chatbot: React.FC = () => {
                 sender: 'bot',
                 timestamp: new Date(),
                 type: 'recommendation',
-                metadata: { recommendation: recommendation.recommendation, confidence: recommendation.confidence }
+                metadata: {
+                  recommendation: recommendation.recommendation,
+                  confidence: recommendation.confidence,
+                  explanation: recommendation.explanation
+                }
               };
 
               setMessages(prev => [...prev, recommendationMessage]);
@@ -535,18 +676,14 @@ const Chatbot: React.FC = () => {
 
   // Get fallback wellness data for AutoML when user asks manually but we don't have all parameters
   const getFallbackWellnessData = (currentData: Partial<WellnessData>): Partial<WellnessData> => {
-    const fallbackData = {
-      mood: currentData.mood || 'Neutral',
-      sleepHours: currentData.sleepHours || '7',
-      stressLevel: currentData.stressLevel || 'Medium',
-      academicPressure: currentData.academicPressure || 'Medium',
-      socialSupport: currentData.socialSupport || 'Average',
-      loneliness: currentData.loneliness || 'Sometimes',
-      confidenceLevel: currentData.confidenceLevel || 'Medium',
-      hobbiesInterest: currentData.hobbiesInterest || 'None',
-      opennessToJournaling: currentData.opennessToJournaling || 'Yes',
-      willingForProfessionalHelp: currentData.willingForProfessionalHelp || 'Yes'
-    };
+    // Unanswered parameters get the questionnaire's default ("I don't know") value
+    const fallbackData: Partial<WellnessData> = { ...currentData };
+    questionnaire?.questions.forEach((question) => {
+      const parameter = question.parameter as keyof WellnessData;
+      if (!fallbackData[parameter]) {
+        fallbackData[parameter] = question.defaultValue;
+      }
+    });
     
     console.log('🔄 Generated fallback wellness data for AutoML:', fallbackData);
     return fallbackData;
@@ -555,6 +692,16 @@ const Chatbot: React.FC = () => {
   // REMOVED: Frontend fallback data extraction - letting Gemini handle everything naturally
   // This was interrupting Gemini's conversation flow and causing the fallback question issue
 
+  // Wellness panel rows in questionnaire order; unknown keys keep their place at the end
+  const sortByQuestionnaire = <T,>(entries: [string, T][]): [string, T][] => {
+    if (!questionnaire) {
+      return entries;
+    }
+    const order = questionnaire.questions.map(question => question.parameter);
+    const rank = (key: string) => (order.includes(key) ? order.indexOf(key) : order.length);
+    return [...entries].sort(([a], [b]) => rank(a) - rank(b));
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -717,7 +864,7 @@ const Chatbot: React.FC = () => {
                       <span className="text-sm font-medium">{t('new_chat_session_started')}</span>
                     </div>
                     <p className="text-xs mt-1 opacity-80">
-                      {t('previous_insights_displayed')}
+                      {t('fresh_insights_reused')}
                     </p>
                   </div>
                 )}
@@ -731,6 +878,8 @@ const Chatbot: React.FC = () => {
                       className={`max-w-xs lg:max-w-md px-6 py-4 rounded-2xl shadow-sm ${
                         message.sender === 'user'
                           ? 'bg-gradient-to-r from-purple-600 to-indigo-600 text-white'
+                          : message.type === 'crisis'
+                          ? 'bg-gradient-to-r from-rose-50 to-red-50 border border-red-200 text-red-900 dark:from-red-900/50 dark:to-rose-900/50 dark:border-red-700/50 dark:text-red-100'
                           : message.type === 'recommendation'
                           ? 'bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 text-green-800 dark:from-green-900/50 dark:to-emerald-900/50 dark:border-green-700/50 dark:text-green-200'
                           : isDark
@@ -742,13 +891,43 @@ const Chatbot: React.FC = () => {
                         {message.type === 'recommendation' && (
                           <LightBulbIcon className="h-5 w-5 text-green-600 mt-1 flex-shrink-0" />
                         )}
-                        {message.sender === 'bot' && message.type !== 'recommendation' && (
+                        {message.type === 'crisis' && (
+                          <ExclamationTriangleIcon className="h-5 w-5 text-red-600 mt-1 flex-shrink-0" />
+                        )}
+                        {message.sender === 'bot' && message.type === 'message' && (
                           <div className="h-8 w-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full flex items-center justify-center flex-shrink-0">
                             <ChatBubbleLeftRightIcon className="h-4 w-4 text-white" />
                           </div>
                         )}
                         <div className="flex-1">
                           <p className="text-sm whitespace-pre-wrap leading-relaxed">{message.text}</p>
+                          {message.type === 'crisis' && message.metadata?.helplines && (
+                            <div className={`mt-3 p-3 rounded-xl border space-y-2 transition-colors duration-300 ${
+                              isDark 
+                                ? 'bg-red-900/50 border-red-700/50' 
+                                : 'bg-red-100 border-red-200'
+                            }`}>
+                              {message.metadata.helplines.map((helpline) => (
+                                // Several numbers are listed as "a / b" - dial the first
+                                <a
+                                  key={helpline.id}
+                                  href={`tel:${helpline.phoneNumber.split('/')[0].replace(/[^\d+]/g, '')}`}
+                                  className={`flex items-center space-x-2 text-xs font-semibold transition-colors duration-300 ${
+                                    isDark ? 'text-red-200 hover:text-white' : 'text-red-800 hover:text-red-900'
+                                  }`}
+                                >
+                                  <PhoneIcon className="h-4 w-4 flex-shrink-0" />
+                                  <span>{helpline.name}: {helpline.phoneNumber}</span>
+                                </a>
+                              ))}
+                              <button
+                                className="w-full px-4 py-2 bg-gradient-to-r from-red-600 to-rose-600 text-white text-xs font-semibold rounded-lg hover:from-red-700 hover:to-rose-700 transition-all duration-200"
+                                onClick={() => navigate('/professionalHelp')}
+                              >
+                                Find professional help near you
+                              </button>
+                            </div>
+                          )}
                           {message.metadata?.recommendation && (
                             <div className={`mt-3 p-3 rounded-xl border transition-colors duration-300 ${
                               isDark 
@@ -760,6 +939,13 @@ const Chatbot: React.FC = () => {
                               }`}>
                                 💡 Recommended Activity: {message.metadata.recommendation}
                               </p>
+                              {message.metadata.explanation?.summary && (
+                                <p className={`text-xs mb-2 transition-colors duration-300 ${
+                                  isDark ? 'text-green-300' : 'text-green-700'
+                                }`}>
+                                  {formatExplanation(message.metadata.explanation.summary[language])}
+                                </p>
+                              )}
                               <button 
                                 className="w-full px-4 py-2 bg-gradient-to-r from-green-600 to-emerald-600 text-white text-xs font-semibold rounded-lg hover:from-green-700 hover:to-emerald-700 transition-all duration-200 transform hover:scale-[1.02]"
                                 onClick={() => {
@@ -889,7 +1075,7 @@ const Chatbot: React.FC = () => {
                       }`}>
                         🆕 Current Chat Data
                       </div>
-                      {Object.entries(wellnessData)
+                      {sortByQuestionnaire(Object.entries(wellnessData))
                         .filter(([key]) => !key.includes('journal') && !key.includes('Journal')) // Filter out journal-related data
                         .map(([key, value]) => (
                         <div className={`p-4 rounded-xl border transition-colors duration-300 ${
@@ -901,7 +1087,7 @@ const Chatbot: React.FC = () => {
                             <span className={`text-sm font-medium capitalize transition-colors duration-300 ${
                               isDark ? 'text-blue-200' : 'text-blue-800'
                             }`}>
-                              {key.replace(/([A-Z])/g, ' $1').trim()}
+                              {QuestionnaireService.getLabel(questionnaire, key, language)}
                             </span>
                             <span className={`text-sm font-semibold px-2 py-1 rounded-lg transition-colors duration-300 ${
                               isDark 
@@ -911,6 +1097,13 @@ const Chatbot: React.FC = () => {
                               {value}
                             </span>
                           </div>
+                          {wellnessProvenance[key as keyof WellnessData]?.evidence && (
+                            <p className={`mt-2 text-xs italic truncate transition-colors duration-300 ${
+                              isDark ? 'text-blue-300/80' : 'text-blue-500'
+                            }`}>
+                              from: "{wellnessProvenance[key as keyof WellnessData]?.evidence}"
+                            </p>
+                          )}
                         </div>
                       ))}
                     </>
@@ -926,7 +1119,7 @@ const Chatbot: React.FC = () => {
                       }`}>
                         💾 Stored Insights (Previous Sessions)
                       </div>
-                      {Object.entries(storedWellnessData)
+                      {sortByQuestionnaire(Object.entries(storedWellnessData))
                         .filter(([key]) => !key.includes('journal') && !key.includes('Journal')) // Filter out journal-related data
                         .map(([key, value]) => (
                         <div className={`p-4 rounded-xl border transition-colors duration-300 ${
@@ -938,7 +1131,7 @@ const Chatbot: React.FC = () => {
                             <span className={`text-sm font-medium capitalize transition-colors duration-300 ${
                               isDark ? 'text-purple-200' : 'text-purple-800'
                             }`}>
-                              {key.replace(/([A-Z])/g, ' $1').trim()}
+                              {QuestionnaireService.getLabel(questionnaire, key, language)}
                             </span>
                             <span className={`text-sm font-semibold px-2 py-1 rounded-lg transition-colors duration-300 ${
                               isDark 
@@ -948,6 +1141,13 @@ const Chatbot: React.FC = () => {
                               {value}
                             </span>
                           </div>
+                          {storedFreshness.stale.includes(key) && (
+                            <p className={`mt-2 text-xs italic transition-colors duration-300 ${
+                              isDark ? 'text-purple-300/80' : 'text-purple-500'
+                            }`}>
+                              {t('stored_answer_stale')}
+                            </p>
+                          )}
                         </div>
                       ))}
                     </>
@@ -1,25 +1,30 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
-import { normalizeInputs, computeWRI, readRecentWriHistory, writeTodayWri, calculateJournalMetrics, storeJournalInsights, getEncryptedJournalInsights, getReadableJournalMetrics, WriOutput } from '../services/MoodScoreService';
-import { WriGaugeCard } from './wri';
+import { normalizeInputs, computeWRI, forecastWri, riskBandFor, DailyWriRecord, NormalizedInputs, WriForecast, WriOutput } from '@manoday/wellness-scoring';
+import { readRecentDailyRecords, toWriHistory, hasOutdatedScores, recomputeWriHistory, writeTodayWri, readJournalMetrics } from '../services/MoodScoreService';
+import { authorizedFetch } from '../services/AuthorizedFetch';
+import { QuestionnaireService } from '../services/QuestionnaireService';
+import { UserProfileService } from '../services/UserProfileService';
+import { QuestionnaireDefinition } from '../types/QuestionnaireTypes';
+import { SubscoreTrends, WriGaugeCard, WriSimulator } from './wri';
 import { Line } from 'react-chartjs-2';
-import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, ArcElement, Tooltip, Legend } from 'chart.js';
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, ArcElement, Tooltip, Legend, Filler } from 'chart.js';
 import { collection, onSnapshot, orderBy, query } from 'firebase/firestore';
 import { db } from '../firebase/config';
 import { useNavigate } from 'react-router-dom';
 import LanguageSelector from './LanguageSelector';
 
-ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, ArcElement, Tooltip, Legend);
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, ArcElement, Tooltip, Legend, Filler);
 
 const DashboardPage: React.FC = () => {
   const { currentUser } = useAuth();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string|null>(null);
   const [wri, setWri] = useState<WriOutput|null>(null);
-  const [historySeries, setHistorySeries] = useState<Array<{ date: string; wri: number }>>([]);
+  const [historySeries, setHistorySeries] = useState<Array<{ date: string; wri: number; utcDay?: boolean }>>([]);
   const [sessionSeries, setSessionSeries] = useState<Array<{ dateTime: string; wri: number }>>([]);
   const [journalMetrics, setJournalMetrics] = useState<{
     journal_streak: number;
@@ -27,65 +32,57 @@ const DashboardPage: React.FC = () => {
     last_journal_date: string | null;
     journal_entries_today: number;
   } | null>(null);
+  // Ask the backend to rescore outdated history at most once per visit
+  const recomputeRequested = useRef(false);
+  // Stored answers past their freshness window - left out of today's score until re-asked in chat
+  const [staleParameters, setStaleParameters] = useState<string[]>([]);
+  const [questionnaire, setQuestionnaire] = useState<QuestionnaireDefinition | null>(null);
+  // Today's normalized answers - the starting point of the what-if simulator
+  const [checkInInputs, setCheckInInputs] = useState<NormalizedInputs | null>(null);
+  // Next 7 days projected from the stored daily history
+  const [forecast, setForecast] = useState<WriForecast | null>(null);
+  // Stored days with their subscores and inputs - for the subscore trends and correlations
+  const [dailyRecords, setDailyRecords] = useState<DailyWriRecord[]>([]);
+
+  useEffect(() => {
+    QuestionnaireService.load()
+      .then(setQuestionnaire)
+      .catch(error => console.error('Error loading questionnaire definition:', error));
+  }, []);
 
     const run = async () => {
       if (!currentUser?.email) return;
       setLoading(true); setError(null);
       try {
         // 1) Load recent history
-        const history = await readRecentWriHistory(currentUser.email);
-
-        // 2) Load journal metrics - try readable metrics first, then encrypted, then calculate
-        console.log('🔍 DASHBOARD: Current user info:', {
-          email: currentUser.email,
-          uid: currentUser.uid,
-          displayName: currentUser.displayName
-        });
-        
-        // Always calculate FRESH journal metrics to ensure real-time accuracy
-        console.log('📊 DASHBOARD: Calculating FRESH journal metrics for accurate WRI...');
-        let journalData = await calculateJournalMetrics(currentUser.email);
-        console.log('📊 FRESH journal metrics calculated:', journalData);
-        
-        // Fallback to cached data only if fresh calculation fails
-        if (!journalData) {
-          console.log('⚠️ Fresh calculation failed, trying cached data...');
-          const readableMetrics = await getReadableJournalMetrics(currentUser.email);
-          console.log('🔍 DASHBOARD: Fallback readable metrics:', readableMetrics);
-          
-          if (readableMetrics) {
-            journalData = readableMetrics;
-          } else {
-            console.log('⚠️ No readable metrics, trying encrypted insights...');
-            const encryptedMetrics = await getEncryptedJournalInsights(currentUser.email);
-            console.log('🔍 DASHBOARD: Fallback encrypted insights:', encryptedMetrics);
-            if (encryptedMetrics) {
-              journalData = encryptedMetrics;
-            }
-          }
-        }
-        
-        // Ensure we have valid data structure
-        if (!journalData) {
-          journalData = {
-            journal_streak: 0,
-            weekly_journal_count: 0,
-            last_journal_date: null,
-            journal_entries_today: 0
-          };
-          console.log('📊 Using default journal metrics:', journalData);
+        const records = await readRecentDailyRecords(currentUser.email);
+        const history = toWriHistory(records);
+        setDailyRecords(records);
+        setForecast(forecastWri(history, UserProfileService.today()));
+
+        // Days scored with an older formula are rescored server side; the live subscription redraws the chart
+        if (hasOutdatedScores(history) && !recomputeRequested.current) {
+          recomputeRequested.current = true;
+          recomputeWriHistory()
+            .then(updated => console.log('🔁 WRI history rescored with the current profile:', { updated }))
+            .catch(recomputeError => console.warn('⚠️ Failed to rescore WRI history:', recomputeError));
         }
-        
+
+        // 2) Load journal metrics - kept up to date server side by the journal entry trigger
+        const journalData = await readJournalMetrics(currentUser.email);
         setJournalMetrics(journalData);
-        console.log('📊 Final journal metrics set in state:', journalData);
+        console.log('📊 Journal metrics:', journalData);
 
         // 3) Load latest decrypted wellness insights via existing endpoint
         // Reuse getEncryptedInsights endpoint and request full history
-        const res = await fetch(`https://getencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
+        const res = await authorizedFetch(`https://getencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
           method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ userEmail: currentUser.email, includeHistory: true })
         });
         const data = await res.json();
         const wellness = data?.data?.wellnessData || {};
+        // Stale answers are imputed (and show up in the uncertainty) instead of scoring today
+        const freshWellness = QuestionnaireService.withoutStale(wellness, data?.data?.freshness);
+        setStaleParameters(data?.data?.freshness?.stale || []);
         // Filter sessions to only include meaningful conversations (4+ parameters) and unique session IDs
         console.log('🔍 RAW CHAT HISTORY:', data?.data?.chatHistory?.length, 'sessions');
         
@@ -148,7 +145,7 @@ const DashboardPage: React.FC = () => {
           const inputs = normalizeInputs(s.wellnessData);
           const c = computeWRI(inputs);
           const ts = s.timestamp?._seconds ? new Date(s.timestamp._seconds * 1000) : new Date();
-          const dt = ts.toISOString().slice(0,16); // yyyy-mm-ddThh:mm
+          const dt = UserProfileService.localDateTime(ts); // yyyy-mm-ddThh:mm in the user's timezone
           sessionHistoryDetailed.push({ dateTime: dt, wri: c.wri });
         });
         sessionHistoryDetailed.sort((a,b)=>a.dateTime.localeCompare(b.dateTime));
@@ -167,7 +164,7 @@ const DashboardPage: React.FC = () => {
         if (sessionHistoryDetailed.length && totalJournalBonus > 0) {
           const lastPoint = sessionHistoryDetailed[sessionHistoryDetailed.length - 1];
           const adjustedWri = Math.max(0, Number((lastPoint.wri - totalJournalBonus).toFixed(1)));
-          const nowIso = new Date().toISOString().slice(0,16);
+          const nowIso = UserProfileService.localDateTime(new Date());
           adjustedSeries.push({ dateTime: nowIso, wri: adjustedWri });
           console.log('🧮 JOURNAL ADJUSTMENT → lastChat:', lastPoint.wri, 'entriesToday:', entriesToday, 'streak:', streak, 'streakBonus:', streakBonus, 'totalBonusApplied:', totalJournalBonus, 'adjustedWri:', adjustedWri);
         }
@@ -197,38 +194,44 @@ const DashboardPage: React.FC = () => {
         // TRACE: end-to-end inputs -> history -> decisions
         console.groupCollapsed('🧭 WRI TRACE (Dashboard)');
         console.log('User:', currentUser.email);
-        console.log('Wellness inputs (chat only):', wellness);
-        console.log('Readable Journal metrics used for storage (not for WRI here):', journalData);
+        console.log('Wellness inputs (chat only, fresh):', freshWellness, 'stale:', data?.data?.freshness?.stale || []);
+        console.log('Journal metrics (not used for WRI here):', journalData);
         console.log('Firestore daily history (mood_scores → daily):', history);
         console.log('Session-derived per-chat WRIs (after filters):', sessionHistoryDetailed);
         console.log('Session-derived with journal-adjusted synthetic point (if any):', adjustedSeries);
         console.log('Merged history (daily dates):', mergedHistory);
         console.log('Per-chat WRIs used for average (last 30):', lastSessionWrIs, 'avgWri =', avgWri);
 
-        let currentInputs = normalizeInputs(wellness); // inputs needed for flags/copy
+        let currentInputs = normalizeInputs(freshWellness); // inputs needed for flags/copy
         const base = computeWRI(currentInputs, mergedHistory, false); // compute without journal bonus
         console.log('Base WRI (no journal bonus):', base.wri, 'band:', base.risk_band);
 
-        const bandForAvg: WriOutput['risk_band'] = (avgWri ?? base.wri) <= 24 ? 'green' : (avgWri ?? base.wri) <= 49 ? 'yellow' : (avgWri ?? base.wri) <= 74 ? 'orange' : 'red';
-        const computed: WriOutput = avgWri !== undefined ? { ...base, wri: avgWri, risk_band: bandForAvg } : base;
+        const bandForAvg = riskBandFor(avgWri ?? base.wri);
+        // The uncertainty range describes today's inputs - move it along with the displayed average
+        const shift = avgWri !== undefined ? avgWri - base.wri : 0;
+        const uncertainty = {
+          ...base.uncertainty,
+          range: {
+            low: Number(Math.max(0, base.uncertainty.range.low + shift).toFixed(1)),
+            high: Number(Math.min(100, base.uncertainty.range.high + shift).toFixed(1))
+          }
+        };
+        const computed: WriOutput = avgWri !== undefined ? { ...base, wri: avgWri, risk_band: bandForAvg, uncertainty } : base;
         console.log('Display WRI used for gauge:', computed.wri, 'band:', computed.risk_band, 'source:', avgWri !== undefined ? 'avg(last 30 chats)' : 'base compute');
         console.groupEnd();
         
         // Store ONLY chat wellness data (no journal metrics mixed in)
         try {
-          await fetch(`https://storeencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
+          await authorizedFetch(`https://storeencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               userEmail: currentUser.email,
-              wellnessData: wellness // Store only chat wellness, not journal metrics
+              wellnessData: wellness, // Store only chat wellness, not journal metrics
+              collectedAt: data?.data?.collectedAt // Re-storing must not make old answers look new
             })
           });
-          console.log('✅ Chat wellness data stored to insights (journal metrics stored separately):', wellness);
-          
-          // Also store journal insights separately in encrypted form
-          await storeJournalInsights(currentUser.email, journalData);
-          
+          console.log('✅ Chat wellness data stored to insights:', wellness);
         } catch (insightsError) {
           console.warn('⚠️ Failed to store enhanced wellness data:', insightsError);
         }
@@ -241,6 +244,10 @@ const DashboardPage: React.FC = () => {
         setWri(computed); // Use the actual computed WRI with journal bonuses
         setHistorySeries(mergedHistory);
         setSessionSeries(sessionHistoryDetailed);
+        // With today's journal metrics, so the simulator applies the same journal bonus as the daily score.
+        // Same answers keep the same object so a focus refresh does not reset the simulator
+        const simulatorInputs: NormalizedInputs = { ...currentInputs, ...journalData };
+        setCheckInInputs(prev => (prev && JSON.stringify(prev) === JSON.stringify(simulatorInputs) ? prev : simulatorInputs));
 
         // 5) Do not persist snapshot from dashboard refresh to avoid graph progression
       } catch (e:any) {
@@ -268,13 +275,33 @@ const DashboardPage: React.FC = () => {
     if (!currentUser?.email) return;
     const col = collection(db, 'mood_scores', currentUser.email, 'daily');
     const unsub = onSnapshot(query(col, orderBy('date', 'asc')), (snap) => {
-      const arr: Array<{ date: string; wri: number }> = [];
-      snap.forEach(d => { const data:any=d.data(); if (typeof data?.wri === 'number' && typeof data?.date === 'string') arr.push({ date: data.date, wri: data.wri }); });
+      const arr: Array<{ date: string; wri: number; utcDay?: boolean }> = [];
+      snap.forEach(d => { const data:any=d.data(); if (typeof data?.wri === 'number' && typeof data?.date === 'string') arr.push({ date: data.date, wri: data.wri, utcDay: data.day_basis === 'utc' }); });
       setHistorySeries(arr);
     });
     return () => unsub();
   }, [currentUser?.email, wri]);
 
+  // Personal baseline annotations for the daily series on the trend chart
+  const dailyPoints = historySeries.slice(-30);
+  const sessionPoints = sessionSeries.slice(-30);
+  // The forecast continues the daily line - it starts from the last daily point so the shading joins it
+  const forecastPoints = forecast && dailyPoints.length ? forecast.points : [];
+  const trendLength = Math.max(sessionPoints.length, dailyPoints.length + forecastPoints.length);
+  // Projected days keep their own dates even where per-chat points share the index
+  const trendLabels = Array.from({ length: trendLength }, (_, i) =>
+    forecastPoints[i - dailyPoints.length] ? forecastPoints[i - dailyPoints.length].date.slice(5)
+      : sessionPoints[i] ? sessionPoints[i].dateTime.replace('T', ' ').slice(5)
+      : dailyPoints[i]?.date.slice(5) ?? '');
+  const projected = (value: (point: WriForecast['points'][number]) => number) => forecastPoints.length
+    ? [...dailyPoints.slice(0, -1).map(() => null), dailyPoints[dailyPoints.length - 1].wri, ...forecastPoints.map(value)]
+    : [];
+  const baselineByDate = new Map((wri?.baseline?.series || []).map(point => [point.date, point]));
+  const anomalyByDate = new Map((wri?.baseline?.anomalies || []).map(anomaly => [anomaly.date, anomaly]));
+  const isInDeterioration = (date: string) => (wri?.baseline?.deteriorations || [])
+    .some(deterioration => date >= deterioration.start && date <= deterioration.end);
+  const ongoingDeterioration = wri?.baseline?.deteriorations.find(deterioration => deterioration.ongoing);
+
   if (!currentUser) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -332,9 +359,30 @@ const DashboardPage: React.FC = () => {
               title={t('todays_wri')}
               showLegend={true}
               className="max-w-lg w-full"
+              uncertainty={wri.uncertainty}
+              onFinishCheckIn={() => navigate('/chat')}
             />
           </div>
 
+          {/* Outdated answers */}
+          {staleParameters.length > 0 && (
+            <div className="max-w-lg w-full mx-auto bg-amber-900/30 border border-amber-600/40 rounded-2xl px-6 py-4 flex items-center justify-between gap-4">
+              <div>
+                <div className="text-amber-200 font-semibold">{t('stale_answers_title')}</div>
+                <div className="text-sm text-amber-100/80 mt-1">
+                  {staleParameters.map(parameter => QuestionnaireService.getLabel(questionnaire, parameter, language)).join(', ')}
+                </div>
+                <div className="text-xs text-amber-100/60 mt-1">{t('stale_answers_description')}</div>
+              </div>
+              <button
+                onClick={() => navigate('/chat')}
+                className="shrink-0 bg-amber-500/80 hover:bg-amber-500 text-gray-900 text-sm font-semibold px-4 py-2 rounded-lg transition-colors"
+              >
+                {t('update_in_chat')}
+              </button>
+            </div>
+          )}
+
           {/* Journal Metrics & Rewards */}
           {journalMetrics && (
             <div className="bg-gradient-to-r from-purple-800/50 to-indigo-800/50 backdrop-blur-sm rounded-2xl p-8 border border-purple-600/30 shadow-xl">
@@ -491,20 +539,40 @@ const DashboardPage: React.FC = () => {
             </div>
           </div>
 
+          {/* What-if Simulator */}
+          {checkInInputs && <WriSimulator baseInputs={checkInInputs} />}
+
           {/* WRI Trend Chart */}
           <div className="bg-gradient-to-r from-gray-800/50 to-gray-700/50 backdrop-blur-sm rounded-2xl p-8 border border-gray-600/30 shadow-xl">
             <div className="flex items-center mb-6">
               <span className="text-3xl mr-3">📈</span>
               <h2 className="text-2xl font-bold text-white">{t('wri_trend')}</h2>
             </div>
+            {ongoingDeterioration && (
+              <div className="mb-4 bg-orange-900/30 border border-orange-600/40 text-orange-200 rounded-xl px-4 py-3 text-sm">
+                ⚠️ {t('sustained_deterioration').replace('{days}', String(ongoingDeterioration.days))}
+              </div>
+            )}
+            {forecast?.warning && (
+              <div className={`mb-4 rounded-xl px-4 py-3 text-sm border ${
+                forecast.warning.risk_band === 'red'
+                  ? 'bg-red-900/30 border-red-600/40 text-red-200'
+                  : 'bg-orange-900/30 border-orange-600/40 text-orange-200'
+              }`}>
+                🔮 {t('forecast_warning')
+                  .replace('{band}', forecast.warning.risk_band)
+                  .replace('{date}', forecast.warning.date.slice(5))
+                  .replace('{wri}', forecast.warning.wri.toFixed(0))}
+              </div>
+            )}
             <div className="bg-gray-900/50 rounded-xl p-6">
               <Line
                 data={{
-                  labels: sessionSeries.slice(-30).map(h => h.dateTime.replace('T',' ').slice(5)),
+                  labels: trendLabels,
                   datasets: [
                     { 
                       label: t('per_chat_wri'), 
-                      data: sessionSeries.slice(-30).map(h => h.wri), 
+                      data: sessionPoints.map(h => h.wri), 
                       borderColor: 'rgb(34,197,94)', 
                       backgroundColor: 'rgba(34,197,94,0.2)', 
                       tension: 0.2, 
@@ -515,7 +583,7 @@ const DashboardPage: React.FC = () => {
                     },
                     { 
                       label: t('daily_wri'), 
-                      data: historySeries.slice(-30).map(h => h.wri), 
+                      data: dailyPoints.map(h => h.wri), 
                       borderColor: 'rgb(59,130,246)', 
                       backgroundColor: 'rgba(59,130,246,0.15)', 
                       tension: 0.3,
@@ -523,6 +591,62 @@ const DashboardPage: React.FC = () => {
                       pointBackgroundColor: 'rgb(59,130,246)',
                       pointBorderColor: 'white',
                       pointBorderWidth: 2
+                    },
+                    {
+                      label: t('your_usual'),
+                      data: dailyPoints.map(h => baselineByDate.get(h.date)?.median ?? null),
+                      borderColor: 'rgba(209,213,219,0.6)',
+                      borderDash: [6, 4],
+                      pointRadius: 0,
+                      tension: 0.3,
+                      spanGaps: true
+                    },
+                    {
+                      label: t('sustained_rise'),
+                      data: dailyPoints.map(h => (isInDeterioration(h.date) ? h.wri : null)),
+                      showLine: false,
+                      pointStyle: 'rectRot',
+                      pointRadius: 6,
+                      pointBackgroundColor: 'rgb(249,115,22)',
+                      pointBorderColor: 'white',
+                      borderColor: 'rgb(249,115,22)'
+                    },
+                    {
+                      label: t('unusual_day'),
+                      data: dailyPoints.map(h => (anomalyByDate.has(h.date) ? h.wri : null)),
+                      showLine: false,
+                      pointStyle: 'triangle',
+                      pointRadius: 9,
+                      pointBackgroundColor: dailyPoints.map(h => (anomalyByDate.get(h.date)?.direction === 'better' ? 'rgb(34,197,94)' : 'rgb(239,68,68)')),
+                      pointBorderColor: 'white',
+                      borderColor: 'rgb(239,68,68)'
+                    },
+                    {
+                      label: t('forecast'),
+                      data: projected(point => point.wri),
+                      borderColor: 'rgb(168,85,247)',
+                      borderDash: [4, 4],
+                      pointRadius: 2,
+                      pointBackgroundColor: 'rgb(168,85,247)',
+                      tension: 0.3
+                    },
+                    // 80% interval - the upper edge fills down to the lower edge
+                    {
+                      label: '',
+                      data: projected(point => point.high),
+                      borderColor: 'transparent',
+                      backgroundColor: 'rgba(168,85,247,0.15)',
+                      pointRadius: 0,
+                      fill: '+1',
+                      tension: 0.3
+                    },
+                    {
+                      label: '',
+                      data: projected(point => point.low),
+                      borderColor: 'transparent',
+                      pointRadius: 0,
+                      fill: false,
+                      tension: 0.3
                     }
                   ]
                 }}
@@ -533,9 +657,37 @@ const DashboardPage: React.FC = () => {
                       display: true,
                       labels: {
                         color: 'white',
-                        font: { size: 14 }
+                        font: { size: 14 },
+                        // The interval edges are drawn as shading only
+                        filter: (item) => !!item.text
                       }
-                    } 
+                    },
+                    tooltip: {
+                      filter: (item) => !!item.dataset.label,
+                      callbacks: {
+                        // Annotate the daily points with how far they are from the personal baseline
+                        afterLabel: (context) => {
+                          if (context.dataset.label === t('forecast')) {
+                            const point = forecastPoints[context.dataIndex - dailyPoints.length];
+                            return point ? t('forecast_interval').replace('{low}', point.low.toFixed(0)).replace('{high}', point.high.toFixed(0)) : '';
+                          }
+                          // Per-chat points are not daily, and the baseline line annotates itself
+                          if (context.dataset.label === t('per_chat_wri') || context.dataset.label === t('your_usual')) {
+                            return '';
+                          }
+                          const point = dailyPoints[context.dataIndex];
+                          const baselinePoint = point ? baselineByDate.get(point.date) : undefined;
+                          // Saved before the timezone was known - the date is the UTC day
+                          const utcNote = point?.utcDay ? t('utc_day') : '';
+                          if (!baselinePoint) {
+                            return utcNote;
+                          }
+                          return [t('baseline_annotation')
+                            .replace('{median}', baselinePoint.median.toFixed(1))
+                            .replace('{z}', `${baselinePoint.z > 0 ? '+' : ''}${baselinePoint.z.toFixed(1)}`), utcNote].filter(Boolean);
+                        }
+                      }
+                    }
                   }, 
                   scales: { 
                     y: { 
@@ -554,6 +706,9 @@ const DashboardPage: React.FC = () => {
             </div>
           </div>
 
+          {/* Subscore Trends and Correlations */}
+          <SubscoreTrends records={dailyRecords} />
+
           {/* Screening Flags */}
           <div className="bg-gradient-to-r from-gray-800/50 to-gray-700/50 backdrop-blur-sm rounded-2xl p-8 border border-gray-600/30 shadow-xl">
             <div className="flex items-center mb-6">
@@ -3,12 +3,17 @@ import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { JournalService } from '../services/JournalService';
-import { JournalEntry } from '../types/JournalTypes';
+import { JournalContent, JournalEntry, JournalMetadata, MigrationProgress } from '../types/JournalTypes';
 import { journalConfig } from '../config/journalConfig';
 import VoiceRecorder from './VoiceRecorder';
 import { PasswordInput } from './PasswordInput';
-import { SecurePasswordStorage } from '../services/SecurePasswordStorage';
-import { normalizeInputs, computeWRI, writeTodayWri, calculateJournalMetrics, storeJournalInsights, getReadableJournalMetrics } from '../services/MoodScoreService';
+import { ChangeJournalPassword } from './ChangeJournalPassword';
+import { RecoveryCodeDisplay } from './RecoveryCodeDisplay';
+import { SecureKeyStorage } from '../services/SecureKeyStorage';
+import { normalizeInputs, computeWRI, computeJournalBonus } from '@manoday/wellness-scoring';
+import { writeTodayWri, readJournalMetrics, waitForJournalMetrics } from '../services/MoodScoreService';
+import { authorizedFetch } from '../services/AuthorizedFetch';
+import { QuestionnaireService } from '../services/QuestionnaireService';
 import { useNavigate } from 'react-router-dom';
 import LanguageSelector from './LanguageSelector';
 
@@ -26,10 +31,22 @@ const JournalPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [userPassword, setUserPassword] = useState<string | null>(null);
+  // Unlocked journal key - the password is only used to unwrap it
+  const [journalKey, setJournalKey] = useState<CryptoKey | null>(null);
+  // Whether the journal password was set up (null until known)
+  const [hasJournalKey, setHasJournalKey] = useState<boolean | null>(null);
   const [showPasswordInput, setShowPasswordInput] = useState(false);
-  const [passwordAction, setPasswordAction] = useState<'create' | 'read' | 'update' | null>(null);
-  const [decryptedJournal, setDecryptedJournal] = useState<{ title: string; content: string } | null>(null);
+  const [passwordAction, setPasswordAction] = useState<'create' | 'read' | 'update' | 'recoveryCode' | null>(null);
+  // New recovery code to show once
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [passwordChangeProgress, setPasswordChangeProgress] = useState<MigrationProgress | null>(null);
+  const [passwordChangeError, setPasswordChangeError] = useState<string | null>(null);
+  const [decryptedJournal, setDecryptedJournal] = useState<JournalContent | null>(null);
+  const [mood, setMood] = useState<string | null>(null);
+  // Decrypted list metadata by entry id
+  const [metadata, setMetadata] = useState<Record<string, JournalMetadata>>({});
 
   const journalService = new JournalService();
 
@@ -37,25 +54,49 @@ const JournalPage: React.FC = () => {
     if (currentUser?.email) {
       loadJournals();
       
-      // Check if we have a stored password for this user
-      const storedPassword = SecurePasswordStorage.getPassword(currentUser.email);
-      if (storedPassword) {
-        setUserPassword(storedPassword);
-        console.log('🔒 Loaded stored password for user');
+      // Check if the journal is still unlocked for this user
+      const storedKey = SecureKeyStorage.getKey(currentUser.email);
+      if (storedKey) {
+        setJournalKey(storedKey);
+        setHasJournalKey(true);
+        console.log('🔒 Loaded unlocked journal key for user');
+      } else {
+        journalService.getJournalKey(currentUser.email).then(response => {
+          if (response.success) {
+            setHasJournalKey(Boolean(response.data));
+          }
+        });
       }
     }
   }, [currentUser?.email]);
 
   // Extend session on user activity
   useEffect(() => {
-    if (currentUser?.email && userPassword) {
+    if (currentUser?.email && journalKey) {
       const interval = setInterval(() => {
-        SecurePasswordStorage.extendSession(currentUser.email!);
+        SecureKeyStorage.extendSession(currentUser.email!);
       }, 5 * 60 * 1000); // Extend every 5 minutes
 
       return () => clearInterval(interval);
     }
-  }, [currentUser?.email, userPassword]);
+  }, [currentUser?.email, journalKey]);
+
+  // Titles and previews for the list, once the journal is unlocked
+  useEffect(() => {
+    if (!journalKey) {
+      setMetadata({});
+      return;
+    }
+    let cancelled = false;
+    journalService.decryptMetadata(journals, journalKey).then(decrypted => {
+      if (!cancelled) {
+        setMetadata(decrypted);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [journals, journalKey]);
 
   useEffect(() => {
     if (selectedJournal) {
@@ -93,13 +134,15 @@ const JournalPage: React.FC = () => {
     }
   };
 
-  const handleCreateJournal = async () => {
+  const handleCreateJournal = async (unlockedKey?: CryptoKey) => {
     if (!currentUser?.email || !title.trim() || !content.trim()) {
       setError('Title and content are required');
       return;
     }
 
-    if (!userPassword) {
+    // The key unlocked just now is not in state yet
+    const key = unlockedKey || journalKey;
+    if (!key) {
       setPasswordAction('create');
       setShowPasswordInput(true);
       return;
@@ -119,7 +162,8 @@ const JournalPage: React.FC = () => {
         title.trim(),
         content.trim(),
         currentUser.email,
-        userPassword
+        key,
+        mood
       );
 
       console.log('🔐 Encrypted journal creation response:', response);
@@ -128,13 +172,15 @@ const JournalPage: React.FC = () => {
         setSuccess(t('journal_created_success'));
         setTitle('');
         setContent('');
+        setMood(null);
         setIsCreating(false);
         loadJournals();
+        const journalId = response.data?.journalId;
 
         // Apply journaling bonus to WRI
         try {
           // Get current WRI from dashboard and apply journaling bonus
-          const response = await fetch(`https://getencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
+          const response = await authorizedFetch(`https://getencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
             method: 'POST', 
             headers: { 'Content-Type': 'application/json' }, 
             body: JSON.stringify({ userEmail: currentUser.email, includeHistory: true })
@@ -142,10 +188,11 @@ const JournalPage: React.FC = () => {
           const data = await response.json();
           const wellness = data?.data?.wellnessData || {};
           
-          // Wait a moment for Firestore to update, then calculate fresh journal metrics including the new entry
-          await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second delay
-          const journalMetrics = await calculateJournalMetrics(currentUser.email);
-          console.log('📊 JOURNAL: Fresh metrics calculated after creation:', journalMetrics);
+          // Metrics including the new entry, once the journal trigger has counted it
+          const journalMetrics = journalId
+            ? await waitForJournalMetrics(currentUser.email, journalId)
+            : await readJournalMetrics(currentUser.email);
+          console.log('📊 JOURNAL: Metrics after creation:', journalMetrics);
           console.log('📊 JOURNAL: User info used:', {
             email: currentUser.email,
             uid: currentUser.uid,
@@ -162,56 +209,31 @@ const JournalPage: React.FC = () => {
             weekly_journal_count: journalMetrics.weekly_journal_count // Include weekly count
           };
           
-          const currentInputs = normalizeInputs(updatedWellness);
+          // Outdated answers are imputed rather than scored
+          const currentInputs = normalizeInputs(QuestionnaireService.withoutStale(updatedWellness, data?.data?.freshness));
           // Compute WRI with bonus, but only apply the incremental delta since last journal today
           const computedWithBonus = computeWRI(currentInputs, undefined, true);
 
-          // Read existing today's WRI if present to avoid double applying bonus on same day
-          const today = new Date().toISOString().slice(0,10);
+          // Avoid double applying the bonus on the same day
           let baselineWri = computedWithBonus.wri;
-          try {
-            // Fetch today's stored WRI; if exists, use it as baseline and only apply incremental 3 per extra journal
-            const existing = await getReadableJournalMetrics(currentUser.email);
-            const prevEntries = existing?.journal_entries_today ?? 0;
-            if (prevEntries > 0 && journalMetrics.journal_entries_today > prevEntries) {
-              const additionalEntries = journalMetrics.journal_entries_today - prevEntries;
-              // Only apply +3 per additional entry (capped so base 5+first 3 already covered previously)
-              const incrementalReduction = Math.min(10, additionalEntries * 3);
-              baselineWri = Math.max(0, computedWithBonus.wri + (10 - incrementalReduction));
-            }
-          } catch {}
-
-          await writeTodayWri(currentUser.email, { ...computedWithBonus, wri: baselineWri });
-          
-          // Store journal insights in encrypted form
-          console.log('📝 JOURNAL: Storing journal insights:', journalMetrics);
-          await storeJournalInsights(currentUser.email, journalMetrics);
-          console.log('📝 JOURNAL: Journal insights stored successfully');
-          
-          // Calculate total bonus applied for user feedback (matching MoodScoreService logic)
-          const baseBonus = journalMetrics.journal_entries_today > 0 ? 5 : 0;
-          const frequencyBonus = Math.min(10, journalMetrics.journal_entries_today * 3);
-          const weeklyBonus = journalMetrics.weekly_journal_count >= 3 ? Math.min(15, journalMetrics.weekly_journal_count * 2) : 0;
-          
-          let streakBonus = 0;
-          if (journalMetrics.journal_streak >= 1 && journalMetrics.journal_streak < 3) {
-            streakBonus = 2;
-          } else if (journalMetrics.journal_streak >= 3 && journalMetrics.journal_streak < 7) {
-            streakBonus = 8;
-          } else if (journalMetrics.journal_streak >= 7 && journalMetrics.journal_streak < 14) {
-            streakBonus = 15;
-          } else if (journalMetrics.journal_streak >= 14 && journalMetrics.journal_streak < 30) {
-            streakBonus = 25;
-          } else if (journalMetrics.journal_streak >= 30) {
-            streakBonus = 40;
+          // Entries before this one today - the base bonus was already applied with the first
+          const prevEntries = Math.max(0, journalMetrics.journal_entries_today - 1);
+          if (prevEntries > 0) {
+            // Only apply +3 for the additional entry (base 5 + first 3 already covered previously)
+            const incrementalReduction = 3;
+            baselineWri = Math.max(0, computedWithBonus.wri + (10 - incrementalReduction));
           }
-          const totalBonus = baseBonus + frequencyBonus + weeklyBonus + streakBonus;
+
+          await writeTodayWri(currentUser.email, { ...computedWithBonus, wri: baselineWri }, currentInputs, true);
+          
+          // Bonus applied for user feedback - the same calculation computeWRI uses
+          const journalBonus = computeJournalBonus(journalMetrics);
           
           console.log('✅ Enhanced Journal WRI update:', {
             newWRI: baselineWri,
             streak: journalMetrics.journal_streak,
-            totalBonus,
-            breakdown: { baseBonus, frequencyBonus, weeklyBonus, streakBonus },
+            totalBonus: journalBonus.total,
+            breakdown: journalBonus,
             enhancedWellnessData: updatedWellness
           });
           
@@ -225,12 +247,13 @@ const JournalPage: React.FC = () => {
           }
           
           // Also update the encrypted insights with journaling data
-          await fetch(`https://storeencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
+          await authorizedFetch(`https://storeencryptedinsights-tipjtjdkwq-uc.a.run.app`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               userEmail: currentUser.email,
-              wellnessData: updatedWellness
+              wellnessData: updatedWellness,
+              collectedAt: data?.data?.collectedAt
             })
           });
           
@@ -248,13 +271,14 @@ const JournalPage: React.FC = () => {
     }
   };
 
-  const handleUpdateJournal = async () => {
+  const handleUpdateJournal = async (unlockedKey?: CryptoKey) => {
     if (!currentUser?.email || !selectedJournal || !title.trim() || !content.trim()) {
       setError('Title and content are required');
       return;
     }
 
-    if (!userPassword) {
+    const key = unlockedKey || journalKey;
+    if (!key) {
       setPasswordAction('update');
       setShowPasswordInput(true);
       return;
@@ -269,13 +293,15 @@ const JournalPage: React.FC = () => {
         title.trim(),
         content.trim(),
         currentUser.email,
-        userPassword
+        key,
+        mood
       );
 
       if (response.success) {
         setSuccess('Journal entry updated and encrypted successfully!');
         setTitle('');
         setContent('');
+        setMood(null);
         setSelectedJournal(null);
         setIsEditing(false);
         loadJournals();
@@ -325,7 +351,7 @@ const JournalPage: React.FC = () => {
   };
 
   const handleEditJournal = async (journal: JournalEntry) => {
-    if (!userPassword) {
+    if (!journalKey) {
       setPasswordAction('read');
       setShowPasswordInput(true);
       return;
@@ -339,13 +365,14 @@ const JournalPage: React.FC = () => {
       const result = await journalService.readJournalEncrypted(
         journal.id,
         currentUser?.email || '',
-        userPassword
+        journalKey
       );
 
       if (result.success && result.data) {
         console.log('🔐 Journal decrypted successfully for editing');
         setTitle(result.data.title);
         setContent(result.data.content);
+        setMood(result.data.mood ?? null);
         setDecryptedJournal(result.data);
       } else {
         console.error('🔐 Failed to decrypt journal for editing:', result.error);
@@ -362,19 +389,79 @@ const JournalPage: React.FC = () => {
     setIsCreating(false);
   };
 
-  const handlePasswordSubmit = (password: string) => {
+  const handlePasswordSubmit = async (password: string) => {
     if (!currentUser?.email) return;
-    
-    // Store password securely
-    SecurePasswordStorage.storePassword(currentUser.email, password);
-    setUserPassword(password);
+    const userEmail = currentUser.email;
+
+    if (passwordAction === 'recoveryCode') {
+      const result = await journalService.regenerateRecoveryCode(userEmail, password);
+      if (!result.success || !result.recoveryCode) {
+        setError(result.error || 'Failed to create recovery code');
+        return;
+      }
+      setShowPasswordInput(false);
+      setPasswordAction(null);
+      setError(null);
+      setRecoveryCode(result.recoveryCode);
+      return;
+    }
+
+    // One key derivation for the whole session
+    const unlocked = await journalService.unlockJournal(userEmail, password);
+    if (!unlocked.success || !unlocked.key) {
+      setError(unlocked.error || 'Failed to unlock journal');
+      return;
+    }
+    const key = unlocked.key;
+    // Only on first setup
+    if (unlocked.recoveryCode) {
+      setRecoveryCode(unlocked.recoveryCode);
+    }
+
+    // Entries from before the journal key are moved to it while the password is at hand
+    journalService.migrateLegacyEntries(userEmail, password, key).then(result => {
+      if (result.migrated > 0) {
+        loadJournals();
+      }
+      if (result.failed > 0) {
+        setError(`${result.failed} older journal entries could not be opened with this password`);
+      }
+    }).catch(err => console.error('🔐 Legacy journal migration error:', err));
+
+    continueWithKey(userEmail, key);
+  };
+
+  const handleRecover = async (code: string, newPassword: string) => {
+    if (!currentUser?.email) return;
+    const userEmail = currentUser.email;
+
+    const result = await journalService.recoverWithCode(userEmail, code, newPassword);
+    if (!result.success || !result.key) {
+      setError(result.error || 'Failed to recover journal');
+      return;
+    }
+
+    // The used code no longer works - the new one is shown in its place
+    if (result.recoveryCode) {
+      setRecoveryCode(result.recoveryCode);
+    }
+    setSuccess(t('journal_password_changed'));
+    continueWithKey(userEmail, result.key);
+  };
+
+  // Keep the unlocked key for the session and continue with the action that was waiting for it
+  const continueWithKey = (userEmail: string, key: CryptoKey) => {
+    SecureKeyStorage.storeKey(userEmail, key);
+    setJournalKey(key);
+    setHasJournalKey(true);
     setShowPasswordInput(false);
-    
+    setError(null);
+
     // Continue with the action that was waiting for password
     if (passwordAction === 'create') {
-      handleCreateJournal();
+      handleCreateJournal(key);
     } else if (passwordAction === 'update') {
-      handleUpdateJournal();
+      handleUpdateJournal(key);
     } else if (passwordAction === 'read') {
       // Password is now set, user can read journals
       setPasswordAction(null);
@@ -386,12 +473,42 @@ const JournalPage: React.FC = () => {
     setPasswordAction(null);
   };
 
+  const handleChangePassword = async (oldPassword: string, newPassword: string) => {
+    if (!currentUser?.email) return;
+    const userEmail = currentUser.email;
+
+    setIsChangingPassword(true);
+    setPasswordChangeError(null);
+    setPasswordChangeProgress(null);
+
+    const result = await journalService.changePassword(userEmail, oldPassword, newPassword, setPasswordChangeProgress);
+    setIsChangingPassword(false);
+    if (!result.success || !result.key) {
+      setPasswordChangeError(result.error || 'Failed to change journal password');
+      return;
+    }
+
+    // Same journal key as before - only the password that unwraps it changed
+    SecureKeyStorage.storeKey(userEmail, result.key);
+    setJournalKey(result.key);
+    setHasJournalKey(true);
+    setShowChangePassword(false);
+    setSuccess(t('journal_password_changed'));
+    loadJournals();
+  };
+
+  const handleChangePasswordCancel = () => {
+    setShowChangePassword(false);
+    setPasswordChangeError(null);
+    setPasswordChangeProgress(null);
+  };
+
   /**
    * Decrypt journal data when a journal is selected
    */
   const decryptJournalData = async (journal: JournalEntry) => {
-    if (!currentUser?.email || !userPassword) {
-      console.log('🔐 Cannot decrypt: missing user email or password');
+    if (!currentUser?.email || !journalKey) {
+      console.log('🔐 Cannot decrypt: missing user email or journal key');
       return;
     }
 
@@ -401,7 +518,7 @@ const JournalPage: React.FC = () => {
       const result = await journalService.readJournalEncrypted(
         journal.id,
         currentUser.email,
-        userPassword
+        journalKey
       );
 
       if (result.success && result.data) {
@@ -423,6 +540,7 @@ const JournalPage: React.FC = () => {
     setSelectedJournal(null);
     setTitle('');
     setContent('');
+    setMood(null);
     setIsCreating(true);
     setIsEditing(false);
   };
@@ -431,6 +549,7 @@ const JournalPage: React.FC = () => {
     setSelectedJournal(null);
     setTitle('');
     setContent('');
+    setMood(null);
     setIsCreating(false);
     setIsEditing(false);
     setError(null);
@@ -441,12 +560,15 @@ const JournalPage: React.FC = () => {
   // Clear passwords when user changes (actual logout)
   useEffect(() => {
     return () => {
-      // Only clear password if user is actually logging out
+      // Only clear the key if user is actually logging out
       // Don't clear on page refresh - let the 30-minute timeout handle it
-      console.log('🔒 Component unmounting - password will remain in memory until timeout');
+      console.log('🔒 Component unmounting - journal key will remain in memory until timeout');
     };
   }, []);
 
+  const moodEmoji = (value?: string | null) =>
+    journalConfig.ui.moodTags.find(tag => tag.value === value)?.emoji;
+
   const formatDate = (date: any) => {
     let dateObj: Date;
     
@@ -468,6 +590,9 @@ const JournalPage: React.FC = () => {
     });
   };
 
+  // No journal password yet and no entries encrypted with an earlier one
+  const isNewJournalPassword = hasJournalKey === false && !journals.some(journal => journal.salt);
+
   if (!currentUser) {
     return (
       <div className={`min-h-screen flex items-center justify-center ${isDark ? 'bg-gray-900' : 'bg-gray-50'}`}>
@@ -487,8 +612,29 @@ const JournalPage: React.FC = () => {
         <PasswordInput
           onPasswordSubmit={handlePasswordSubmit}
           onCancel={handlePasswordCancel}
-          title={passwordAction === 'create' ? 'Create Journal Password' : 'Enter Journal Password'}
-          isNewPassword={passwordAction === 'create'}
+          title={isNewJournalPassword ? 'Create Journal Password' : 'Enter Journal Password'}
+          isNewPassword={isNewJournalPassword}
+          onRecover={passwordAction === 'recoveryCode' ? undefined : handleRecover}
+        />
+      )}
+
+      {/* New Recovery Code */}
+      {recoveryCode && (
+        <RecoveryCodeDisplay
+          recoveryCode={recoveryCode}
+          userEmail={currentUser.email || ''}
+          onClose={() => setRecoveryCode(null)}
+        />
+      )}
+
+      {/* Change Password Modal */}
+      {showChangePassword && (
+        <ChangeJournalPassword
+          onSubmit={handleChangePassword}
+          onCancel={handleChangePasswordCancel}
+          isChanging={isChangingPassword}
+          progress={passwordChangeProgress}
+          error={passwordChangeError}
         />
       )}
 
@@ -514,7 +660,7 @@ const JournalPage: React.FC = () => {
             </button>
           </div>
             <div className="text-right">
-              {userPassword ? (
+              {journalKey ? (
                 <div className="flex items-center space-x-2 text-green-600">
                   <span>🔒</span>
                   <span className="text-sm font-medium">{t('encrypted')}</span>
@@ -528,6 +674,25 @@ const JournalPage: React.FC = () => {
                   <span className="text-sm font-medium">{t('password_required')}</span>
                 </div>
               )}
+              {!isNewJournalPassword && (
+                <button
+                  onClick={() => setShowChangePassword(true)}
+                  className="mt-2 text-sm text-blue-500 hover:text-blue-600 transition-colors"
+                >
+                  🔑 {t('change_journal_password')}
+                </button>
+              )}
+              {hasJournalKey && (
+                <button
+                  onClick={() => {
+                    setPasswordAction('recoveryCode');
+                    setShowPasswordInput(true);
+                  }}
+                  className="mt-2 ml-4 text-sm text-blue-500 hover:text-blue-600 transition-colors"
+                >
+                  🧾 {t('new_recovery_code')}
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -587,22 +752,24 @@ const JournalPage: React.FC = () => {
                       setSelectedJournal(journal);
                       
                       // Decrypt the journal data for display
-                      if (userPassword) {
+                      if (journalKey) {
                         await decryptJournalData(journal);
                       } else {
-                        // If no password, show encrypted data
+                        // If still locked, show encrypted data
                         setDecryptedJournal(null);
                       }
                     }}
                   >
                     <h3 className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                      {t('encrypted_journal_entry')}
+                      {moodEmoji(metadata[journal.id]?.mood) && <span className="mr-2">{moodEmoji(metadata[journal.id]?.mood)}</span>}
+                      {metadata[journal.id]?.title || t('encrypted_journal_entry')}
                     </h3>
                     <p className={`text-sm mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
                       {formatDate(journal.createdAt)}
+                      {metadata[journal.id] && <span> • {metadata[journal.id].wordCount} {t('words')}</span>}
                     </p>
                     <p className={`text-sm mt-2 line-clamp-2 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
-                      {t('encrypted_content')}
+                      {metadata[journal.id]?.preview || t('encrypted_content')}
                     </p>
                   </div>
                 ))}
@@ -626,7 +793,7 @@ const JournalPage: React.FC = () => {
                       {t('cancel')}
                     </button>
                     <button
-                      onClick={isCreating ? handleCreateJournal : handleUpdateJournal}
+                      onClick={() => (isCreating ? handleCreateJournal() : handleUpdateJournal())}
                       disabled={loading || !title.trim() || !content.trim()}
                       className="bg-green-500 hover:bg-green-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
                     >
@@ -657,6 +824,30 @@ const JournalPage: React.FC = () => {
                     </p>
                   </div>
 
+                  <div>
+                    <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-white' : 'text-gray-700'}`}>
+                      {t('mood_tag')}
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {journalConfig.ui.moodTags.map(tag => (
+                        <button
+                          key={tag.value}
+                          type="button"
+                          onClick={() => setMood(mood === tag.value ? null : tag.value)}
+                          className={`px-3 py-1 rounded-full border text-sm transition-colors ${
+                            mood === tag.value
+                              ? 'border-blue-500 bg-blue-500 text-white'
+                              : isDark
+                              ? 'border-gray-600 text-gray-300 hover:border-gray-500'
+                              : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                          }`}
+                        >
+                          {tag.emoji} {t(`mood_tag_${tag.value}`)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
                   <div>
                     <label className={`block text-sm font-medium mb-2 ${isDark ? 'text-white' : 'text-gray-700'}`}>
                       {t('content')}
@@ -697,7 +888,8 @@ const JournalPage: React.FC = () => {
               <div>
                 <div className="flex justify-between items-center mb-6">
                   <h2 className={`text-xl font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                    {decryptedJournal?.title || selectedJournal.title}
+                    {moodEmoji(decryptedJournal?.mood) && <span className="mr-2">{moodEmoji(decryptedJournal?.mood)}</span>}
+                    {decryptedJournal?.title || metadata[selectedJournal.id]?.title || selectedJournal.title}
                   </h2>
                   <div className="space-x-2">
                     <button
@@ -735,7 +927,7 @@ const JournalPage: React.FC = () => {
                 <div className={`prose max-w-none ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
                   {decryptedJournal ? (
                     <div className="whitespace-pre-wrap">{decryptedJournal.content}</div>
-                  ) : userPassword ? (
+                  ) : journalKey ? (
                     <div className="text-center py-8">
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
                       <p>{t('decrypting_content')}</p>
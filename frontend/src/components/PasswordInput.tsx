@@ -5,14 +5,19 @@ interface PasswordInputProps {
   onCancel: () => void;
   title: string;
   isNewPassword?: boolean;
+  // Offers "forgot password" - sets a new password with the recovery code
+  onRecover?: (recoveryCode: string, newPassword: string) => void;
 }
 
 export const PasswordInput: React.FC<PasswordInputProps> = ({
   onPasswordSubmit,
   onCancel,
   title,
-  isNewPassword = false
+  isNewPassword = false,
+  onRecover
 }) => {
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -22,7 +27,13 @@ export const PasswordInput: React.FC<PasswordInputProps> = ({
     e.preventDefault();
     setError('');
 
-    if (isNewPassword) {
+    if (isRecovering && recoveryCode.trim().length === 0) {
+      setError('Recovery code is required');
+      return;
+    }
+
+    // A recovery sets a new password
+    if (isNewPassword || isRecovering) {
       if (password.length < 8) {
         setError('Password must be at least 8 characters long');
         return;
@@ -38,20 +49,42 @@ export const PasswordInput: React.FC<PasswordInputProps> = ({
       }
     }
 
-    onPasswordSubmit(password);
+    if (isRecovering && onRecover) {
+      onRecover(recoveryCode.trim(), password);
+    } else {
+      onPasswordSubmit(password);
+    }
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg p-6 w-96 max-w-md mx-4">
         <h2 className="text-xl font-bold mb-4 text-gray-800">
-          {title}
+          {isRecovering ? 'Recover Journal' : title}
         </h2>
         
         <form onSubmit={handleSubmit} className="space-y-4">
+          {isRecovering && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Recovery Code
+              </label>
+              <input
+                type="text"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                autoComplete="off"
+                spellCheck={false}
+                required
+              />
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              {isNewPassword ? 'Create Password' : 'Enter Password'}
+              {isRecovering ? 'New Password' : isNewPassword ? 'Create Password' : 'Enter Password'}
             </label>
             <div className="relative">
               <input
@@ -72,7 +105,7 @@ export const PasswordInput: React.FC<PasswordInputProps> = ({
             </div>
           </div>
 
-          {isNewPassword && (
+          {(isNewPassword || isRecovering) && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Confirm Password
@@ -106,15 +139,28 @@ export const PasswordInput: React.FC<PasswordInputProps> = ({
               type="submit"
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
             >
-              {isNewPassword ? 'Create' : 'Submit'}
+              {isRecovering ? 'Set Password' : isNewPassword ? 'Create' : 'Submit'}
             </button>
           </div>
         </form>
 
+        {onRecover && !isNewPassword && (
+          <button
+            type="button"
+            onClick={() => {
+              setIsRecovering(!isRecovering);
+              setError('');
+            }}
+            className="mt-3 text-sm text-blue-600 hover:text-blue-700"
+          >
+            {isRecovering ? 'Back to password' : 'Forgot password? Use your recovery code'}
+          </button>
+        )}
+
         <div className="mt-4 text-xs text-gray-500">
           <p>🔒 Your password is never sent to the server</p>
           <p>🔑 It's used locally to encrypt your data</p>
-          <p>💾 Remember this password - it can't be recovered!</p>
+          <p>💾 Remember this password - without it, only your recovery code opens your journal</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+
+interface RecoveryCodeDisplayProps {
+  recoveryCode: string;
+  userEmail: string;
+  onClose: () => void;
+}
+
+/**
+ * Shows a new journal recovery code once - it is not stored anywhere the app can show it again
+ */
+export const RecoveryCodeDisplay: React.FC<RecoveryCodeDisplayProps> = ({
+  recoveryCode,
+  userEmail,
+  onClose
+}) => {
+  const [saved, setSaved] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCode);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy recovery code:', error);
+    }
+  };
+
+  // Prints only the code, not the page around it
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank', 'width=600,height=400');
+    if (!printWindow) {
+      return;
+    }
+    printWindow.document.write(`
+      <html>
+        <head><title>Journal Recovery Code</title></head>
+        <body style="font-family: sans-serif; padding: 32px;">
+          <h2>Journal Recovery Code</h2>
+          <p>Account: ${userEmail}</p>
+          <p style="font-family: monospace; font-size: 20px; letter-spacing: 2px;">${recoveryCode}</p>
+          <p>Created: ${new Date().toLocaleDateString()}</p>
+          <p>Use this code to set a new journal password if you forget yours. Keep it somewhere private.</p>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    printWindow.close();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-96 max-w-md mx-4">
+        <h2 className="text-xl font-bold mb-4 text-gray-800">
+          Your Journal Recovery Code
+        </h2>
+
+        <p className="text-sm text-gray-600 mb-4">
+          If you forget your journal password, this code is the only way to open your journal again.
+          It is shown only now - print it or write it down.
+        </p>
+
+        <div className="bg-gray-100 rounded-md px-3 py-4 mb-4 text-center font-mono text-lg tracking-wider text-gray-900 break-all select-all">
+          {recoveryCode}
+        </div>
+
+        <div className="flex space-x-3 mb-4">
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex-1 px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+          >
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            type="button"
+            onClick={handlePrint}
+            className="flex-1 px-4 py-2 text-gray-700 bg-gray-200 rounded-md hover:bg-gray-300 transition-colors"
+          >
+            Print
+          </button>
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700 mb-4">
+          <input
+            type="checkbox"
+            checked={saved}
+            onChange={(e) => setSaved(e.target.checked)}
+          />
+          <span>I have saved my recovery code</span>
+        </label>
+
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={!saved}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+        >
+          Done
+        </button>
+
+        <div className="mt-4 text-xs text-gray-500">
+          <p>🔒 The code never reaches the server</p>
+          <p>🔁 Making a new code from the journal page replaces this one</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import { DailyWriRecord, findCorrelations, SubscoreName } from '@manoday/wellness-scoring';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface SubscoreTrendsProps {
+  // Stored daily records, oldest first
+  records: DailyWriRecord[];
+  className?: string;
+}
+
+// Series of the chart - the ones the student is most likely to act on are shown at first,
+// the rest can be switched on from the legend
+const SERIES: Array<{ subscore: SubscoreName; label: string; color: string; hidden?: boolean }> = [
+  { subscore: 'sleep', label: 'Sleep', color: 'rgb(59,130,246)' },
+  { subscore: 'stress_level', label: 'Stress', color: 'rgb(239,68,68)' },
+  { subscore: 'loneliness', label: 'Loneliness', color: 'rgb(168,85,247)' },
+  { subscore: 'academic_pressure', label: 'Academic pressure', color: 'rgb(245,158,11)' },
+  { subscore: 'mood', label: 'Mood', color: 'rgb(236,72,153)', hidden: true },
+  { subscore: 'social_support', label: 'Social support', color: 'rgb(34,197,94)', hidden: true },
+  { subscore: 'confidence', label: 'Confidence', color: 'rgb(20,184,166)', hidden: true },
+  { subscore: 'journal_writing', label: 'Journaling', color: 'rgb(163,230,53)', hidden: true },
+  { subscore: 'willingness_for_professional_support', label: 'Open to professional help', color: 'rgb(148,163,184)', hidden: true }
+];
+
+/**
+ * Subscores of the stored days as separate lines, with the relationships findCorrelations
+ * finds in the same history written out as sentences
+ * Subscores are risks on a 0-1 scale and are drawn as 0-100 like the WRI - higher is worse
+ */
+export const SubscoreTrends: React.FC<SubscoreTrendsProps> = ({ records, className = '' }) => {
+  const { t } = useLanguage();
+  const days = records.filter(record => record.subscores).slice(-30);
+  const correlations = useMemo(() => findCorrelations(records), [records]);
+
+  return (
+    <div className={`bg-gradient-to-r from-gray-800/50 to-gray-700/50 backdrop-blur-sm rounded-2xl p-8 border border-gray-600/30 shadow-xl ${className}`}>
+      <div className="flex items-center mb-2">
+        <span className="text-3xl mr-3">🧩</span>
+        <h2 className="text-2xl font-bold text-white">{t('subscore_trends')}</h2>
+      </div>
+      <p className="text-gray-400 text-sm mb-6">{t('subscore_trends_description')}</p>
+
+      {days.length === 0 ? (
+        <div className="text-sm text-gray-500">{t('subscore_trends_empty')}</div>
+      ) : (
+        <div className="bg-gray-900/50 rounded-xl p-6">
+          <Line
+            data={{
+              labels: days.map(day => day.date.slice(5)),
+              datasets: SERIES.map(series => ({
+                label: series.label,
+                data: days.map(day => {
+                  const value = day.subscores[series.subscore];
+                  return typeof value === 'number' ? Number((value * 100).toFixed(1)) : null;
+                }),
+                borderColor: series.color,
+                backgroundColor: series.color,
+                pointRadius: 2,
+                tension: 0.3,
+                spanGaps: true,
+                hidden: series.hidden
+              }))
+            }}
+            options={{
+              responsive: true,
+              plugins: {
+                legend: { labels: { color: 'white', font: { size: 12 } } }
+              },
+              scales: {
+                y: {
+                  min: 0,
+                  max: 100,
+                  grid: { color: 'rgba(255,255,255,0.1)' },
+                  ticks: { color: 'white' }
+                },
+                x: {
+                  grid: { color: 'rgba(255,255,255,0.1)' },
+                  ticks: { color: 'white' }
+                }
+              }
+            }}
+          />
+        </div>
+      )}
+
+      <div className="mt-6">
+        <div className="text-sm font-semibold text-gray-300 mb-2">{t('correlation_insights')}</div>
+        {correlations.length === 0 ? (
+          <div className="text-sm text-gray-500">{t('correlation_insights_empty')}</div>
+        ) : (
+          <ul className="space-y-2">
+            {correlations.map(correlation => (
+              <li key={correlation.condition} className="bg-gray-700/40 rounded-lg px-4 py-3">
+                {/* Every metric is a risk - a positive difference means the condition goes with worse days */}
+                <div className={`text-sm ${correlation.difference > 0 ? 'text-red-200' : 'text-emerald-200'}`}>
+                  {t(`correlation_${correlation.condition}`)
+                    .replace('{difference}', Math.abs(correlation.difference).toFixed(0))
+                    .replace('{direction}', t(correlation.difference > 0 ? 'higher' : 'lower'))}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {t('correlation_basis')
+                    .replace('{with}', String(correlation.days_with))
+                    .replace('{without}', String(correlation.days_without))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { WriUncertainty } from '@manoday/wellness-scoring';
 
 // Types
 interface WriGaugeCardProps {
@@ -8,6 +9,10 @@ interface WriGaugeCardProps {
   showLegend?: boolean;
   subtext?: string;
   className?: string;
+  // Observed vs imputed inputs - draws the possible score range and flags low confidence
+  uncertainty?: WriUncertainty;
+  // Shown as "Finish check-in" when the score is low-confidence
+  onFinishCheckIn?: () => void;
 }
 
 // Pure function to determine band from score (kept for potential future use)
@@ -81,10 +86,14 @@ export const WriGaugeCard: React.FC<WriGaugeCardProps> = ({
   title = "Today's WRI",
   showLegend = true,
   subtext,
-  className = ''
+  className = '',
+  uncertainty,
+  onFinishCheckIn
 }) => {
   // Ensure score is within bounds
   const clampedScore = Math.max(0, Math.min(100, score));
+  const lowConfidence = !!uncertainty?.low_confidence;
+  const range = uncertainty && uncertainty.range.high > uncertainty.range.low ? uncertainty.range : null;
 
   // SVG configuration - updated for cleaner design
   const size = 260;
@@ -155,6 +164,25 @@ export const WriGaugeCard: React.FC<WriGaugeCardProps> = ({
     });
   };
 
+  // Possible scores given the unanswered questions, drawn just outside the bands
+  const renderRange = () => {
+    if (!range) return null;
+    const rangeRadius = radius + strokeWidth;
+    return (
+      <motion.path
+        d={describeArc(center, center, rangeRadius, scoreToAngle(Math.max(0, range.low)), scoreToAngle(Math.min(100, range.high)))}
+        fill="none"
+        stroke="rgba(255,255,255,0.45)"
+        strokeWidth={4}
+        strokeLinecap="round"
+        strokeDasharray={lowConfidence ? '4 4' : undefined}
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.6, delay: 0.6 }}
+      />
+    );
+  };
+
   const renderNeedle = () => {
     // Match exact specifications: length = 0.86, width = 6, color = #ffffff
     const needleLength = radius * 0.86; // 0.86 as per specs
@@ -180,7 +208,7 @@ export const WriGaugeCard: React.FC<WriGaugeCardProps> = ({
           stroke={needleColor}
           strokeWidth={needleWidth}
           strokeLinecap="round"
-          opacity="1"
+          opacity={lowConfidence ? '0.55' : '1'}
         />
         {/* Needle cap - exact specifications */}
         <circle 
@@ -205,7 +233,7 @@ export const WriGaugeCard: React.FC<WriGaugeCardProps> = ({
       animate={{ opacity: 1, scale: 1 }}
       transition={{ duration: 0.5 }}
       role="img"
-      aria-label={`Wellness Risk Index gauge. Score ${clampedScore.toFixed(1)} of 100.`}
+      aria-label={`Wellness Risk Index gauge. Score ${clampedScore.toFixed(1)} of 100.${range ? ` Possible range ${range.low.toFixed(0)} to ${range.high.toFixed(0)}.` : ''}${lowConfidence ? ' Low confidence.' : ''}`}
     >
       {/* Header */}
       <div className="text-center mb-6">
@@ -240,6 +268,9 @@ export const WriGaugeCard: React.FC<WriGaugeCardProps> = ({
               {/* Colored segments */}
               {renderGaugeSegments()}
 
+              {/* Score range from imputed answers */}
+              {renderRange()}
+
               {/* Tick marks for score ranges */}
               {[0, 25, 50, 63, 75, 100].map((tickScore) => {
                 const tickAngle = scoreToAngle(tickScore);
@@ -316,9 +347,14 @@ export const WriGaugeCard: React.FC<WriGaugeCardProps> = ({
 
       {/* Value label with band indicator */}
       <div className="-mt-6 text-center">
-        <div className="text-sm md:text-base font-semibold text-slate-200/90 select-none">
-          {clampedScore.toFixed(1)}
+        <div className={`text-sm md:text-base font-semibold select-none ${lowConfidence ? 'text-slate-400' : 'text-slate-200/90'}`}>
+          {lowConfidence ? '~' : ''}{clampedScore.toFixed(1)}
         </div>
+        {range && (
+          <div className="text-xs text-slate-400 mt-1">
+            Range {range.low.toFixed(0)}–{range.high.toFixed(0)}
+          </div>
+        )}
         <div className="text-xs text-slate-400 mt-1">
           {(() => {
             const band = getBand(clampedScore);
@@ -333,6 +369,23 @@ export const WriGaugeCard: React.FC<WriGaugeCardProps> = ({
         </div>
       </div>
 
+      {/* Low-confidence notice */}
+      {lowConfidence && uncertainty && (
+        <div className="mt-4 p-3 rounded-xl bg-amber-500/10 ring-1 ring-amber-400/30 text-center">
+          <p className="text-amber-200 text-xs">
+            ⚠️ Low confidence: only {uncertainty.completeness}% of your check-in is answered, so this score is an estimate.
+          </p>
+          {onFinishCheckIn && (
+            <button
+              onClick={onFinishCheckIn}
+              className="mt-2 px-4 py-1.5 text-xs font-semibold rounded-lg bg-amber-500/80 hover:bg-amber-500 text-slate-900 transition-colors"
+            >
+              Finish check-in
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Screen reader content */}
       <div className="sr-only" aria-live="polite">WRI {clampedScore.toFixed(1)} out of 100</div>
     </motion.div>
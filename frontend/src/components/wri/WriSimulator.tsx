@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  computeWRI,
+  getScoringProfile,
+  InputName,
+  NormalizedInputs,
+  RiskBand,
+  SubscoreName
+} from '@manoday/wellness-scoring';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+interface WriSimulatorProps {
+  // Inputs of the latest check-in - every simulation starts from these
+  baseInputs: NormalizedInputs;
+  className?: string;
+}
+
+type ChoiceInput = Exclude<InputName, 'sleep_hours' | 'hobby'>;
+
+// Inputs the student can change and the values each one can take
+const CHOICES: Array<{ input: ChoiceInput; label: string; options: string[] }> = [
+  { input: 'mood', label: 'Mood', options: ['happy', 'neutral', 'sad', 'anxious', 'depressed'] },
+  { input: 'stress_level', label: 'Stress', options: ['low', 'medium', 'high'] },
+  { input: 'academic_pressure', label: 'Academic pressure', options: ['low', 'medium', 'high'] },
+  { input: 'social_support', label: 'Social support', options: ['weak', 'medium', 'strong'] },
+  { input: 'loneliness', label: 'Loneliness', options: ['hardly', 'sometimes', 'often'] },
+  { input: 'confidence', label: 'Confidence', options: ['low', 'medium', 'high'] },
+  { input: 'journal_writing', label: 'Journaling', options: ['yes', 'no'] },
+  { input: 'willingness_for_professional_support', label: 'Open to professional help', options: ['yes', 'no'] }
+];
+
+const BAND_STYLES: Record<RiskBand, string> = {
+  green: 'text-emerald-400',
+  yellow: 'text-yellow-400',
+  orange: 'text-orange-400',
+  red: 'text-red-400'
+};
+
+// The questionnaire's sleep answers - the slider widens to include a stored value outside them
+const MIN_SLEEP_HOURS = 1;
+const MAX_SLEEP_HOURS = 10;
+
+// Deltas smaller than this are rounding noise
+const MIN_VISIBLE_DELTA = 0.05;
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+
+// WRI is a risk index - going down is the improvement
+const deltaStyle = (delta: number) => (delta < 0 ? 'text-emerald-400' : delta > 0 ? 'text-red-400' : 'text-gray-400');
+
+/**
+ * What-if panel - change today's answers and see the WRI, band and recommendations recomputed
+ * with the same computeWRI the dashboard uses, with the change split by subscore
+ * Both sides get the journal bonus of the check-in's journal metrics, like the saved daily score,
+ * so the numbers match the dashboard and only the answers move the delta
+ */
+export const WriSimulator: React.FC<WriSimulatorProps> = ({ baseInputs, className = '' }) => {
+  const { t } = useLanguage();
+  const profile = getScoringProfile();
+  const [inputs, setInputs] = useState<NormalizedInputs>(baseInputs);
+
+  // Start over when the check-in itself changes
+  useEffect(() => {
+    setInputs(baseInputs);
+  }, [baseInputs]);
+
+  const base = useMemo(() => computeWRI(baseInputs, undefined, true, profile), [baseInputs, profile]);
+  const simulated = useMemo(() => computeWRI(inputs, undefined, true, profile), [inputs, profile]);
+  const sleepRange = {
+    min: Math.min(MIN_SLEEP_HOURS, Math.floor(baseInputs.sleep_hours)),
+    max: Math.max(MAX_SLEEP_HOURS, Math.ceil(baseInputs.sleep_hours))
+  };
+
+  // Each subscore moves the WRI by its change times its weight - the parts add up to the total delta
+  const contributions = (Object.keys(profile.weights) as SubscoreName[])
+    .map(name => ({ name, delta: (simulated.subscores[name] - base.subscores[name]) * profile.weights[name] * 100 }))
+    .filter(contribution => Math.abs(contribution.delta) >= MIN_VISIBLE_DELTA)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  const totalDelta = simulated.wri - base.wri;
+  const baseCodes = base.recommendations.map(recommendation => recommendation.code);
+  const changed = inputs !== baseInputs;
+
+  // A value picked here counts as answered, even if the check-in had imputed it
+  const update = (input: InputName, value: string | number) => {
+    setInputs(prev => ({
+      ...prev,
+      [input]: value,
+      imputed: prev.imputed?.filter(name => name !== input)
+    }));
+  };
+
+  return (
+    <div className={`bg-gradient-to-r from-gray-800/50 to-gray-700/50 backdrop-blur-sm rounded-2xl p-8 border border-gray-600/30 shadow-xl ${className}`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <span className="text-3xl mr-3">🧪</span>
+          <h2 className="text-2xl font-bold text-white">{t('what_if_simulator')}</h2>
+        </div>
+        <button
+          onClick={() => setInputs(baseInputs)}
+          disabled={!changed}
+          className="text-sm px-4 py-2 rounded-lg bg-gray-700/70 text-gray-200 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          {t('reset')}
+        </button>
+      </div>
+      <p className="text-gray-400 text-sm mb-6">{t('what_if_description')}</p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Controls */}
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between text-sm text-gray-300 mb-1">
+              <span>Sleep hours</span>
+              <span className="font-semibold text-white">{inputs.sleep_hours}h</span>
+            </div>
+            <input
+              type="range"
+              min={sleepRange.min}
+              max={sleepRange.max}
+              step={1}
+              value={inputs.sleep_hours}
+              onChange={(e) => update('sleep_hours', Number(e.target.value))}
+              className="w-full accent-blue-500"
+              aria-label="Sleep hours"
+            />
+          </div>
+
+          {CHOICES.map(choice => (
+            <div key={choice.input}>
+              <div className="text-sm text-gray-300 mb-1">{choice.label}</div>
+              <div className="flex flex-wrap gap-2">
+                {choice.options.map(option => {
+                  const selected = inputs[choice.input] === option;
+                  return (
+                    <button
+                      key={option}
+                      onClick={() => update(choice.input, option)}
+                      aria-pressed={selected}
+                      className={`text-xs capitalize px-3 py-1.5 rounded-lg border transition-colors ${
+                        selected
+                          ? 'bg-blue-500/30 border-blue-400 text-white'
+                          : 'bg-gray-700/40 border-gray-600 text-gray-300 hover:bg-gray-600/50'
+                      } ${baseInputs[choice.input] === option && !selected ? 'border-dashed' : ''}`}
+                    >
+                      {option}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Result */}
+        <div className="space-y-6">
+          <div className="bg-gray-900/50 rounded-xl p-6 flex items-center justify-between">
+            <div>
+              <div className="text-sm text-gray-400">{t('simulated_wri')}</div>
+              <div className="flex items-baseline space-x-3">
+                <span className={`text-4xl font-bold ${BAND_STYLES[simulated.risk_band]}`}>{simulated.wri.toFixed(1)}</span>
+                <span className={`text-lg font-semibold ${deltaStyle(totalDelta)}`}>{formatDelta(totalDelta)}</span>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {t('latest_check_in')}: {base.wri.toFixed(1)}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-sm text-gray-400">{t('band')}</div>
+              <div className={`text-xl font-bold capitalize ${BAND_STYLES[simulated.risk_band]}`}>
+                {simulated.risk_band}
+              </div>
+              {simulated.risk_band !== base.risk_band && (
+                <div className="text-xs text-gray-500 capitalize">← {base.risk_band}</div>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-semibold text-gray-300 mb-2">{t('change_by_subscore')}</div>
+            {contributions.length === 0 ? (
+              <div className="text-sm text-gray-500">{t('what_if_no_change')}</div>
+            ) : (
+              <div className="space-y-2">
+                {contributions.map(contribution => (
+                  <div key={contribution.name} className="flex items-center text-sm">
+                    <span className="w-40 text-gray-300 capitalize">{contribution.name.replace(/_/g, ' ')}</span>
+                    <div className="flex-1 h-2 bg-gray-700 rounded-full mx-3 overflow-hidden">
+                      <div
+                        className={`h-2 rounded-full ${contribution.delta < 0 ? 'bg-emerald-400' : 'bg-red-400'}`}
+                        style={{ width: `${Math.min(100, Math.abs(contribution.delta) / Math.max(...contributions.map(c => Math.abs(c.delta))) * 100)}%` }}
+                      />
+                    </div>
+                    <span className={`w-12 text-right font-semibold ${deltaStyle(contribution.delta)}`}>{formatDelta(contribution.delta)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="text-sm font-semibold text-gray-300 mb-2">{t('personalized_recommendations')}</div>
+            <ul className="space-y-1">
+              {simulated.recommendations.map(recommendation => (
+                <li key={recommendation.code} className="text-sm text-green-200 flex items-center">
+                  <span className="mr-2">•</span>
+                  {recommendation.title}
+                  {!baseCodes.includes(recommendation.code) && (
+                    <span className="ml-2 text-xs px-2 py-0.5 rounded bg-blue-500/30 text-blue-200">{t('new')}</span>
+                  )}
+                </li>
+              ))}
+              {base.recommendations
+                .filter(recommendation => !simulated.recommendations.some(candidate => candidate.code === recommendation.code))
+                .map(recommendation => (
+                  <li key={recommendation.code} className="text-sm text-gray-500 line-through">
+                    <span className="mr-2">•</span>
+                    {recommendation.title}
+                  </li>
+                ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
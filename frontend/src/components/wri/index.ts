@@ -1,5 +1,9 @@
 // WRI Component Exports
+import { DailyWriRecord, NormalizedInputs, WriUncertainty } from '@manoday/wellness-scoring';
+
 export { WriGaugeCard, getBand } from './WriGaugeCard';
+export { WriSimulator } from './WriSimulator';
+export { SubscoreTrends } from './SubscoreTrends';
 
 // Types
 export interface WriGaugeCardProps {
@@ -9,4 +13,16 @@ export interface WriGaugeCardProps {
   showLegend?: boolean;
   subtext?: string;
   className?: string;
+  uncertainty?: WriUncertainty;
+  onFinishCheckIn?: () => void;
+}
+
+export interface WriSimulatorProps {
+  baseInputs: NormalizedInputs;
+  className?: string;
+}
+
+export interface SubscoreTrendsProps {
+  records: DailyWriRecord[];
+  className?: string;
 }
@@ -6,7 +6,17 @@ export const journalConfig = {
     maxTitleLength: 100,
     maxContentLength: 10000,
     autoSaveInterval: 30000, // 30 seconds
-    paginationLimit: 10
+    paginationLimit: 10,
+    previewLength: 140,
+    // Mood tags an entry can carry - labels are the mood_tag_* translations
+    moodTags: [
+      { value: 'happy', emoji: '😊' },
+      { value: 'calm', emoji: '😌' },
+      { value: 'okay', emoji: '😐' },
+      { value: 'sad', emoji: '😢' },
+      { value: 'anxious', emoji: '😰' },
+      { value: 'angry', emoji: '😠' }
+    ]
   },
   validation: {
     minTitleLength: 1,
@@ -10,6 +10,7 @@ import {
   User
 } from 'firebase/auth';
 import { auth } from '../firebase/config';
+import { UserProfileService } from '../services/UserProfileService';
 
 interface AuthContextType {
   currentUser: User | null;
@@ -39,6 +40,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
       setCurrentUser(user);
       setLoading(false);
+      // Day keys (daily scores, journal streaks) follow the user's timezone
+      if (user?.email) {
+        UserProfileService.syncTimeZone(user.email);
+      }
     });
 
     return unsubscribe;
@@ -46,6 +46,40 @@ const translations = {
     'help_readiness': 'Help Readiness',
     'per_chat_wri': 'Per‑chat WRI',
     'daily_wri': 'Daily WRI',
+    'stale_answers_title': 'Some answers are out of date',
+    'stale_answers_description': "They are left out of today's score and will be asked again in your next chat.",
+    'update_in_chat': 'Update in chat',
+    'what_if_simulator': 'What If?',
+    'what_if_description': "Change today's answers to see how your WRI, band and recommendations would move. Nothing here is saved.",
+    'reset': 'Reset',
+    'simulated_wri': 'Simulated WRI',
+    'latest_check_in': 'Latest check-in',
+    'change_by_subscore': 'Change by subscore',
+    'what_if_no_change': 'Adjust an answer to see what drives the change.',
+    'new': 'New',
+    'your_usual': 'Your usual',
+    'unusual_day': 'Unusual day',
+    'sustained_rise': 'Sustained rise',
+    'forecast': 'Next 7 days (forecast)',
+    'forecast_interval': 'Likely range: {low}–{high}',
+    'forecast_warning': 'Early warning: at the current pace your WRI could reach the {band} band around {date} (≈{wri}). Small steps now - sleep, a break, talking to someone - can change that.',
+    'subscore_trends': 'Subscore Trends',
+    'subscore_trends_description': 'Each part of your WRI over time - higher means more strain. Tap a name in the legend to show or hide it.',
+    'subscore_trends_empty': 'Subscores appear here once a few days have been scored.',
+    'correlation_insights': 'Patterns in your history',
+    'correlation_insights_empty': 'Not enough days yet to spot patterns - keep checking in.',
+    'correlation_basis': 'Based on {with} days with and {without} days without',
+    'higher': 'higher',
+    'lower': 'lower',
+    'correlation_short_sleep': 'Your WRI is {difference} points {direction} on days with under 5 hours of sleep.',
+    'correlation_journaling': 'Your stress is {difference} points {direction} on days you journal.',
+    'correlation_high_stress': 'Your sleep score is {difference} points {direction} on high-stress days.',
+    'correlation_high_academic_pressure': 'Your WRI is {difference} points {direction} on days with high academic pressure.',
+    'correlation_often_lonely': 'Your mood score is {difference} points {direction} on days you feel lonely often.',
+    'correlation_strong_social_support': 'Your WRI is {difference} points {direction} on days you feel strongly supported.',
+    'baseline_annotation': 'Usual: {median} ({z} from your norm)',
+    'utc_day': 'Saved before your timezone was set - the date may be a day off',
+    'sustained_deterioration': 'Your WRI has been above your usual range for {days} days in a row. A check-in or a chat with someone you trust may help.',
     
     // Journal
     'my_journal': 'My Journal',
@@ -67,6 +101,17 @@ const translations = {
     'encrypted': 'Encrypted',
     'auto_clear_30min': '(Auto-clear in 30min)',
     'password_required': 'Password Required',
+    'change_journal_password': 'Change password',
+    'journal_password_changed': 'Journal password changed. Use the new password from now on.',
+    'new_recovery_code': 'New recovery code',
+    'mood_tag': 'Mood',
+    'mood_tag_happy': 'Happy',
+    'mood_tag_calm': 'Calm',
+    'mood_tag_okay': 'Okay',
+    'mood_tag_sad': 'Sad',
+    'mood_tag_anxious': 'Anxious',
+    'mood_tag_angry': 'Angry',
+    'words': 'words',
     'journal_created_success': 'Journal entry created and encrypted successfully! Your mood score will improve! 🎉',
     'journal_updated_success': 'Journal entry updated and encrypted successfully!',
     'journal_deleted_success': 'Journal entry deleted successfully!',
@@ -161,7 +206,8 @@ const translations = {
     'terms_of_service': 'Terms of Service',
     'your_privacy_is_protected': 'Your Privacy is Protected',
     'new_chat_session_started': '🆕 New Chat Session Started',
-    'previous_insights_displayed': 'Previous insights are displayed but not used for AI decisions',
+    'fresh_insights_reused': 'Recent answers are reused - outdated ones will be asked again',
+    'stored_answer_stale': 'Outdated - will be asked again',
     'wellness_insights': 'Wellness Insights',
     'stored_insights_previous_sessions': '💾 Stored Insights (Previous Sessions)',
     'type_your_message_here': 'Type your message here...',
@@ -201,6 +247,40 @@ const translations = {
     'help_readiness': 'सहायता तत्परता',
     'per_chat_wri': 'प्रति-चैट WRI',
     'daily_wri': 'दैनिक WRI',
+    'stale_answers_title': 'कुछ जवाब पुराने हो गए हैं',
+    'stale_answers_description': 'इन्हें आज के स्कोर में शामिल नहीं किया गया है और अगली चैट में फिर से पूछा जाएगा।',
+    'update_in_chat': 'चैट में अपडेट करें',
+    'what_if_simulator': 'क्या होगा अगर?',
+    'what_if_description': 'आज के जवाब बदलकर देखें कि आपका WRI, बैंड और सुझाव कैसे बदलेंगे। यहाँ कुछ भी सहेजा नहीं जाता।',
+    'reset': 'रीसेट करें',
+    'simulated_wri': 'अनुमानित WRI',
+    'latest_check_in': 'पिछला चेक-इन',
+    'change_by_subscore': 'सबस्कोर के अनुसार बदलाव',
+    'what_if_no_change': 'बदलाव किस वजह से होता है, यह देखने के लिए कोई जवाब बदलें।',
+    'new': 'नया',
+    'your_usual': 'आपका सामान्य',
+    'unusual_day': 'असामान्य दिन',
+    'sustained_rise': 'लगातार बढ़त',
+    'forecast': 'अगले 7 दिन (पूर्वानुमान)',
+    'forecast_interval': 'संभावित सीमा: {low}–{high}',
+    'forecast_warning': 'पूर्व चेतावनी: इसी रफ़्तार से आपका WRI लगभग {date} तक {band} बैंड में पहुँच सकता है (≈{wri})। अभी उठाए छोटे कदम - नींद, आराम, किसी से बात करना - इसे बदल सकते हैं।',
+    'subscore_trends': 'सबस्कोर रुझान',
+    'subscore_trends_description': 'समय के साथ आपके WRI का हर हिस्सा - अधिक का मतलब ज़्यादा दबाव। दिखाने या छिपाने के लिए लेजेंड में नाम पर टैप करें।',
+    'subscore_trends_empty': 'कुछ दिनों का स्कोर बनने के बाद सबस्कोर यहाँ दिखेंगे।',
+    'correlation_insights': 'आपके इतिहास के पैटर्न',
+    'correlation_insights_empty': 'पैटर्न पहचानने के लिए अभी पर्याप्त दिन नहीं हैं - चेक-इन करते रहें।',
+    'correlation_basis': '{with} दिनों के साथ और {without} दिनों के बिना के आधार पर',
+    'higher': 'अधिक',
+    'lower': 'कम',
+    'correlation_short_sleep': '5 घंटे से कम नींद वाले दिनों में आपका WRI {difference} अंक {direction} रहता है।',
+    'correlation_journaling': 'जिन दिनों आप जर्नल लिखते हैं, आपका तनाव {difference} अंक {direction} रहता है।',
+    'correlation_high_stress': 'अधिक तनाव वाले दिनों में आपका नींद स्कोर {difference} अंक {direction} रहता है।',
+    'correlation_high_academic_pressure': 'अधिक शैक्षणिक दबाव वाले दिनों में आपका WRI {difference} अंक {direction} रहता है।',
+    'correlation_often_lonely': 'जिन दिनों आप अक्सर अकेलापन महसूस करते हैं, आपका मूड स्कोर {difference} अंक {direction} रहता है।',
+    'correlation_strong_social_support': 'जिन दिनों आपको मज़बूत सहारा महसूस होता है, आपका WRI {difference} अंक {direction} रहता है।',
+    'baseline_annotation': 'सामान्य: {median} (आपके सामान्य से {z})',
+    'utc_day': 'आपका टाइमज़ोन सेट होने से पहले सहेजा गया - तारीख एक दिन आगे-पीछे हो सकती है',
+    'sustained_deterioration': 'आपका WRI लगातार {days} दिनों से आपकी सामान्य सीमा से ऊपर है। एक चेक-इन या किसी भरोसेमंद व्यक्ति से बात करना मदद कर सकता है।',
     
     // Journal
     'my_journal': 'मेरी डायरी',
@@ -222,6 +302,17 @@ const translations = {
     'encrypted': 'एन्क्रिप्टेड',
     'auto_clear_30min': '(30 मिनट में ऑटो-क्लियर)',
     'password_required': 'पासवर्ड आवश्यक',
+    'change_journal_password': 'पासवर्ड बदलें',
+    'journal_password_changed': 'जर्नल पासवर्ड बदल दिया गया। अब से नया पासवर्ड इस्तेमाल करें।',
+    'new_recovery_code': 'नया रिकवरी कोड',
+    'mood_tag': 'मूड',
+    'mood_tag_happy': 'खुश',
+    'mood_tag_calm': 'शांत',
+    'mood_tag_okay': 'ठीक',
+    'mood_tag_sad': 'उदास',
+    'mood_tag_anxious': 'चिंतित',
+    'mood_tag_angry': 'गुस्सा',
+    'words': 'शब्द',
     'journal_created_success': 'डायरी प्रविष्टि सफलतापूर्वक बनाई और एन्क्रिप्ट की गई! आपका मूड स्कोर सुधरेगा! 🎉',
     'journal_updated_success': 'डायरी प्रविष्टि सफलतापूर्वक अपडेट और एन्क्रिप्ट की गई!',
     'journal_deleted_success': 'डायरी प्रविष्टि सफलतापूर्वक हटाई गई!',
@@ -316,7 +407,8 @@ const translations = {
     'terms_of_service': 'सेवा की शर्तें',
     'your_privacy_is_protected': 'आपकी गोपनीयता सुरक्षित है',
     'new_chat_session_started': '🆕 नई चैट सत्र शुरू हुआ',
-    'previous_insights_displayed': 'पिछली अंतर्दृष्टि प्रदर्शित की गई है लेकिन AI निर्णयों के लिए उपयोग नहीं की जाती',
+    'fresh_insights_reused': 'हाल के जवाब दोबारा उपयोग किए जाते हैं - पुराने जवाब फिर से पूछे जाएंगे',
+    'stored_answer_stale': 'पुराना - फिर से पूछा जाएगा',
     'wellness_insights': 'कल्याण अंतर्दृष्टि',
     'stored_insights_previous_sessions': '💾 संग्रहीत अंतर्दृष्टि (पिछले सत्र)',
     'type_your_message_here': 'अपना संदेश यहाँ टाइप करें...',
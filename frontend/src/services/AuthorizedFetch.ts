@@ -0,0 +1,20 @@
+import { auth } from '../firebase/config';
+
+/**
+ * fetch() wrapper for the protected Cloud Functions.
+ * Attaches the signed-in user's Firebase ID token as a Bearer token so the
+ * backend can verify who is calling instead of trusting ids in the request.
+ */
+export async function authorizedFetch(input: RequestInfo, init: RequestInit = {}): Promise<Response> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('User must be signed in to call this endpoint');
+  }
+
+  // getIdToken() transparently refreshes the token when it is close to expiry
+  const idToken = await user.getIdToken();
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${idToken}`);
+
+  return fetch(input, { ...init, headers });
+}
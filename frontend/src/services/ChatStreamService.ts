@@ -0,0 +1,99 @@
+import { authorizedFetch } from './AuthorizedFetch';
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Read a text/event-stream response, calling onEvent for every complete event.
+ * EventSource cannot send the Authorization header, so the stream is read from fetch.
+ */
+export async function readServerSentEvents(response: Response, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (rawEvent: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    rawEvent.split(/\r?\n/).forEach((line) => {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    });
+    if (dataLines.length > 0) {
+      onEvent({ event, data: dataLines.join('\n') });
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() || '';
+    events.forEach(dispatch);
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+}
+
+/**
+ * POST a chat message to the gemini function in streaming mode.
+ * onToken receives the reply text accumulated so far; resolves with the final structured response.
+ */
+export async function streamChatReply(url: string, body: unknown, onToken: (textSoFar: string) => void): Promise<any> {
+  const response = await authorizedFetch(`${url}?stream=true`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream'
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    throw new Error('Gemini API call failed');
+  }
+
+  let textSoFar = '';
+  let finalResult: any = null;
+  let streamError: string | null = null;
+
+  await readServerSentEvents(response, ({ event, data }) => {
+    const payload = JSON.parse(data);
+    if (event === 'token') {
+      textSoFar += payload.text;
+      onToken(textSoFar);
+    } else if (event === 'reset') {
+      // The partial reply is replaced by a fallback that follows
+      textSoFar = '';
+      onToken(textSoFar);
+    } else if (event === 'done') {
+      finalResult = payload;
+    } else if (event === 'error') {
+      streamError = payload.error || 'Streaming failed';
+    }
+  });
+
+  if (streamError) {
+    throw new Error(streamError);
+  }
+  if (!finalResult) {
+    throw new Error('Stream ended before the final response');
+  }
+
+  return finalResult;
+}
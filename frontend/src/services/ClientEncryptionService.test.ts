@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import crypto, { webcrypto } from 'crypto';
+import { ClientEncryptionService } from './ClientEncryptionService';
+
+// jsdom has no WebCrypto - Node's is the same API the browser has
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+const USER = 'student@example.com';
+
+// A journal key whose recovery code is the whole alphabet in order, so it holds a 0 and a 1
+async function createWithKnownCode(password: string) {
+  const spy = jest.spyOn(webcrypto, 'getRandomValues').mockImplementation(<T extends ArrayBufferView | null>(array: T): T => {
+    const bytes = array as unknown as Uint8Array;
+    // The recovery code takes 32 random bytes - salts and IVs are shorter
+    if (bytes.length === 32) {
+      bytes.forEach((_, index) => { bytes[index] = index; });
+    } else {
+      crypto.randomFillSync(bytes);
+    }
+    return array;
+  });
+  try {
+    return await ClientEncryptionService.createJournalKey(USER, password);
+  } finally {
+    spy.mockRestore();
+  }
+}
+
+describe('ClientEncryptionService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads entries with the key unwrapped from a new journal key', async () => {
+    const { key, wrapped, recoveryCode } = await ClientEncryptionService.createJournalKey(USER, 'first password');
+    const encrypted = await ClientEncryptionService.encryptWithKey('dear diary', key);
+
+    const unwrapped = await ClientEncryptionService.unwrapJournalKey(wrapped, USER, 'first password');
+
+    expect(await ClientEncryptionService.decryptWithKey(encrypted, unwrapped)).toBe('dear diary');
+    expect(recoveryCode).toMatch(/^([0-9A-HJKMNP-TV-Z]{4}-){7}[0-9A-HJKMNP-TV-Z]{4}$/);
+    expect(key.extractable).toBe(false);
+    expect(unwrapped.extractable).toBe(false);
+  });
+
+  it('rejects a wrong password', async () => {
+    const { wrapped } = await ClientEncryptionService.createJournalKey(USER, 'first password');
+
+    await expect(ClientEncryptionService.unwrapJournalKey(wrapped, USER, 'wrong password')).rejects.toThrow('wrong password?');
+    await expect(ClientEncryptionService.unwrapJournalKey(wrapped, 'other@example.com', 'first password')).rejects.toThrow();
+    expect(await ClientEncryptionService.verifyPassword(USER, 'wrong password', wrapped)).toBe(false);
+    expect(await ClientEncryptionService.verifyPassword(USER, 'first password', wrapped)).toBe(true);
+  });
+
+  it('wraps the same key for a new password', async () => {
+    const { key, wrapped } = await ClientEncryptionService.createJournalKey(USER, 'first password');
+    const encrypted = await ClientEncryptionService.encryptWithKey('dear diary', key);
+
+    const rewrapped = await ClientEncryptionService.rewrapJournalKey(wrapped, USER, 'first password', 'second password');
+
+    const unwrapped = await ClientEncryptionService.unwrapJournalKey(rewrapped, USER, 'second password');
+    expect(await ClientEncryptionService.decryptWithKey(encrypted, unwrapped)).toBe('dear diary');
+    expect(rewrapped.recovery).toEqual(wrapped.recovery);
+    await expect(ClientEncryptionService.unwrapJournalKey(rewrapped, USER, 'first password')).rejects.toThrow();
+    await expect(ClientEncryptionService.rewrapJournalKey(wrapped, USER, 'wrong password', 'second password')).rejects.toThrow();
+  });
+
+  it('reads entries encrypted with a password-derived key of their own', async () => {
+    const encrypted = await ClientEncryptionService.encryptData('old entry', USER, 'first password');
+
+    expect(await ClientEncryptionService.decryptData(encrypted, USER, 'first password')).toBe('old entry');
+    await expect(ClientEncryptionService.decryptData(encrypted, USER, 'wrong password')).rejects.toThrow('wrong password?');
+  });
+
+  describe('recovery code', () => {
+    it('sets a new password with the code as typed back, and replaces the code', async () => {
+      const { key, wrapped, recoveryCode } = await createWithKnownCode('forgotten password');
+      expect(recoveryCode).toBe('0123-4567-89AB-CDEF-GHJK-MNPQ-RSTV-WXYZ');
+      const encrypted = await ClientEncryptionService.encryptWithKey('dear diary', key);
+      // Lower case, no dashes, and 0 and 1 read as the letters they look like
+      const typed = recoveryCode.toLowerCase().replace(/-/g, '').replace(/0/g, 'o').replace(/1/g, 'l');
+
+      const recovered = await ClientEncryptionService.recoverJournalKey(wrapped, USER, typed, 'new password');
+
+      expect(await ClientEncryptionService.decryptWithKey(encrypted, recovered.key)).toBe('dear diary');
+      const unwrapped = await ClientEncryptionService.unwrapJournalKey(recovered.wrapped, USER, 'new password');
+      expect(await ClientEncryptionService.decryptWithKey(encrypted, unwrapped)).toBe('dear diary');
+      expect(recovered.recoveryCode).not.toBe(recoveryCode);
+      await expect(ClientEncryptionService.recoverJournalKey(recovered.wrapped, USER, recoveryCode, 'other password'))
+        .rejects.toThrow('Wrong recovery code');
+      const next = await ClientEncryptionService.recoverJournalKey(recovered.wrapped, USER, recovered.recoveryCode, 'other password');
+      expect(await ClientEncryptionService.decryptWithKey(encrypted, next.key)).toBe('dear diary');
+    });
+
+    it('accepts a code with spaces and I for 1', async () => {
+      const { wrapped, recoveryCode } = await createWithKnownCode('forgotten password');
+      const typed = ` ${recoveryCode.replace(/-/g, ' ').replace(/1/g, 'I')} `;
+
+      await expect(ClientEncryptionService.recoverJournalKey(wrapped, USER, typed, 'new password')).resolves.toBeDefined();
+    });
+
+    it('stops accepting the old code once a new one is created', async () => {
+      const { wrapped, recoveryCode } = await ClientEncryptionService.createJournalKey(USER, 'password');
+
+      const created = await ClientEncryptionService.createRecoveryCode(wrapped, USER, 'password');
+
+      expect(created.wrapped.wrappedKey).toBe(wrapped.wrappedKey);
+      await expect(ClientEncryptionService.recoverJournalKey(created.wrapped, USER, recoveryCode, 'new password'))
+        .rejects.toThrow('Wrong recovery code');
+      await expect(ClientEncryptionService.recoverJournalKey(created.wrapped, USER, created.recoveryCode, 'new password'))
+        .resolves.toBeDefined();
+      await expect(ClientEncryptionService.createRecoveryCode(wrapped, USER, 'wrong password')).rejects.toThrow();
+    });
+
+    it('rejects a wrong code, and a journal without one', async () => {
+      const { wrapped, recoveryCode } = await ClientEncryptionService.createJournalKey(USER, 'password');
+      // Same length and alphabet, one character changed
+      const wrong = recoveryCode.replace(/^./, first => (first === 'A' ? 'B' : 'A'));
+
+      await expect(ClientEncryptionService.recoverJournalKey(wrapped, USER, wrong, 'new password')).rejects.toThrow('Wrong recovery code');
+      await expect(ClientEncryptionService.recoverJournalKey(wrapped, USER, recoveryCode.slice(0, -1), 'new password'))
+        .rejects.toThrow('Wrong recovery code');
+      await expect(ClientEncryptionService.recoverJournalKey(wrapped, 'other@example.com', recoveryCode, 'new password'))
+        .rejects.toThrow('Wrong recovery code');
+      const { recovery, ...withoutRecovery } = wrapped;
+      await expect(ClientEncryptionService.recoverJournalKey(withoutRecovery, USER, recoveryCode, 'new password'))
+        .rejects.toThrow('No recovery code was set up for this journal');
+    });
+  });
+});
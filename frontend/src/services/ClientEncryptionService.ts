@@ -2,6 +2,11 @@
  * Client-Side Encryption Service
  * Uses user password + Gmail ID for key derivation
  * Password NEVER reaches the server - stays in browser only
+ *
+ * Entries are encrypted with a random per-user journal key. The password only derives the key that
+ * wraps it, so PBKDF2 runs once per session instead of once per entry. Entries with their own salt
+ * were encrypted directly with a password-derived key and are moved to the journal key on unlock.
+ * A recovery code wraps the same journal key a second time, so a forgotten password can be replaced.
  */
 
 export interface EncryptedData {
@@ -10,6 +15,35 @@ export interface EncryptedData {
   salt: string;
 }
 
+// Data encrypted with the journal key - the key, not the entry, carries the salt
+export interface KeyEncryptedData {
+  encryptedData: string;
+  iv: string;
+}
+
+// A key wrapped by a key derived from the email and a secret (password or recovery code)
+export interface KeyWrap {
+  wrappedKey: string;
+  iv: string;
+  salt: string;
+  iterations: number;
+}
+
+// The journal key as stored in journal_keys/{email}, wrapped by the password-derived key
+// and, once a recovery code was set up, by the recovery code as well
+export interface WrappedJournalKey extends KeyWrap {
+  keyVersion: number;
+  recovery?: KeyWrap;
+}
+
+// Crockford base32 - no I, L, O or U to misread on paper
+const RECOVERY_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+// 160 random bits, written as 32 characters in groups of 4
+const RECOVERY_CODE_LENGTH = 32;
+
+// Stored on entries encrypted with the journal key
+export const JOURNAL_KEY_VERSION = 1;
+
 export class ClientEncryptionService {
   private static readonly ALGORITHM = 'AES-GCM';
   private static readonly KEY_LENGTH = 256;
@@ -54,6 +88,260 @@ export class ClientEncryptionService {
     return { key, salt: saltBytes };
   }
 
+  private static toBase64(bytes: ArrayBuffer | Uint8Array): string {
+    const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+    let binary = '';
+    array.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+  }
+
+  private static fromBase64(value: string): Uint8Array {
+    return new Uint8Array(atob(value).split('').map(char => char.charCodeAt(0)));
+  }
+
+  /**
+   * Derive the key that wraps the journal key from user password + Gmail ID
+   */
+  private static async deriveWrappingKey(userEmail: string, userPassword: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const passwordKey = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(userEmail + userPassword),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      {
+        name: 'PBKDF2',
+        salt,
+        iterations,
+        hash: 'SHA-256'
+      },
+      passwordKey,
+      { name: this.ALGORITHM, length: this.KEY_LENGTH },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  }
+
+  private static async unwrapWithKey(wrapped: KeyWrap, wrappingKey: CryptoKey, extractable: boolean): Promise<CryptoKey> {
+    return crypto.subtle.unwrapKey(
+      'raw',
+      this.fromBase64(wrapped.wrappedKey),
+      wrappingKey,
+      { name: this.ALGORITHM, iv: this.fromBase64(wrapped.iv) },
+      { name: this.ALGORITHM, length: this.KEY_LENGTH },
+      extractable,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Wrap an extractable journal key with a key derived from the email and a secret
+   * Returns the wrapping key as well, to unwrap a non-extractable copy without deriving again
+   */
+  private static async wrapWithSecret(journalKey: CryptoKey, userEmail: string, secret: string): Promise<{ wrap: KeyWrap; wrappingKey: CryptoKey }> {
+    const salt = crypto.getRandomValues(new Uint8Array(this.SALT_LENGTH));
+    const iv = crypto.getRandomValues(new Uint8Array(this.IV_LENGTH));
+    const wrappingKey = await this.deriveWrappingKey(userEmail, secret, salt, this.ITERATIONS);
+    const wrappedKey = await crypto.subtle.wrapKey('raw', journalKey, wrappingKey, { name: this.ALGORITHM, iv });
+
+    return {
+      wrap: {
+        wrappedKey: this.toBase64(wrappedKey),
+        iv: this.toBase64(iv),
+        salt: this.toBase64(salt),
+        iterations: this.ITERATIONS
+      },
+      wrappingKey
+    };
+  }
+
+  private static generateRecoveryCode(): string {
+    // 256 is a multiple of the 32 characters, so every character is equally likely
+    const characters = Array.from(crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_LENGTH)))
+      .map(byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+    return characters.join('').match(/.{4}/g)!.join('-');
+  }
+
+  // The code as typed back - any case, with or without dashes and spaces, O and I/L read as digits
+  private static normalizeRecoveryCode(recoveryCode: string): string {
+    const characters = recoveryCode.toUpperCase().replace(/[^0-9A-Z]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+    return characters.length === RECOVERY_CODE_LENGTH ? characters.match(/.{4}/g)!.join('-') : characters;
+  }
+
+  /**
+   * Wrap an extractable journal key with a new recovery code
+   */
+  private static async wrapForRecovery(journalKey: CryptoKey, userEmail: string): Promise<{ recovery: KeyWrap; recoveryCode: string }> {
+    const recoveryCode = this.generateRecoveryCode();
+    const { wrap } = await this.wrapWithSecret(journalKey, userEmail, recoveryCode);
+    return { recovery: wrap, recoveryCode };
+  }
+
+  /**
+   * Generate a random journal key and wrap it with user password + Gmail ID and with a new recovery code
+   * Returns the key for this session (non-extractable), its wrapped form for storage and the
+   * recovery code to show the user once
+   */
+  static async createJournalKey(userEmail: string, userPassword: string): Promise<{ key: CryptoKey; wrapped: WrappedJournalKey; recoveryCode: string }> {
+    try {
+      // Extractable only so it can be wrapped - the session gets a non-extractable copy
+      const journalKey = await crypto.subtle.generateKey(
+        { name: this.ALGORITHM, length: this.KEY_LENGTH },
+        true,
+        ['encrypt', 'decrypt']
+      );
+      const { wrap, wrappingKey } = await this.wrapWithSecret(journalKey, userEmail, userPassword);
+      const { recovery, recoveryCode } = await this.wrapForRecovery(journalKey, userEmail);
+
+      const wrapped: WrappedJournalKey = { ...wrap, keyVersion: JOURNAL_KEY_VERSION, recovery };
+      return { key: await this.unwrapWithKey(wrapped, wrappingKey, false), wrapped, recoveryCode };
+    } catch (error) {
+      console.error('Journal key creation error:', error);
+      throw new Error('Failed to create journal key');
+    }
+  }
+
+  /**
+   * Unwrap the stored journal key with user password + Gmail ID
+   * The key cannot be exported from the browser unless extractable is asked for
+   */
+  static async unwrapJournalKey(
+    wrapped: WrappedJournalKey,
+    userEmail: string,
+    userPassword: string,
+    extractable = false
+  ): Promise<CryptoKey> {
+    try {
+      const wrappingKey = await this.deriveWrappingKey(userEmail, userPassword, this.fromBase64(wrapped.salt), wrapped.iterations);
+      return await this.unwrapWithKey(wrapped, wrappingKey, extractable);
+    } catch (error) {
+      console.error('Journal key unwrap error:', error);
+      throw new Error('Failed to unlock journal - wrong password?');
+    }
+  }
+
+  /**
+   * Wrap the journal key for a new password
+   * The key stays the same, so entries encrypted with it - and the recovery code - do not change
+   */
+  static async rewrapJournalKey(
+    wrapped: WrappedJournalKey,
+    userEmail: string,
+    oldPassword: string,
+    newPassword: string
+  ): Promise<WrappedJournalKey> {
+    // Extractable only for the moment it is wrapped again
+    const journalKey = await this.unwrapJournalKey(wrapped, userEmail, oldPassword, true);
+    try {
+      const { wrap } = await this.wrapWithSecret(journalKey, userEmail, newPassword);
+      return { ...wrap, keyVersion: wrapped.keyVersion, recovery: wrapped.recovery };
+    } catch (error) {
+      console.error('Journal key rewrap error:', error);
+      throw new Error('Failed to change journal password');
+    }
+  }
+
+  /**
+   * Wrap the journal key with a new recovery code - the previous code stops working once stored
+   */
+  static async createRecoveryCode(
+    wrapped: WrappedJournalKey,
+    userEmail: string,
+    userPassword: string
+  ): Promise<{ wrapped: WrappedJournalKey; recoveryCode: string }> {
+    const journalKey = await this.unwrapJournalKey(wrapped, userEmail, userPassword, true);
+    try {
+      const { recovery, recoveryCode } = await this.wrapForRecovery(journalKey, userEmail);
+      return { wrapped: { ...wrapped, recovery }, recoveryCode };
+    } catch (error) {
+      console.error('Recovery code creation error:', error);
+      throw new Error('Failed to create recovery code');
+    }
+  }
+
+  /**
+   * Unwrap the journal key with the recovery code and wrap it for a new password
+   * The used code is replaced by a new one, returned to show the user once
+   */
+  static async recoverJournalKey(
+    wrapped: WrappedJournalKey,
+    userEmail: string,
+    recoveryCode: string,
+    newPassword: string
+  ): Promise<{ key: CryptoKey; wrapped: WrappedJournalKey; recoveryCode: string }> {
+    if (!wrapped.recovery) {
+      throw new Error('No recovery code was set up for this journal');
+    }
+
+    let journalKey: CryptoKey;
+    try {
+      const recovery = wrapped.recovery;
+      const recoveryKey = await this.deriveWrappingKey(
+        userEmail,
+        this.normalizeRecoveryCode(recoveryCode),
+        this.fromBase64(recovery.salt),
+        recovery.iterations
+      );
+      journalKey = await this.unwrapWithKey(recovery, recoveryKey, true);
+    } catch (error) {
+      console.error('Recovery code unwrap error:', error);
+      throw new Error('Wrong recovery code');
+    }
+
+    try {
+      const { wrap, wrappingKey } = await this.wrapWithSecret(journalKey, userEmail, newPassword);
+      const next = await this.wrapForRecovery(journalKey, userEmail);
+      const rewrapped: WrappedJournalKey = { ...wrap, keyVersion: wrapped.keyVersion, recovery: next.recovery };
+      return { key: await this.unwrapWithKey(rewrapped, wrappingKey, false), wrapped: rewrapped, recoveryCode: next.recoveryCode };
+    } catch (error) {
+      console.error('Journal key recovery error:', error);
+      throw new Error('Failed to set the new journal password');
+    }
+  }
+
+  /**
+   * Encrypt data with the unlocked journal key
+   */
+  static async encryptWithKey(data: string, key: CryptoKey): Promise<KeyEncryptedData> {
+    try {
+      const iv = crypto.getRandomValues(new Uint8Array(this.IV_LENGTH));
+      const encryptedData = await crypto.subtle.encrypt(
+        { name: this.ALGORITHM, iv },
+        key,
+        new TextEncoder().encode(data)
+      );
+
+      return {
+        encryptedData: this.toBase64(encryptedData),
+        iv: this.toBase64(iv)
+      };
+    } catch (error) {
+      console.error('Client encryption error:', error);
+      throw new Error('Failed to encrypt data');
+    }
+  }
+
+  /**
+   * Decrypt data encrypted with the journal key
+   */
+  static async decryptWithKey(encryptedData: KeyEncryptedData, key: CryptoKey): Promise<string> {
+    try {
+      const decryptedData = await crypto.subtle.decrypt(
+        { name: this.ALGORITHM, iv: this.fromBase64(encryptedData.iv) },
+        key,
+        this.fromBase64(encryptedData.encryptedData)
+      );
+
+      return new TextDecoder().decode(decryptedData);
+    } catch (error) {
+      console.error('Client decryption error:', error);
+      throw new Error('Failed to decrypt data');
+    }
+  }
+
   /**
    * Encrypt data using user password + Gmail ID
    * Returns encrypted data, IV, and salt for storage
@@ -143,15 +431,19 @@ export class ClientEncryptionService {
 
   /**
    * Verify if a password is correct for a user
-   * This is done by attempting to decrypt a known piece of data
+   * This is done by attempting to decrypt a known piece of data, or to unwrap the journal key
    */
   static async verifyPassword(
     userEmail: string,
     userPassword: string,
-    testEncryptedData: EncryptedData
+    testEncryptedData: EncryptedData | WrappedJournalKey
   ): Promise<boolean> {
     try {
-      await this.decryptData(testEncryptedData, userEmail, userPassword);
+      if ('wrappedKey' in testEncryptedData) {
+        await this.unwrapJournalKey(testEncryptedData, userEmail, userPassword);
+      } else {
+        await this.decryptData(testEncryptedData, userEmail, userPassword);
+      }
       return true;
     } catch (error) {
       return false;
@@ -0,0 +1,211 @@
+/**
+ * @jest-environment node
+ */
+import { webcrypto } from 'crypto';
+import { ClientEncryptionService, WrappedJournalKey } from './ClientEncryptionService';
+import { JournalService } from './JournalService';
+import { JournalEntry } from '../types/JournalTypes';
+
+// jsdom has no WebCrypto - Node's is the same API the browser has
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+const USER = 'student@example.com';
+
+// The journal function's actions the service calls, kept in memory
+// Saving entries can be made to fail after a number of saves, to stop a run part way through
+class FakeJournalApi {
+  key: WrappedJournalKey | null = null;
+  entries = new Map<string, Partial<JournalEntry>>();
+  savesLeft = Infinity;
+
+  async handle(input: RequestInfo, init: RequestInit = {}): Promise<Response> {
+    const action = new URL(String(input)).searchParams.get('action');
+    const request = JSON.parse(String(init.body ?? '{}'));
+    const { userId, ...body } = request;
+
+    switch (action) {
+      case 'getKey':
+        return this.respond({ success: true, data: this.key });
+      case 'createKey':
+        if (this.key) {
+          return this.respond({ success: false, error: 'Journal key already exists' }, 409);
+        }
+        this.key = body;
+        return this.respond({ success: true });
+      case 'updateKey': {
+        const { previousWrappedKey, ...wrapped } = body;
+        if (this.key?.wrappedKey !== previousWrappedKey) {
+          return this.respond({ success: false, error: 'Journal key changed - unlock the journal again' }, 409);
+        }
+        this.key = wrapped;
+        return this.respond({ success: true });
+      }
+      case 'list': {
+        const journals = [...this.entries.values()].slice(body.offset, body.offset + body.limit);
+        return this.respond({ success: true, data: { journals, total: this.entries.size, limit: body.limit, offset: body.offset } });
+      }
+      case 'read':
+        return this.respond({ success: true, data: this.entries.get(body.journalId) });
+      case 'update': {
+        if (this.savesLeft <= 0) {
+          throw new Error('Network error');
+        }
+        this.savesLeft--;
+        // Re-encrypting with the journal key drops the per-entry salt, like the function does
+        const { journalId, reencrypt, salt, ...encrypted } = body;
+        this.entries.set(journalId, { id: journalId, ...encrypted });
+        return this.respond({ success: true });
+      }
+      default:
+        return this.respond({ success: false, error: `Unknown action ${action}` }, 400);
+    }
+  }
+
+  private respond(data: unknown, status = 200): Promise<Response> {
+    return Promise.resolve({ status, json: async () => data } as Response);
+  }
+}
+
+const mockApi = new FakeJournalApi();
+
+jest.mock('./AuthorizedFetch', () => ({
+  authorizedFetch: (input: RequestInfo, init?: RequestInit) => mockApi.handle(input, init)
+}));
+
+// An entry from before the journal key, encrypted with a key derived from the password itself
+async function storeLegacyEntry(id: string, title: string, password: string) {
+  const encrypted = await ClientEncryptionService.encryptData(JSON.stringify({ title, content: `${title} content` }), USER, password);
+  mockApi.entries.set(id, { id, isEncrypted: true, ...encrypted });
+}
+
+// Titles of the stored entries, opened the way each is stored - with the key or with the password
+async function readAll(key: CryptoKey, password: string): Promise<string[]> {
+  return Promise.all([...mockApi.entries.values()].map(async entry => {
+    const data = entry.keyVersion
+      ? await ClientEncryptionService.decryptWithKey({ encryptedData: entry.encryptedData!, iv: entry.iv! }, key)
+      : await ClientEncryptionService.decryptData({ encryptedData: entry.encryptedData!, iv: entry.iv!, salt: entry.salt! }, USER, password);
+    return JSON.parse(data).title;
+  }));
+}
+
+describe('JournalService', () => {
+  let service: JournalService;
+
+  beforeEach(() => {
+    mockApi.key = null;
+    mockApi.entries.clear();
+    mockApi.savesLeft = Infinity;
+    service = new JournalService();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sets the journal key up and moves the salted entries to it', async () => {
+    await storeLegacyEntry('e1', 'First', 'password');
+    await storeLegacyEntry('e2', 'Second', 'password');
+
+    const unlocked = await service.unlockJournal(USER, 'password');
+    expect(unlocked.success).toBe(true);
+    expect(unlocked.recoveryCode).toBeDefined();
+
+    const result = await service.migrateLegacyEntries(USER, 'password', unlocked.key!);
+    expect(result).toEqual({ migrated: 2, failed: 0, unsaved: 0 });
+
+    for (const [id, title] of [['e1', 'First'], ['e2', 'Second']]) {
+      expect(mockApi.entries.get(id)?.salt).toBeUndefined();
+      expect(mockApi.entries.get(id)?.keyVersion).toBe(1);
+      const read = await service.readJournalEncrypted(id, USER, unlocked.key!);
+      expect(read.data).toEqual({ title, content: `${title} content`, mood: null });
+    }
+    // Nothing is left to move
+    expect(await service.migrateLegacyEntries(USER, 'password', unlocked.key!)).toEqual({ migrated: 0, failed: 0, unsaved: 0 });
+  });
+
+  it('does not set the journal key up while a salted entry does not open with the password', async () => {
+    await storeLegacyEntry('e1', 'First', 'password');
+    await storeLegacyEntry('e2', 'Second', 'older password');
+
+    const unlocked = await service.unlockJournal(USER, 'password');
+
+    expect(unlocked.success).toBe(false);
+    expect(unlocked.error).toMatch(/^1 older journal entries/);
+    expect(mockApi.key).toBeNull();
+    expect(await service.unlockJournal(USER, 'wrong password')).toEqual({ success: false, error: 'Wrong journal password' });
+  });
+
+  it('unlocks with the stored key and rejects a wrong password', async () => {
+    await service.unlockJournal(USER, 'password');
+
+    const unlocked = await service.unlockJournal(USER, 'password');
+
+    expect(unlocked.success).toBe(true);
+    expect(unlocked.recoveryCode).toBeUndefined();
+    expect(await service.unlockJournal(USER, 'wrong password')).toEqual({ success: false, error: 'Wrong journal password' });
+  });
+
+  it('leaves every entry readable when a password change is interrupted, and finishes it when run again', async () => {
+    const titles = Array.from({ length: 12 }, (_, index) => `Entry ${index}`);
+    for (const [index, title] of titles.entries()) {
+      await storeLegacyEntry(`e${index}`, title, 'old password');
+    }
+    const { key } = await service.unlockJournal(USER, 'old password');
+
+    // Only part of the first batch is saved before the connection drops
+    mockApi.savesLeft = 4;
+    const interrupted = await service.changePassword(USER, 'old password', 'new password');
+
+    expect(interrupted.success).toBe(false);
+    expect(interrupted.error).toMatch(/^8 entries could not be saved/);
+    expect([...mockApi.entries.values()].filter(entry => entry.keyVersion)).toHaveLength(4);
+    expect((await readAll(key!, 'old password')).sort()).toEqual([...titles].sort());
+    // The key is still wrapped for the old password
+    expect((await service.unlockJournal(USER, 'new password')).success).toBe(false);
+
+    mockApi.savesLeft = Infinity;
+    const retried = await service.changePassword(USER, 'old password', 'new password');
+
+    expect(retried.success).toBe(true);
+    expect([...mockApi.entries.values()].every(entry => entry.keyVersion && !entry.salt)).toBe(true);
+    const unlocked = await service.unlockJournal(USER, 'new password');
+    expect(unlocked.success).toBe(true);
+    expect((await readAll(unlocked.key!, 'new password')).sort()).toEqual([...titles].sort());
+    expect((await service.unlockJournal(USER, 'old password')).success).toBe(false);
+  });
+
+  it('does not store a key wrapped from one another device has replaced since', async () => {
+    await service.unlockJournal(USER, 'old password');
+    const otherDevice = await ClientEncryptionService.rewrapJournalKey(mockApi.key!, USER, 'old password', 'other device password');
+    const handle = mockApi.handle.bind(mockApi);
+    jest.spyOn(mockApi, 'handle').mockImplementation(async (input, init) => {
+      // The other device stores its change between this one reading the key and writing it back
+      if (String(input).endsWith('action=updateKey')) {
+        mockApi.key = otherDevice;
+      }
+      return handle(input, init);
+    });
+
+    const changed = await service.changePassword(USER, 'old password', 'new password');
+
+    expect(changed).toEqual({ success: false, error: 'The journal key was changed on another device - unlock the journal again' });
+    expect(mockApi.key).toBe(otherDevice);
+  });
+
+  it('stores the new code so the used or replaced one stops working', async () => {
+    const { recoveryCode: first } = await service.unlockJournal(USER, 'password');
+
+    const regenerated = await service.regenerateRecoveryCode(USER, 'password');
+    expect(regenerated.success).toBe(true);
+    expect(await service.recoverWithCode(USER, first!, 'new password')).toEqual({ success: false, error: 'Wrong recovery code' });
+
+    const recovered = await service.recoverWithCode(USER, regenerated.recoveryCode!.toLowerCase(), 'new password');
+    expect(recovered.success).toBe(true);
+    expect((await service.unlockJournal(USER, 'new password')).success).toBe(true);
+    expect((await service.unlockJournal(USER, 'password')).success).toBe(false);
+    expect(await service.recoverWithCode(USER, regenerated.recoveryCode!, 'other password')).toEqual({ success: false, error: 'Wrong recovery code' });
+    expect((await service.recoverWithCode(USER, recovered.recoveryCode!, 'other password')).success).toBe(true);
+  });
+});
@@ -9,10 +9,32 @@ import {
   DeleteJournalResponse,
   ListJournalsResponse,
   ReadJournalResponse,
-  JournalResponse
+  JournalResponse,
+  JournalEntry,
+  JournalKeyResponse,
+  LegacyMigrationResult,
+  MigrationProgress,
+  JournalContent,
+  JournalMetadata
 } from '../types/JournalTypes';
 import { journalConfig } from '../config/journalConfig';
-import { ClientEncryptionService, EncryptedData } from './ClientEncryptionService';
+import { ClientEncryptionService, EncryptedData, JOURNAL_KEY_VERSION, WrappedJournalKey } from './ClientEncryptionService';
+import { authorizedFetch } from './AuthorizedFetch';
+
+// Page size when every entry is needed (journal key setup and migration)
+const LIST_PAGE_SIZE = 50;
+// Entries re-encrypted at the same time
+const MIGRATION_BATCH_SIZE = 10;
+
+// List metadata of an entry - everything in it is encrypted along with the entry
+function buildMetadata(entry: JournalContent): JournalMetadata {
+  return {
+    title: entry.title,
+    preview: entry.content.slice(0, journalConfig.ui.previewLength),
+    mood: entry.mood ?? null,
+    wordCount: entry.content.trim().split(/\s+/).filter(Boolean).length
+  };
+}
 
 export class JournalService {
   private baseUrl: string;
@@ -21,38 +43,322 @@ export class JournalService {
     this.baseUrl = journalConfig.api.baseUrl;
   }
 
+  /**
+   * Read the user's wrapped journal key (null data before the journal password is set up)
+   */
+  async getJournalKey(userId: string): Promise<JournalKeyResponse> {
+    try {
+      const response = await authorizedFetch(`${this.baseUrl}?action=getKey`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ userId })
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('🔐 JournalService: Error reading journal key:', error);
+      return {
+        success: false,
+        error: 'Failed to read journal key'
+      };
+    }
+  }
+
+  /**
+   * Unwrap the journal key with the password, or create and store it on first setup
+   * This is the only key derivation of the session - entries are then read with the returned key.
+   * On first setup the recovery code is returned as well, to be shown once.
+   */
+  async unlockJournal(
+    userId: string,
+    userPassword: string
+  ): Promise<{ success: boolean; key?: CryptoKey; recoveryCode?: string; error?: string }> {
+    try {
+      const stored = await this.getJournalKey(userId);
+      if (!stored.success) {
+        return { success: false, error: stored.error };
+      }
+
+      if (stored.data) {
+        try {
+          const key = await ClientEncryptionService.unwrapJournalKey(stored.data, userId, userPassword);
+          return { success: true, key };
+        } catch (error) {
+          return { success: false, error: 'Wrong journal password' };
+        }
+      }
+
+      // First setup - every entry from before the journal key must open with this password before
+      // the key is created and entries are rewritten, otherwise the ones that do not would be left
+      // behind in a format the key cannot read
+      const legacyEntries = (await this.listAllJournals(userId)).filter(journal => journal.salt);
+      let unopened = 0;
+      for (const journal of legacyEntries) {
+        if (!(await ClientEncryptionService.verifyPassword(userId, userPassword, journal as EncryptedData))) {
+          unopened++;
+        }
+      }
+      if (unopened > 0) {
+        return {
+          success: false,
+          error: unopened === legacyEntries.length
+            ? 'Wrong journal password'
+            : `${unopened} older journal entries do not open with this password - enter the password they were written with, or delete them first`
+        };
+      }
+
+      const { key, wrapped, recoveryCode } = await ClientEncryptionService.createJournalKey(userId, userPassword);
+      const response = await authorizedFetch(`${this.baseUrl}?action=createKey`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...wrapped, userId })
+      });
+
+      if (response.status === 409) {
+        // Another device set the key up first - unwrap that one instead
+        return this.unlockJournal(userId, userPassword);
+      }
+      const data = await response.json();
+      if (!data.success) {
+        return { success: false, error: data.error || 'Failed to set up journal key' };
+      }
+
+      console.log('🔐 JournalService: Journal key created');
+      return { success: true, key, recoveryCode };
+    } catch (error) {
+      console.error('🔐 JournalService: Error unlocking journal:', error);
+      return {
+        success: false,
+        error: 'Failed to unlock journal'
+      };
+    }
+  }
+
+  /**
+   * Re-encrypt entries from before the journal key (per-entry salt, or the old server-side format)
+   * with the key, a batch at a time, and add the list metadata to journal key entries written
+   * without it. Each entry is rewritten on its own, so an interrupted run leaves every entry in
+   * either its old or its new format, and the next unlock picks up the rest.
+   * Entries the password does not open are skipped and counted as failed - unlockJournal checks every
+   * one before the key is set up, so these are only left from journals moved before that check.
+   */
+  async migrateLegacyEntries(
+    userId: string,
+    userPassword: string,
+    key: CryptoKey,
+    onProgress?: (progress: MigrationProgress) => void
+  ): Promise<LegacyMigrationResult> {
+    const result: LegacyMigrationResult = { migrated: 0, failed: 0, unsaved: 0 };
+    const legacyEntries = (await this.listAllJournals(userId))
+      .filter(journal => (!journal.keyVersion || !journal.encryptedMetadata) && journal.encryptedData && journal.iv);
+
+    for (let start = 0; start < legacyEntries.length; start += MIGRATION_BATCH_SIZE) {
+      const batch = legacyEntries.slice(start, start + MIGRATION_BATCH_SIZE);
+      await Promise.all(batch.map(async journal => {
+        let entry: JournalContent;
+        try {
+          const decryptedData = journal.keyVersion
+            ? await ClientEncryptionService.decryptWithKey({ encryptedData: journal.encryptedData!, iv: journal.iv! }, key)
+            : journal.salt
+              ? await ClientEncryptionService.decryptData(journal as EncryptedData, userId, userPassword)
+              : await ClientEncryptionService.decryptOldFormatData(journal.encryptedData!, journal.iv!, userId);
+          entry = JSON.parse(decryptedData);
+        } catch (error) {
+          console.error('🔐 JournalService: Journal entry does not open with this password:', journal.id);
+          result.failed++;
+          return;
+        }
+
+        try {
+          const response = await this.saveWithKey(journal.id, entry, userId, key, true);
+          if (response.success) {
+            result.migrated++;
+          } else {
+            result.unsaved++;
+          }
+        } catch (error) {
+          console.error('🔐 JournalService: Failed to save migrated journal entry:', journal.id, error);
+          result.unsaved++;
+        }
+      }));
+      onProgress?.({ done: Math.min(start + MIGRATION_BATCH_SIZE, legacyEntries.length), total: legacyEntries.length });
+    }
+
+    if (legacyEntries.length > 0) {
+      console.log('🔐 JournalService: Legacy entries moved to the journal key:', result);
+    }
+    return result;
+  }
+
+  /**
+   * Change the journal password
+   * Entries still encrypted with the old password itself are moved to the journal key first - an
+   * interrupted run leaves them readable with the old password and running it again continues where
+   * it stopped. The journal key is then wrapped for the new password in a single write, so the
+   * entries encrypted with it stay as they are.
+   */
+  async changePassword(
+    userId: string,
+    oldPassword: string,
+    newPassword: string,
+    onProgress?: (progress: MigrationProgress) => void
+  ): Promise<{ success: boolean; key?: CryptoKey; error?: string }> {
+    try {
+      const stored = await this.getJournalKey(userId);
+      if (!stored.success) {
+        return { success: false, error: stored.error };
+      }
+
+      if (stored.data && !(await ClientEncryptionService.verifyPassword(userId, oldPassword, stored.data))) {
+        return { success: false, error: 'Current journal password is wrong' };
+      }
+
+      // Sets the journal key up with the old password if there is none yet - after checking it
+      // against every entry encrypted with it
+      const unlocked = await this.unlockJournal(userId, oldPassword);
+      if (!unlocked.success || !unlocked.key) {
+        return { success: false, error: unlocked.error };
+      }
+
+      const migration = await this.migrateLegacyEntries(userId, oldPassword, unlocked.key, onProgress);
+      if (migration.unsaved > 0) {
+        // Re-wrapping now would leave these entries needing a password that no longer unlocks anything
+        return {
+          success: false,
+          error: `${migration.unsaved} entries could not be saved - try again to continue where it stopped`
+        };
+      }
+
+      const current = await this.getJournalKey(userId);
+      if (!current.success || !current.data) {
+        return { success: false, error: current.error || 'Failed to read journal key' };
+      }
+      const wrapped = await ClientEncryptionService.rewrapJournalKey(current.data, userId, oldPassword, newPassword);
+
+      const updated = await this.updateJournalKey(userId, wrapped, current.data.wrappedKey);
+      if (!updated.success) {
+        return { success: false, error: updated.error || 'Failed to change journal password' };
+      }
+
+      console.log('🔐 JournalService: Journal password changed');
+      return { success: true, key: unlocked.key };
+    } catch (error) {
+      console.error('🔐 JournalService: Error changing journal password:', error);
+      return {
+        success: false,
+        error: 'Failed to change journal password'
+      };
+    }
+  }
+
+  /**
+   * Replace the recovery code with a new one - the old code stops working
+   */
+  async regenerateRecoveryCode(
+    userId: string,
+    userPassword: string
+  ): Promise<{ success: boolean; recoveryCode?: string; error?: string }> {
+    try {
+      const stored = await this.getJournalKey(userId);
+      if (!stored.success || !stored.data) {
+        return { success: false, error: stored.error || 'Set up a journal password first' };
+      }
+
+      let created: { wrapped: WrappedJournalKey; recoveryCode: string };
+      try {
+        created = await ClientEncryptionService.createRecoveryCode(stored.data, userId, userPassword);
+      } catch (error) {
+        return { success: false, error: 'Wrong journal password' };
+      }
+
+      const updated = await this.updateJournalKey(userId, created.wrapped, stored.data.wrappedKey);
+      if (!updated.success) {
+        return { success: false, error: updated.error || 'Failed to create recovery code' };
+      }
+
+      console.log('🔐 JournalService: Recovery code replaced');
+      return { success: true, recoveryCode: created.recoveryCode };
+    } catch (error) {
+      console.error('🔐 JournalService: Error creating recovery code:', error);
+      return {
+        success: false,
+        error: 'Failed to create recovery code'
+      };
+    }
+  }
+
+  /**
+   * Set a new journal password with the recovery code
+   * Both secrets stay in the browser; the used code is replaced by a new one, returned to be shown once.
+   * Entries still encrypted with the forgotten password itself cannot be recovered this way.
+   */
+  async recoverWithCode(
+    userId: string,
+    recoveryCode: string,
+    newPassword: string
+  ): Promise<{ success: boolean; key?: CryptoKey; recoveryCode?: string; error?: string }> {
+    try {
+      const stored = await this.getJournalKey(userId);
+      if (!stored.success) {
+        return { success: false, error: stored.error };
+      }
+      if (!stored.data?.recovery) {
+        return { success: false, error: 'No recovery code was set up for this journal' };
+      }
+
+      let recovered: { key: CryptoKey; wrapped: WrappedJournalKey; recoveryCode: string };
+      try {
+        recovered = await ClientEncryptionService.recoverJournalKey(stored.data, userId, recoveryCode, newPassword);
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Wrong recovery code' };
+      }
+
+      const updated = await this.updateJournalKey(userId, recovered.wrapped, stored.data.wrappedKey);
+      if (!updated.success) {
+        return { success: false, error: updated.error || 'Failed to set the new journal password' };
+      }
+
+      console.log('🔐 JournalService: Journal password reset with recovery code');
+      return { success: true, key: recovered.key, recoveryCode: recovered.recoveryCode };
+    } catch (error) {
+      console.error('🔐 JournalService: Error recovering journal:', error);
+      return {
+        success: false,
+        error: 'Failed to recover journal'
+      };
+    }
+  }
+
   /**
    * Create a new journal entry with client-side encryption
-   * Password is never sent to server
+   * Password is never sent to server - the entry is encrypted with the unlocked journal key
    */
   async createJournalEncrypted(
     title: string,
     content: string,
     userId: string,
-    userPassword: string
+    key: CryptoKey,
+    mood: string | null = null
   ): Promise<CreateJournalResponse> {
     try {
       console.log('🔐 JournalService: Creating encrypted journal entry');
 
       // Encrypt the data client-side
-      const encryptedData = await ClientEncryptionService.encryptData(
-        JSON.stringify({ title, content }),
-        userId,
-        userPassword
-      );
+      const encryptedEntry = await this.encryptEntry({ title, content, mood }, key);
 
       console.log('🔐 JournalService: Data encrypted, sending to server');
 
-      const response = await fetch(`${this.baseUrl}?action=create`, {
+      const response = await authorizedFetch(`${this.baseUrl}?action=create`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': userId
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          encryptedData: encryptedData.encryptedData,
-          iv: encryptedData.iv,
-          salt: encryptedData.salt,
+          ...encryptedEntry,
           userId: userId
         })
       });
@@ -77,17 +383,16 @@ export class JournalService {
   async readJournalEncrypted(
     journalId: string,
     userId: string,
-    userPassword: string
-  ): Promise<{ success: boolean; data?: { title: string; content: string }; error?: string }> {
+    key: CryptoKey
+  ): Promise<{ success: boolean; data?: JournalContent; error?: string }> {
     try {
       console.log('🔐 JournalService: Reading encrypted journal entry');
 
       // Get encrypted data from server
-      const response = await fetch(`${this.baseUrl}?action=read`, {
+      const response = await authorizedFetch(`${this.baseUrl}?action=read`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': userId
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           journalId: journalId,
@@ -101,29 +406,27 @@ export class JournalService {
         return { success: false, error: serverData.error };
       }
 
-      // Check if this is old format (server-side encrypted) or new format (client-side encrypted)
-      if (serverData.data.salt) {
-        // New format - client-side encrypted with salt
-        console.log('🔐 Using new client-side decryption method');
-        const encryptedData: EncryptedData = {
-          encryptedData: serverData.data.encryptedData,
-          iv: serverData.data.iv,
-          salt: serverData.data.salt
-        };
-
-        const decryptedData = await ClientEncryptionService.decryptData(
-          encryptedData,
-          userId,
-          userPassword
+      // Check the format: journal key, per-entry password key, or old server-side encryption
+      if (serverData.data.keyVersion) {
+        const decryptedData = await ClientEncryptionService.decryptWithKey(
+          { encryptedData: serverData.data.encryptedData, iv: serverData.data.iv },
+          key
         );
 
-        const { title, content } = JSON.parse(decryptedData);
+        const { title, content, mood } = JSON.parse(decryptedData);
 
-        console.log('🔐 JournalService: Journal decrypted successfully (new format)');
+        console.log('🔐 JournalService: Journal decrypted successfully');
 
         return {
           success: true,
-          data: { title, content }
+          data: { title, content, mood: mood ?? null }
+        };
+      } else if (serverData.data.salt) {
+        // Per-entry password key - needs the password, which is only at hand while unlocking
+        console.log('🔐 Entry not moved to the journal key yet');
+        return {
+          success: false,
+          error: 'This entry has not been moved to your journal key yet - unlock the journal again to open it'
         };
       } else if (serverData.data.encryptedData && serverData.data.iv) {
         // Old format - server-side encrypted, decrypt client-side
@@ -177,34 +480,13 @@ export class JournalService {
     title: string,
     content: string,
     userId: string,
-    userPassword: string
+    key: CryptoKey,
+    mood: string | null = null
   ): Promise<UpdateJournalResponse> {
     try {
       console.log('🔐 JournalService: Updating encrypted journal entry');
 
-      // Encrypt the data client-side
-      const encryptedData = await ClientEncryptionService.encryptData(
-        JSON.stringify({ title, content }),
-        userId,
-        userPassword
-      );
-
-      const response = await fetch(`${this.baseUrl}?action=update`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': userId
-        },
-        body: JSON.stringify({
-          journalId: journalId,
-          encryptedData: encryptedData.encryptedData,
-          iv: encryptedData.iv,
-          salt: encryptedData.salt,
-          userId: userId
-        })
-      });
-
-      const data = await response.json();
+      const data = await this.saveWithKey(journalId, { title, content, mood }, userId, key);
       console.log('🔐 JournalService: Encrypted journal updated:', data);
       
       return data;
@@ -217,6 +499,120 @@ export class JournalService {
     }
   }
 
+  /**
+   * Store the journal key wrapped anew, unless the stored one changed since it was read
+   */
+  private async updateJournalKey(
+    userId: string,
+    wrapped: WrappedJournalKey,
+    previousWrappedKey: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const response = await authorizedFetch(`${this.baseUrl}?action=updateKey`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ ...wrapped, previousWrappedKey, userId })
+    });
+
+    if (response.status === 409) {
+      return { success: false, error: 'The journal key was changed on another device - unlock the journal again' };
+    }
+    return response.json();
+  }
+
+  /**
+   * Decrypt the list metadata of the entries that have it, all at once with the unlocked key
+   * Returns the metadata by entry id; entries without (or with unreadable) metadata are left out
+   */
+  async decryptMetadata(journals: JournalEntry[], key: CryptoKey): Promise<Record<string, JournalMetadata>> {
+    const decrypted = await Promise.all(journals.map(async journal => {
+      if (!journal.keyVersion || !journal.encryptedMetadata || !journal.metadataIv) {
+        return null;
+      }
+      try {
+        const metadata: JournalMetadata = JSON.parse(await ClientEncryptionService.decryptWithKey(
+          { encryptedData: journal.encryptedMetadata, iv: journal.metadataIv },
+          key
+        ));
+        return { id: journal.id, metadata };
+      } catch (error) {
+        console.error('🔐 JournalService: Failed to decrypt journal metadata:', journal.id);
+        return null;
+      }
+    }));
+
+    return decrypted.reduce<Record<string, JournalMetadata>>((byId, item) => {
+      if (item) {
+        byId[item.id] = item.metadata;
+      }
+      return byId;
+    }, {});
+  }
+
+  /**
+   * Encrypt an entry and its list metadata with the journal key - the fields the server stores
+   */
+  private async encryptEntry(entry: JournalContent, key: CryptoKey): Promise<{
+    encryptedData: string;
+    iv: string;
+    keyVersion: number;
+    encryptedMetadata: string;
+    metadataIv: string;
+  }> {
+    const encryptedData = await ClientEncryptionService.encryptWithKey(JSON.stringify(entry), key);
+    const encryptedMetadata = await ClientEncryptionService.encryptWithKey(JSON.stringify(buildMetadata(entry)), key);
+
+    return {
+      encryptedData: encryptedData.encryptedData,
+      iv: encryptedData.iv,
+      keyVersion: JOURNAL_KEY_VERSION,
+      encryptedMetadata: encryptedMetadata.encryptedData,
+      metadataIv: encryptedMetadata.iv
+    };
+  }
+
+  /**
+   * Encrypt an entry's data with the journal key and store it over the entry
+   * A re-encryption of unchanged content leaves the entry's updatedAt alone
+   */
+  private async saveWithKey(journalId: string, entry: JournalContent, userId: string, key: CryptoKey, reencrypt = false): Promise<UpdateJournalResponse> {
+    const encryptedEntry = await this.encryptEntry(entry, key);
+
+    const response = await authorizedFetch(`${this.baseUrl}?action=update`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        journalId: journalId,
+        ...encryptedEntry,
+        reencrypt,
+        userId: userId
+      })
+    });
+
+    return response.json();
+  }
+
+  /**
+   * All of the user's entries, a page at a time
+   */
+  private async listAllJournals(userId: string): Promise<JournalEntry[]> {
+    const limit = LIST_PAGE_SIZE;
+    const journals: JournalEntry[] = [];
+    for (let offset = 0; ; offset += limit) {
+      const response = await this.listJournals({ userId, limit, offset });
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to list journal entries');
+      }
+      journals.push(...response.data.journals);
+      if (response.data.journals.length < limit) {
+        return journals;
+      }
+    }
+  }
+
   /**
    * Create a new journal entry
    */
@@ -227,11 +623,10 @@ export class JournalService {
         request: request
       });
 
-      const response = await fetch(`${this.baseUrl}?action=create`, {
+      const response = await authorizedFetch(`${this.baseUrl}?action=create`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': request.userId
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           title: request.title,
@@ -261,11 +656,10 @@ export class JournalService {
    */
   async readJournal(request: ReadJournalRequest): Promise<ReadJournalResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}?action=read`, {
+      const response = await authorizedFetch(`${this.baseUrl}?action=read`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': request.userId
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           journalId: request.journalId,
@@ -289,11 +683,10 @@ export class JournalService {
    */
   async updateJournal(request: UpdateJournalRequest): Promise<UpdateJournalResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}?action=update`, {
+      const response = await authorizedFetch(`${this.baseUrl}?action=update`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': request.userId
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           journalId: request.journalId,
@@ -319,11 +712,10 @@ export class JournalService {
    */
   async deleteJournal(request: DeleteJournalRequest): Promise<DeleteJournalResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}?action=delete`, {
+      const response = await authorizedFetch(`${this.baseUrl}?action=delete`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': request.userId
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           journalId: request.journalId,
@@ -352,11 +744,10 @@ export class JournalService {
         request: request
       });
 
-      const response = await fetch(`${this.baseUrl}?action=list`, {
+      const response = await authorizedFetch(`${this.baseUrl}?action=list`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': request.userId
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           userId: request.userId,
@@ -385,7 +776,7 @@ export class JournalService {
    */
   async healthCheck(): Promise<JournalResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}?action=health`, {
+      const response = await authorizedFetch(`${this.baseUrl}?action=health`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json'
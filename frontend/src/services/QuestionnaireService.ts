@@ -0,0 +1,76 @@
+import { ParameterFreshness, QuestionDefinition, QuestionnaireDefinition, QuestionnaireLanguage } from '../types/QuestionnaireTypes';
+
+const QUESTIONNAIRE_URL = 'https://questionnaire-tipjtjdkwq-uc.a.run.app';
+
+// The definition only changes with a deploy - fetch it once per page load
+let questionnairePromise: Promise<QuestionnaireDefinition> | null = null;
+
+export class QuestionnaireService {
+  /**
+   * Load the questionnaire definition (parameters, allowed values, labels, synonyms)
+   */
+  static load(): Promise<QuestionnaireDefinition> {
+    if (!questionnairePromise) {
+      questionnairePromise = fetch(QUESTIONNAIRE_URL)
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error('Failed to load questionnaire definition');
+          }
+          const result = await response.json();
+          return result.data as QuestionnaireDefinition;
+        })
+        .catch((error) => {
+          // Allow a retry on the next call
+          questionnairePromise = null;
+          throw error;
+        });
+    }
+    return questionnairePromise;
+  }
+
+  static getQuestion(definition: QuestionnaireDefinition, parameter: string): QuestionDefinition | undefined {
+    return definition.questions.find(question => question.parameter === parameter);
+  }
+
+  static getLabel(definition: QuestionnaireDefinition | null, parameter: string, language: QuestionnaireLanguage): string {
+    const question = definition ? QuestionnaireService.getQuestion(definition, parameter) : undefined;
+    return question ? question.label[language] : parameter.replace(/([A-Z])/g, ' $1').trim();
+  }
+
+  /**
+   * Map an answer (allowed value in any case, or a synonym in any language) to its allowed value
+   * Returns the input unchanged when it cannot be mapped
+   */
+  static normalizeAnswer(definition: QuestionnaireDefinition, parameter: string, value: string): string {
+    const question = QuestionnaireService.getQuestion(definition, parameter);
+    const inputValue = value.trim().toLowerCase();
+    if (!question || !inputValue) {
+      return value;
+    }
+
+    const canonical = question.allowedValues.find(allowed => allowed.toLowerCase() === inputValue);
+    if (canonical) {
+      return canonical;
+    }
+
+    for (const synonyms of Object.values(question.synonyms)) {
+      for (const [allowed, phrases] of Object.entries(synonyms)) {
+        if (phrases.some(phrase => phrase.toLowerCase() === inputValue)) {
+          return allowed;
+        }
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Stored answers without the stale parameters - those are asked again instead of reused
+   * Everything is kept when the backend sent no freshness information
+   */
+  static withoutStale<T extends Record<string, any>>(wellnessData: T, freshness?: ParameterFreshness): Partial<T> {
+    const stale = freshness?.stale || [];
+    return Object.keys(wellnessData)
+      .filter(key => !stale.includes(key))
+      .reduce((kept, key) => ({ ...kept, [key]: wellnessData[key] }), {} as Partial<T>);
+  }
+}
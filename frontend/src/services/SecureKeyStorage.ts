@@ -0,0 +1,103 @@
+/**
+ * Secure Key Storage Service
+ * Holds the unlocked journal key in memory only, as a non-extractable CryptoKey -
+ * the password itself is not kept once the key is unwrapped
+ */
+
+export class SecureKeyStorage {
+  private static keyCache = new Map<string, CryptoKey>();
+  private static sessionTimeout = 30 * 60 * 1000; // 30 minutes
+  private static sessionTimers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Store the journal key in memory
+   * Key is automatically cleared after session timeout
+   */
+  static storeKey(userEmail: string, key: CryptoKey): void {
+    this.keyCache.set(userEmail, key);
+    this.startTimer(userEmail);
+
+    console.log('🔒 Journal key stored in memory (will auto-clear in 30 minutes)');
+  }
+
+  /**
+   * Retrieve the journal key from memory
+   */
+  static getKey(userEmail: string): CryptoKey | null {
+    return this.keyCache.get(userEmail) || null;
+  }
+
+  /**
+   * Clear the journal key from memory
+   */
+  static clearKey(userEmail: string): void {
+    this.keyCache.delete(userEmail);
+
+    const timer = this.sessionTimers.get(userEmail);
+    if (timer) {
+      clearTimeout(timer);
+      this.sessionTimers.delete(userEmail);
+    }
+
+    console.log('🔒 Journal key cleared from memory');
+  }
+
+  /**
+   * Clear all keys (for logout)
+   */
+  static clearAllKeys(): void {
+    this.keyCache.clear();
+
+    // Clear all timers
+    this.sessionTimers.forEach(timer => clearTimeout(timer));
+    this.sessionTimers.clear();
+
+    console.log('🔒 All journal keys cleared from memory');
+  }
+
+  /**
+   * Check if a key is unlocked for user
+   */
+  static hasKey(userEmail: string): boolean {
+    return this.keyCache.has(userEmail);
+  }
+
+  /**
+   * Extend session timeout for user
+   */
+  static extendSession(userEmail: string): void {
+    if (this.keyCache.has(userEmail)) {
+      this.startTimer(userEmail);
+    }
+  }
+
+  /**
+   * Get security status
+   */
+  static getSecurityStatus(): {
+    hasKeys: boolean;
+    activeSessions: number;
+    sessionTimeout: number;
+  } {
+    return {
+      hasKeys: this.keyCache.size > 0,
+      activeSessions: this.keyCache.size,
+      sessionTimeout: this.sessionTimeout
+    };
+  }
+
+  private static startTimer(userEmail: string): void {
+    // Clear any existing timer for this user
+    const existingTimer = this.sessionTimers.get(userEmail);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const timer = setTimeout(() => {
+      this.clearKey(userEmail);
+      console.log('🔒 Journal key automatically cleared due to session timeout');
+    }, this.sessionTimeout);
+
+    this.sessionTimers.set(userEmail, timer);
+  }
+}
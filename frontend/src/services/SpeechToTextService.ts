@@ -1,4 +1,5 @@
 import { journalConfig } from '../config/journalConfig';
+import { authorizedFetch } from './AuthorizedFetch';
 
 export interface SpeechToTextConfig {
   languageCode: string;
@@ -162,11 +163,10 @@ export class SpeechToTextService {
     try {
       const base64Audio = await this.audioBlobToBase64(audioBlob);
       
-      const response = await fetch(`https://speechtotext-tipjtjdkwq-uc.a.run.app`, {
+      const response = await authorizedFetch(`https://speechtotext-tipjtjdkwq-uc.a.run.app`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': currentUser?.email || 'anonymous'
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           audio: base64Audio,
@@ -0,0 +1,68 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { dayKey, DEFAULT_TIME_ZONE, isValidTimeZone, localDateTime } from '@manoday/wellness-scoring';
+import { db } from '../firebase/config';
+import { authorizedFetch } from './AuthorizedFetch';
+
+const USER_PROFILE_URL = 'https://updateuserprofile-tipjtjdkwq-uc.a.run.app';
+
+function browserTimeZone(): string {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+// Timezone day keys are computed in - the browser's, stored in the profile so Cloud Functions use the same
+let activeTimeZone = browserTimeZone();
+
+export class UserProfileService {
+  static timeZone(): string {
+    return activeTimeZone;
+  }
+
+  /**
+   * Today's day key (yyyy-mm-dd) in the user's timezone
+   */
+  static today(): string {
+    return dayKey(new Date(), activeTimeZone);
+  }
+
+  /**
+   * Local date and time (yyyy-mm-ddThh:mm) of an instant in the user's timezone
+   */
+  static localDateTime(date: Date | number): string {
+    return localDateTime(date, activeTimeZone);
+  }
+
+  /**
+   * Store the browser's timezone in the user's profile when it differs
+   * Keeps the stored timezone when the update fails, so client and server days stay the same
+   */
+  static async syncTimeZone(userEmail: string): Promise<void> {
+    const timeZone = browserTimeZone();
+    let storedTimeZone: unknown;
+    let profileLoaded = false;
+    try {
+      const profile = await getDoc(doc(db, 'user_profiles', userEmail));
+      storedTimeZone = profile.data()?.timeZone;
+      profileLoaded = true;
+
+      if (storedTimeZone !== timeZone) {
+        const response = await authorizedFetch(USER_PROFILE_URL, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ timeZone })
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to update user profile: ${response.status}`);
+        }
+        console.log('🌐 Timezone stored in profile:', { from: storedTimeZone || null, to: timeZone });
+      }
+      activeTimeZone = timeZone;
+    } catch (error) {
+      console.warn('⚠️ Could not sync timezone:', error);
+      // Without a stored timezone the server keys days in UTC
+      if (profileLoaded) {
+        activeTimeZone = isValidTimeZone(storedTimeZone) ? storedTimeZone : DEFAULT_TIME_ZONE;
+      }
+    }
+  }
+}
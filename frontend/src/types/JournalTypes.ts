@@ -1,3 +1,5 @@
+import { WrappedJournalKey } from '../services/ClientEncryptionService';
+
 export interface JournalEntry {
   id: string;
   title: string;
@@ -8,6 +10,29 @@ export interface JournalEntry {
   isEncrypted: boolean;
   encryptedData?: string;
   iv?: string;
+  // Entries encrypted with a per-entry password-derived key, before the journal key
+  salt?: string;
+  // Entries encrypted with the user's journal key
+  keyVersion?: number;
+  // JournalMetadata encrypted with the journal key - decrypted in bulk for the list
+  encryptedMetadata?: string;
+  metadataIv?: string;
+}
+
+// What an entry's encrypted data holds
+export interface JournalContent {
+  title: string;
+  content: string;
+  mood?: string | null;
+}
+
+// Shown in the list without decrypting whole entries
+export interface JournalMetadata {
+  title: string;
+  // Start of the content (journalConfig.ui.previewLength characters)
+  preview: string;
+  mood: string | null;
+  wordCount: number;
 }
 
 export interface CreateJournalRequest {
@@ -84,6 +109,26 @@ export interface DeleteJournalResponse {
   error?: string;
 }
 
+export interface JournalKeyResponse {
+  success: boolean;
+  // null until the user sets up a journal password
+  data?: WrappedJournalKey | null;
+  error?: string;
+}
+
+export interface LegacyMigrationResult {
+  migrated: number;
+  // Entries that did not decrypt with the password - they keep their old format
+  failed: number;
+  // Entries re-encrypted but not saved - still in their old format, retried on the next run
+  unsaved: number;
+}
+
+export interface MigrationProgress {
+  done: number;
+  total: number;
+}
+
 export interface ReadJournalResponse {
   success: boolean;
   data?: JournalEntry;
@@ -0,0 +1,37 @@
+// Wellness questionnaire definition served by the backend questionnaire endpoint
+// (source: backend/functions/src/questionnaire/wellness-questionnaire.ts)
+
+export type QuestionnaireLanguage = 'en' | 'hi';
+
+export type LocalizedText = Record<QuestionnaireLanguage, string>;
+
+export type QuestionType = 'categorical' | 'ordinal' | 'integer' | 'boolean';
+
+export interface QuestionDefinition {
+  parameter: string;
+  type: QuestionType;
+  modelFeature: string;
+  allowedValues: string[];
+  defaultValue: string;
+  modelFallbackValue: string;
+  freshForDays: number;
+  label: LocalizedText;
+  question: LocalizedText;
+  synonyms: Record<QuestionnaireLanguage, Record<string, string[]>>;
+  reasons: Record<QuestionnaireLanguage, Record<string, string>>;
+  notes?: string[];
+}
+
+export interface QuestionnaireDefinition {
+  version: string;
+  questions: QuestionDefinition[];
+}
+
+// ISO time each stored parameter was last answered (getEncryptedInsights)
+export type ParameterTimestamps = Record<string, string>;
+
+// Stored parameters inside / past their freshness window
+export interface ParameterFreshness {
+  fresh: string[];
+  stale: string[];
+}
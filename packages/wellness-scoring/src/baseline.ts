@@ -0,0 +1,87 @@
+import { WriAnomaly, WriBaseline, WriBaselinePoint, WriDeterioration, WriHistoryPoint } from './types';
+
+// Previous scored days each baseline looks back over, and the fewest it needs
+const BASELINE_WINDOW = 28;
+const MIN_BASELINE_DAYS = 7;
+// MAD × 1.4826 estimates the standard deviation of normally distributed scores
+const MAD_SCALE = 1.4826;
+// Floor on the spread (WRI points) so a very steady history does not turn small wobbles into anomalies
+const MIN_SPREAD = 3;
+// Modified z-score at which a single day is anomalous (Iglewicz & Hoaglin)
+const ANOMALY_Z = 3.5;
+// This many days in a row at or above ELEVATED_Z count as a sustained deterioration
+const ELEVATED_Z = 1.5;
+const SUSTAINED_DAYS = 3;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const round = (value: number, digits: number = 1) => Number(value.toFixed(digits));
+
+/**
+ * Personal baseline over a daily WRI history - rolling median and MAD of the previous days
+ * Every day is scored only against the days before it, so an unusual day cannot raise its own baseline
+ */
+export function computeBaseline(history: WriHistoryPoint[]): WriBaseline {
+  const days = history
+    .filter(point => Number.isFinite(point.wri))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const series: WriBaselinePoint[] = [];
+  days.forEach((day, index) => {
+    const previous = days.slice(Math.max(0, index - BASELINE_WINDOW), index).map(point => point.wri);
+    if (previous.length < MIN_BASELINE_DAYS) {
+      return;
+    }
+    const center = median(previous);
+    const mad = median(previous.map(value => Math.abs(value - center)));
+    const spread = Math.max(MAD_SCALE * mad, MIN_SPREAD);
+    series.push({
+      date: day.date,
+      wri: day.wri,
+      median: round(center),
+      mad: round(mad),
+      z: round((day.wri - center) / spread, 2),
+      ...(day.day_basis === 'utc' ? { day_basis: day.day_basis } : {})
+    });
+  });
+
+  const anomalies: WriAnomaly[] = series
+    .filter(point => Math.abs(point.z) >= ANOMALY_Z)
+    .map(({ date, wri, median: center, z }) => ({ date, wri, median: center, z, direction: z > 0 ? 'worse' : 'better' }));
+
+  const deteriorations: WriDeterioration[] = [];
+  let run: WriBaselinePoint[] = [];
+  const closeRun = (ongoing: boolean) => {
+    if (run.length >= SUSTAINED_DAYS) {
+      deteriorations.push({
+        start: run[0].date,
+        end: run[run.length - 1].date,
+        days: run.length,
+        mean_excess: round(run.reduce((total, point) => total + point.wri - point.median, 0) / run.length),
+        ongoing
+      });
+    }
+    run = [];
+  };
+  series.forEach(point => {
+    if (point.z >= ELEVATED_Z) {
+      run.push(point);
+    } else {
+      closeRun(false);
+    }
+  });
+  closeRun(true);
+
+  return {
+    method: 'rolling-median-mad',
+    window: BASELINE_WINDOW,
+    series,
+    anomalies,
+    deteriorations,
+    sustained_deterioration: deteriorations.some(deterioration => deterioration.ongoing)
+  };
+}
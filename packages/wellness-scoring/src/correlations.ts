@@ -0,0 +1,79 @@
+import { CorrelationCondition, DailyWriRecord, InputName, NormalizedInputs, SubscoreName, WriCorrelation } from './types';
+
+// Each side of a comparison needs this many days before anything is reported
+const MIN_GROUP_DAYS = 3;
+// Differences smaller than this (points) are not worth telling the user about
+const MIN_DIFFERENCE = 5;
+// Under this many hours counts as a short night
+const SHORT_SLEEP_HOURS = 5;
+
+interface ConditionDefinition {
+  condition: CorrelationCondition;
+  metric: 'wri' | SubscoreName;
+  // Input the condition reads - days where it was imputed are left out
+  input?: InputName;
+  // undefined when the day does not say either way
+  test: (inputs: NormalizedInputs) => boolean | undefined;
+}
+
+const CONDITIONS: ConditionDefinition[] = [
+  { condition: 'short_sleep', metric: 'wri', input: 'sleep_hours', test: inputs => inputs.sleep_hours < SHORT_SLEEP_HOURS },
+  {
+    condition: 'journaling',
+    metric: 'stress_level',
+    test: inputs => (inputs.journal_entries_today === undefined ? undefined : inputs.journal_entries_today > 0)
+  },
+  { condition: 'high_stress', metric: 'sleep', input: 'stress_level', test: inputs => inputs.stress_level === 'high' },
+  { condition: 'high_academic_pressure', metric: 'wri', input: 'academic_pressure', test: inputs => inputs.academic_pressure === 'high' },
+  { condition: 'often_lonely', metric: 'mood', input: 'loneliness', test: inputs => inputs.loneliness === 'often' },
+  { condition: 'strong_social_support', metric: 'wri', input: 'social_support', test: inputs => inputs.social_support === 'strong' }
+];
+
+type CorrelationDay = Pick<DailyWriRecord, 'date' | 'wri' | 'subscores' | 'inputs'>;
+
+const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+const round = (value: number) => Number(value.toFixed(1));
+
+/**
+ * Relationships in the user's own daily history - the average WRI (or subscore) on days with a condition
+ * against the days without it, strongest first
+ * Only days stored with their inputs can be used, and an imputed answer says nothing about the day.
+ */
+export function findCorrelations(days: CorrelationDay[]): WriCorrelation[] {
+  const correlations: WriCorrelation[] = [];
+
+  CONDITIONS.forEach(({ condition, metric, input, test }) => {
+    const withCondition: number[] = [];
+    const withoutCondition: number[] = [];
+    days.forEach(day => {
+      if (!day.inputs || (input && day.inputs.imputed?.includes(input))) {
+        return;
+      }
+      const value = metric === 'wri' ? day.wri : day.subscores?.[metric] * 100;
+      const result = test(day.inputs);
+      if (result === undefined || !Number.isFinite(value)) {
+        return;
+      }
+      (result ? withCondition : withoutCondition).push(value);
+    });
+
+    if (withCondition.length < MIN_GROUP_DAYS || withoutCondition.length < MIN_GROUP_DAYS) {
+      return;
+    }
+    const difference = mean(withCondition) - mean(withoutCondition);
+    if (Math.abs(difference) < MIN_DIFFERENCE) {
+      return;
+    }
+    correlations.push({
+      condition,
+      metric,
+      difference: round(difference),
+      mean_with: round(mean(withCondition)),
+      mean_without: round(mean(withoutCondition)),
+      days_with: withCondition.length,
+      days_without: withoutCondition.length
+    });
+  });
+
+  return correlations.sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+}
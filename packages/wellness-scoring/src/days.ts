@@ -0,0 +1,95 @@
+// Day keys (yyyy-mm-dd) in the user's own timezone - a journal written at 2 AM belongs to that night,
+// not to the UTC date
+
+// Users without a stored timezone keep the UTC days everything was keyed by before
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock parts of an instant in the timezone
+function localParts(time: number, timeZone: string): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts = formatterFor(timeZone).formatToParts(new Date(time));
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute'), second: value('second') };
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * True for a timezone name the runtime knows (e.g. "Asia/Kolkata")
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) {
+    return false;
+  }
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar day (yyyy-mm-dd) of an instant in the timezone
+ */
+export function dayKey(date: Date | number = new Date(), timeZone: string = DEFAULT_TIME_ZONE): string {
+  const { year, month, day } = localParts(typeof date === 'number' ? date : date.getTime(), timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Local date and time (yyyy-mm-ddThh:mm) of an instant in the timezone
+ */
+export function localDateTime(date: Date | number, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const { hour, minute } = localParts(typeof date === 'number' ? date : date.getTime(), timeZone);
+  return `${dayKey(date, timeZone)}T${pad(hour)}:${pad(minute)}`;
+}
+
+/**
+ * The day the given number of days before (negative) or after a day key - plain calendar arithmetic
+ */
+export function shiftDay(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Milliseconds the timezone is ahead of UTC at an instant
+function offsetAt(time: number, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = localParts(time, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(time / 1000) * 1000;
+}
+
+// Instant of local midnight starting the day
+function startOfDay(day: string, timeZone: string): number {
+  const midnightUtc = Date.parse(`${day}T00:00:00Z`);
+  const guess = midnightUtc - offsetAt(midnightUtc, timeZone);
+  // Second pass in case the offset changes (daylight saving) between the guess and midnight
+  return midnightUtc - offsetAt(guess, timeZone);
+}
+
+/**
+ * Instants (ms) the day starts at and the next day starts at, in the timezone
+ */
+export function dayBounds(day: string, timeZone: string = DEFAULT_TIME_ZONE): { start: number; end: number } {
+  return { start: startOfDay(day, timeZone), end: startOfDay(shiftDay(day, 1), timeZone) };
+}
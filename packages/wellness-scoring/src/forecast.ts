@@ -0,0 +1,184 @@
+import { RiskBand, ScoringProfile, WriForecast, WriForecastPoint, WriHistoryPoint } from './types';
+import { getScoringProfile } from './profiles';
+import { riskBandFor } from './wri';
+import { shiftDay } from './days';
+
+// Weekly cycle - exam weeks and weekends repeat on the same weekdays
+const SEASON_LENGTH = 7;
+// Fewest consecutive days worth forecasting from; weekly seasonality needs two full weeks
+const MIN_FORECAST_DAYS = 7;
+const MIN_SEASONAL_DAYS = 2 * SEASON_LENGTH;
+// Longer gaps than this break the series - only the days after the last one are used
+const MAX_GAP_DAYS = 7;
+// Today may not be scored yet, but an older last score would start the projection in the past
+const MAX_STALE_DAYS = 1;
+// Damped trend so a few bad days are not extrapolated straight into the red band
+const TREND_DAMPING = 0.9;
+// z for an 80% prediction interval
+const INTERVAL_Z = 1.2816;
+
+// Smoothing parameters tried when fitting - the pair/triple with the lowest one-step error wins
+const ALPHAS = [0.2, 0.4, 0.6, 0.8];
+const BETAS = [0.05, 0.15, 0.3];
+const GAMMAS = [0.1, 0.3, 0.5];
+
+const BAND_ORDER: RiskBand[] = ['green', 'yellow', 'orange', 'red'];
+
+interface SmoothingFit {
+  level: number;
+  trend: number;
+  season: number[];
+  residuals: number[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+const round = (value: number) => Number(value.toFixed(1));
+
+/**
+ * One value per calendar day from the last unbroken stretch of history
+ * Missing days inside the stretch are interpolated linearly. Legacy UTC days can sit on the wrong
+ * weekday for the seasonality, so they are left out once a week of the user's own days follows them.
+ */
+function toDailySeries(history: WriHistoryPoint[]): { start: number; values: number[] } {
+  const points = history
+    .filter(point => Number.isFinite(point.wri) && Number.isFinite(toTime(point.date)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  let first = 0;
+  for (let i = 1; i < points.length; i++) {
+    if ((toTime(points[i].date) - toTime(points[i - 1].date)) / DAY_MS > MAX_GAP_DAYS) {
+      first = i;
+    }
+  }
+  const lastUtcDay = points.map(point => point.day_basis).lastIndexOf('utc');
+  if (lastUtcDay >= first && points.length - 1 - lastUtcDay >= MIN_FORECAST_DAYS) {
+    first = lastUtcDay + 1;
+  }
+  const stretch = points.slice(first);
+  if (stretch.length === 0) {
+    return { start: 0, values: [] };
+  }
+
+  const start = toTime(stretch[0].date);
+  const values: number[] = [stretch[0].wri];
+  for (let i = 1; i < stretch.length; i++) {
+    const gap = Math.round((toTime(stretch[i].date) - toTime(stretch[i - 1].date)) / DAY_MS);
+    for (let day = 1; day <= gap; day++) {
+      values.push(stretch[i - 1].wri + (stretch[i].wri - stretch[i - 1].wri) * day / gap);
+    }
+  }
+  return { start, values };
+}
+
+const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+/**
+ * Additive Holt-Winters with a damped trend - seasonLength 0 fits Holt's linear method instead
+ */
+function fitSmoothing(values: number[], alpha: number, beta: number, gamma: number, seasonLength: number): SmoothingFit {
+  const seasonal = seasonLength > 0;
+  let level: number;
+  let trend: number;
+  let start: number;
+  const season: number[] = [];
+
+  if (seasonal) {
+    const firstSeason = mean(values.slice(0, seasonLength));
+    level = firstSeason;
+    trend = (mean(values.slice(seasonLength, 2 * seasonLength)) - firstSeason) / seasonLength;
+    values.slice(0, seasonLength).forEach(value => season.push(value - firstSeason));
+    start = seasonLength;
+  } else {
+    level = values[0];
+    trend = values[1] - values[0];
+    start = 1;
+  }
+
+  const residuals: number[] = [];
+  for (let t = start; t < values.length; t++) {
+    const seasonalComponent = seasonal ? season[t % seasonLength] : 0;
+    residuals.push(values[t] - (level + TREND_DAMPING * trend + seasonalComponent));
+
+    const previousLevel = level;
+    level = alpha * (values[t] - seasonalComponent) + (1 - alpha) * (previousLevel + TREND_DAMPING * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * TREND_DAMPING * trend;
+    if (seasonal) {
+      season[t % seasonLength] = gamma * (values[t] - level) + (1 - gamma) * seasonalComponent;
+    }
+  }
+  return { level, trend, season, residuals };
+}
+
+const sumOfSquares = (residuals: number[]) => residuals.reduce((total, residual) => total + residual * residual, 0);
+
+/**
+ * Forecast the next days of WRI from the daily history (e.g. the last 60 days)
+ * Holt-Winters with weekly seasonality once two weeks are available, Holt's linear method before that.
+ * Returns null when there is too little recent history to say anything, or when the last score
+ * is older than yesterday in the user's day key (`today`).
+ */
+export function forecastWri(
+  history: WriHistoryPoint[],
+  today?: string,
+  horizon: number = 7,
+  profile: ScoringProfile = getScoringProfile()
+): WriForecast | null {
+  const { start, values } = toDailySeries(history);
+  if (values.length < MIN_FORECAST_DAYS) {
+    return null;
+  }
+  const lastObserved = toDate(start + (values.length - 1) * DAY_MS);
+  if (today && lastObserved < shiftDay(today, -MAX_STALE_DAYS)) {
+    return null;
+  }
+
+  const seasonLength = values.length >= MIN_SEASONAL_DAYS ? SEASON_LENGTH : 0;
+  let best: SmoothingFit | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of seasonLength ? GAMMAS : [0]) {
+        const fit = fitSmoothing(values, alpha, beta, gamma, seasonLength);
+        if (!best || sumOfSquares(fit.residuals) < sumOfSquares(best.residuals)) {
+          best = fit;
+        }
+      }
+    }
+  }
+  const fit = best!;
+  const sigma = Math.sqrt(sumOfSquares(fit.residuals) / Math.max(1, fit.residuals.length));
+
+  const points: WriForecastPoint[] = [];
+  let dampedTrend = 0;
+  for (let h = 1; h <= horizon; h++) {
+    dampedTrend += Math.pow(TREND_DAMPING, h) * fit.trend;
+    const index = values.length - 1 + h;
+    const wri = clamp(fit.level + dampedTrend + (seasonLength ? fit.season[index % seasonLength] : 0));
+    // Uncertainty grows with the distance from the last observed day
+    const spread = INTERVAL_Z * sigma * Math.sqrt(h);
+    points.push({
+      date: toDate(start + index * DAY_MS),
+      wri: round(wri),
+      low: round(clamp(wri - spread)),
+      high: round(clamp(wri + spread)),
+      risk_band: riskBandFor(round(wri), profile)
+    });
+  }
+
+  // Early warning when the forecast moves into a worse band that is orange or red
+  const currentBand = riskBandFor(round(values[values.length - 1]), profile);
+  const crossing = points.find(point =>
+    BAND_ORDER.indexOf(point.risk_band) >= BAND_ORDER.indexOf('orange') &&
+    BAND_ORDER.indexOf(point.risk_band) > BAND_ORDER.indexOf(currentBand));
+
+  return {
+    method: seasonLength ? 'holt-winters-additive' : 'holt-linear',
+    horizon,
+    season_length: seasonLength || null,
+    last_observed: lastObserved,
+    points,
+    warning: crossing ? { date: crossing.date, wri: crossing.wri, risk_band: crossing.risk_band } : null
+  };
+}
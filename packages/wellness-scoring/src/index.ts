@@ -0,0 +1,15 @@
+export * from './types';
+export { normalizeInputs } from './normalize';
+export { computeWRI, riskBandFor } from './wri';
+export { computeBaseline } from './baseline';
+export { forecastWri } from './forecast';
+export { findCorrelations } from './correlations';
+export { DEFAULT_TIME_ZONE, dayBounds, dayKey, isValidTimeZone, localDateTime, shiftDay } from './days';
+export { computeJournalBonus, journalMetricsFromCounts, JournalBonus } from './journal';
+export {
+  SCORING_PROFILES,
+  CURRENT_SCORING_PROFILE,
+  LEGACY_SCORING_PROFILE,
+  getScoringProfile,
+  isScoringProfile
+} from './profiles';
@@ -0,0 +1,55 @@
+import { JournalMetrics, ScoringProfile } from './types';
+import { getScoringProfile } from './profiles';
+import { shiftDay } from './days';
+
+export interface JournalBonus {
+  base: number;
+  frequency: number;
+  streak: number;
+  weekly: number;
+  total: number;
+}
+
+// WRI points taken off for journal activity (separate calculation system from the subscores)
+export function computeJournalBonus(metrics: Partial<JournalMetrics>, profile: ScoringProfile = getScoringProfile()): JournalBonus {
+  const rules = profile.journalBonus;
+  const entriesToday = metrics.journal_entries_today || 0;
+  const streakDays = metrics.journal_streak || 0;
+  const weeklyCount = metrics.weekly_journal_count || 0;
+
+  const base = entriesToday > 0 ? rules.entryBase : 0;
+  const frequency = Math.min(rules.perEntryCap, entriesToday * rules.perEntry);
+  // Streak bonus system - escalating rewards
+  const streak = rules.streakTiers.find(tier => streakDays >= tier.minDays)?.points || 0;
+  // Weekly frequency bonus for consistent journaling
+  const weekly = weeklyCount >= rules.weeklyMinEntries ? Math.min(rules.weeklyCap, weeklyCount * rules.perWeeklyEntry) : 0;
+
+  return { base, frequency, streak, weekly, total: base + frequency + streak + weekly };
+}
+
+// Days before the given day that count towards the weekly journal count
+const WEEK_DAYS = 7;
+
+/**
+ * Journal metrics on a day from the number of entries written on each day (yyyy-mm-dd keys)
+ * The streak runs back from the day, or from the day before when nothing was written yet on the day
+ */
+export function journalMetricsFromCounts(entryCounts: Record<string, number>, day: string): JournalMetrics {
+  const has = (date: string) => (entryCounts[date] || 0) > 0;
+  const dates = Object.keys(entryCounts).filter(date => has(date) && date <= day).sort();
+
+  let streak = 0;
+  let checkDay = has(day) ? day : shiftDay(day, -1);
+  while (has(checkDay)) {
+    streak++;
+    checkDay = shiftDay(checkDay, -1);
+  }
+
+  const weekStart = shiftDay(day, -WEEK_DAYS);
+  return {
+    journal_streak: streak,
+    weekly_journal_count: dates.filter(date => date >= weekStart).length,
+    last_journal_date: dates.length ? dates[dates.length - 1] : null,
+    journal_entries_today: entryCounts[day] || 0
+  };
+}
@@ -0,0 +1,49 @@
+import { Hobby, InputName, Level, LonelinessFrequency, Mood, NormalizedInputs, SupportLevel, YesNo } from './types';
+
+// Mapping helpers for existing dataset → spec enums
+// Anything missing or unmappable gets a default and is listed in `imputed`
+export function normalizeInputs(raw: any): NormalizedInputs {
+  const toLower = (v: any) => String(v || '').toLowerCase();
+  const imputed: InputName[] = [];
+  const pick = <T>(name: InputName, mapped: T | undefined, fallback: T): T => {
+    if (mapped === undefined) {
+      imputed.push(name);
+      return fallback;
+    }
+    return mapped;
+  };
+
+  const moodMap: Record<string, Mood> = {
+    happy: 'happy', neutral: 'neutral', sad: 'sad', anxious: 'anxious', depressed: 'depressed',
+    stressed: 'anxious'
+  };
+  const levelMap: Record<string, Level> = { low: 'low', medium: 'medium', high: 'high' };
+  const supportMap: Record<string, SupportLevel> = { weak: 'weak', average: 'medium', strong: 'strong' };
+  const lonelyMap: Record<string, LonelinessFrequency> = { never: 'hardly', sometimes: 'sometimes', often: 'often' };
+  const hobbyMap: Record<string, Hobby> = { sports: 'sports', music: 'music', reading: 'reading', art: 'arts', travel: 'travelling', none: 'reading' };
+  const yesNoMap: Record<string, YesNo> = { yes: 'yes', no: 'no' };
+
+  const sleepAnswer = raw.sleepHours || raw.sleep_hours;
+  const sleepHours = String(sleepAnswer ?? '').trim() ? Number(sleepAnswer) : NaN;
+  const normalized: NormalizedInputs = {
+    mood: pick('mood', moodMap[toLower(raw.mood)], 'neutral'),
+    sleep_hours: pick('sleep_hours', Number.isFinite(sleepHours) ? Math.max(1, Math.min(10, sleepHours)) : undefined, 7),
+    stress_level: pick('stress_level', levelMap[toLower(raw.stressLevel)], 'medium'),
+    academic_pressure: pick('academic_pressure', levelMap[toLower(raw.academicPressure)], 'medium'),
+    social_support: pick('social_support', supportMap[toLower(raw.socialSupport)], 'medium'),
+    loneliness: pick('loneliness', lonelyMap[toLower(raw.loneliness)], 'sometimes'),
+    confidence: pick('confidence', levelMap[toLower(raw.confidenceLevel)], 'medium'),
+    hobby: pick('hobby', hobbyMap[toLower(raw.hobbiesInterest)], 'reading'),
+    journal_writing: pick('journal_writing', yesNoMap[toLower(raw.opennessToJournaling || raw.journal_writing)], 'no'),
+    willingness_for_professional_support: pick('willingness_for_professional_support', yesNoMap[toLower(raw.willingForProfessionalHelp)], 'no')
+  };
+  normalized.imputed = imputed;
+
+  // Preserve journal metrics for bonus calculation
+  if (raw.journal_entries_today !== undefined) normalized.journal_entries_today = Number(raw.journal_entries_today);
+  if (raw.journal_streak !== undefined) normalized.journal_streak = Number(raw.journal_streak);
+  if (raw.weekly_journal_count !== undefined) normalized.weekly_journal_count = Number(raw.weekly_journal_count);
+  if (raw.last_journal_date !== undefined) normalized.last_journal_date = raw.last_journal_date;
+
+  return normalized;
+}
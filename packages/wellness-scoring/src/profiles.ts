@@ -0,0 +1,63 @@
+import { ScoringProfile } from './types';
+
+/**
+ * Scoring profiles - every formula that has produced stored scores, keyed by version
+ * Never edit a released profile: add a new one, point CURRENT_SCORING_PROFILE at it and
+ * run the recompute job so history stays comparable.
+ */
+const WRI_V1: ScoringProfile = {
+  version: 'wri-v1',
+  description: 'Original WRI formula',
+  weights: {
+    mood: .18,
+    sleep: .14,
+    stress_level: .14,
+    academic_pressure: .09,
+    social_support: .09,
+    loneliness: .09,
+    confidence: .09,
+    journal_writing: .12,
+    willingness_for_professional_support: .06
+  },
+  sleep: { targetHours: 8, toleranceHours: 4 },
+  // Highest WRI in each band - anything above orange is red
+  bands: { green: 24, yellow: 49, orange: 74 },
+  journalBonus: {
+    entryBase: 5,
+    perEntry: 3,
+    perEntryCap: 10,
+    // Checked from the longest streak down
+    streakTiers: [
+      { minDays: 30, points: 40 },
+      { minDays: 14, points: 25 },
+      { minDays: 7, points: 15 },
+      { minDays: 3, points: 8 },
+      { minDays: 1, points: 2 }
+    ],
+    weeklyMinEntries: 3,
+    perWeeklyEntry: 2,
+    weeklyCap: 15
+  }
+};
+
+export const SCORING_PROFILES: Record<string, ScoringProfile> = {
+  [WRI_V1.version]: WRI_V1
+};
+
+// Profile used for new scores
+export const CURRENT_SCORING_PROFILE = WRI_V1.version;
+
+// Scores saved before profiles were versioned were all produced by the original formula
+export const LEGACY_SCORING_PROFILE = WRI_V1.version;
+
+// Own keys only - a client-sent "constructor" or "toString" is not a profile
+export function isScoringProfile(version: unknown): version is string {
+  return typeof version === 'string' && Object.prototype.hasOwnProperty.call(SCORING_PROFILES, version);
+}
+
+export function getScoringProfile(version: string = CURRENT_SCORING_PROFILE): ScoringProfile {
+  if (!isScoringProfile(version)) {
+    throw new Error(`Unknown WRI scoring profile: ${version}`);
+  }
+  return SCORING_PROFILES[version];
+}
@@ -0,0 +1,280 @@
+// Types shared by the frontend and Cloud Functions for wellness answers and WRI scoring
+
+// Questionnaire answers as collected by the chatbot (canonical values, e.g. mood "Sad", sleepHours "6")
+export interface WellnessData {
+  mood: string;
+  sleepHours: string;
+  stressLevel: string;
+  academicPressure: string;
+  socialSupport: string;
+  loneliness: string;
+  confidenceLevel: string;
+  hobbiesInterest: string;
+  opennessToJournaling: string;
+  willingForProfessionalHelp: string;
+}
+
+export type WellnessParameter = keyof WellnessData;
+
+// Enums of the WRI spec
+export type Mood = 'happy' | 'neutral' | 'sad' | 'anxious' | 'depressed';
+export type Level = 'low' | 'medium' | 'high';
+export type SupportLevel = 'weak' | 'medium' | 'strong';
+export type LonelinessFrequency = 'often' | 'sometimes' | 'hardly';
+export type Hobby = 'sports' | 'arts' | 'music' | 'travelling' | 'reading';
+export type YesNo = 'yes' | 'no';
+export type RiskBand = 'green' | 'yellow' | 'orange' | 'red';
+export type SymptomFlag = 'none' | 'present' | 'high_priority';
+export type RecommendationCode = 'A1' | 'A2' | 'A3' | 'A4' | 'A5' | 'A6';
+
+// Journal activity used for the WRI journal bonus
+export interface JournalMetrics {
+  journal_streak: number;
+  weekly_journal_count: number;
+  last_journal_date: string | null;
+  journal_entries_today: number;
+}
+
+// Journal_insights/{userId} - kept up to date by the journal entry trigger
+export interface JournalInsightsSummary {
+  // Entries per day (yyyy-mm-dd) - days without entries are left out
+  entry_counts: Record<string, number>;
+  // Metrics as of the last write; journalMetricsFromCounts gives them for any other day
+  metrics: JournalMetrics;
+  // Entry whose write produced this summary
+  last_entry_id: string;
+}
+
+export type NormalizedInputs = {
+  mood: Mood;
+  sleep_hours: number; // 1..10
+  stress_level: Level;
+  academic_pressure: Level;
+  social_support: SupportLevel;
+  loneliness: LonelinessFrequency;
+  confidence: Level;
+  hobby: Hobby;
+  journal_writing: YesNo;
+  willingness_for_professional_support: YesNo;
+  // Inputs filled with a default because the check-in did not collect them (absent = all observed)
+  imputed?: InputName[];
+} & Partial<JournalMetrics>;
+
+// The questionnaire inputs of NormalizedInputs
+export type InputName =
+  | 'mood'
+  | 'sleep_hours'
+  | 'stress_level'
+  | 'academic_pressure'
+  | 'social_support'
+  | 'loneliness'
+  | 'confidence'
+  | 'hobby'
+  | 'journal_writing'
+  | 'willingness_for_professional_support';
+
+// How much of the score rests on real answers rather than defaults
+export interface WriUncertainty {
+  observed: InputName[];
+  imputed: InputName[];
+  // Share of questionnaire inputs that were answered, 0-100
+  completeness: number;
+  // Lowest and highest WRI the imputed inputs could have produced
+  range: { low: number; high: number };
+  low_confidence: boolean;
+}
+
+export type SubscoreName =
+  | 'mood'
+  | 'sleep'
+  | 'stress_level'
+  | 'academic_pressure'
+  | 'social_support'
+  | 'loneliness'
+  | 'confidence'
+  | 'journal_writing'
+  | 'willingness_for_professional_support';
+
+export interface StreakBonusTier {
+  minDays: number;
+  points: number;
+}
+
+// One versioned WRI formula - weights, band thresholds and journal bonus tiers
+export interface ScoringProfile {
+  version: string;
+  description: string;
+  // Weight per subscore, summing to 1
+  weights: Record<SubscoreName, number>;
+  // Sleep subscore is the distance from the target, reaching 1 at targetHours ± toleranceHours
+  sleep: { targetHours: number; toleranceHours: number };
+  bands: { green: number; yellow: number; orange: number };
+  journalBonus: {
+    entryBase: number;
+    perEntry: number;
+    perEntryCap: number;
+    streakTiers: StreakBonusTier[];
+    weeklyMinEntries: number;
+    perWeeklyEntry: number;
+    weeklyCap: number;
+  };
+}
+
+export interface WriHistoryPoint {
+  date: string;
+  wri: number;
+  // Scoring profile that produced the score - missing on scores saved before versioning
+  profile_version?: string;
+  // Stored with its inputs, so it can be rescored under another profile
+  recomputable?: boolean;
+  day_basis?: DayBasis;
+}
+
+// One scored day measured against the user's own previous days
+export interface WriBaselinePoint {
+  date: string;
+  wri: number;
+  // Rolling median and median absolute deviation of the days before this one
+  median: number;
+  mad: number;
+  // Robust z-score - distance from the median in (scaled) MADs, positive = higher risk than usual
+  z: number;
+  // Only set on legacy UTC days
+  day_basis?: DayBasis;
+}
+
+// A single day far outside the user's usual range
+export interface WriAnomaly {
+  date: string;
+  wri: number;
+  median: number;
+  z: number;
+  direction: 'worse' | 'better';
+}
+
+// Consecutive days above the user's usual range
+export interface WriDeterioration {
+  start: string;
+  end: string;
+  days: number;
+  // Mean WRI points above the baseline median over the run
+  mean_excess: number;
+  // The run reaches the latest scored day
+  ongoing: boolean;
+}
+
+export interface WriBaseline {
+  method: 'rolling-median-mad';
+  // Previous scored days each baseline is computed from
+  window: number;
+  // Days with enough history for a baseline, oldest first
+  series: WriBaselinePoint[];
+  anomalies: WriAnomaly[];
+  deteriorations: WriDeterioration[];
+  sustained_deterioration: boolean;
+}
+
+export interface WriForecastPoint {
+  date: string;
+  wri: number;
+  // 80% prediction interval
+  low: number;
+  high: number;
+  risk_band: RiskBand;
+}
+
+export interface WriForecast {
+  method: 'holt-winters-additive' | 'holt-linear';
+  horizon: number;
+  // 7 when weekly seasonality was fitted
+  season_length: number | null;
+  // Last day the forecast is based on - the points start the day after
+  last_observed: string;
+  points: WriForecastPoint[];
+  // First forecast day entering orange or red from a better band
+  warning: { date: string; wri: number; risk_band: RiskBand } | null;
+}
+
+// Day conditions the correlation insights compare against the rest of the user's days
+export type CorrelationCondition =
+  | 'short_sleep'
+  | 'journaling'
+  | 'high_stress'
+  | 'high_academic_pressure'
+  | 'often_lonely'
+  | 'strong_social_support';
+
+// A relationship found in the user's own daily history
+export interface WriCorrelation {
+  condition: CorrelationCondition;
+  // What is compared - the WRI or one subscore
+  metric: 'wri' | SubscoreName;
+  // Average on days with the condition minus days without, in points (subscores on the same 0-100 scale)
+  difference: number;
+  mean_with: number;
+  mean_without: number;
+  days_with: number;
+  days_without: number;
+}
+
+export interface WriRecommendation {
+  code: RecommendationCode;
+  title: string;
+  why: string;
+  personalization?: string;
+}
+
+export type WriOutput = {
+  wri: number;
+  profile_version: string;
+  risk_band: RiskBand;
+  subscores: Record<string, number>;
+  flags: {
+    depressive_symptoms: SymptomFlag;
+    anxiety_symptoms: SymptomFlag;
+    burnout_academic_strain: boolean;
+    social_isolation: boolean;
+    help_readiness: boolean;
+  };
+  recommendations: WriRecommendation[];
+  copy: { one_liner: string; band_explainer: string; trend_note?: string };
+  history_indexes?: { weekly_index?: number; monthly_index?: number; volatility?: number };
+  // Personal baseline over the history (only when a history was given)
+  baseline?: WriBaseline;
+  uncertainty: WriUncertainty;
+};
+
+// Document in mood_scores/{email}/daily/{date}
+export interface DailyWriRecord {
+  date: string;
+  wri: number;
+  profile_version?: string;
+  risk_band: RiskBand;
+  subscores: Record<string, number>;
+  flags: WriOutput['flags'];
+  recommendations: WriRecommendation[];
+  history_indexes: { weekly_index: number | null; monthly_index: number | null; volatility: number | null } | null;
+  uncertainty?: WriUncertainty;
+  // What the score was computed from - lets the recompute job score the day again under another profile
+  inputs?: NormalizedInputs;
+  journal_bonus_applied?: boolean;
+  // Missing on days written before the nightly job existed
+  status?: 'checked_in';
+  source?: DailyWriSource;
+  day_basis?: DayBasis;
+}
+
+// Who wrote a daily document - the browser at check-in, or the nightly scheduled job
+export type DailyWriSource = 'client' | 'scheduled';
+
+// Which calendar a daily document's date is in. 'utc' marks the days saved before the user's timezone
+// was stored (set by the day-key migration); missing or 'local' is the user's own day.
+export type DayBasis = 'utc' | 'local';
+
+// A day without a chat or journal entry - stored so the gap is explicit, with no score
+export interface NoCheckInRecord {
+  date: string;
+  status: 'no_check_in';
+  source: 'scheduled';
+  profile_version: string;
+}
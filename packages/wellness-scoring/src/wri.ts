@@ -0,0 +1,208 @@
+import {
+  InputName,
+  Level,
+  LonelinessFrequency,
+  Mood,
+  NormalizedInputs,
+  RecommendationCode,
+  RiskBand,
+  ScoringProfile,
+  SubscoreName,
+  SupportLevel,
+  WriBaseline,
+  WriHistoryPoint,
+  WriOutput,
+  WriRecommendation,
+  WriUncertainty,
+  YesNo
+} from './types';
+import { computeBaseline } from './baseline';
+import { computeJournalBonus } from './journal';
+import { getScoringProfile } from './profiles';
+
+// Questionnaire inputs and the subscore each one drives
+const INPUT_SUBSCORES: Record<InputName, SubscoreName | null> = {
+  mood: 'mood',
+  sleep_hours: 'sleep',
+  stress_level: 'stress_level',
+  academic_pressure: 'academic_pressure',
+  social_support: 'social_support',
+  loneliness: 'loneliness',
+  confidence: 'confidence',
+  hobby: null,
+  journal_writing: 'journal_writing',
+  willingness_for_professional_support: 'willingness_for_professional_support'
+};
+const INPUT_NAMES = Object.keys(INPUT_SUBSCORES) as InputName[];
+
+// A score is flagged low-confidence below this completeness or at this range width
+const LOW_CONFIDENCE_COMPLETENESS = 70;
+const LOW_CONFIDENCE_RANGE = 20;
+
+// Risk band for a WRI score (0 = lowest risk, 100 = highest)
+export function riskBandFor(wri: number, profile: ScoringProfile = getScoringProfile()): RiskBand {
+  const { green, yellow, orange } = profile.bands;
+  return wri <= green ? 'green' : wri <= yellow ? 'yellow' : wri <= orange ? 'orange' : 'red';
+}
+
+// Compute subscores and WRI per the provided spec
+export function computeWRI(
+  inputs: NormalizedInputs,
+  history?: WriHistoryPoint[],
+  applyJournalBonus: boolean = true,
+  profile: ScoringProfile = getScoringProfile()
+): WriOutput {
+  const mapMood: Record<Mood, number> = { happy: 0.0, neutral: 0.25, sad: 0.6, anxious: 0.75, depressed: 1.0 };
+  const map3: Record<Level, number> = { low: 0.0, medium: 0.5, high: 1.0 };
+  const mapSupport: Record<SupportLevel, number> = { weak: 1.0, medium: 0.5, strong: 0.0 };
+  const mapLonely: Record<LonelinessFrequency, number> = { hardly: 0.0, sometimes: 0.5, often: 1.0 };
+  const mapYesNo: Record<YesNo, number> = { yes: 0.0, no: 0.5 }; // Journal 'no' should add penalty, not full 1.0
+  const mapWilling: Record<YesNo, number> = { yes: 0.0, no: 0.5 };
+
+  const subscoreMaps: Record<Exclude<SubscoreName, 'sleep'>, Record<string, number>> = {
+    mood: mapMood,
+    stress_level: map3,
+    academic_pressure: map3,
+    social_support: mapSupport,
+    loneliness: mapLonely,
+    confidence: map3,
+    journal_writing: mapYesNo,
+    willingness_for_professional_support: mapWilling
+  };
+
+  const sleep = Math.min(Math.abs(inputs.sleep_hours - profile.sleep.targetHours) / profile.sleep.toleranceHours, 1);
+  const subscores = {
+    mood: mapMood[inputs.mood],
+    sleep,
+    stress_level: map3[inputs.stress_level],
+    academic_pressure: map3[inputs.academic_pressure],
+    social_support: mapSupport[inputs.social_support],
+    loneliness: mapLonely[inputs.loneliness],
+    confidence: map3[inputs.confidence],
+    journal_writing: mapYesNo[inputs.journal_writing],
+    willingness_for_professional_support: mapWilling[inputs.willingness_for_professional_support]
+  } as Record<string, number>;
+
+  const w = profile.weights;
+  let wri = Number((100 * (Object.keys(w) as SubscoreName[])
+    .reduce((total, name) => total + subscores[name] * w[name], 0)).toFixed(1));
+
+  // Apply journal bonuses (separate calculation system) - only if explicitly enabled
+  if (applyJournalBonus) {
+    wri = Math.max(0, wri - computeJournalBonus(inputs, profile).total);
+  }
+
+  const band = riskBandFor(wri, profile);
+
+  // Uncertainty - each imputed input could have been any of its values
+  const imputed = INPUT_NAMES.filter(name => inputs.imputed?.includes(name));
+  const observed = INPUT_NAMES.filter(name => !imputed.includes(name));
+  let lowShift = 0;
+  let highShift = 0;
+  imputed.forEach(name => {
+    const subscore = INPUT_SUBSCORES[name];
+    if (!subscore) {
+      return; // hobby only personalizes recommendations
+    }
+    const values = subscore === 'sleep' ? [0, 1] : Object.values(subscoreMaps[subscore]);
+    lowShift += (subscores[subscore] - Math.min(...values)) * w[subscore] * 100;
+    highShift += (Math.max(...values) - subscores[subscore]) * w[subscore] * 100;
+  });
+  const range = {
+    low: Number(Math.max(0, wri - lowShift).toFixed(1)),
+    high: Number(Math.min(100, wri + highShift).toFixed(1))
+  };
+  const completeness = Math.round(100 * observed.length / INPUT_NAMES.length);
+  const uncertainty: WriUncertainty = {
+    observed,
+    imputed,
+    completeness,
+    range,
+    low_confidence: completeness < LOW_CONFIDENCE_COMPLETENESS || range.high - range.low >= LOW_CONFIDENCE_RANGE
+  };
+
+  // Flags
+  const depressive_present = ((inputs.mood === 'sad' || inputs.mood === 'depressed') || wri >= 50) && (subscores.loneliness >= .5 || subscores.social_support >= .5 || subscores.confidence >= .5 || subscores.sleep >= .5);
+  const depressive_high = (inputs.mood === 'depressed' && wri >= 75);
+  const anxiety_present = (inputs.mood === 'anxious' || subscores.stress_level >= .5 || subscores.academic_pressure >= .5) && (subscores.sleep >= .5 || subscores.confidence >= .5);
+  const anxiety_high = (inputs.stress_level === 'high' && inputs.academic_pressure === 'high');
+  const burnout = (inputs.stress_level === 'high' && inputs.academic_pressure === 'high' && subscores.sleep >= .5);
+  const isolation = (inputs.social_support === 'weak' || inputs.loneliness === 'often');
+  const help_ready = (inputs.willingness_for_professional_support === 'yes');
+
+  const flags: WriOutput['flags'] = {
+    depressive_symptoms: depressive_high ? 'high_priority' : depressive_present ? 'present' : 'none',
+    anxiety_symptoms: anxiety_high ? 'high_priority' : anxiety_present ? 'present' : 'none',
+    burnout_academic_strain: burnout,
+    social_isolation: isolation,
+    help_readiness: help_ready
+  };
+
+  // Recommendations per policy
+  const recs: WriRecommendation[] = [];
+  const add = (code: RecommendationCode, title: string, why: string, personalization?: string) => {
+    if (!recs.find(r => r.code === code)) recs.push({ code, title, why, personalization });
+  };
+  if (wri >= 75 || flags.depressive_symptoms === 'high_priority' || flags.anxiety_symptoms === 'high_priority') {
+    add('A1', 'Professional help', 'High risk indicators; a counselor can provide structured support and planning.');
+  }
+  if (inputs.stress_level === 'high' || flags.anxiety_symptoms !== 'none') {
+    add('A3', 'Meditation & yoga', 'Stress/anxiety signals present and sleep deviation; short daily practice can reduce arousal.');
+  }
+  if (inputs.academic_pressure !== 'low' || inputs.confidence !== 'high') {
+    add('A2', 'Goal tracker (micro-goals)', 'Academic pressure and/or reduced confidence benefit from small, time-boxed steps.');
+  }
+  if (inputs.journal_writing === 'no' && wri >= 25) {
+    add('A4', 'Journaling', 'Risk is elevated and journaling is off; brief daily reflection can offload worry and track triggers.');
+  }
+  if (flags.social_isolation) {
+    const hobbyText = inputs.hobby === 'music' ? 'group jam or choir trial' : inputs.hobby === 'sports' ? 'beginner sports circle' : inputs.hobby === 'arts' ? 'art club meetup' : inputs.hobby === 'reading' ? 'reading circle' : 'beginner group';
+    add('A5', 'Hobbies (group-based)', 'Social isolation indicators; group-based hobby can rebuild support.', `Match to hobby=${inputs.hobby} → suggest ${hobbyText}.`);
+  }
+  if (wri < 50) {
+    add('A6', 'Wanderlust / light outings', 'Lower risk band; light outings can stabilize routine and mood.');
+  }
+  // Limit to 5, drop lowest-weight sourced ones last
+  if (recs.length > 5) {
+    const priority: Record<RecommendationCode, number> = { A1: 1, A3: 2, A2: 3, A5: 4, A6: 5, A4: 6 }; // drop later items first
+    recs.sort((a,b)=>priority[a.code]-priority[b.code]);
+    recs.splice(5);
+  }
+
+  // Copy
+  const copy: WriOutput['copy'] = {
+    one_liner: band === 'red' ? 'High stress indicators—let’s combine support with small daily wins.' : band === 'orange' ? 'Risk is elevated; consistent routines can help this week.' : band === 'yellow' ? 'Moderate risk—small adjustments can improve your days.' : 'You’re in the green—keep nurturing your habits.',
+    band_explainer: band === 'red' ? 'Red band = prioritize support and structure now.' : band === 'orange' ? 'Orange band = elevated signals; add supportive routines.' : band === 'yellow' ? 'Yellow band = watchful mode; keep an eye on patterns.' : 'Green band = stable; maintain helpful activities.',
+    trend_note: undefined
+  };
+
+  // History indices (if provided)
+  let weekly_index: number|undefined, monthly_index: number|undefined, volatility: number|undefined;
+  let baseline: WriBaseline | undefined;
+  if (history && history.length) {
+    const last7 = history.slice(-7).map(h=>h.wri);
+    const last28 = history.slice(-28).map(h=>h.wri);
+    const mean = (arr: number[]) => arr.length ? arr.reduce((a,b)=>a+b,0)/arr.length : undefined;
+    weekly_index = mean(last7);
+    monthly_index = mean(last28);
+    if (last7.length) {
+      const m = mean(last7)!; const varsum = last7.reduce((a,b)=>a+(b-m)*(b-m),0)/last7.length; volatility = Math.sqrt(varsum);
+    }
+    if (weekly_index !== undefined && last7.length===7) {
+      const prev = history.slice(-14,-7).map(h=>h.wri); const pm = mean(prev);
+      if (pm !== undefined) {
+        const delta = Number((weekly_index - pm).toFixed(1));
+        copy.trend_note = delta >= 5 ? 'Trending up.' : delta <= -5 ? 'Trending down, let’s tighten routines.' : undefined;
+      }
+    }
+
+    // A run of days above the personal baseline says more than the week-over-week delta
+    baseline = computeBaseline(history);
+    const ongoing = baseline.deteriorations.find(deterioration => deterioration.ongoing);
+    if (ongoing) {
+      copy.trend_note = `Above your usual range for ${ongoing.days} days in a row—worth checking in on what changed.`;
+    }
+  }
+
+  return { wri, profile_version: profile.version, risk_band: band, subscores, flags, recommendations: recs, copy, history_indexes: { weekly_index, monthly_index, volatility }, baseline, uncertainty };
+}
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeBaseline, shiftDay, WriHistoryPoint } from '../src';
+
+// One point per day from 2026-01-01
+const daily = (values: number[]): WriHistoryPoint[] =>
+  values.map((wri, index) => ({ date: shiftDay('2026-01-01', index), wri }));
+
+describe('computeBaseline', () => {
+  it('needs a week of earlier days before scoring a day', () => {
+    const baseline = computeBaseline(daily([30, 31, 30, 32, 30, 31, 30]));
+    assert.deepEqual(baseline.series, []);
+    assert.equal(baseline.sustained_deterioration, false);
+
+    const withEighth = computeBaseline(daily([30, 31, 30, 32, 30, 31, 30, 31]));
+    assert.equal(withEighth.series.length, 1);
+    assert.equal(withEighth.series[0].date, '2026-01-08');
+  });
+
+  it('scores each day against the median of the days before it', () => {
+    const baseline = computeBaseline(daily([30, 32, 30, 32, 30, 32, 30, 40]));
+    const [point] = baseline.series;
+    assert.equal(point.median, 30);
+    assert.equal(point.mad, 0);
+    // A MAD of zero falls back to the minimum spread of 3 points
+    assert.equal(point.z, 3.33);
+  });
+
+  it('flags a single day far outside the usual range as an anomaly', () => {
+    const baseline = computeBaseline(daily([30, 31, 30, 32, 30, 31, 30, 31, 30, 31, 60, 31]));
+    assert.equal(baseline.anomalies.length, 1);
+    assert.equal(baseline.anomalies[0].date, '2026-01-11');
+    assert.equal(baseline.anomalies[0].direction, 'worse');
+    // Measured against the days before it only - the spike is not part of its own baseline
+    assert.equal(baseline.anomalies[0].median, 30.5);
+  });
+
+  it('reports an ongoing run of elevated days as a sustained deterioration', () => {
+    const baseline = computeBaseline(daily([...Array(10).fill(30), 36, 36, 36]));
+    assert.deepEqual(baseline.anomalies, []);
+    assert.deepEqual(baseline.deteriorations, [
+      { start: '2026-01-11', end: '2026-01-13', days: 3, mean_excess: 6, ongoing: true }
+    ]);
+    assert.equal(baseline.sustained_deterioration, true);
+  });
+
+  it('closes a run when a day returns to normal', () => {
+    const baseline = computeBaseline(daily([...Array(10).fill(30), 36, 36, 36, 30]));
+    assert.equal(baseline.deteriorations.length, 1);
+    assert.equal(baseline.deteriorations[0].ongoing, false);
+    assert.equal(baseline.sustained_deterioration, false);
+  });
+
+  it('marks the days keyed by UTC day', () => {
+    const history = daily([30, 31, 30, 32, 30, 31, 30, 31, 30])
+      .map((point, index) => (index < 8 ? { ...point, day_basis: 'utc' as const } : point));
+    const baseline = computeBaseline(history);
+    assert.deepEqual(baseline.series.map(point => point.day_basis), ['utc', undefined]);
+  });
+
+  it('ignores the order of the history and days without a score', () => {
+    const history = daily([30, 31, 30, 32, 30, 31, 30, 31]);
+    const shuffled = [...history].reverse().concat({ date: '2026-01-09', wri: NaN });
+    assert.deepEqual(computeBaseline(shuffled), computeBaseline(history));
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DailyWriRecord, findCorrelations, normalizeInputs, shiftDay } from '../src';
+
+type Day = Pick<DailyWriRecord, 'date' | 'wri' | 'subscores' | 'inputs'>;
+
+// Fully answered check-in - overrides change single answers
+const ANSWERS = {
+  mood: 'Neutral',
+  sleepHours: '7',
+  stressLevel: 'Medium',
+  academicPressure: 'Medium',
+  socialSupport: 'Average',
+  loneliness: 'Sometimes',
+  confidenceLevel: 'Medium',
+  hobbiesInterest: 'Music',
+  opennessToJournaling: 'Yes',
+  willingForProfessionalHelp: 'No'
+};
+
+let dayIndex = 0;
+const day = (wri: number, answers: Record<string, string> = {}, subscores: Record<string, number> = {}): Day => ({
+  date: shiftDay('2026-01-01', dayIndex++),
+  wri,
+  subscores,
+  inputs: normalizeInputs({ ...ANSWERS, ...answers })
+});
+
+describe('findCorrelations', () => {
+  it('compares the WRI on short-sleep nights with the other days', () => {
+    const days = [
+      day(60, { sleepHours: '4' }), day(64, { sleepHours: '3' }), day(62, { sleepHours: '4' }),
+      day(40), day(42), day(44)
+    ];
+    assert.deepEqual(findCorrelations(days), [{
+      condition: 'short_sleep',
+      metric: 'wri',
+      difference: 20,
+      mean_with: 62,
+      mean_without: 42,
+      days_with: 3,
+      days_without: 3
+    }]);
+  });
+
+  it('needs three days on each side', () => {
+    const days = [day(60, { sleepHours: '4' }), day(64, { sleepHours: '3' }), day(40), day(42), day(44)];
+    assert.deepEqual(findCorrelations(days), []);
+  });
+
+  it('leaves out differences under five points', () => {
+    const days = [
+      day(45, { sleepHours: '4' }), day(46, { sleepHours: '3' }), day(44, { sleepHours: '4' }),
+      day(42), day(42), day(42)
+    ];
+    assert.deepEqual(findCorrelations(days), []);
+  });
+
+  it('does not count days where the answer was imputed', () => {
+    // No sleep answer - imputed as 7 hours, which would otherwise count as a normal night
+    const imputedSleep = (wri: number): Day => ({ ...day(wri), inputs: normalizeInputs({ ...ANSWERS, sleepHours: '' }) });
+    const days = [
+      day(60, { sleepHours: '4' }), day(64, { sleepHours: '3' }), day(62, { sleepHours: '4' }),
+      imputedSleep(90), imputedSleep(90), imputedSleep(90)
+    ];
+    assert.deepEqual(findCorrelations(days), []);
+  });
+
+  it('compares subscores on the same 0-100 scale and sorts the strongest first', () => {
+    const days = [
+      day(50, { stressLevel: 'High', sleepHours: '4' }, { sleep: 0.8 }),
+      day(50, { stressLevel: 'High', sleepHours: '4' }, { sleep: 0.7 }),
+      day(50, { stressLevel: 'High', sleepHours: '4' }, { sleep: 0.9 }),
+      day(44, {}, { sleep: 0.2 }),
+      day(44, {}, { sleep: 0.3 }),
+      day(44, {}, { sleep: 0.1 })
+    ];
+    const correlations = findCorrelations(days);
+    assert.deepEqual(correlations.map(correlation => correlation.condition), ['high_stress', 'short_sleep']);
+    assert.equal(correlations[0].metric, 'sleep');
+    assert.equal(correlations[0].difference, 60);
+  });
+
+  it('ignores days stored without their inputs', () => {
+    const days: Day[] = [
+      day(60, { sleepHours: '4' }), day(64, { sleepHours: '3' }), day(62, { sleepHours: '4' }),
+      { date: '2026-03-01', wri: 40, subscores: {} },
+      { date: '2026-03-02', wri: 42, subscores: {} },
+      { date: '2026-03-03', wri: 44, subscores: {} }
+    ];
+    assert.deepEqual(findCorrelations(days), []);
+  });
+});
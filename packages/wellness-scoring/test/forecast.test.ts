@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { forecastWri, shiftDay, WriHistoryPoint } from '../src';
+
+// One point per day from 2026-01-01
+const daily = (values: number[], start: string = '2026-01-01'): WriHistoryPoint[] =>
+  values.map((wri, index) => ({ date: shiftDay(start, index), wri }));
+
+describe('forecastWri', () => {
+  it('returns null with less than a week of history', () => {
+    assert.equal(forecastWri(daily([40, 41, 42, 41, 40, 39])), null);
+  });
+
+  it('uses only the days after a gap of more than a week', () => {
+    const history = [...daily(Array(10).fill(40)), ...daily([40, 41, 42, 41, 40], '2026-01-25')];
+    assert.equal(forecastWri(history), null);
+  });
+
+  it('projects a flat history flat, starting the day after the last score', () => {
+    const forecast = forecastWri(daily(Array(10).fill(40)));
+    assert.ok(forecast);
+    assert.equal(forecast.method, 'holt-linear');
+    assert.equal(forecast.season_length, null);
+    assert.equal(forecast.last_observed, '2026-01-10');
+    assert.deepEqual(forecast.points.map(point => point.date), [
+      '2026-01-11', '2026-01-12', '2026-01-13', '2026-01-14', '2026-01-15', '2026-01-16', '2026-01-17'
+    ]);
+    forecast.points.forEach(point => {
+      assert.equal(point.wri, 40);
+      assert.equal(point.low, 40);
+      assert.equal(point.high, 40);
+      assert.equal(point.risk_band, 'yellow');
+    });
+    assert.equal(forecast.warning, null);
+  });
+
+  it('returns null when the last score is older than yesterday', () => {
+    const history = daily(Array(10).fill(40));
+    assert.ok(forecastWri(history, '2026-01-10'));
+    assert.ok(forecastWri(history, '2026-01-11'));
+    assert.equal(forecastWri(history, '2026-01-12'), null);
+  });
+
+  it('leaves out legacy UTC days once a week of local days follows them', () => {
+    const utcDays = daily(Array(7).fill(70)).map(point => ({ ...point, day_basis: 'utc' as const }));
+    const forecast = forecastWri([...utcDays, ...daily(Array(7).fill(40), '2026-01-08')]);
+    assert.ok(forecast);
+    assert.equal(forecast.method, 'holt-linear');
+    assert.equal(forecast.points[0].wri, 40);
+
+    // Too few local days yet - the UTC days are still used
+    const early = forecastWri([...utcDays, ...daily(Array(3).fill(40), '2026-01-08')]);
+    assert.ok(early);
+    assert.equal(early.last_observed, '2026-01-10');
+  });
+
+  it('fills missing days inside the stretch by interpolation', () => {
+    const history = daily(Array(10).fill(40)).filter((_, index) => index !== 4);
+    const forecast = forecastWri(history);
+    assert.ok(forecast);
+    assert.equal(forecast.last_observed, '2026-01-10');
+    assert.equal(forecast.points[0].wri, 40);
+  });
+
+  it('repeats the weekly pattern once two weeks are available', () => {
+    // Higher risk on the two days of every week with exams
+    const week = [30, 30, 30, 30, 30, 50, 50];
+    const forecast = forecastWri(daily([...week, ...week, ...week]));
+    assert.ok(forecast);
+    assert.equal(forecast.method, 'holt-winters-additive');
+    assert.equal(forecast.season_length, 7);
+    const [weekday, , , , , examDay] = forecast.points.map(point => point.wri);
+    assert.ok(examDay - weekday > 15, `expected the exam days to stand out, got ${weekday} and ${examDay}`);
+  });
+
+  it('widens the interval with the distance from the last observed day', () => {
+    const forecast = forecastWri(daily([40, 44, 38, 45, 39, 43, 37, 46, 40, 42]));
+    assert.ok(forecast);
+    const widths = forecast.points.map(point => point.high - point.low);
+    widths.slice(1).forEach((width, index) => assert.ok(width >= widths[index]));
+    forecast.points.forEach(point => assert.ok(point.low <= point.wri && point.wri <= point.high));
+  });
+
+  it('warns when a rising trend crosses into the orange band', () => {
+    const forecast = forecastWri(daily([20, 23, 26, 29, 32, 35, 38, 41, 44, 47]));
+    assert.ok(forecast);
+    assert.ok(forecast.warning);
+    assert.equal(forecast.warning.risk_band, 'orange');
+    assert.equal(forecast.points.find(point => point.risk_band === 'orange')?.date, forecast.warning.date);
+  });
+});
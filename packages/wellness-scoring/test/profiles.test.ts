@@ -0,0 +1,19 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CURRENT_SCORING_PROFILE, getScoringProfile, isScoringProfile } from '../src';
+
+describe('scoring profiles', () => {
+  it('finds the current profile', () => {
+    assert.equal(isScoringProfile(CURRENT_SCORING_PROFILE), true);
+    assert.equal(getScoringProfile().version, CURRENT_SCORING_PROFILE);
+  });
+
+  it('rejects unknown versions, including names inherited from Object', () => {
+    for (const version of ['wri-v0', 'constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      assert.equal(isScoringProfile(version), false, version);
+      assert.throws(() => getScoringProfile(version), /Unknown WRI scoring profile/);
+    }
+    assert.equal(isScoringProfile(1), false);
+    assert.equal(isScoringProfile(undefined), false);
+  });
+});